@@ -7,12 +7,17 @@ import { MobileMenu } from './components/MobileMenu'
 import { LoadingScreen } from './components/LoadingScreen'
 import { Home } from './pages/Home'
 import { MarketAnalysis } from './pages/MarketAnalysis'
+import { CustomerIntelligence } from './pages/CustomerIntelligence'
+import { DataImport } from './pages/DataImport'
 import { Contact } from './pages/Contact'
+import { loadData, type DataLoadProgress } from './utils/dataLoader'
+import { isPageId, pagePaths, parseLocation, updateLocation, type PageId } from './utils/routing'
 
 function App() {
   const [isLoading, setIsLoading] = useState(true)
+  const [loadProgress, setLoadProgress] = useState<DataLoadProgress>({ progress: 0, message: 'Loading your data...' })
   const [sidebarOpen, setSidebarOpen] = useState(true)
-  const [activePage, setActivePage] = useState('Home')
+  const [activePage, setActivePage] = useState<PageId>(() => parseLocation().page)
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false)
 
   useEffect(() => {
@@ -29,34 +34,63 @@ function App() {
     return () => window.removeEventListener('resize', handleResize)
   }, [])
 
+  // Back and forward move between pages
   useEffect(() => {
-    const timer = setTimeout(() => {
-      setIsLoading(false)
-    }, 2000)
+    const handlePopState = () => setActivePage(parseLocation().page)
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  const navigate = (page: string) => {
+    const target = isPageId(page) ? page : 'Home'
+    // Staying on the page keeps its tab and filters in the URL
+    if (target === activePage) return
+    updateLocation(pagePaths[target])
+    setActivePage(target)
+  }
 
-    return () => clearTimeout(timer)
+  // Generate the market dataset up front so pages open with data ready
+  useEffect(() => {
+    let cancelled = false
+    loadData((progress) => {
+      if (!cancelled) setLoadProgress(progress)
+    })
+      .catch((error) => console.error('Error loading data:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
   }, [])
 
   const renderPage = () => {
     switch (activePage) {
       case 'Home':
-        return <Home onNavigate={setActivePage} />
+        return <Home onNavigate={navigate} />
       case 'MarketAnalysis':
-        return <MarketAnalysis onNavigate={setActivePage} />
+        return <MarketAnalysis onNavigate={navigate} />
+      case 'CustomerIntelligence':
+        return <CustomerIntelligence onNavigate={navigate} />
+      case 'DataImport':
+        return <DataImport onNavigate={navigate} />
       case 'Contact':
-        return <Contact onNavigate={setActivePage} />
+        return <Contact onNavigate={navigate} />
       default:
-        return <Home onNavigate={setActivePage} />
+        return <Home onNavigate={navigate} />
     }
   }
 
   const getPageTitle = () => {
-    const titles: Record<string, string> = {
+    const titles: Record<PageId, string> = {
       'Home': 'Home',
       'MarketAnalysis': 'Market Analysis',
+      'CustomerIntelligence': 'Customer Intelligence',
+      'DataImport': 'Import Data',
       'Contact': 'Contact Us'
     }
-    return titles[activePage] || 'Home'
+    return titles[activePage]
   }
 
   const pageVariants = {
@@ -88,7 +122,7 @@ function App() {
   return (
     <ThemeProvider>
       <AnimatePresence>
-        {isLoading && <LoadingScreen />}
+        {isLoading && <LoadingScreen progress={loadProgress.progress} message={loadProgress.message} />}
       </AnimatePresence>
       <div className="min-h-screen bg-gray-50 dark:bg-navy-dark transition-colors duration-300">
         <MobileMenu onClick={() => setSidebarOpen(true)} />
@@ -96,7 +130,7 @@ function App() {
           isOpen={sidebarOpen}
           onClose={() => setSidebarOpen(false)}
           activeItem={activePage}
-          onNavigate={setActivePage}
+          onNavigate={navigate}
           isCollapsed={sidebarCollapsed}
           onToggleCollapse={() => setSidebarCollapsed(!sidebarCollapsed)}
         />
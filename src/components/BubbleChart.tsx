@@ -9,6 +9,7 @@ import {
   ResponsiveContainer,
   Cell,
   Label,
+  ReferenceLine,
 } from 'recharts'
 import { useTheme } from '../context/ThemeContext'
 import { formatWithCommas } from '../utils/dataGenerator'
@@ -18,13 +19,23 @@ interface BubbleData {
   cagrIndex: number
   marketShareIndex: number
   incrementalOpportunity: number
+  quadrant?: string
   description?: string
 }
 
+// Where the quadrant lines cross, in axis units
+interface QuadrantLines {
+  x: number
+  y: number
+  // Quadrant names: top-right, top-left, bottom-right, bottom-left
+  labels: [string, string, string, string]
+}
+
 interface BubbleChartProps {
   data: BubbleData[]
   xAxisLabel?: string
   yAxisLabel?: string
+  quadrants?: QuadrantLines
 }
 
 // Color palette for bubbles - matches legend colors
@@ -33,7 +44,8 @@ const BUBBLE_COLORS = ['#06B6D4', '#8B5CF6', '#10B981', '#F59E0B', '#EC4899', '#
 export function BubbleChart({ 
   data, 
   xAxisLabel = 'CAGR Index', 
-  yAxisLabel = 'Market Share Index'
+  yAxisLabel = 'Market Share Index',
+  quadrants,
 }: BubbleChartProps) {
   const { theme } = useTheme()
   const isDark = theme === 'dark'
@@ -46,17 +58,17 @@ export function BubbleChart({
     )
   }
 
-  // Normalize bubble sizes based on CAGR Index for visualization
-  const maxCagr = Math.max(...data.map(d => d.cagrIndex))
-  const minCagr = Math.min(...data.map(d => d.cagrIndex))
-  const cagrSizeRange = maxCagr - minCagr
+  // Normalize bubble sizes based on incremental opportunity for visualization
+  const maxOpportunity = Math.max(...data.map(d => d.incrementalOpportunity))
+  const minOpportunity = Math.min(...data.map(d => d.incrementalOpportunity))
+  const opportunitySizeRange = maxOpportunity - minOpportunity
 
   const transformedData = useMemo(() => {
     return data.map((item, index) => {
-      // Scale bubble size based on CAGR Index (min 30, max 100)
-      // Higher CAGR = larger bubble
-      const normalizedSize = cagrSizeRange > 0
-        ? 30 + ((item.cagrIndex - minCagr) / cagrSizeRange) * 70
+      // Scale bubble size based on incremental opportunity (min 30, max 100)
+      // Larger opportunity = larger bubble
+      const normalizedSize = opportunitySizeRange > 0
+        ? 30 + ((item.incrementalOpportunity - minOpportunity) / opportunitySizeRange) * 70
         : 50
 
       return {
@@ -66,7 +78,7 @@ export function BubbleChart({
         colorIndex: index, // Track index for consistent coloring
       }
     })
-  }, [data, maxCagr, minCagr, cagrSizeRange])
+  }, [data, maxOpportunity, minOpportunity, opportunitySizeRange])
 
   // Calculate padding needed for largest bubble to be fully visible
   // We need to add sufficient padding to ensure the largest bubble doesn't get cut off
@@ -86,6 +98,11 @@ export function BubbleChart({
   const cagrPaddingTop = Math.max(2.5, cagrMax * 0.35 * bubblePaddingFactor) // 35% of max value with bubble factor
   const sharePaddingTop = Math.max(2.0, shareMax * 0.35 * bubblePaddingFactor) // 35% of max value with bubble factor
 
+  // Indices below zero (shrinking segments) extend the axis past the origin
+  const xDomain = [Math.min(0, Math.floor(cagrMin)), Math.ceil(cagrMax + cagrPaddingTop)]
+  const yDomain = [Math.min(0, Math.floor(shareMin)), Math.ceil(shareMax + sharePaddingTop)]
+  const quadrantLabelStyle = { fontSize: 13, fontWeight: 700, fill: isDark ? '#A0AEC0' : '#718096' }
+
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload
@@ -105,6 +122,11 @@ export function BubbleChart({
           <p className="text-sm">
             <strong>Incremental Opportunity:</strong> {formatWithCommas(data.incrementalOpportunity, 1)} US$ Mn
           </p>
+          {data.quadrant && (
+            <p className="text-sm mt-1">
+              <strong>Quadrant:</strong> {data.quadrant}
+            </p>
+          )}
           {data.description && (
             <p className="text-xs mt-2 italic text-text-secondary-light dark:text-text-secondary-dark">
               {data.description}
@@ -197,7 +219,7 @@ export function BubbleChart({
             style={{ fontSize: '13px', fontWeight: 500 }}
             tick={{ fill: isDark ? '#E2E8F0' : '#2D3748', fontSize: 12 }}
             tickMargin={10}
-            domain={[0, Math.ceil(cagrMax + cagrPaddingTop)]}
+            domain={xDomain}
             tickFormatter={(value) => typeof value === 'number' ? value.toFixed(1) : value}
             label={{
               value: xAxisLabel,
@@ -217,7 +239,7 @@ export function BubbleChart({
             style={{ fontSize: '13px', fontWeight: 500 }}
             tick={{ fill: isDark ? '#E2E8F0' : '#2D3748', fontSize: 12 }}
             tickMargin={10}
-            domain={[0, Math.ceil(shareMax + sharePaddingTop)]}
+            domain={yDomain}
             tickFormatter={(value) => typeof value === 'number' ? value.toFixed(1) : value}
             label={{
               value: yAxisLabel,
@@ -232,6 +254,20 @@ export function BubbleChart({
               }
             }}
           />
+          {quadrants && (
+            <>
+              <ReferenceLine x={quadrants.x} stroke={isDark ? '#A0AEC0' : '#4A5568'} strokeDasharray="6 4" />
+              <ReferenceLine y={quadrants.y} stroke={isDark ? '#A0AEC0' : '#4A5568'} strokeDasharray="6 4" />
+              <ReferenceLine y={yDomain[1]} stroke="none" ifOverflow="extendDomain">
+                <Label value={quadrants.labels[1]} position="insideTopLeft" style={quadrantLabelStyle} />
+                <Label value={quadrants.labels[0]} position="insideTopRight" style={quadrantLabelStyle} />
+              </ReferenceLine>
+              <ReferenceLine y={yDomain[0]} stroke="none" ifOverflow="extendDomain">
+                <Label value={quadrants.labels[3]} position="insideBottomLeft" style={quadrantLabelStyle} />
+                <Label value={quadrants.labels[2]} position="insideBottomRight" style={quadrantLabelStyle} />
+              </ReferenceLine>
+            </>
+          )}
           <Tooltip content={<CustomTooltip />} cursor={{ strokeDasharray: '3 3' }} />
           <Scatter
             name="Regions"
@@ -254,7 +290,7 @@ export function BubbleChart({
             : 'bg-white border-gray-300'
         }`}>
           <p className="text-xs text-text-secondary-light dark:text-text-secondary-dark">
-            *Size of the bubble indicates CAGR Index (higher CAGR = larger bubble)
+            *Size of the bubble indicates incremental opportunity (larger opportunity = larger bubble)
           </p>
         </div>
       </div>
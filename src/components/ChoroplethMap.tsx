@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react'
+import { useTheme } from '../context/ThemeContext'
+import { US_STATES, projectAlbers } from '../utils/usStates'
+
+interface ChoroplethMapProps {
+  // Shade of each state; at region level every state carries its region's value
+  stateValues: Map<string, number | null>
+  stateRegions: Map<string, string>
+  level: 'region' | 'state'
+  // Zooms to the region's states when set
+  focusRegion?: string | null
+  // States outlined as part of the active filter
+  selectedStates?: string[]
+  metricLabel: string
+  formatValue: (value: number) => string
+  onRegionClick?: (region: string) => void
+  onStateClick?: (state: string) => void
+}
+
+// Projected once; the SVG viewBox does the scaling
+const STATE_PATHS = US_STATES.map(state => {
+  const rings = state.rings.map(ring => ring.map(projectAlbers))
+  const points = rings.flat()
+  const xs = points.map(([x]) => x)
+  const ys = points.map(([, y]) => y)
+  // Label at the vertex average of the largest ring
+  const main = rings.reduce((largest, ring) => ring.length > largest.length ? ring : largest)
+  return {
+    ...state,
+    d: rings.map(ring => `M${ring.map(([x, y]) => `${x.toFixed(4)},${y.toFixed(4)}`).join('L')}Z`).join(''),
+    bounds: [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)],
+    label: [
+      main.reduce((sum, [x]) => sum + x, 0) / main.length,
+      main.reduce((sum, [, y]) => sum + y, 0) / main.length,
+    ],
+  }
+})
+
+const hexToRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16))
+
+const interpolateColor = (from: string, to: string, t: number) => {
+  const a = hexToRgb(from)
+  const b = hexToRgb(to)
+  return `rgb(${a.map((channel, i) => Math.round(channel + (b[i] - channel) * t)).join(',')})`
+}
+
+export function ChoroplethMap({
+  stateValues,
+  stateRegions,
+  level,
+  focusRegion = null,
+  selectedStates = [],
+  metricLabel,
+  formatValue,
+  onRegionClick,
+  onStateClick,
+}: ChoroplethMapProps) {
+  const { theme } = useTheme()
+  const isDark = theme === 'dark'
+  const [hovered, setHovered] = useState<{ state: string; x: number; y: number } | null>(null)
+
+  const scaleFrom = isDark ? '#1E3A5F' : '#DBEAFE'
+  const scaleTo = isDark ? '#4FD1C5' : '#0075FF'
+  const emptyFill = isDark ? '#2D3748' : '#EDF2F7'
+
+  const inFocus = (state: string) => !focusRegion || stateRegions.get(state) === focusRegion
+
+  const { viewBox, min, max, labelSize } = useMemo(() => {
+    const shown = STATE_PATHS.filter(path => focusRegion ? stateRegions.get(path.name) === focusRegion : true)
+    const [x0, y0, x1, y1] = shown.reduce(
+      ([a, b, c, d], { bounds }) => [Math.min(a, bounds[0]), Math.min(b, bounds[1]), Math.max(c, bounds[2]), Math.max(d, bounds[3])],
+      [Infinity, Infinity, -Infinity, -Infinity]
+    )
+    const padding = Math.max(x1 - x0, y1 - y0) * 0.03
+    const values = Array.from(stateValues.entries())
+      .filter(([state, value]) => value !== null && inFocus(state))
+      .map(([, value]) => value as number)
+    return {
+      viewBox: `${x0 - padding} ${y0 - padding} ${x1 - x0 + padding * 2} ${y1 - y0 + padding * 2}`,
+      min: values.length > 0 ? Math.min(...values) : 0,
+      max: values.length > 0 ? Math.max(...values) : 0,
+      labelSize: (x1 - x0) / (focusRegion ? 40 : 70),
+    }
+  }, [stateValues, stateRegions, focusRegion])
+
+  const fillOf = (state: string) => {
+    const value = stateValues.get(state)
+    if (value === undefined || value === null) return emptyFill
+    return interpolateColor(scaleFrom, scaleTo, max > min ? (value - min) / (max - min) : 1)
+  }
+
+  const hoveredValue = hovered ? stateValues.get(hovered.state) : undefined
+  const hoveredRegion = hovered ? stateRegions.get(hovered.state) : undefined
+
+  return (
+    <div className="relative w-full h-full flex flex-col">
+      <div className="relative flex-1 min-h-0">
+        <svg
+          viewBox={viewBox}
+          className="w-full h-full"
+          preserveAspectRatio="xMidYMid meet"
+          onMouseLeave={() => setHovered(null)}
+        >
+          {STATE_PATHS.map(path => {
+            const hasData = stateRegions.has(path.name)
+            const focused = inFocus(path.name)
+            const selected = selectedStates.includes(path.name)
+            const clickable = hasData && focused && (level === 'region' ? !!onRegionClick : !!onStateClick)
+            return (
+              <path
+                key={path.abbr}
+                d={path.d}
+                fill={fillOf(path.name)}
+                fillOpacity={focused ? 1 : 0.35}
+                stroke={selected ? (isDark ? '#F6E05E' : '#D69E2E') : (isDark ? '#0B1437' : '#FFFFFF')}
+                strokeWidth={selected ? 2.5 : level === 'region' ? 0.4 : 1}
+                vectorEffect="non-scaling-stroke"
+                className={clickable ? 'cursor-pointer transition-opacity hover:opacity-80' : undefined}
+                onMouseMove={(event) => {
+                  if (!hasData) return
+                  const rect = event.currentTarget.ownerSVGElement!.getBoundingClientRect()
+                  setHovered({ state: path.name, x: event.clientX - rect.left, y: event.clientY - rect.top })
+                }}
+                onClick={() => {
+                  if (!clickable) return
+                  if (level === 'region') onRegionClick?.(stateRegions.get(path.name)!)
+                  else onStateClick?.(path.name)
+                }}
+              />
+            )
+          })}
+          {level === 'state' && STATE_PATHS.filter(path => stateRegions.has(path.name) && inFocus(path.name)).map(path => (
+            <text
+              key={`${path.abbr}-label`}
+              x={path.label[0]}
+              y={path.label[1]}
+              fontSize={labelSize}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              pointerEvents="none"
+              fill={isDark ? '#E2E8F0' : '#1A202C'}
+              fontWeight={600}
+            >
+              {path.abbr}
+            </text>
+          ))}
+        </svg>
+
+        {hovered && (
+          <div
+            className={`absolute pointer-events-none p-3 rounded-lg border-2 text-sm whitespace-nowrap ${
+              isDark
+                ? 'bg-navy-card border-electric-blue text-white'
+                : 'bg-white border-electric-blue text-gray-900'
+            }`}
+            style={{ left: hovered.x + 12, top: hovered.y + 12 }}
+          >
+            <p className="font-bold mb-1">{level === 'region' ? hoveredRegion : hovered.state}</p>
+            {level === 'state' && hoveredRegion && (
+              <p className="text-xs opacity-75 mb-1">{hoveredRegion}</p>
+            )}
+            <p>
+              {metricLabel}: <strong>{hoveredValue === undefined || hoveredValue === null ? 'n/a' : formatValue(hoveredValue)}</strong>
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Legend */}
+      <div className="flex items-center justify-center gap-3 pt-3 text-xs text-text-secondary-light dark:text-text-secondary-dark">
+        <span>{formatValue(min)}</span>
+        <div
+          className="h-2.5 w-48 rounded-full"
+          style={{ background: `linear-gradient(to right, ${scaleFrom}, ${scaleTo})` }}
+        />
+        <span>{formatValue(max)}</span>
+        <span className="flex items-center gap-1.5 ml-4">
+          <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: emptyFill }} />
+          No data
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+import { X, Building2, User, Package, Target } from 'lucide-react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useTheme } from '../context/ThemeContext'
+import type { CustomerIntelligenceData } from '../utils/csvParser'
+import type { ScoredCustomer } from '../utils/leadScoring'
+import { marketDefinition } from '../utils/marketDefinition'
+
+interface CustomerDetailDrawerProps {
+  customer: ScoredCustomer | null
+  onClose: () => void
+}
+
+interface DetailSection {
+  title: string
+  icon: typeof Building2
+  fields: Array<{ label: string; key: keyof CustomerIntelligenceData }>
+}
+
+const detailSections: DetailSection[] = [
+  {
+    title: 'Company',
+    icon: Building2,
+    fields: [
+      { label: 'Region', key: 'region' },
+      { label: 'Industry / Sector', key: 'industrySector' },
+      { label: "Headquarter's Address", key: 'headquartersAddress' },
+      { label: 'Years of Existence', key: 'yearsOfExistence' },
+      { label: 'Website', key: 'website' },
+    ]
+  },
+  {
+    title: 'Contact',
+    icon: User,
+    fields: [
+      { label: 'Name', key: 'name' },
+      { label: 'Decision Role', key: 'decisionRole' },
+      { label: 'Email ID', key: 'emailId' },
+      { label: 'Telephone', key: 'telephone' },
+    ]
+  },
+  {
+    title: 'Requirements',
+    icon: Package,
+    fields: [
+      { label: `Type of ${marketDefinition.productNoun} Required`, key: 'typeOfShovelRequired' },
+      { label: 'Primary Use Case', key: 'primaryUseCase' },
+      { label: 'Estimated Volume Requirement (Annual)', key: 'estimatedVolumeRequirement' },
+      { label: 'Replacement Cycle', key: 'replacementCycle' },
+      { label: 'Existing Brands Used', key: 'existingBrandsUsed' },
+      { label: 'Quality Preference', key: 'qualityPreference' },
+      { label: 'Price Sensitivity', key: 'priceSensitivity' },
+      { label: 'Certifications Required', key: 'certificationsRequired' },
+      { label: 'Sustainability Preference', key: 'sustainabilityPreference' },
+    ]
+  },
+  {
+    title: 'Lead Assessment',
+    icon: Target,
+    fields: [
+      { label: 'Demand Attractive Score', key: 'demandAttractiveScore' },
+      { label: `Fit for OEM / ${marketDefinition.productNoun} Type`, key: 'fitForOEMShovelType' },
+      { label: 'Lead Potential', key: 'leadPotential' },
+    ]
+  },
+]
+
+export function CustomerDetailDrawer({ customer, onClose }: CustomerDetailDrawerProps) {
+  const { theme } = useTheme()
+  const isDark = theme === 'dark'
+
+  return (
+    <AnimatePresence>
+      {customer && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="fixed inset-0 bg-black/40 z-50"
+            onClick={onClose}
+          ></motion.div>
+          <motion.aside
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+            className={`fixed right-0 top-0 h-screen w-full max-w-xl z-50 flex flex-col shadow-2xl ${
+              isDark ? 'bg-navy-card border-l-2 border-navy-light' : 'bg-white border-l-2 border-gray-200'
+            }`}
+          >
+            {/* Drawer Header */}
+            <div className="p-6 border-b border-gray-200 dark:border-navy-light flex items-start justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium text-electric-blue dark:text-cyan-accent mb-1">
+                  {customer.sNo ? `Account #${customer.sNo}` : 'Account'}
+                </p>
+                <h2 className="text-2xl font-bold text-text-primary-light dark:text-text-primary-dark">
+                  {customer.companyName || 'Unnamed Company'}
+                </h2>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-navy-light text-text-secondary-light dark:text-text-secondary-dark"
+                aria-label="Close account details"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            {/* Drawer Body */}
+            <div className="flex-1 overflow-y-auto p-6 space-y-6">
+              {/* Parsed lead scores */}
+              <div className="grid grid-cols-3 gap-3">
+                {[
+                  { label: 'Demand Score', value: customer.leadScore.demandScore !== null ? `${customer.leadScore.demandScore} / 5` : '—' },
+                  { label: 'OEM Fit', value: customer.leadScore.oemFitScore !== null ? `${customer.leadScore.oemFitScore} / 5` : '—' },
+                  { label: 'Lead Tier', value: customer.leadScore.leadTier || '—' },
+                ].map((item) => (
+                  <div key={item.label} className={`p-4 rounded-lg text-center ${isDark ? 'bg-navy-dark' : 'bg-blue-50'}`}>
+                    <p className="text-xl font-bold text-text-primary-light dark:text-text-primary-dark">{item.value}</p>
+                    <p className="text-xs font-medium text-electric-blue dark:text-cyan-accent mt-1">{item.label}</p>
+                  </div>
+                ))}
+              </div>
+
+              {detailSections.map((section) => {
+                const SectionIcon = section.icon
+                return (
+                  <div key={section.title}>
+                    <div className="flex items-center gap-2 mb-3">
+                      <SectionIcon size={18} className="text-electric-blue dark:text-cyan-accent" />
+                      <h3 className="text-lg font-bold text-text-primary-light dark:text-text-primary-dark">
+                        {section.title}
+                      </h3>
+                    </div>
+                    <dl className={`rounded-lg divide-y ${isDark ? 'bg-navy-dark divide-navy-light' : 'bg-gray-50 divide-gray-200'}`}>
+                      {section.fields.map((field) => (
+                        <div key={field.key} className="px-4 py-3 grid grid-cols-3 gap-3">
+                          <dt className="text-sm font-medium text-text-secondary-light dark:text-text-secondary-dark">
+                            {field.label}
+                          </dt>
+                          <dd className="col-span-2 text-sm text-text-primary-light dark:text-text-primary-dark break-words">
+                            {customer[field.key] || '—'}
+                          </dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </div>
+                )
+              })}
+            </div>
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  )
+}
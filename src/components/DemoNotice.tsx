@@ -1,5 +1,6 @@
 import { AlertCircle } from 'lucide-react'
 import { motion } from 'framer-motion'
+import { marketDefinition } from '../utils/marketDefinition'
 
 export function DemoNotice() {
   return (
@@ -26,7 +27,7 @@ export function DemoNotice() {
           Demo Data Notice
         </h3>
         <p className="text-sm leading-relaxed text-yellow-800 dark:text-yellow-200 font-medium">
-          This dashboard uses synthetic/demo data for illustration purposes only. No real-world Electronic Shavers Market Data is associated with this application.
+          This dashboard uses synthetic/demo data for illustration purposes only. No real-world {marketDefinition.name} Market Data is associated with this application.
         </p>
       </div>
     </motion.div>
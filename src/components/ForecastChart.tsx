@@ -0,0 +1,218 @@
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+  ReferenceLine,
+} from 'recharts'
+import { useTheme } from '../context/ThemeContext'
+import { formatNumber } from '../utils/dataGenerator'
+
+interface ForecastChartProps {
+  actuals: Array<{ year: number; value: number }>
+  forecast: Array<{ year: number; value: number; lower: number; upper: number }>
+  // e.g. 0.95, shown in the band's legend entry
+  confidence: number
+  xAxisLabel?: string
+  yAxisLabel?: string
+  isVolume?: boolean
+}
+
+interface ForecastRow {
+  year: string
+  actual?: number
+  forecast?: number
+  band?: [number, number]
+}
+
+export function ForecastChart({
+  actuals,
+  forecast,
+  confidence,
+  xAxisLabel = 'Year',
+  yAxisLabel = 'Market Value (US$ Mn)',
+  isVolume = false,
+}: ForecastChartProps) {
+  const { theme } = useTheme()
+  const isDark = theme === 'dark'
+
+  if (actuals.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full text-text-secondary-light dark:text-text-secondary-dark">
+        No data available
+      </div>
+    )
+  }
+
+  const lastActual = actuals[actuals.length - 1]
+  const bandLabel = `${Math.round(confidence * 100)}% Prediction Interval`
+  const data: ForecastRow[] = [
+    ...actuals.map(point => ({ year: String(point.year), actual: point.value })),
+    ...forecast.map(point => ({
+      year: String(point.year),
+      forecast: point.value,
+      band: [point.lower, point.upper] as [number, number],
+    })),
+  ]
+  // Start the forecast line and band at the last actual so they join up
+  if (forecast.length > 0) {
+    data[actuals.length - 1] = {
+      ...data[actuals.length - 1],
+      forecast: lastActual.value,
+      band: [lastActual.value, lastActual.value],
+    }
+  }
+
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      const row: ForecastRow = payload[0].payload
+      const isForecast = Number(label) > lastActual.year
+      return (
+        <div className={`p-4 rounded-lg border-2 shadow-lg ${
+          isDark
+            ? 'bg-navy-card border-electric-blue text-white'
+            : 'bg-white border-electric-blue text-gray-900'
+        }`}>
+          <p className="font-bold text-base mb-2">Year: {label} {isForecast ? '(Forecast)' : '(Actual)'}</p>
+          {isForecast && row.forecast !== undefined ? (
+            <>
+              <p className="text-sm">
+                <strong>Forecast:</strong> {formatNumber(row.forecast)} {isVolume ? 'units' : ''}
+              </p>
+              {row.band && (
+                <p className="text-xs mt-1 text-text-secondary-light dark:text-text-secondary-dark">
+                  {bandLabel}: {formatNumber(row.band[0])} – {formatNumber(row.band[1])}
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-sm">
+              <strong>Actual:</strong> {formatNumber(row.actual ?? 0)} {isVolume ? 'units' : ''}
+            </p>
+          )}
+        </div>
+      )
+    }
+    return null
+  }
+
+  return (
+    <div className="relative w-full h-full">
+      {/* Demo Data Watermark */}
+      <div
+        className="absolute inset-0 flex items-center justify-center pointer-events-none z-0"
+        style={{ opacity: 0.12 }}
+      >
+        <span
+          className="text-4xl font-bold text-gray-400 dark:text-gray-600 select-none"
+          style={{ transform: 'rotate(-45deg)', transformOrigin: 'center' }}
+        >
+          Demo Data
+        </span>
+      </div>
+
+      <ResponsiveContainer width="100%" height="100%" className="relative z-10">
+        <ComposedChart
+          data={data}
+          margin={{
+            top: 20,
+            right: 40,
+            left: 80,
+            bottom: 80,
+          }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke={isDark ? '#4A5568' : '#EAEAEA'} />
+          <XAxis
+            dataKey="year"
+            stroke={isDark ? '#A0AEC0' : '#4A5568'}
+            style={{ fontSize: '13px', fontWeight: 500 }}
+            tick={{ fill: isDark ? '#E2E8F0' : '#2D3748', fontSize: 12 }}
+            tickMargin={10}
+            label={{
+              value: xAxisLabel,
+              position: 'insideBottom',
+              offset: -5,
+              style: {
+                fontSize: '14px',
+                fontWeight: 500,
+                fill: isDark ? '#E2E8F0' : '#2D3748'
+              }
+            }}
+          />
+          <YAxis
+            stroke={isDark ? '#A0AEC0' : '#4A5568'}
+            style={{ fontSize: '13px', fontWeight: 500 }}
+            tickFormatter={(value) => formatNumber(value)}
+            width={90}
+            tick={{ fill: isDark ? '#E2E8F0' : '#2D3748' }}
+            tickMargin={15}
+            domain={['auto', 'auto']}
+            label={{
+              value: yAxisLabel,
+              angle: -90,
+              position: 'insideLeft',
+              offset: -10,
+              style: {
+                fontSize: '14px',
+                fontWeight: 500,
+                fill: isDark ? '#E2E8F0' : '#2D3748',
+                textAnchor: 'middle'
+              }
+            }}
+          />
+          <Tooltip content={<CustomTooltip />} />
+          <Legend
+            wrapperStyle={{
+              paddingTop: '20px',
+              color: isDark ? '#E2E8F0' : '#2D3748'
+            }}
+            iconSize={12}
+          />
+          <ReferenceLine
+            x={String(lastActual.year)}
+            stroke={isDark ? '#A0AEC0' : '#4A5568'}
+            strokeDasharray="4 4"
+            label={{
+              value: 'Forecast →',
+              position: 'insideTopRight',
+              style: { fontSize: 12, fontWeight: 600, fill: isDark ? '#A0AEC0' : '#4A5568' }
+            }}
+          />
+          <Area
+            type="monotone"
+            dataKey="band"
+            name={bandLabel}
+            stroke="none"
+            fill={isDark ? '#4FD1C5' : '#0075FF'}
+            fillOpacity={0.15}
+            activeDot={false}
+          />
+          <Line
+            type="monotone"
+            dataKey="actual"
+            name="Actual"
+            stroke="#0075FF"
+            strokeWidth={3}
+            dot={{ r: 5 }}
+            activeDot={{ r: 7 }}
+          />
+          <Line
+            type="monotone"
+            dataKey="forecast"
+            name="Forecast"
+            stroke={isDark ? '#4FD1C5' : '#00A3A3'}
+            strokeWidth={3}
+            strokeDasharray="8 5"
+            dot={{ r: 4 }}
+            activeDot={{ r: 6 }}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
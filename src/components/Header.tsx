@@ -1,5 +1,6 @@
 import { Bell, Settings, User } from 'lucide-react'
 import { motion } from 'framer-motion'
+import { ViewSwitcher } from './ViewSwitcher'
 
 interface HeaderProps {
   currentPage?: string
@@ -18,6 +19,7 @@ export function Header({ currentPage = 'Home' }: HeaderProps) {
 
         {/* Right Icons */}
         <div className="flex items-center gap-2 lg:gap-4 ml-auto">
+          <ViewSwitcher />
           <motion.button
             whileHover={{ scale: 1.1, rotate: 5 }}
             whileTap={{ scale: 0.9 }}
@@ -1,17 +1,13 @@
 import { useState, useRef, useEffect } from 'react'
-import { ChevronDown, X, Check } from 'lucide-react'
+import { ChevronDown, X, Check, Minus } from 'lucide-react'
 import { useTheme } from '../context/ThemeContext'
-
-interface HierarchyItem {
-  mainCategory: string
-  subCategories: string[]
-}
+import type { FilterHierarchyItem } from '../utils/hierarchyRegistry'
 
 interface HierarchicalFilterDropdownProps {
   label: string
   value: string[]
   onChange: (value: string[]) => void
-  hierarchy: HierarchyItem[]
+  hierarchy: FilterHierarchyItem[]
 }
 
 export function HierarchicalFilterDropdown({
@@ -183,6 +179,11 @@ export function HierarchicalFilterDropdown({
               const someSubsSelected = hasSubCategories && item.subCategories.some(sub =>
                 value.includes(`${item.mainCategory} - ${sub}`)
               )
+              // Some but not all subcategories: shown as indeterminate
+              const partiallySelected = someSubsSelected && !allSubsSelected
+              const subSelectedCount = item.subCategories.filter(sub =>
+                value.includes(`${item.mainCategory} - ${sub}`)
+              ).length
 
               return (
                 <div key={item.mainCategory} className="mb-2">
@@ -208,17 +209,25 @@ export function HierarchicalFilterDropdown({
                       <div className={`w-4 h-4 rounded border flex items-center justify-center ${
                         (hasSubCategories ? allSubsSelected : isMainSelected)
                           ? 'bg-electric-blue border-electric-blue'
-                          : someSubsSelected
-                          ? 'bg-gray-400 border-gray-400'
+                          : partiallySelected
+                          ? 'bg-electric-blue/40 border-electric-blue'
                           : isDark
                           ? 'border-gray-500'
                           : 'border-gray-300'
                       }`}>
-                        {((hasSubCategories ? (allSubsSelected || someSubsSelected) : isMainSelected)) && (
+                        {(hasSubCategories ? allSubsSelected : isMainSelected) && (
                           <Check size={12} className="text-white" />
                         )}
+                        {partiallySelected && (
+                          <Minus size={12} className="text-white" />
+                        )}
                       </div>
                       <span className="font-bold text-left">{item.mainCategory}</span>
+                      {partiallySelected && (
+                        <span className="ml-auto text-xs text-text-secondary-light dark:text-text-secondary-dark">
+                          {subSelectedCount}/{item.subCategories.length}
+                        </span>
+                      )}
                     </button>
                   </div>
 
@@ -0,0 +1,126 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronUp, FileCheck, AlertCircle } from 'lucide-react'
+import { useTheme } from '../context/ThemeContext'
+import type { SchemaValidationReport, InvalidCell } from '../utils/importSchema'
+
+interface ImportValidationReportProps {
+  report: SchemaValidationReport
+  defaultExpanded?: boolean
+}
+
+// Examples shown per invalid column
+const MAX_EXAMPLES = 3
+
+export function ImportValidationReport({ report, defaultExpanded = false }: ImportValidationReportProps) {
+  const { theme } = useTheme()
+  const isDark = theme === 'dark'
+  const [expanded, setExpanded] = useState(defaultExpanded)
+
+  const missingRequired = report.missingColumns.filter(column => column.required)
+  const missingOptional = report.missingColumns.filter(column => !column.required)
+
+  // Group invalid cells by column so one bad column doesn't flood the list
+  const invalidByColumn = report.invalidCells.reduce((groups, cell) => {
+    const cells = groups.get(cell.header) || []
+    cells.push(cell)
+    groups.set(cell.header, cells)
+    return groups
+  }, new Map<string, InvalidCell[]>())
+
+  const problemCount = report.missingColumns.length + report.unknownColumns.length +
+    report.duplicateColumns.length + report.invalidCells.length
+  const hasErrors = missingRequired.length > 0
+
+  return (
+    <div className={`p-6 rounded-2xl shadow-xl ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-300'}`}>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between gap-4 text-left"
+        aria-expanded={expanded}
+      >
+        <div className="flex items-center gap-3">
+          {problemCount === 0 ? (
+            <FileCheck size={22} className="text-green-600 flex-shrink-0" />
+          ) : (
+            <AlertCircle size={22} className={`${hasErrors ? 'text-red-600' : 'text-yellow-600'} flex-shrink-0`} />
+          )}
+          <div>
+            <h3 className="text-lg font-bold text-text-primary-light dark:text-text-primary-dark">
+              Import Validation Report
+            </h3>
+            <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
+              {report.matchedColumns.length} columns matched
+              {' · '}{report.missingColumns.length} missing
+              {' · '}{report.unknownColumns.length} unknown
+              {' · '}{report.invalidCells.length} invalid {report.invalidCells.length === 1 ? 'cell' : 'cells'}
+            </p>
+          </div>
+        </div>
+        {expanded ? (
+          <ChevronUp size={20} className="text-text-secondary-light dark:text-text-secondary-dark" />
+        ) : (
+          <ChevronDown size={20} className="text-text-secondary-light dark:text-text-secondary-dark" />
+        )}
+      </button>
+
+      {expanded && (
+        <div className="mt-5 pt-5 border-t border-gray-200 dark:border-navy-light grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+          <div>
+            <h4 className="font-semibold text-electric-blue dark:text-cyan-accent mb-2">Missing Columns</h4>
+            {report.missingColumns.length === 0 ? (
+              <p className="text-text-secondary-light dark:text-text-secondary-dark">All schema columns are present.</p>
+            ) : (
+              <ul className="space-y-1">
+                {missingRequired.map(column => (
+                  <li key={column.field} className="text-red-600 font-medium">{column.label} (required)</li>
+                ))}
+                {missingOptional.map(column => (
+                  <li key={column.field} className="text-text-primary-light dark:text-text-primary-dark">{column.label}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-electric-blue dark:text-cyan-accent mb-2">Unknown Columns</h4>
+            {report.unknownColumns.length === 0 && report.duplicateColumns.length === 0 ? (
+              <p className="text-text-secondary-light dark:text-text-secondary-dark">Every column maps to a schema field.</p>
+            ) : (
+              <ul className="space-y-1 text-text-primary-light dark:text-text-primary-dark">
+                {report.unknownColumns.map(header => (
+                  <li key={header}>"{header}" (ignored)</li>
+                ))}
+                {report.duplicateColumns.map(header => (
+                  <li key={header}>"{header}" (duplicate, ignored)</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="md:col-span-2">
+            <h4 className="font-semibold text-electric-blue dark:text-cyan-accent mb-2">Invalid Cells</h4>
+            {invalidByColumn.size === 0 ? (
+              <p className="text-text-secondary-light dark:text-text-secondary-dark">All validated cells passed.</p>
+            ) : (
+              <ul className="space-y-3">
+                {Array.from(invalidByColumn.entries()).map(([header, cells]) => (
+                  <li key={header}>
+                    <p className="font-medium text-text-primary-light dark:text-text-primary-dark">
+                      {header}: {cells.length} invalid {cells.length === 1 ? 'value' : 'values'}
+                    </p>
+                    <ul className="ml-5 list-disc text-text-secondary-light dark:text-text-secondary-dark">
+                      {cells.slice(0, MAX_EXAMPLES).map(cell => (
+                        <li key={cell.row}>Row {cell.row}: "{cell.value}" ({cell.message})</li>
+                      ))}
+                      {cells.length > MAX_EXAMPLES && <li>and {cells.length - MAX_EXAMPLES} more</li>}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
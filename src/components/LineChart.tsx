@@ -22,9 +22,11 @@ interface LineChartProps {
   showCountry?: boolean | string[]
   yAxisDomain?: [number | string, number | string] | 'auto'
   focusDataRange?: boolean
+  // Axis and tooltip formatting, for series that are not amounts
+  formatValue?: (value: number) => string
 }
 
-export function LineChart({ data, dataKeys, nameKey, colors = ['#0075FF', '#4FD1C5'], xAxisLabel, yAxisLabel, isVolume = false, showCountry = false, yAxisDomain, focusDataRange = false }: LineChartProps) {
+export function LineChart({ data, dataKeys, nameKey, colors = ['#0075FF', '#4FD1C5'], xAxisLabel, yAxisLabel, isVolume = false, showCountry = false, yAxisDomain, focusDataRange = false, formatValue = formatNumber }: LineChartProps) {
   const { theme } = useTheme()
   const isDark = theme === 'dark'
 
@@ -120,7 +122,7 @@ export function LineChart({ data, dataKeys, nameKey, colors = ['#0075FF', '#4FD1
             return (
               <div key={index}>
                 <p className="text-sm" style={{ color: entry.color }}>
-                  {displayName}: <strong>{formatNumber(entry.value)}</strong> {isVolume ? 'units' : ''}
+                  {displayName}: <strong>{formatValue(entry.value)}</strong> {isVolume ? 'units' : ''}
                 </p>
                 {yoyValue !== null && (
                   <p className="text-xs ml-2 opacity-75" style={{ color: entry.color }}>
@@ -182,7 +184,7 @@ export function LineChart({ data, dataKeys, nameKey, colors = ['#0075FF', '#4FD1
         <YAxis 
           stroke={isDark ? '#FFFFFF' : '#2D3748'}
           style={{ fontSize: '10px' }}
-          tickFormatter={(value) => formatNumber(value)}
+          tickFormatter={(value) => formatValue(value)}
           width={85}
           domain={domain}
           label={{
@@ -1,6 +1,13 @@
 import { motion } from 'framer-motion'
 
-export function LoadingScreen() {
+interface LoadingScreenProps {
+  // 0-1; the bar animates indefinitely when omitted
+  progress?: number
+  message?: string
+}
+
+export function LoadingScreen({ progress, message = 'Loading your data...' }: LoadingScreenProps) {
+  const hasProgress = progress !== undefined
   const particleVariants = {
     animate: (i: number) => ({
       y: [0, -30, 0],
@@ -328,7 +335,7 @@ export function LoadingScreen() {
             }}
             className="text-sm text-text-secondary-light"
           >
-            Loading your data...
+            {message}
           </motion.p>
         </motion.div>
 
@@ -362,8 +369,8 @@ export function LoadingScreen() {
           <div className="h-1 overflow-hidden rounded-full bg-gray-200 relative">
             <motion.div
               initial={{ width: '0%' }}
-              animate={{ width: '100%' }}
-              transition={{
+              animate={{ width: hasProgress ? `${Math.round(progress * 100)}%` : '100%' }}
+              transition={hasProgress ? { duration: 0.3, ease: 'easeOut' } : {
                 duration: 2,
                 ease: 'easeInOut'
               }}
@@ -395,6 +402,11 @@ export function LoadingScreen() {
               style={{ width: '30%' }}
             />
           </div>
+          {hasProgress && (
+            <p className="text-xs font-medium text-text-secondary-light text-center mt-2">
+              {Math.round(progress * 100)}%
+            </p>
+          )}
         </div>
       </div>
     </motion.div>
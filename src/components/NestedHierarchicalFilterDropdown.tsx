@@ -1,22 +1,13 @@
 import { useState, useRef, useEffect } from 'react'
 import { ChevronDown, Check } from 'lucide-react'
 import { useTheme } from '../context/ThemeContext'
-
-interface NestedSubCategory {
-  name: string
-  children?: string[]
-}
-
-interface HierarchyItem {
-  mainCategory: string
-  subCategories: (string | NestedSubCategory)[]
-}
+import type { NestedFilterHierarchyItem } from '../utils/hierarchyRegistry'
 
 interface NestedHierarchicalFilterDropdownProps {
   label: string
   value: string[]
   onChange: (value: string[]) => void
-  hierarchy: HierarchyItem[]
+  hierarchy: NestedFilterHierarchyItem[]
 }
 
 export function NestedHierarchicalFilterDropdown({
@@ -52,7 +43,7 @@ export function NestedHierarchicalFilterDropdown({
     setExpandedCategories(newExpanded)
   }
 
-  const getAllSubItems = (item: HierarchyItem): string[] => {
+  const getAllSubItems = (item: NestedFilterHierarchyItem): string[] => {
     const items: string[] = []
     item.subCategories.forEach(sub => {
       if (typeof sub === 'string') {
@@ -69,7 +60,7 @@ export function NestedHierarchicalFilterDropdown({
     return items
   }
 
-  const toggleMainCategory = (item: HierarchyItem) => {
+  const toggleMainCategory = (item: NestedFilterHierarchyItem) => {
     const allSubs = getAllSubItems(item)
     const allSelected = allSubs.every(sub => value.includes(sub))
     
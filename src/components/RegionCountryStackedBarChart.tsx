@@ -8,6 +8,7 @@ import {
   Tooltip,
   ResponsiveContainer,
   Legend,
+  LabelList,
 } from 'recharts'
 import { useTheme } from '../context/ThemeContext'
 import { formatNumber } from '../utils/dataGenerator'
@@ -19,6 +20,8 @@ interface RegionCountryStackedBarChartProps {
   xAxisLabel?: string
   yAxisLabel?: string
   showPercentage?: boolean
+  // Label each region's stack with its total
+  showSubtotals?: boolean
 }
 
 export function RegionCountryStackedBarChart({ 
@@ -26,7 +29,8 @@ export function RegionCountryStackedBarChart({
   dataKey, 
   xAxisLabel = 'Region', 
   yAxisLabel = 'Value',
-  showPercentage = false
+  showPercentage = false,
+  showSubtotals = true,
 }: RegionCountryStackedBarChartProps) {
   const { theme } = useTheme()
   const isDark = theme === 'dark'
@@ -89,6 +93,8 @@ export function RegionCountryStackedBarChart({
         countriesArray.forEach((country) => {
           result[country] = grouped[groupKey][country] || 0
         })
+        // Region subtotal: the height of the whole stack
+        result.subtotal = countriesArray.reduce((sum, country) => sum + result[country], 0)
         return result
       }),
       countries: countriesArray,
@@ -96,6 +102,24 @@ export function RegionCountryStackedBarChart({
     }
   }, [data, dataKey])
 
+  const formatValue = (value: number) => `${formatNumber(value)}${showPercentage ? '%' : ''}`
+
+  // Region name under each bar, its year below
+  const RegionYearTick = ({ x, y, payload }: any) => {
+    const entry = transformedData.chartData[payload.index]
+    if (!entry) return null
+    return (
+      <g transform={`translate(${x},${y})`}>
+        <text dy={12} textAnchor="middle" fontSize={11} fontWeight={600} fill={isDark ? '#E2E8F0' : '#2D3748'}>
+          {entry.region}
+        </text>
+        <text dy={26} textAnchor="middle" fontSize={11} fill={isDark ? '#A0AEC0' : '#4A5568'}>
+          {entry.year || ''}
+        </text>
+      </g>
+    )
+  }
+
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       const dataPoint = payload[0]?.payload
@@ -122,12 +146,15 @@ export function RegionCountryStackedBarChart({
                 />
                 <span className="text-sm font-semibold">{entry.name}:</span>
                 <span className="text-sm font-bold">
-                  {formatNumber(entry.value)}
-                  {showPercentage && '%'}
+                  {formatValue(entry.value)}
                 </span>
               </div>
             ))
           }
+          <div className="flex items-center gap-2 mt-2 pt-2 border-t border-gray-200 dark:border-navy-light">
+            <span className="text-sm font-semibold">{region} total:</span>
+            <span className="text-sm font-bold">{formatValue(dataPoint?.subtotal || 0)}</span>
+          </div>
         </div>
       )
     }
@@ -160,7 +187,7 @@ export function RegionCountryStackedBarChart({
       <RechartsBarChart
         data={transformedData.chartData}
         margin={{
-          top: 20,
+          top: showSubtotals ? 30 : 20,
           right: 20,
           left: 60,
           bottom: 60,
@@ -168,15 +195,12 @@ export function RegionCountryStackedBarChart({
       >
         <CartesianGrid strokeDasharray="3 3" stroke={isDark ? '#4A5568' : '#EAEAEA'} />
         <XAxis 
-          dataKey="yearLabel" 
+          dataKey="yearRegion" 
           stroke={isDark ? '#A0AEC0' : '#4A5568'}
           style={{ fontSize: '12px', fontWeight: 500 }}
-          angle={0}
-          textAnchor="middle"
           height={60}
           interval={0}
-          tick={{ fill: isDark ? '#E2E8F0' : '#2D3748' }}
-          tickMargin={10}
+          tick={<RegionYearTick />}
           label={{
             value: xAxisLabel || 'Year',
             position: 'insideBottom',
@@ -238,7 +262,17 @@ export function RegionCountryStackedBarChart({
             name={country}
             radius={[6, 6, 0, 0]}
             maxBarSize={50}
-          />
+          >
+            {/* The top segment carries the stack's subtotal */}
+            {showSubtotals && index === transformedData.countries.length - 1 && (
+              <LabelList
+                dataKey="subtotal"
+                position="top"
+                formatter={(value: number) => formatValue(value)}
+                style={{ fontSize: '11px', fontWeight: 600, fill: isDark ? '#E2E8F0' : '#2D3748' }}
+              />
+            )}
+          </Bar>
         ))}
       </RechartsBarChart>
     </ResponsiveContainer>
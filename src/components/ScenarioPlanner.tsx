@@ -0,0 +1,179 @@
+import { Plus, Trash2, RotateCcw } from 'lucide-react'
+import { useTheme } from '../context/ThemeContext'
+import { scenarioDimensions, type Scenario, type ScenarioDimension, type SegmentAdjustment } from '../utils/scenarios'
+
+interface ScenarioPlannerProps {
+  scenarios: Scenario[]
+  onChange: (scenarios: Scenario[]) => void
+  onReset: () => void
+  // Segments that adjustments can target, per dimension
+  segmentOptions: Record<ScenarioDimension, string[]>
+}
+
+// Colors shared with the scenario comparison charts
+export const SCENARIO_COLORS = ['#0075FF', '#10B981', '#EF4444', '#F59E0B', '#8B5CF6', '#EC4899']
+
+const MAX_SCENARIOS = SCENARIO_COLORS.length
+
+export function ScenarioPlanner({ scenarios, onChange, onReset, segmentOptions }: ScenarioPlannerProps) {
+  const { theme } = useTheme()
+  const isDark = theme === 'dark'
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border focus:outline-none focus:ring-2 focus:ring-electric-blue transition-all text-sm ${
+    isDark
+      ? 'bg-navy-dark border-navy-light text-text-primary-dark'
+      : 'bg-white border-gray-300 text-text-primary-light'
+  }`
+  const labelClass = 'block text-xs font-semibold text-text-secondary-light dark:text-text-secondary-dark mb-1'
+  const buttonClass = `flex items-center gap-1.5 px-3 py-2 rounded-lg border text-sm font-semibold transition-all ${
+    isDark
+      ? 'border-navy-light text-text-primary-dark hover:border-cyan-accent'
+      : 'border-gray-300 text-text-primary-light hover:border-electric-blue'
+  }`
+
+  const updateScenario = (index: number, changes: Partial<Scenario>) => {
+    onChange(scenarios.map((scenario, i) => i === index ? { ...scenario, ...changes } : scenario))
+  }
+
+  const updateAdjustment = (index: number, adjustmentIndex: number, changes: Partial<SegmentAdjustment>) => {
+    const adjustments = scenarios[index].adjustments.map((adjustment, i) =>
+      i === adjustmentIndex ? { ...adjustment, ...changes } : adjustment
+    )
+    updateScenario(index, { adjustments })
+  }
+
+  const addScenario = () => {
+    onChange([...scenarios, {
+      id: `scenario-${Date.now()}`,
+      name: `Scenario ${scenarios.length + 1}`,
+      growthDelta: 0,
+      priceInflation: 0,
+      adjustments: [],
+    }])
+  }
+
+  const addAdjustment = (index: number) => {
+    const adjustment: SegmentAdjustment = {
+      dimension: 'region',
+      segment: segmentOptions.region[0] || '',
+      growthDelta: 0,
+      priceInflation: 0,
+      mixShift: 0,
+    }
+    updateScenario(index, { adjustments: [...scenarios[index].adjustments, adjustment] })
+  }
+
+  const numberInput = (label: string, value: number, onValue: (value: number) => void) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <input
+        type="number"
+        step={0.1}
+        value={value}
+        onChange={(e) => {
+          // Partial entries such as "-" read as NaN; wait for a full number
+          if (!Number.isNaN(e.target.valueAsNumber)) onValue(e.target.valueAsNumber)
+        }}
+        className={inputClass}
+      />
+    </div>
+  )
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-4">
+        {scenarios.map((scenario, index) => (
+          <div
+            key={scenario.id}
+            className={`p-5 rounded-xl border-2 border-t-4 ${isDark ? 'bg-navy-card border-navy-light' : 'bg-white border-gray-200'}`}
+            style={{ borderTopColor: SCENARIO_COLORS[index % SCENARIO_COLORS.length] }}
+          >
+            <div className="flex items-center gap-2 mb-4">
+              <input
+                type="text"
+                value={scenario.name}
+                onChange={(e) => updateScenario(index, { name: e.target.value })}
+                aria-label="Scenario name"
+                className={`${inputClass} font-bold`}
+              />
+              {scenarios.length > 1 && (
+                <button
+                  onClick={() => onChange(scenarios.filter((_, i) => i !== index))}
+                  aria-label={`Delete ${scenario.name}`}
+                  className="p-2 text-text-secondary-light dark:text-text-secondary-dark hover:text-error"
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              {numberInput('Volume Growth (pp/yr)', scenario.growthDelta, value => updateScenario(index, { growthDelta: value }))}
+              {numberInput('Price Inflation (pp/yr)', scenario.priceInflation, value => updateScenario(index, { priceInflation: value }))}
+            </div>
+
+            {scenario.adjustments.map((adjustment, adjustmentIndex) => (
+              <div key={adjustmentIndex} className="pt-3 mb-3 border-t border-gray-100 dark:border-navy-light">
+                <div className="grid grid-cols-2 gap-3 mb-2">
+                  <div>
+                    <label className={labelClass}>Adjust</label>
+                    <select
+                      value={adjustment.dimension}
+                      onChange={(e) => {
+                        const dimension = e.target.value as ScenarioDimension
+                        updateAdjustment(index, adjustmentIndex, { dimension, segment: segmentOptions[dimension][0] || '' })
+                      }}
+                      className={inputClass}
+                    >
+                      {(Object.keys(scenarioDimensions) as ScenarioDimension[]).map(dimension => (
+                        <option key={dimension} value={dimension}>{scenarioDimensions[dimension]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Segment</label>
+                    <select
+                      value={adjustment.segment}
+                      onChange={(e) => updateAdjustment(index, adjustmentIndex, { segment: e.target.value })}
+                      className={inputClass}
+                    >
+                      {segmentOptions[adjustment.dimension].map(segment => (
+                        <option key={segment} value={segment}>{segment}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-3 items-end">
+                  {numberInput('Growth', adjustment.growthDelta, value => updateAdjustment(index, adjustmentIndex, { growthDelta: value }))}
+                  {numberInput('Price', adjustment.priceInflation, value => updateAdjustment(index, adjustmentIndex, { priceInflation: value }))}
+                  {numberInput('Mix (pp/yr)', adjustment.mixShift, value => updateAdjustment(index, adjustmentIndex, { mixShift: value }))}
+                </div>
+                <button
+                  onClick={() => updateScenario(index, { adjustments: scenario.adjustments.filter((_, i) => i !== adjustmentIndex) })}
+                  className="mt-2 text-xs font-semibold text-text-secondary-light dark:text-text-secondary-dark hover:text-error"
+                >
+                  Remove adjustment
+                </button>
+              </div>
+            ))}
+
+            <button onClick={() => addAdjustment(index)} className={buttonClass}>
+              <Plus size={14} /> Segment Adjustment
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-3">
+        {scenarios.length < MAX_SCENARIOS && (
+          <button onClick={addScenario} className={buttonClass}>
+            <Plus size={14} /> Add Scenario
+          </button>
+        )}
+        <button onClick={onReset} className={buttonClass}>
+          <RotateCcw size={14} /> Reset to Base / Optimistic / Pessimistic
+        </button>
+      </div>
+    </div>
+  )
+}
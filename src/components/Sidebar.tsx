@@ -1,7 +1,8 @@
-import { Home, TrendingUp, Mail, X, ChevronLeft, ChevronRight } from 'lucide-react'
+import { Home, TrendingUp, Users, Upload, Mail, X, ChevronLeft, ChevronRight } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useState, useEffect } from 'react'
 import { Logo } from './Logo'
+import { marketDefinition } from '../utils/marketDefinition'
 
 interface SidebarProps {
   activeItem?: string
@@ -27,6 +28,8 @@ export function Sidebar({ activeItem = 'Home', isOpen = true, onClose, onNavigat
   const navItems = [
     { icon: Home, label: 'Home', id: 'Home' },
     { icon: TrendingUp, label: 'Market Analysis', id: 'MarketAnalysis' },
+    { icon: Users, label: 'Customer Intelligence', id: 'CustomerIntelligence' },
+    { icon: Upload, label: 'Import Data', id: 'DataImport' },
     { icon: Mail, label: 'Contact Us', id: 'Contact' },
   ]
 
@@ -132,6 +135,11 @@ export function Sidebar({ activeItem = 'Home', isOpen = true, onClose, onNavigat
               </button>
             </div>
           </div>
+          {!isCollapsed && (
+            <p className="mt-3 text-xs font-semibold uppercase tracking-wide text-text-secondary-light leading-snug">
+              {marketDefinition.scope} {marketDefinition.name}
+            </p>
+          )}
         </div>
 
         {/* Navigation */}
@@ -7,10 +7,12 @@ interface StatBoxProps {
   icon?: React.ReactNode
   progress?: string | number | null
   increase?: string
+  // Colors the increase text; a falling metric reads as a decrease
+  trend?: 'up' | 'down'
   onCircleClick?: () => void
 }
 
-export function StatBox({ title, subtitle, icon, progress, increase, onCircleClick }: StatBoxProps) {
+export function StatBox({ title, subtitle, icon, progress, increase, trend = 'up', onCircleClick }: StatBoxProps) {
   const { theme } = useTheme()
   const isDark = theme === 'dark'
 
@@ -33,7 +35,7 @@ export function StatBox({ title, subtitle, icon, progress, increase, onCircleCli
           {subtitle}
         </p>
         {increase && (
-          <p className="text-sm font-medium text-success italic">
+          <p className={`text-sm font-medium italic ${trend === 'down' ? 'text-error' : 'text-success'}`}>
             {increase}
           </p>
         )}
@@ -0,0 +1,139 @@
+import {
+  BarChart as RechartsBarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+  ReferenceLine,
+} from 'recharts'
+import { useTheme } from '../context/ThemeContext'
+import { formatNumber } from '../utils/dataGenerator'
+
+interface TornadoChartProps {
+  // One bar per driver, largest swing first
+  data: Array<{ name: string; low: number; high: number; description?: string }>
+  baseValue: number
+  lowLabel?: string
+  highLabel?: string
+  xAxisLabel?: string
+}
+
+// formatNumber only abbreviates positive values
+const formatSigned = (value: number) => value < 0 ? `-${formatNumber(-value)}` : `+${formatNumber(value)}`
+
+export function TornadoChart({
+  data,
+  baseValue,
+  lowLabel = 'Low',
+  highLabel = 'High',
+  xAxisLabel = 'Change in Market Value (US$ Mn)',
+}: TornadoChartProps) {
+  const { theme } = useTheme()
+  const isDark = theme === 'dark'
+
+  if (!data || data.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full text-text-secondary-light dark:text-text-secondary-dark">
+        No data available
+      </div>
+    )
+  }
+
+  // Bars are drawn as deviations from the base value so they meet at zero
+  const chartData = data.map(item => ({
+    ...item,
+    lowDelta: item.low - baseValue,
+    highDelta: item.high - baseValue,
+  }))
+
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const item = payload[0].payload
+      return (
+        <div className={`p-4 rounded-lg border-2 shadow-lg ${
+          isDark
+            ? 'bg-navy-card border-electric-blue text-white'
+            : 'bg-white border-electric-blue text-gray-900'
+        }`}>
+          <p className="font-bold text-base mb-2">{item.name}</p>
+          <p className="text-sm mb-1">
+            <strong>{lowLabel}:</strong> {formatNumber(item.low)} ({formatSigned(item.lowDelta)})
+          </p>
+          <p className="text-sm">
+            <strong>{highLabel}:</strong> {formatNumber(item.high)} ({formatSigned(item.highDelta)})
+          </p>
+          {item.description && (
+            <p className="text-xs mt-2 italic text-text-secondary-light dark:text-text-secondary-dark">
+              {item.description}
+            </p>
+          )}
+        </div>
+      )
+    }
+    return null
+  }
+
+  return (
+    <div className="relative w-full h-full">
+      {/* Demo Data Watermark */}
+      <div
+        className="absolute inset-0 flex items-center justify-center pointer-events-none z-0"
+        style={{ opacity: 0.12 }}
+      >
+        <span
+          className="text-4xl font-bold text-gray-400 dark:text-gray-600 select-none"
+          style={{ transform: 'rotate(-45deg)', transformOrigin: 'center' }}
+        >
+          Demo Data
+        </span>
+      </div>
+
+      <ResponsiveContainer width="100%" height="100%" className="relative z-10">
+        <RechartsBarChart
+          data={chartData}
+          layout="vertical"
+          stackOffset="sign"
+          margin={{
+            top: 20,
+            right: 40,
+            left: 20,
+            bottom: 40,
+          }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke={isDark ? '#4A5568' : '#EAEAEA'} horizontal={false} />
+          <XAxis
+            type="number"
+            stroke={isDark ? '#A0AEC0' : '#4A5568'}
+            tick={{ fill: isDark ? '#E2E8F0' : '#2D3748', fontSize: 12 }}
+            tickFormatter={(value) => value === 0 ? '0' : formatSigned(value)}
+            label={{
+              value: xAxisLabel,
+              position: 'insideBottom',
+              offset: -25,
+              style: {
+                fontSize: '14px',
+                fontWeight: 500,
+                fill: isDark ? '#E2E8F0' : '#2D3748'
+              }
+            }}
+          />
+          <YAxis
+            type="category"
+            dataKey="name"
+            width={240}
+            stroke={isDark ? '#A0AEC0' : '#4A5568'}
+            tick={{ fill: isDark ? '#E2E8F0' : '#2D3748', fontSize: 12 }}
+          />
+          <Tooltip content={<CustomTooltip />} cursor={{ fill: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.04)' }} />
+          <Legend verticalAlign="top" iconSize={12} wrapperStyle={{ paddingBottom: '10px' }} />
+          <ReferenceLine x={0} stroke={isDark ? '#E2E8F0' : '#2D3748'} />
+          <Bar dataKey="lowDelta" name={lowLabel} stackId="swing" fill="#EF4444" />
+          <Bar dataKey="highDelta" name={highLabel} stackId="swing" fill="#10B981" />
+        </RechartsBarChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
@@ -0,0 +1,213 @@
+import { useEffect, useRef, useState, type ChangeEvent } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Bookmark, ChevronDown, Download, Trash2, Upload } from 'lucide-react'
+import { marketAnalysisTabLabels, openView, viewFromLocation } from '../utils/analysisView'
+import {
+  createSavedView,
+  deleteSavedView,
+  exportSavedViews,
+  loadSavedViews,
+  parseSavedViews,
+  putSavedView,
+  type SavedView,
+} from '../utils/savedViews'
+
+const errorMessage = (error: unknown, fallback: string) => error instanceof Error ? error.message : fallback
+
+// Saves the market analysis tab and filters under a name and switches between saved views
+export function ViewSwitcher() {
+  const [isOpen, setIsOpen] = useState(false)
+  const [views, setViews] = useState<SavedView[]>([])
+  const [name, setName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  // Only the market analysis page has a view to save
+  const [canSave, setCanSave] = useState(false)
+  const panelRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const refresh = () => loadSavedViews()
+    .then(setViews)
+    .catch(loadError => setError(errorMessage(loadError, 'Saved views could not be loaded.')))
+
+  useEffect(() => {
+    if (!isOpen) return
+    setError(null)
+    setCanSave(viewFromLocation() !== null)
+    refresh()
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [isOpen])
+
+  const handleSave = async () => {
+    const view = viewFromLocation()
+    if (!view) return
+    // Saving under an existing name updates that view
+    const existing = views.find(saved => saved.name === name.trim())
+    const saved = existing
+      ? { ...existing, view, savedAt: new Date().toISOString() }
+      : createSavedView(name, view)
+    try {
+      await putSavedView(saved)
+      setName('')
+      await refresh()
+    } catch (saveError) {
+      setError(errorMessage(saveError, 'The view could not be saved.'))
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSavedView(id)
+      await refresh()
+    } catch (deleteError) {
+      setError(errorMessage(deleteError, 'The view could not be deleted.'))
+    }
+  }
+
+  const handleOpen = (saved: SavedView) => {
+    openView(saved.view)
+    setIsOpen(false)
+  }
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportSavedViews(views)], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'market-analysis-views.json'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Imported views replace saved ones with the same id
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    try {
+      const imported = parseSavedViews(await file.text())
+      await Promise.all(imported.map(putSavedView))
+      setError(null)
+      await refresh()
+    } catch (importError) {
+      setError(errorMessage(importError, 'The file could not be imported.'))
+    }
+  }
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <motion.button
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-gray-100 text-sm font-medium text-text-secondary-light hover:text-electric-blue transition-all"
+        aria-label="Saved views"
+        aria-expanded={isOpen}
+      >
+        <Bookmark size={18} />
+        <span className="hidden sm:inline">Views</span>
+        <ChevronDown size={16} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </motion.button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.15 }}
+            className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-xl shadow-lg z-50"
+          >
+            <div className="p-4 border-b border-gray-200">
+              <p className="text-sm font-semibold text-text-primary-light mb-2">Save current view</p>
+              {canSave ? (
+                <form
+                  className="flex gap-2"
+                  onSubmit={(event) => {
+                    event.preventDefault()
+                    handleSave()
+                  }}
+                >
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(event) => setName(event.target.value)}
+                    placeholder="View name"
+                    className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:border-electric-blue"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!name.trim()}
+                    className="px-3 py-1.5 text-sm font-medium rounded-lg bg-electric-blue text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Save
+                  </button>
+                </form>
+              ) : (
+                <p className="text-xs text-text-secondary-light">
+                  Open Market Analysis to save its tab and filters.
+                </p>
+              )}
+            </div>
+
+            <div className="max-h-72 overflow-y-auto py-2">
+              {views.length === 0 ? (
+                <p className="px-4 py-3 text-sm text-text-secondary-light">No saved views yet.</p>
+              ) : views.map(saved => (
+                <div key={saved.id} className="group flex items-center gap-2 px-4 py-2 hover:bg-gray-50">
+                  <button onClick={() => handleOpen(saved)} className="flex-1 min-w-0 text-left">
+                    <p className="text-sm font-medium text-text-primary-light truncate">{saved.name}</p>
+                    <p className="text-xs text-text-secondary-light truncate">
+                      {marketAnalysisTabLabels[saved.view.tab]} · {saved.view.filters.marketEvaluation} · {new Date(saved.savedAt).toLocaleDateString()}
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(saved.id)}
+                    className="p-1.5 rounded-lg text-text-secondary-light hover:text-red-500 hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-opacity"
+                    aria-label={`Delete ${saved.name}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {error && (
+              <p className="px-4 pb-2 text-xs text-red-500">{error}</p>
+            )}
+
+            <div className="flex gap-2 p-3 border-t border-gray-200">
+              <button
+                onClick={handleExport}
+                disabled={views.length === 0}
+                className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-text-secondary-light hover:text-electric-blue hover:border-electric-blue disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <Download size={14} />
+                Export
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-text-secondary-light hover:text-electric-blue hover:border-electric-blue transition-colors"
+              >
+                <Upload size={14} />
+                Import
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleImport}
+                className="hidden"
+              />
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
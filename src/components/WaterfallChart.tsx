@@ -7,6 +7,7 @@ import {
   Tooltip,
   ResponsiveContainer,
   Cell,
+  Legend,
 } from 'recharts'
 import { useTheme } from '../context/ThemeContext'
 import { formatWithCommas } from '../utils/dataGenerator'
@@ -19,17 +20,26 @@ interface WaterfallChartProps {
     totalValue?: number
     isBase?: boolean
     isTotal?: boolean
+    // Split of incrementalValue by segment, drawn as stacked bars
+    contributions?: Record<string, number>
+    priceEffect?: number
+    volumeEffect?: number
   }>
   xAxisLabel?: string
   yAxisLabel?: string
   incrementalOpportunity?: number
+  // Segment names in stacking order; without them each step is a single bar
+  segments?: string[]
 }
 
+const SEGMENT_COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d', '#FF6B9D', '#C44569', '#1B9CFC', '#55E6C1']
+
 export function WaterfallChart({ 
   data, 
   xAxisLabel = 'Year', 
   yAxisLabel = 'Market Value (US$ Mn)',
-  incrementalOpportunity
+  incrementalOpportunity,
+  segments = []
 }: WaterfallChartProps) {
   const { theme } = useTheme()
   const isDark = theme === 'dark'
@@ -87,9 +97,14 @@ export function WaterfallChart({
       isBase,
       isTotal,
       incrementalValue: incrementalPortion,
+      contributions: item.contributions,
+      priceEffect: item.priceEffect,
+      volumeEffect: item.volumeEffect,
     }
   })
 
+  const showSegments = segments.length > 0
+
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload
@@ -117,6 +132,23 @@ export function WaterfallChart({
               <p className="text-sm text-blue-400">
                 <strong>Cumulative Value:</strong> {formatWithCommas(data.cumulativeValue || 0, 1)} US$ Mn
               </p>
+              {data.priceEffect !== undefined && data.volumeEffect !== undefined && (
+                <p className="text-sm mt-2">
+                  <strong>Price Effect:</strong> {formatWithCommas(data.priceEffect, 1)} US$ Mn
+                  {' · '}
+                  <strong>Volume Effect:</strong> {formatWithCommas(data.volumeEffect, 1)} US$ Mn
+                </p>
+              )}
+              {data.contributions && showSegments && (
+                <div className="mt-2 space-y-0.5">
+                  {segments.map((segment, index) => (
+                    <p key={segment} className="text-xs flex items-center gap-2">
+                      <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: SEGMENT_COLORS[index % SEGMENT_COLORS.length] }}></span>
+                      {segment}: {formatWithCommas(data.contributions[segment] || 0, 1)} US$ Mn
+                    </p>
+                  ))}
+                </div>
+              )}
             </>
           )}
         </div>
@@ -218,19 +250,55 @@ export function WaterfallChart({
           </Bar>
           
           {/* Incremental portion bar (0 for base bar, incremental value for others) */}
-          <Bar 
-            dataKey="incrementalPortion" 
-            stackId="waterfall"
-            radius={[0, 0, 0, 0]}
-            name="Incremental Value"
-          >
-            {chartData.map((entry, index) => (
-              <Cell 
-                key={`cell-incremental-${index}`} 
-                fill={entry.isBase ? darkBlue : lightBlue}
-              />
-            ))}
-          </Bar>
+          {!showSegments && (
+            <Bar 
+              dataKey="incrementalPortion" 
+              stackId="waterfall"
+              radius={[0, 0, 0, 0]}
+              name="Incremental Value"
+            >
+              {chartData.map((entry, index) => (
+                <Cell 
+                  key={`cell-incremental-${index}`} 
+                  fill={entry.isBase ? darkBlue : lightBlue}
+                />
+              ))}
+            </Bar>
+          )}
+
+          {/* One stacked bar per segment; the total bar keeps its single incremental portion */}
+          {showSegments && segments.map((segment, index) => (
+            <Bar
+              key={segment}
+              dataKey={(entry: typeof chartData[number]) => entry.isTotal ? 0 : entry.contributions?.[segment] || 0}
+              stackId="waterfall"
+              name={segment}
+              fill={SEGMENT_COLORS[index % SEGMENT_COLORS.length]}
+            />
+          ))}
+          {showSegments && (
+            <Bar
+              dataKey={(entry: typeof chartData[number]) => entry.isTotal ? entry.incrementalPortion : 0}
+              stackId="waterfall"
+              name="Total Incremental"
+              fill={lightBlue}
+              legendType="none"
+            />
+          )}
+          {showSegments && (
+            <Legend
+              wrapperStyle={{
+                color: isDark ? '#E2E8F0' : '#2D3748',
+                paddingTop: '20px',
+                fontSize: '12px',
+                fontWeight: 500
+              }}
+              iconSize={12}
+              iconType="square"
+              verticalAlign="bottom"
+              align="center"
+            />
+          )}
         </RechartsBarChart>
       </ResponsiveContainer>
     </div>
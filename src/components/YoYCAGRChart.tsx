@@ -11,27 +11,61 @@ import {
 } from 'recharts'
 import { useTheme } from '../context/ThemeContext'
 
+type GrowthMetric = 'yoy' | 'cagr' | 'rollingCagr'
+
+interface GrowthChartPoint {
+  year: number
+  yoy: number | null
+  cagr: number | null
+  rollingCagr: number | null
+  trend?: 'accelerating' | 'decelerating' | 'steady' | null
+}
+
 interface YoYCAGRChartProps {
-  data: Array<{
-    year: string
-    yoy: number
-    cagr: number
-    [key: string]: any
+  // One line per entity, overlaid on a shared year axis
+  series: Array<{
+    name: string
+    points: GrowthChartPoint[]
   }>
   xAxisLabel?: string
   yAxisLabel?: string
 }
 
+const metricLabels: Record<GrowthMetric, string> = {
+  yoy: 'Y-o-Y',
+  cagr: 'CAGR',
+  rollingCagr: 'Rolling CAGR',
+}
+
+const COLORS = ['#0075FF', '#4ECDC4', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d', '#FF6B9D', '#C44569', '#1B9CFC', '#55E6C1']
+
+const trendMarkers: Record<string, string> = {
+  accelerating: ' ▲',
+  decelerating: ' ▼',
+  steady: '',
+}
+
 export function YoYCAGRChart({ 
-  data, 
+  series, 
   xAxisLabel = 'Year', 
   yAxisLabel = 'Growth Rate (%)'
 }: YoYCAGRChartProps) {
   const { theme } = useTheme()
   const isDark = theme === 'dark'
-  const [showCAGR, setShowCAGR] = useState(false)
+  const [metric, setMetric] = useState<GrowthMetric>('yoy')
+
+  // Rows keyed by year with each entity's point under its name
+  const years = Array.from(new Set(series.flatMap(item => item.points.map(point => point.year)))).sort((a, b) => a - b)
+  const data = years.map(year => {
+    const row: Record<string, GrowthChartPoint | string> = { year: String(year) }
+    series.forEach(item => {
+      const point = item.points.find(p => p.year === year)
+      if (point) row[item.name] = point
+    })
+    return row
+  })
 
-  if (!data || data.length === 0) {
+  if (series.length === 0 || data.length === 0) {
     return (
       <div className="flex items-center justify-center h-full text-text-secondary-light dark:text-text-secondary-dark">
         No data available
@@ -48,20 +82,26 @@ export function YoYCAGRChart({
             : 'bg-white border-electric-blue text-gray-900'
         }`}>
           <p className="font-bold text-base mb-2">Year: {label}</p>
-          {payload.map((entry: any, index: number) => (
-            <p key={index} className="text-sm" style={{ color: entry.color }}>
-              <strong>{entry.name}:</strong> {entry.value.toFixed(2)}%
+          {payload.map((entry: any, index: number) => {
+            const point: GrowthChartPoint | undefined = entry.payload[entry.name]
+            return (
+              <p key={index} className="text-sm" style={{ color: entry.color }}>
+                <strong>{entry.name}:</strong> {entry.value.toFixed(2)}%
+                {metric === 'yoy' && point?.trend ? trendMarkers[point.trend] : ''}
+              </p>
+            )
+          })}
+          {metric === 'yoy' && (
+            <p className="text-xs mt-2 text-text-secondary-light dark:text-text-secondary-dark">
+              ▲ accelerating · ▼ decelerating vs previous year
             </p>
-          ))}
+          )}
         </div>
       )
     }
     return null
   }
 
-  const dataKeys = showCAGR ? ['cagr'] : ['yoy']
-  const colors = showCAGR ? ['#4ECDC4'] : ['#0075FF']
-
   return (
     <div className="relative w-full h-full">
       {/* Demo Data Watermark */}
@@ -84,30 +124,21 @@ export function YoYCAGRChart({
             ? 'bg-navy-card border-navy-light' 
             : 'bg-white border-gray-300'
         } shadow-md`}>
-          <button
-            onClick={() => setShowCAGR(false)}
-            className={`px-4 py-2 rounded text-sm font-semibold transition-all ${
-              !showCAGR
-                ? 'bg-electric-blue text-white'
-                : isDark
-                  ? 'text-text-secondary-dark hover:text-text-primary-dark'
-                  : 'text-text-secondary-light hover:text-text-primary-light'
-            }`}
-          >
-            Y-o-Y
-          </button>
-          <button
-            onClick={() => setShowCAGR(true)}
-            className={`px-4 py-2 rounded text-sm font-semibold transition-all ${
-              showCAGR
-                ? 'bg-electric-blue text-white'
-                : isDark
-                  ? 'text-text-secondary-dark hover:text-text-primary-dark'
-                  : 'text-text-secondary-light hover:text-text-primary-light'
-            }`}
-          >
-            CAGR
-          </button>
+          {(Object.keys(metricLabels) as GrowthMetric[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setMetric(option)}
+              className={`px-4 py-2 rounded text-sm font-semibold transition-all ${
+                metric === option
+                  ? 'bg-electric-blue text-white'
+                  : isDark
+                    ? 'text-text-secondary-dark hover:text-text-primary-dark'
+                    : 'text-text-secondary-light hover:text-text-primary-light'
+              }`}
+            >
+              {metricLabels[option]}
+            </button>
+          ))}
         </div>
       </div>
 
@@ -168,16 +199,17 @@ export function YoYCAGRChart({
             }}
             iconSize={12}
           />
-          {dataKeys.map((key, index) => (
+          {series.map((item, index) => (
             <Line
-              key={key}
+              key={item.name}
               type="monotone"
-              dataKey={key}
-              name={showCAGR ? 'CAGR (%)' : 'Y-o-Y Growth (%)'}
-              stroke={colors[index % colors.length]}
+              dataKey={(row: Record<string, GrowthChartPoint | undefined>) => row[item.name]?.[metric] ?? null}
+              name={item.name}
+              stroke={COLORS[index % COLORS.length]}
               strokeWidth={3}
               dot={{ r: 5 }}
               activeDot={{ r: 7 }}
+              connectNulls
             />
           ))}
         </RechartsLineChart>
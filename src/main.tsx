@@ -2,6 +2,9 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
 import './index.css'
+import { dashboardTitle } from './utils/marketDefinition'
+
+document.title = dashboardTitle()
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
@@ -0,0 +1,483 @@
+import { useState, useEffect, useMemo } from 'react'
+import { ArrowLeft, Search, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, AlertCircle } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { loadCSVDataWithDiagnostics } from '../utils/csvParser'
+import type { CsvDiagnostic } from '../utils/csvReader'
+import type { SchemaValidationReport } from '../utils/importSchema'
+import { scoreCustomers, LEAD_TIERS, type ScoredCustomer, type LeadParseIssue } from '../utils/leadScoring'
+import { marketDefinition } from '../utils/marketDefinition'
+import { FilterDropdown } from '../components/FilterDropdown'
+import { StatBox } from '../components/StatBox'
+import { InfoTooltip } from '../components/InfoTooltip'
+import { CustomerDetailDrawer } from '../components/CustomerDetailDrawer'
+import { ImportValidationReport } from '../components/ImportValidationReport'
+import { useTheme } from '../context/ThemeContext'
+
+interface CustomerIntelligenceProps {
+  onNavigate: (page: string) => void
+}
+
+type SortDirection = 'asc' | 'desc'
+
+const PAGE_SIZE_OPTIONS = [10, 25, 50]
+
+interface TableColumn {
+  key: string
+  label: string
+  getValue: (row: ScoredCustomer) => string | number | null
+}
+
+// Columns shown in the accounts table
+const tableColumns: TableColumn[] = [
+  { key: 'companyName', label: 'Company', getValue: (row) => row.companyName },
+  { key: 'region', label: 'Region', getValue: (row) => row.region },
+  { key: 'industrySector', label: 'Industry / Sector', getValue: (row) => row.industrySector },
+  { key: 'decisionRole', label: 'Decision Role', getValue: (row) => row.decisionRole },
+  { key: 'typeOfShovelRequired', label: `${marketDefinition.productNoun} Type`, getValue: (row) => row.typeOfShovelRequired },
+  { key: 'priceSensitivity', label: 'Price Sensitivity', getValue: (row) => row.priceSensitivity },
+  { key: 'demandScore', label: 'Demand Score', getValue: (row) => row.leadScore.demandScore },
+  { key: 'oemFitScore', label: 'OEM Fit', getValue: (row) => row.leadScore.oemFitScore },
+  { key: 'leadTier', label: 'Lead Potential', getValue: (row) => row.leadScore.priority },
+]
+
+// Free-text fields often carry a rationale after the label (e.g. "Medium: multi-branch...")
+const getLeadingLabel = (value: string): string => {
+  return value.split(/[:\s]/)[0].trim()
+}
+
+const leadBadgeClasses: Record<string, string> = {
+  'Hot': 'bg-red-100 text-red-700',
+  'Warm': 'bg-yellow-100 text-yellow-800',
+  'Cold': 'bg-blue-100 text-blue-700',
+}
+
+export function CustomerIntelligence({ onNavigate }: CustomerIntelligenceProps) {
+  const { theme } = useTheme()
+  const isDark = theme === 'dark'
+
+  const [data, setData] = useState<ScoredCustomer[]>([])
+  const [parseIssues, setParseIssues] = useState<LeadParseIssue[]>([])
+  const [csvDiagnostics, setCsvDiagnostics] = useState<CsvDiagnostic[]>([])
+  const [validationReport, setValidationReport] = useState<SchemaValidationReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [filters, setFilters] = useState({
+    region: [] as string[],
+    industrySector: [] as string[],
+    priceSensitivity: [] as string[],
+    leadPotential: [] as string[],
+  })
+  // Default to ranking the most promising leads first
+  const [sortKey, setSortKey] = useState('leadTier')
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
+  const [page, setPage] = useState(0)
+  const [pageSize, setPageSize] = useState(PAGE_SIZE_OPTIONS[0])
+  const [selectedCustomer, setSelectedCustomer] = useState<ScoredCustomer | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    loadCSVDataWithDiagnostics().then(({ data: rows, diagnostics, report }) => {
+      if (!cancelled) {
+        const { rows: scoredRows, issues } = scoreCustomers(rows)
+        setData(scoredRows)
+        setParseIssues(issues)
+        setCsvDiagnostics(diagnostics)
+        setValidationReport(report)
+        setLoading(false)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Get unique filter options
+  const uniqueOptions = useMemo(() => {
+    const regionSet = new Set<string>()
+    const industrySet = new Set<string>()
+    const priceSensitivitySet = new Set<string>()
+    const leadPotentialSet = new Set<string>()
+
+    data.forEach(d => {
+      if (d.region) regionSet.add(d.region)
+      if (d.industrySector) industrySet.add(d.industrySector)
+      if (d.priceSensitivity) priceSensitivitySet.add(getLeadingLabel(d.priceSensitivity))
+      if (d.leadScore.leadTier) leadPotentialSet.add(d.leadScore.leadTier)
+    })
+
+    return {
+      regions: Array.from(regionSet).sort(),
+      industrySectors: Array.from(industrySet).sort(),
+      priceSensitivities: Array.from(priceSensitivitySet).filter(Boolean).sort(),
+      leadPotentials: LEAD_TIERS.filter(tier => leadPotentialSet.has(tier)),
+    }
+  }, [data])
+
+  // Filter and search data
+  const filteredData = useMemo(() => {
+    let filtered = [...data]
+
+    if (filters.region.length > 0) {
+      filtered = filtered.filter(d => filters.region.includes(d.region))
+    }
+    if (filters.industrySector.length > 0) {
+      filtered = filtered.filter(d => filters.industrySector.includes(d.industrySector))
+    }
+    if (filters.priceSensitivity.length > 0) {
+      filtered = filtered.filter(d => filters.priceSensitivity.includes(getLeadingLabel(d.priceSensitivity)))
+    }
+    if (filters.leadPotential.length > 0) {
+      filtered = filtered.filter(d => d.leadScore.leadTier !== null && filters.leadPotential.includes(d.leadScore.leadTier))
+    }
+
+    const term = searchTerm.trim().toLowerCase()
+    if (term) {
+      filtered = filtered.filter(d =>
+        [d.companyName, d.name, d.industrySector, d.decisionRole, d.typeOfShovelRequired, d.headquartersAddress]
+          .some(value => value.toLowerCase().includes(term))
+      )
+    }
+
+    return filtered
+  }, [data, filters, searchTerm])
+
+  const sortedData = useMemo(() => {
+    const column = tableColumns.find(c => c.key === sortKey) || tableColumns[0]
+    const sorted = [...filteredData]
+    sorted.sort((a, b) => {
+      const aValue = column.getValue(a)
+      const bValue = column.getValue(b)
+      // Unparsed values always sort last
+      if (aValue === null || aValue === '') return bValue === null || bValue === '' ? 0 : 1
+      if (bValue === null || bValue === '') return -1
+      const comparison = typeof aValue === 'number' && typeof bValue === 'number'
+        ? aValue - bValue
+        : String(aValue).localeCompare(String(bValue), undefined, { numeric: true, sensitivity: 'base' })
+      return sortDirection === 'asc' ? comparison : -comparison
+    })
+    return sorted
+  }, [filteredData, sortKey, sortDirection])
+
+  const tierCounts = useMemo(() => {
+    const counts: Record<string, number> = {}
+    filteredData.forEach(d => {
+      if (d.leadScore.leadTier) {
+        counts[d.leadScore.leadTier] = (counts[d.leadScore.leadTier] || 0) + 1
+      }
+    })
+    return counts
+  }, [filteredData])
+
+  const pageCount = Math.max(1, Math.ceil(sortedData.length / pageSize))
+  const currentPage = Math.min(page, pageCount - 1)
+  const pagedData = sortedData.slice(currentPage * pageSize, (currentPage + 1) * pageSize)
+
+  // Reset to the first page whenever the result set changes
+  useEffect(() => {
+    setPage(0)
+  }, [filters, searchTerm, pageSize])
+
+  const handleSort = (key: string) => {
+    if (sortKey === key) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')
+    } else {
+      setSortKey(key)
+      setSortDirection('asc')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-electric-blue mx-auto mb-4"></div>
+          <p className="text-text-secondary-light dark:text-text-secondary-dark">Loading customer intelligence data...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8 pb-8">
+      {/* Header Section */}
+      <div className="flex justify-between items-start mb-6">
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={() => onNavigate('Home')}
+          className="flex items-center gap-2 px-5 py-2.5 bg-electric-blue text-white rounded-lg hover:bg-blue-600 transition-colors shadow-md"
+        >
+          <ArrowLeft size={20} />
+          Back to Home
+        </motion.button>
+      </div>
+
+      {/* Page Title */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="mb-8"
+      >
+        <InfoTooltip content="• Explore customer accounts from the customer intelligence survey\n• Search by company, contact, sector, role or address\n• Click a column header to sort, click a row to open the account details">
+          <h1 className="text-4xl font-bold text-text-primary-light dark:text-text-primary-dark mb-3 cursor-help">
+            Customer Intelligence
+          </h1>
+        </InfoTooltip>
+        <p className="text-xl text-text-secondary-light dark:text-text-secondary-dark">
+          Account-level view of buyers, requirements and lead potential
+        </p>
+      </motion.div>
+
+      {data.length === 0 ? (
+        <div className={`p-8 rounded-2xl shadow-xl ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-300'}`}>
+          <div className="text-center py-12">
+            <p className="text-lg text-text-secondary-light dark:text-text-secondary-dark mb-4">
+              No customer data available. Please check the data source.
+            </p>
+            <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
+              If this issue persists, please refresh the page or contact support.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <>
+          {/* Filters Section */}
+          <div className={`p-8 rounded-2xl mb-8 shadow-xl ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-300'} relative`} style={{ overflow: 'visible' }}>
+            <div className="mb-6">
+              <div className="flex items-center gap-3 mb-2">
+                <div className={`w-1 h-8 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                <h3 className="text-2xl font-bold text-text-primary-light dark:text-text-primary-dark">
+                  Filter Accounts
+                </h3>
+              </div>
+              <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4">
+                Narrow down accounts by region, sector, price sensitivity and lead potential.
+              </p>
+            </div>
+
+            <div className="mb-6 relative">
+              <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-text-secondary-light dark:text-text-secondary-dark" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Search accounts..."
+                aria-label="Search accounts"
+                className={`w-full pl-10 pr-4 py-2 rounded-lg border focus:outline-none focus:ring-2 focus:ring-electric-blue transition-all ${
+                  isDark
+                    ? 'bg-navy-card border-navy-light text-text-primary-dark'
+                    : 'bg-white border-gray-300 text-text-primary-light'
+                }`}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              <FilterDropdown
+                label="Region"
+                value={filters.region}
+                onChange={(value) => setFilters({ ...filters, region: value as string[] })}
+                options={uniqueOptions.regions}
+              />
+              <FilterDropdown
+                label="Industry / Sector"
+                value={filters.industrySector}
+                onChange={(value) => setFilters({ ...filters, industrySector: value as string[] })}
+                options={uniqueOptions.industrySectors}
+              />
+              <FilterDropdown
+                label="Price Sensitivity"
+                value={filters.priceSensitivity}
+                onChange={(value) => setFilters({ ...filters, priceSensitivity: value as string[] })}
+                options={uniqueOptions.priceSensitivities}
+              />
+              <FilterDropdown
+                label="Lead Potential"
+                value={filters.leadPotential}
+                onChange={(value) => setFilters({ ...filters, leadPotential: value as string[] })}
+                options={uniqueOptions.leadPotentials}
+              />
+            </div>
+          </div>
+
+          {/* Lead Tier Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {LEAD_TIERS.map(tier => (
+              <div key={tier} className={`p-7 rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                <StatBox
+                  title={String(tierCounts[tier] || 0)}
+                  subtitle={`${tier} Leads`}
+                />
+              </div>
+            ))}
+          </div>
+
+          {csvDiagnostics.length > 0 && (
+            <div className="p-4 rounded-xl border-2 border-yellow-400 bg-yellow-50 flex items-start gap-3">
+              <AlertCircle className="text-yellow-600 flex-shrink-0 mt-0.5" size={20} />
+              <div className="text-sm text-yellow-800">
+                <p className="font-semibold mb-1">
+                  {csvDiagnostics.length} {csvDiagnostics.length === 1 ? 'problem' : 'problems'} found while reading the source file
+                </p>
+                <ul className="list-disc ml-5 space-y-0.5">
+                  {csvDiagnostics.slice(0, 5).map((diagnostic, index) => (
+                    <li key={index}>
+                      {diagnostic.line > 0 ? `Line ${diagnostic.line}: ` : ''}{diagnostic.message}
+                    </li>
+                  ))}
+                  {csvDiagnostics.length > 5 && <li>and {csvDiagnostics.length - 5} more</li>}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          {validationReport && <ImportValidationReport report={validationReport} />}
+
+          {parseIssues.length > 0 && (
+            <div className="p-4 rounded-xl border-2 border-yellow-400 bg-yellow-50 flex items-start gap-3">
+              <AlertCircle className="text-yellow-600 flex-shrink-0 mt-0.5" size={20} />
+              <div className="text-sm text-yellow-800">
+                <p className="font-semibold mb-1">
+                  {parseIssues.length} lead assessment {parseIssues.length === 1 ? 'value' : 'values'} could not be parsed
+                </p>
+                <ul className="list-disc ml-5 space-y-0.5">
+                  {parseIssues.slice(0, 5).map(issue => (
+                    <li key={`${issue.rowIndex}-${issue.field}`}>
+                      {issue.companyName || `Row ${issue.rowIndex + 1}`}: {issue.reason} in "{issue.value}"
+                    </li>
+                  ))}
+                  {parseIssues.length > 5 && <li>and {parseIssues.length - 5} more</li>}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          {/* Accounts Table */}
+          <div className={`p-6 rounded-2xl shadow-xl ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-300'}`}>
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className={`w-1 h-8 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                <h2 className="text-2xl font-bold text-text-primary-light dark:text-text-primary-dark">
+                  Accounts
+                </h2>
+              </div>
+              <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
+                {sortedData.length} of {data.length} accounts
+              </p>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead>
+                  <tr className="border-b-2 border-gray-200 dark:border-navy-light">
+                    {tableColumns.map(column => (
+                      <th key={column.key} className="px-4 py-3 font-semibold text-text-secondary-light dark:text-text-secondary-dark whitespace-nowrap">
+                        <button
+                          onClick={() => handleSort(column.key)}
+                          className="flex items-center gap-1 hover:text-electric-blue dark:hover:text-cyan-accent transition-colors"
+                        >
+                          {column.label}
+                          {sortKey === column.key && (
+                            sortDirection === 'asc' ? <ChevronUp size={14} /> : <ChevronDown size={14} />
+                          )}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {pagedData.length === 0 ? (
+                    <tr>
+                      <td colSpan={tableColumns.length} className="px-4 py-12 text-center text-text-secondary-light dark:text-text-secondary-dark">
+                        No accounts match the current filters
+                      </td>
+                    </tr>
+                  ) : (
+                    pagedData.map((row, index) => (
+                      <tr
+                        key={`${row.sNo}-${row.companyName}-${index}`}
+                        onClick={() => setSelectedCustomer(row)}
+                        className="border-b border-gray-100 dark:border-navy-light hover:bg-blue-50 dark:hover:bg-navy-light cursor-pointer transition-colors"
+                      >
+                        {tableColumns.map(column => {
+                          if (column.key === 'leadTier') {
+                            const tier = row.leadScore.leadTier
+                            return (
+                              <td key={column.key} className="px-4 py-3" title={row.leadPotential}>
+                                <span className={`px-2 py-1 rounded-full text-xs font-semibold ${tier ? leadBadgeClasses[tier] : 'bg-gray-100 text-gray-700'}`}>
+                                  {tier || '—'}
+                                </span>
+                              </td>
+                            )
+                          }
+                          const cellValue = column.getValue(row)
+                          const value = cellValue === null ? '' : String(cellValue)
+                          return (
+                            <td
+                              key={column.key}
+                              className={`px-4 py-3 max-w-xs truncate ${
+                                column.key === 'companyName'
+                                  ? 'font-semibold text-text-primary-light dark:text-text-primary-dark'
+                                  : 'text-text-secondary-light dark:text-text-secondary-dark'
+                              }`}
+                              title={value}
+                            >
+                              {value || '—'}
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Pagination */}
+            <div className="flex flex-col md:flex-row items-center justify-between gap-4 mt-6">
+              <div className="flex items-center gap-2 text-sm text-text-secondary-light dark:text-text-secondary-dark">
+                <span>Rows per page:</span>
+                <select
+                  value={pageSize}
+                  onChange={(e) => setPageSize(Number(e.target.value))}
+                  className={`px-2 py-1 rounded border focus:outline-none focus:ring-2 focus:ring-electric-blue ${
+                    isDark ? 'bg-navy-dark border-navy-light text-text-primary-dark' : 'bg-white border-gray-300 text-text-primary-light'
+                  }`}
+                >
+                  {PAGE_SIZE_OPTIONS.map(size => (
+                    <option key={size} value={size}>{size}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => setPage(Math.max(0, currentPage - 1))}
+                  disabled={currentPage === 0}
+                  className="p-2 rounded-lg border border-gray-300 dark:border-navy-light hover:bg-gray-100 dark:hover:bg-navy-light disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                  aria-label="Previous page"
+                >
+                  <ChevronLeft size={16} />
+                </button>
+                <span className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
+                  Page {currentPage + 1} of {pageCount}
+                </span>
+                <button
+                  onClick={() => setPage(Math.min(pageCount - 1, currentPage + 1))}
+                  disabled={currentPage >= pageCount - 1}
+                  className="p-2 rounded-lg border border-gray-300 dark:border-navy-light hover:bg-gray-100 dark:hover:bg-navy-light disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                  aria-label="Next page"
+                >
+                  <ChevronRight size={16} />
+                </button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+
+      <CustomerDetailDrawer
+        customer={selectedCustomer}
+        onClose={() => setSelectedCustomer(null)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,432 @@
+import { useState, useMemo, useRef } from 'react'
+import { ArrowLeft, ArrowRight, Upload, FileSpreadsheet, CheckCircle, AlertCircle, RotateCcw } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { ImportValidationReport } from '../components/ImportValidationReport'
+import { useTheme } from '../context/ThemeContext'
+import {
+  readImportFile,
+  prepareImport,
+  resetImportedDataset,
+  getImportedDatasetInfo,
+  getTargetSchema,
+  datasetTargets,
+  ACCEPTED_FILE_TYPES,
+  type DatasetTarget,
+  type ParsedImportFile,
+} from '../utils/datasetImport'
+import { suggestMapping, type ColumnMapping } from '../utils/importSchema'
+
+interface DataImportProps {
+  onNavigate: (page: string) => void
+}
+
+type WizardStep = 'upload' | 'preview' | 'map' | 'validate'
+
+const wizardSteps: Array<{ id: WizardStep; label: string }> = [
+  { id: 'upload', label: 'Upload File' },
+  { id: 'preview', label: 'Preview' },
+  { id: 'map', label: 'Map Columns' },
+  { id: 'validate', label: 'Validate & Load' },
+]
+
+const PREVIEW_ROWS = 10
+
+export function DataImport({ onNavigate }: DataImportProps) {
+  const { theme } = useTheme()
+  const isDark = theme === 'dark'
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [step, setStep] = useState<WizardStep>('upload')
+  const [target, setTarget] = useState<DatasetTarget>('market')
+  const [file, setFile] = useState<ParsedImportFile | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>([])
+  const [dragActive, setDragActive] = useState(false)
+  const [reading, setReading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Bumped after loading or resetting so the data source status re-renders
+  const [importVersion, setImportVersion] = useState(0)
+
+  const schema = getTargetSchema(target)
+
+  const preparation = useMemo(() => {
+    if (!file || step !== 'validate') return null
+    return prepareImport(file, target, mapping)
+  }, [file, target, mapping, step])
+
+  const selectTarget = (nextTarget: DatasetTarget) => {
+    setTarget(nextTarget)
+    if (file) {
+      setMapping(suggestMapping(file.headers, getTargetSchema(nextTarget)))
+    }
+  }
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return
+    setError(null)
+    setReading(true)
+    try {
+      const parsed = await readImportFile(selected)
+      if (parsed.headers.length === 0) {
+        throw new Error('The file has no header row')
+      }
+      setFile(parsed)
+      setMapping(suggestMapping(parsed.headers, schema))
+      setStep('preview')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the file')
+    } finally {
+      setReading(false)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setDragActive(false)
+    handleFile(e.dataTransfer.files[0])
+  }
+
+  const updateMapping = (columnIndex: number, field: string) => {
+    const next = [...mapping]
+    next[columnIndex] = field || null
+    setMapping(next)
+  }
+
+  const handleLoad = () => {
+    if (!preparation?.canImport) return
+    preparation.commit()
+    setImportVersion(importVersion + 1)
+    onNavigate(datasetTargets[target].page)
+  }
+
+  const handleReset = (resetTarget: DatasetTarget) => {
+    resetImportedDataset(resetTarget)
+    setImportVersion(importVersion + 1)
+  }
+
+  const startOver = () => {
+    setFile(null)
+    setMapping([])
+    setError(null)
+    setStep('upload')
+  }
+
+  const stepIndex = wizardSteps.findIndex(s => s.id === step)
+  const cardClasses = `p-8 rounded-2xl shadow-xl ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-300'}`
+  const selectClasses = `w-full px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-electric-blue ${
+    isDark ? 'bg-navy-card border-navy-light text-text-primary-dark' : 'bg-white border-gray-300 text-text-primary-light'
+  }`
+
+  return (
+    <div className="space-y-6">
+      <motion.button
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        onClick={() => onNavigate('Home')}
+        className="flex items-center gap-2 px-4 py-2 bg-electric-blue text-white rounded-lg hover:bg-blue-600 transition-colors"
+      >
+        <ArrowLeft size={20} />
+        Back to Home
+      </motion.button>
+
+      <div>
+        <h1 className="text-4xl font-bold text-text-primary-light dark:text-text-primary-dark mb-2">
+          Import Data
+        </h1>
+        <p className="text-lg text-text-secondary-light dark:text-text-secondary-dark">
+          Load a client's CSV, TSV or JSON file into the dashboard in place of the default data
+        </p>
+      </div>
+
+      {/* Current Data Sources */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6" key={importVersion}>
+        {(Object.keys(datasetTargets) as DatasetTarget[]).map(datasetTarget => {
+          const info = getImportedDatasetInfo(datasetTarget)
+          return (
+            <div key={datasetTarget} className={`p-6 rounded-2xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+              <p className="text-sm font-medium text-electric-blue dark:text-cyan-accent mb-1">
+                {datasetTargets[datasetTarget].label}
+              </p>
+              <p className="text-lg font-bold text-text-primary-light dark:text-text-primary-dark">
+                {info ? info.fileName : 'Default data'}
+              </p>
+              <div className="flex items-center justify-between mt-2">
+                <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
+                  {info
+                    ? `${info.rowCount.toLocaleString('en-US')} rows imported ${info.importedAt.toLocaleTimeString()}`
+                    : datasetTarget === 'market' ? 'Generated demo dataset' : 'Bundled survey file'}
+                </p>
+                {info && (
+                  <button
+                    onClick={() => handleReset(datasetTarget)}
+                    className="flex items-center gap-1 text-sm font-medium text-electric-blue dark:text-cyan-accent hover:underline"
+                  >
+                    <RotateCcw size={14} />
+                    Restore default
+                  </button>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Step Indicator */}
+      <div className="flex flex-wrap items-center gap-2">
+        {wizardSteps.map((wizardStep, index) => (
+          <div key={wizardStep.id} className="flex items-center gap-2">
+            <div className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold ${
+              index === stepIndex
+                ? 'bg-electric-blue text-white'
+                : index < stepIndex
+                  ? 'bg-blue-100 text-electric-blue'
+                  : isDark ? 'bg-navy-card text-text-secondary-dark' : 'bg-gray-100 text-text-secondary-light'
+            }`}>
+              <span>{index + 1}</span>
+              <span>{wizardStep.label}</span>
+            </div>
+            {index < wizardSteps.length - 1 && (
+              <ArrowRight size={16} className="text-text-secondary-light dark:text-text-secondary-dark" />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Step 1: Upload */}
+      {step === 'upload' && (
+        <div className={cardClasses}>
+          <div className="mb-6">
+            <p className="text-sm font-semibold text-text-primary-light dark:text-text-primary-dark mb-3">
+              Load the file into
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {(Object.keys(datasetTargets) as DatasetTarget[]).map(datasetTarget => (
+                <button
+                  key={datasetTarget}
+                  onClick={() => selectTarget(datasetTarget)}
+                  className={`p-4 rounded-xl border-2 text-left transition-all ${
+                    target === datasetTarget
+                      ? 'border-electric-blue bg-blue-50 dark:bg-navy-dark'
+                      : 'border-gray-200 dark:border-navy-light hover:border-electric-blue'
+                  }`}
+                >
+                  <p className="font-bold text-text-primary-light dark:text-text-primary-dark">
+                    {datasetTargets[datasetTarget].label}
+                  </p>
+                  <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark mt-1">
+                    {datasetTargets[datasetTarget].description}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div
+            onDragOver={(e) => {
+              e.preventDefault()
+              setDragActive(true)
+            }}
+            onDragLeave={() => setDragActive(false)}
+            onDrop={handleDrop}
+            onClick={() => fileInputRef.current?.click()}
+            className={`p-12 rounded-xl border-2 border-dashed text-center cursor-pointer transition-all ${
+              dragActive
+                ? 'border-electric-blue bg-blue-50 dark:bg-navy-dark'
+                : 'border-gray-300 dark:border-navy-light hover:border-electric-blue'
+            }`}
+          >
+            <Upload size={40} className="mx-auto mb-4 text-electric-blue dark:text-cyan-accent" />
+            <p className="text-lg font-semibold text-text-primary-light dark:text-text-primary-dark">
+              {reading ? 'Reading file...' : 'Drag and drop a file here, or click to browse'}
+            </p>
+            <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark mt-1">
+              CSV, TSV or JSON
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_FILE_TYPES}
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0])
+                e.target.value = ''
+              }}
+            />
+          </div>
+
+          {error && (
+            <div className="mt-4 p-4 rounded-xl border-2 border-red-300 bg-red-50 flex items-start gap-3">
+              <AlertCircle className="text-red-600 flex-shrink-0 mt-0.5" size={20} />
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Step 2: Preview */}
+      {step === 'preview' && file && (
+        <div className={cardClasses}>
+          <div className="flex items-center gap-3 mb-4">
+            <FileSpreadsheet size={22} className="text-electric-blue dark:text-cyan-accent" />
+            <h2 className="text-2xl font-bold text-text-primary-light dark:text-text-primary-dark">
+              {file.fileName}
+            </h2>
+          </div>
+          <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark mb-4">
+            {file.format.toUpperCase()} · {file.headers.length} columns · {file.rows.length.toLocaleString('en-US')} rows
+            {file.rows.length > PREVIEW_ROWS && ` · showing first ${PREVIEW_ROWS}`}
+          </p>
+
+          {file.diagnostics.length > 0 && (
+            <div className="mb-4 p-4 rounded-xl border-2 border-yellow-400 bg-yellow-50 flex items-start gap-3">
+              <AlertCircle className="text-yellow-600 flex-shrink-0 mt-0.5" size={20} />
+              <ul className="text-sm text-yellow-800 list-disc ml-4 space-y-0.5">
+                {file.diagnostics.slice(0, 5).map((diagnostic, index) => (
+                  <li key={index}>
+                    {diagnostic.line > 0 ? `Line ${diagnostic.line}: ` : ''}{diagnostic.message}
+                  </li>
+                ))}
+                {file.diagnostics.length > 5 && <li>and {file.diagnostics.length - 5} more</li>}
+              </ul>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead>
+                <tr className="border-b-2 border-gray-200 dark:border-navy-light">
+                  {file.headers.map((header, index) => (
+                    <th key={index} className="px-3 py-2 font-semibold text-text-secondary-light dark:text-text-secondary-dark whitespace-nowrap">
+                      {header || `Column ${index + 1}`}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {file.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-b border-gray-100 dark:border-navy-light">
+                    {file.headers.map((_, index) => (
+                      <td key={index} className="px-3 py-2 text-text-primary-light dark:text-text-primary-dark max-w-[14rem] truncate" title={row[index]}>
+                        {row[index]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Step 3: Map Columns */}
+      {step === 'map' && file && (
+        <div className={cardClasses}>
+          <div className="flex items-center gap-3 mb-2">
+            <div className={`w-1 h-8 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+            <h2 className="text-2xl font-bold text-text-primary-light dark:text-text-primary-dark">
+              Map Columns to {datasetTargets[target].label} Fields
+            </h2>
+          </div>
+          <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4 mb-6">
+            Columns were matched by header name where possible. Fields marked * are required.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+            {file.headers.map((header, index) => (
+              <div key={index} className="grid grid-cols-2 gap-3 items-center">
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-text-primary-light dark:text-text-primary-dark truncate" title={header}>
+                    {header || `Column ${index + 1}`}
+                  </p>
+                  <p className="text-xs text-text-secondary-light dark:text-text-secondary-dark truncate" title={file.rows[0]?.[index]}>
+                    e.g. {file.rows[0]?.[index] || '—'}
+                  </p>
+                </div>
+                <select
+                  value={mapping[index] ?? ''}
+                  onChange={(e) => updateMapping(index, e.target.value)}
+                  className={selectClasses}
+                  aria-label={`Field for column ${header}`}
+                >
+                  <option value="">Ignore column</option>
+                  {schema.map(field => (
+                    <option key={field.key} value={field.key}>
+                      {field.label}{field.required ? ' *' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Step 4: Validate & Load */}
+      {step === 'validate' && file && preparation && (
+        <div className="space-y-6">
+          <div className={cardClasses}>
+            <div className="flex items-start gap-3">
+              {preparation.canImport ? (
+                <CheckCircle size={24} className="text-green-600 flex-shrink-0" />
+              ) : (
+                <AlertCircle size={24} className="text-red-600 flex-shrink-0" />
+              )}
+              <div>
+                <h2 className="text-2xl font-bold text-text-primary-light dark:text-text-primary-dark">
+                  {preparation.canImport
+                    ? `${preparation.rowCount.toLocaleString('en-US')} rows ready to load`
+                    : 'This file cannot be loaded yet'}
+                </h2>
+                <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark mt-1">
+                  {preparation.canImport
+                    ? `Loading replaces the current ${datasetTargets[target].label.toLowerCase()} until you restore the default.`
+                    : 'Map a column to every required field and make sure the file has data rows.'}
+                  {preparation.skippedRows > 0 && ` ${preparation.skippedRows} rows without a valid year will be skipped.`}
+                </p>
+              </div>
+            </div>
+          </div>
+          <ImportValidationReport report={preparation.report} defaultExpanded />
+        </div>
+      )}
+
+      {/* Wizard Navigation */}
+      {step !== 'upload' && (
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setStep(wizardSteps[stepIndex - 1].id)}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg border-2 border-electric-blue text-electric-blue font-semibold hover:bg-blue-50 transition-colors"
+            >
+              <ArrowLeft size={18} />
+              Back
+            </button>
+            <button
+              onClick={startOver}
+              className="text-sm font-medium text-text-secondary-light dark:text-text-secondary-dark hover:underline"
+            >
+              Choose another file
+            </button>
+          </div>
+          {step === 'validate' ? (
+            <button
+              onClick={handleLoad}
+              disabled={!preparation?.canImport}
+              className="flex items-center gap-2 px-6 py-2 bg-electric-blue text-white rounded-lg font-semibold hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Upload size={18} />
+              Load into Dashboard
+            </button>
+          ) : (
+            <button
+              onClick={() => setStep(wizardSteps[stepIndex + 1].id)}
+              className="flex items-center gap-2 px-6 py-2 bg-electric-blue text-white rounded-lg font-semibold hover:bg-blue-600 transition-colors"
+            >
+              Next
+              <ArrowRight size={18} />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import { motion } from 'framer-motion'
-import { TrendingUp, ArrowRight, LucideIcon } from 'lucide-react'
+import { TrendingUp, Users, ArrowRight, LucideIcon } from 'lucide-react'
 import { DemoNotice } from '../components/DemoNotice'
+import { marketDefinition } from '../utils/marketDefinition'
 
 interface HomeProps {
   onNavigate: (page: string) => void
@@ -23,6 +24,13 @@ export function Home({ onNavigate }: HomeProps) {
       id: "MarketAnalysis",
       gradient: "#0075FF",
     },
+    {
+      title: "Customer Intelligence",
+      description: "Browse customer accounts, buying requirements, and lead potential",
+      icon: Users,
+      id: "CustomerIntelligence",
+      gradient: "#0075FF",
+    },
   ]
 
   const containerVariants = {
@@ -58,11 +66,11 @@ export function Home({ onNavigate }: HomeProps) {
         className="mb-10 text-center"
       >
         <h1 className="text-3xl md:text-4xl font-bold text-text-primary-light dark:text-text-primary-dark mb-2">
-          <span className="block">U.S., GERMANY, CHINA, & JAPAN</span>
-          <span className="block">ELECTRONIC SHAVERS MARKET DASHBOARD</span>
+          <span className="block uppercase">{marketDefinition.scope}</span>
+          <span className="block uppercase">{marketDefinition.name} Market Dashboard</span>
         </h1>
         <p className="text-lg text-electric-blue dark:text-cyan-accent">
-          Industry Insights, Trends, Outlook, and Opportunity Analysis, 2025-2032
+          Industry Insights, Trends, Outlook, and Opportunity Analysis, {marketDefinition.years.lastActual + 1}-{marketDefinition.years.outlookEnd}
         </p>
       </motion.div>
 
@@ -78,12 +86,12 @@ export function Home({ onNavigate }: HomeProps) {
             Select Analysis Category
           </h2>
           <p className="text-center text-text-secondary-light dark:text-text-secondary-dark mb-8">
-            Choose your analysis approach to explore Global Electronic Shavers market data
+            Choose your analysis approach to explore {marketDefinition.scope} {marketDefinition.name} market data
           </p>
         </motion.div>
 
         <div className="flex justify-center mb-8">
-          <div className="w-full max-w-md">
+          <div className="w-full max-w-md space-y-6">
           {analysisTiles.map((tile) => {
             const TileIcon = tile.icon
             
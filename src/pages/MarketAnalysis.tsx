@@ -1,7 +1,63 @@
 import { useState, useEffect, useMemo } from 'react'
 import { ArrowLeft } from 'lucide-react'
 import { motion } from 'framer-motion'
-import { getData, formatWithCommas, clearDataCache, type ShovelMarketData, getProductTypeHierarchy, getSalesChannelHierarchy } from '../utils/dataGenerator'
+import { formatWithCommas, formatNumber } from '../utils/dataGenerator'
+import { marketDefinition } from '../utils/marketDefinition'
+import { getHierarchy, toFilterHierarchy } from '../utils/hierarchyRegistry'
+import { marketAnalysisPath, updateLocation, type MarketAnalysisTab } from '../utils/routing'
+import { defaultView, viewFromLocation, viewQuery } from '../utils/analysisView'
+import { dimensionSegments, dimensions, selectDimension, selectDimensions, type DimensionId } from '../utils/semanticFields'
+import { loadCSVData, type CustomerIntelligenceData } from '../utils/csvParser'
+import { loadData } from '../utils/dataLoader'
+import { bitmapAnd, bitmapCount, distinctValues, selectAll, type Bitmap, type ColumnarStore, type DimensionKey } from '../utils/columnarStore'
+import { pivot, query, type MeasureExpression } from '../utils/marketQuery'
+import { computeMarketKpis } from '../utils/marketKpis'
+import { computeGrowthByEntity, computeGrowthSeries, growthEntityLabels, type GrowthEntityKey } from '../utils/growthAnalytics'
+import { computeIncrementalOpportunity, opportunityBreakdowns, type OpportunityBreakdown } from '../utils/incrementalOpportunity'
+import {
+  attractivenessDimensions,
+  classifyQuadrant,
+  computeAttractiveness,
+  DEFAULT_QUADRANT_THRESHOLDS,
+  quadrantDescriptions,
+  type AttractivenessDimension,
+  type Quadrant,
+  type QuadrantThresholds,
+} from '../utils/marketAttractiveness'
+import {
+  CONFIDENCE_LEVELS,
+  forecasters,
+  forecastModelLabels,
+  forecastSeries,
+  type ConfidenceLevel,
+  type ForecastModel,
+  type ForecastResult,
+} from '../utils/forecasting'
+import { buildSensitivityModel, driverGroupLabels, type SensitivityResult } from '../utils/sensitivity'
+import { runSensitivityAnalysis } from '../utils/sensitivityRunner'
+import {
+  competitorLabels,
+  computeShareByRegion,
+  computeShareByYear,
+  computeShareShift,
+  concentrationLevel,
+  HHI_THRESHOLDS,
+  type CompetitorKey,
+} from '../utils/competitiveLandscape'
+import {
+  classifyElasticity,
+  computeAspBySegment,
+  computePriceBands,
+  computePriceVolumePoints,
+  estimateElasticities,
+  PRICE_BANDS,
+  pricingDimensions,
+  type PricingDimension,
+} from '../utils/pricing'
+import { computeGeographyMetrics, expandGeography, fromGeographyOptions, geoMetricLabels, selectGeography, toGeographyOptions, toggleGeographyState, type GeoMetric } from '../utils/geography'
+import { getChartColors } from '../utils/chartColors'
+import { applyScenario, baselineCells, DEFAULT_SCENARIOS, loadScenarios, saveScenarios, scenarioTotals, type Scenario } from '../utils/scenarios'
+import { rollupAddressableVolume, getTotalAddressableVolume } from '../utils/volumeParser'
 import { StatBox } from '../components/StatBox'
 import { FilterDropdown } from '../components/FilterDropdown'
 import { HierarchicalFilterDropdown } from '../components/HierarchicalFilterDropdown'
@@ -15,131 +71,205 @@ import { InfoTooltip } from '../components/InfoTooltip'
 import { WaterfallChart } from '../components/WaterfallChart'
 import { BubbleChart } from '../components/BubbleChart'
 import { YoYCAGRChart } from '../components/YoYCAGRChart'
+import { ForecastChart } from '../components/ForecastChart'
+import { ScenarioPlanner, SCENARIO_COLORS } from '../components/ScenarioPlanner'
+import { LineChart } from '../components/LineChart'
+import { BarChart } from '../components/BarChart'
+import { TornadoChart } from '../components/TornadoChart'
+import { ScatterChart } from '../components/ScatterChart'
+import { ChoroplethMap } from '../components/ChoroplethMap'
 
 interface MarketAnalysisProps {
   onNavigate: (page: string) => void
 }
 
-type MarketEvaluationType = 'By Value' | 'By Volume'
+// Unique display names for scenarios, which users may name alike
+const scenarioLabels = (scenarios: Scenario[]): string[] => {
+  const seen = new Map<string, number>()
+  return scenarios.map(scenario => {
+    const name = scenario.name.trim() || 'Untitled'
+    const count = (seen.get(name) || 0) + 1
+    seen.set(name, count)
+    return count > 1 ? `${name} (${count})` : name
+  })
+}
+
+// Drivers shown in the tornado chart
+const TORNADO_DRIVER_COUNT = 12
+
+// Share formatting for the competitive landscape charts
+const formatShare = (value: number) => `${formatWithCommas(value, 1)}%`
+
+const { segments } = marketDefinition
+
+// Dimension each standard-tab filter selects by. Geography and year are
+// applied separately; several filters predate the current dropdowns.
+type StandardFilterKey =
+  | 'productCategory' | 'subProductCategory' | 'productType' | 'technology' | 'bladeType' | 'priceRange'
+  | 'bladeMaterial' | 'handleLength' | 'application' | 'endUser' | 'distributionChannelType' | 'distributionChannel'
+
+const filterDimensions: Record<StandardFilterKey, DimensionId> = {
+  productCategory: 'productCategory',
+  subProductCategory: 'subProductCategory',
+  productType: 'productType',
+  technology: 'application',
+  bladeType: 'pipeMaterial',
+  priceRange: 'priceBand',
+  bladeMaterial: 'pipeMaterial',
+  handleLength: 'priceBand',
+  application: 'application',
+  endUser: 'endUser',
+  distributionChannelType: 'salesChannel',
+  distributionChannel: 'salesChannel',
+}
+
+// Price formatting for the pricing tab, in US$ per unit
+const formatPrice = (value: number) => `$${formatWithCommas(value, 2)}`
+
+// Segments charted on the pricing tab's ASP trend
+const ASP_SEGMENT_COUNT = 7
+
+// Entities charted on the YoY tab when none are picked
+const YOY_DEFAULT_ENTITY_COUNT = 5
 
 export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
   const { theme } = useTheme()
   const isDark = theme === 'dark'
   
-  const [activeTab, setActiveTab] = useState<'standard' | 'incremental' | 'attractiveness' | 'yoy'>('standard')
-  const [data, setData] = useState<ShovelMarketData[]>([])
+  // The view the URL describes, for a refresh or a pasted link
+  const [initialView] = useState(() => viewFromLocation() ?? defaultView)
+  const [activeTab, setActiveTab] = useState<MarketAnalysisTab>(initialView.tab)
+  const [store, setStore] = useState<ColumnarStore | null>(null)
   const [loading, setLoading] = useState(true)
-  const [filters, setFilters] = useState({
-    year: [] as number[],
-    region: [] as string[],
-    country: [] as string[], // Using for region
-    productCategory: [] as string[],
-    subProductCategory: [] as string[],
-    productType: [] as string[], // Kept for backward compatibility
-    technology: [] as string[],
-    bladeType: [] as string[],
-    priceRange: [] as string[],
-    bladeMaterial: [] as string[],
-    handleLength: [] as string[],
-    application: [] as string[],
-    endUser: [] as string[], // Using for profession
-    distributionChannelType: [] as string[], // Using for sales channel
-    distributionChannel: [] as string[],
-    marketEvaluation: 'By Value' as MarketEvaluationType,
-  })
+  const [customerData, setCustomerData] = useState<CustomerIntelligenceData[]>([])
+  const [filters, setFilters] = useState(initialView.filters)
   
   // Separate filters for incremental tab
-  const [incrementalFilters, setIncrementalFilters] = useState({
-    region: [] as string[],
-    productType: [] as string[],
-    country: [] as string[],
-  })
+  const [incrementalFilters, setIncrementalFilters] = useState(initialView.incrementalFilters)
   
   // Separate filters for attractiveness tab
-  const [attractivenessFilters, setAttractivenessFilters] = useState({
-    region: [] as string[],
-    productType: [] as string[],
-    country: [] as string[],
-    segment: 'productType' as string,
-    subSegment: '' as string, // Selected sub-segment item
-  })
+  const [attractivenessFilters, setAttractivenessFilters] = useState(initialView.attractivenessFilters)
+  const [quadrantThresholds, setQuadrantThresholds] = useState<QuadrantThresholds>(DEFAULT_QUADRANT_THRESHOLDS)
   
   // Separate filters for YoY/CAGR tab
-  const [yoyFilters, setYoyFilters] = useState({
-    region: [] as string[],
-    productType: [] as string[],
-    country: [] as string[],
+  const [yoyFilters, setYoyFilters] = useState(initialView.yoyFilters)
+
+  // Separate filters for the sensitivity tab
+  const [sensitivityFilters, setSensitivityFilters] = useState(initialView.sensitivityFilters)
+  const [sensitivityResult, setSensitivityResult] = useState<SensitivityResult | null>(null)
+  const [sensitivityRunning, setSensitivityRunning] = useState(false)
+  const [sensitivityError, setSensitivityError] = useState<string | null>(null)
+
+  // Separate filters for competitive landscape tab
+  const [competitiveFilters, setCompetitiveFilters] = useState(initialView.competitiveFilters)
+
+  // Separate filters for pricing tab
+  const [pricingFilters, setPricingFilters] = useState(initialView.pricingFilters)
+
+  // Geographic map: shaded metric, region or state level, and the drilled-into region
+  const [mapOptions, setMapOptions] = useState({
+    metric: 'value' as GeoMetric,
+    level: 'region' as 'region' | 'state',
+    focusRegion: null as string | null,
   })
 
+  // Named market cases, saved in the browser
+  const [scenarios, setScenarios] = useState<Scenario[]>(loadScenarios)
+
+  // Separate filters for the forecast tab
+  const [forecastFilters, setForecastFilters] = useState(initialView.forecastFilters)
+
+  // Mirror the tab and filters in the URL so a view survives a refresh and can be shared
   useEffect(() => {
-    // Clear cache to ensure fresh data with online channels
-    clearDataCache()
+    if (!viewFromLocation()) return
+    updateLocation(marketAnalysisPath(activeTab), viewQuery({
+      tab: activeTab,
+      filters,
+      incrementalFilters,
+      attractivenessFilters,
+      yoyFilters,
+      forecastFilters,
+      sensitivityFilters,
+      competitiveFilters,
+      pricingFilters,
+    }))
+  }, [activeTab, filters, incrementalFilters, attractivenessFilters, yoyFilters, forecastFilters, sensitivityFilters, competitiveFilters, pricingFilters])
+
+  // Back, forward and opened saved views restore the view the URL describes
+  useEffect(() => {
+    const handlePopState = () => {
+      const view = viewFromLocation()
+      if (!view) return
+      setActiveTab(view.tab)
+      setFilters(view.filters)
+      setIncrementalFilters(view.incrementalFilters)
+      setAttractivenessFilters(view.attractivenessFilters)
+      setYoyFilters(view.yoyFilters)
+      setForecastFilters(view.forecastFilters)
+      setSensitivityFilters(view.sensitivityFilters)
+      setCompetitiveFilters(view.competitiveFilters)
+      setPricingFilters(view.pricingFilters)
+    }
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
     setLoading(true)
-    setTimeout(() => {
-      try {
-        const generatedData = getData()
-        setData(generatedData)
+    // Resolves immediately once App has finished the worker load
+    loadData()
+      .then(({ store: loadedStore, summary }) => {
+        if (cancelled) return
+        setStore(loadedStore)
         setLoading(false)
-        
-        setTimeout(() => {
-          const availableYears = [...new Set(generatedData.map(d => d.year))].sort()
-          const availableRegions = [...new Set(generatedData.map(d => d.region))].filter(Boolean).sort()
-          const availableProductCategories = [...new Set(generatedData.map(d => d.productCategory))].filter(Boolean).sort()
-          const availableSubProductCategories = [...new Set(generatedData.map(d => d.subProductCategory))].filter(Boolean).sort()
-          const availableProductTypes = [...new Set(generatedData.map(d => d.productType))].sort()
-          const availableBladeMaterials = [...new Set(generatedData.map(d => d.bladeMaterial))].filter(Boolean).sort()
-          const availableHandleLengths = [...new Set(generatedData.map(d => d.handleLength))].filter(Boolean).sort()
-          const availableApplications = [...new Set(generatedData.map(d => d.application))].filter(Boolean).sort()
-          const availableProfessions = [...new Set(generatedData.map(d => d.endUser))].filter(Boolean).sort()
-          const availableSalesChannels = [...new Set(generatedData.map(d => d.distributionChannelType))].filter(Boolean).sort()
-          // Default to 2024 and 2025 if available, otherwise use first 2 available years
-          const defaultYears = availableYears.includes(2024) && availableYears.includes(2025)
-            ? [2024, 2025]
-            : availableYears.length >= 2
-              ? availableYears.slice(-2)
-              : availableYears
-
-          // Default to first 2 items from each filter, but don't pre-select subcategories
-          const defaultRegions = availableRegions.slice(0, 2)
-          const defaultProductCategories = availableProductCategories.slice(0, 2)
-          const defaultBladeMaterials = availableBladeMaterials.slice(0, 2)
-          const defaultApplications = availableApplications.slice(0, 2)
-          const defaultProfessions = availableProfessions.slice(0, 2)
-          const defaultSalesChannels = availableSalesChannels.slice(0, 2)
-
-          setFilters({
-            year: defaultYears,
-            region: [],
-            country: ['US', 'Germany'], // Default 2 countries selected
-            productCategory: defaultProductCategories,
-            subProductCategory: [], // Don't pre-select to avoid mismatches
-            productType: [],
-            technology: [],
-            bladeType: [],
-            priceRange: [],
-            bladeMaterial: defaultBladeMaterials,
-            handleLength: [],
-            application: defaultApplications,
-            endUser: [], // Start with no end user selected
-            distributionChannelType: defaultSalesChannels,
-            distributionChannel: [],
-            marketEvaluation: 'By Value',
-          })
-        }, 0)
-      } catch (error) {
+
+        const availableYears = summary.years
+        const { lastActual } = marketDefinition.years
+
+        // Default to the last actual year and the one after if available, otherwise the last 2 available years
+        const defaultYears = availableYears.includes(lastActual) && availableYears.includes(lastActual + 1)
+          ? [lastActual, lastActual + 1]
+          : availableYears.length >= 2
+            ? availableYears.slice(-2)
+            : availableYears
+
+        // A link that names its years keeps them
+        setFilters(current => current.year.length > 0 ? current : { ...current, year: defaultYears })
+      })
+      .catch((error) => {
         console.error('Error loading data:', error)
-        setData([])
-        setLoading(false)
-      }
-    }, 500)
+        if (!cancelled) {
+          setStore(null)
+          setLoading(false)
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Load surveyed accounts for the bottom-up demand estimate
+  useEffect(() => {
+    let cancelled = false
+    loadCSVData().then(rows => {
+      if (!cancelled) setCustomerData(rows)
+    })
+    return () => {
+      cancelled = true
+    }
   }, [])
 
-  // Get unique filter options - optimized
+  // Get unique filter options - read straight from the column dictionaries
   const uniqueOptions = useMemo(() => {
-    if (!data || data.length === 0) {
+    if (!store || store.rowCount === 0) {
       return {
         years: [],
-        countries: [],
+        geography: toFilterHierarchy(getHierarchy('geography')),
+        productHierarchy: toFilterHierarchy(getHierarchy('product')),
+        endUserHierarchy: toFilterHierarchy(getHierarchy('endUser')),
+        channelHierarchy: toFilterHierarchy(getHierarchy('channel')),
         productCategories: [],
         subProductCategories: [],
         productTypes: [],
@@ -151,897 +281,150 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
       }
     }
 
-    const yearSet = new Set<number>()
-    const countrySet = new Set<string>()
-    const productCategorySet = new Set<string>()
-    const subProductCategorySet = new Set<string>()
-    const productTypeSet = new Set<string>()
-    const bladeMaterialSet = new Set<string>()
-    const handleLengthSet = new Set<string>()
-    const applicationSet = new Set<string>()
-    const endUserSet = new Set<string>()
-    const distributionChannelTypeSet = new Set<string>()
-
-    for (let i = 0; i < data.length; i++) {
-      const d = data[i]
-      if (d.year) yearSet.add(d.year)
-      if (d.region) countrySet.add(d.region) // Map region to country field
-      if (d.productCategory) productCategorySet.add(d.productCategory)
-      if (d.subProductCategory) subProductCategorySet.add(d.subProductCategory)
-      if (d.productType) productTypeSet.add(d.productType)
-      if (d.bladeMaterial) bladeMaterialSet.add(d.bladeMaterial)
-      if (d.handleLength) handleLengthSet.add(d.handleLength)
-      if (d.application) applicationSet.add(d.application)
-      if (d.endUser) endUserSet.add(d.endUser) // This contains profession data
-      if (d.distributionChannelType) {
-        distributionChannelTypeSet.add(d.distributionChannelType) // This contains sales channel data
-      }
-    }
-
-    const foundTypes = Array.from(distributionChannelTypeSet)
-    const foundYears = Array.from(yearSet).sort()
-    const foundCountries = Array.from(countrySet).filter(Boolean).sort()
-    const foundProductCategories = Array.from(productCategorySet).filter(Boolean).sort()
-    const foundSubProductCategories = Array.from(subProductCategorySet).filter(Boolean).sort()
-    const foundHandleLengths = Array.from(handleLengthSet).filter(Boolean).sort()
-    const foundApplications = Array.from(applicationSet).filter(Boolean).sort()
-    const foundEndUsers = Array.from(endUserSet).filter(Boolean).sort()
-    const foundProductTypes = Array.from(productTypeSet).filter(Boolean).sort()
-    const foundBladeMaterials = Array.from(bladeMaterialSet).filter(Boolean).sort()
+    const options = (key: DimensionKey) => (distinctValues(store, key) as string[]).filter(Boolean).sort()
 
     return {
-      years: Array.from(yearSet).sort((a, b) => a - b),
-      countries: foundCountries || [],
-      productCategories: foundProductCategories || [],
-      subProductCategories: foundSubProductCategories || [],
-      productTypes: Array.from(productTypeSet).filter(Boolean).sort(),
-      bladeMaterials: Array.from(bladeMaterialSet).filter(Boolean).sort(),
-      handleLengths: Array.from(handleLengthSet).filter(Boolean).sort(),
-      applications: Array.from(applicationSet).filter(Boolean).sort(),
-      endUsers: Array.from(endUserSet).filter(Boolean).sort(),
-      distributionChannelTypes: Array.from(distributionChannelTypeSet).filter(Boolean).sort(),
-    }
-  }, [data])
-
-  // Filter subcategories based on selected product categories
-  const filteredSubCategories = useMemo(() => {
-    if (filters.productCategory.length === 0) {
-      return uniqueOptions.subProductCategories || []
-    }
-
-    // Only show subcategories that belong to selected categories
-    const filtered = data
-      .filter(d => filters.productCategory.includes(d.productCategory))
-      .map(d => d.subProductCategory)
-
-    return [...new Set(filtered)].filter(Boolean).sort()
-  }, [data, filters.productCategory, uniqueOptions.subProductCategories])
-
-  // Get all distribution channels from full data, grouped by type
-  const distributionChannelGroupedOptions = useMemo(() => {
-    const offlineChannels = ['Hardware Stores', 'Specialty Garden Centers', 'Agricultural Supply Stores']
-    const onlineChannels = ['Ecommerce Website', "Brand's/Company's Own Website"]
-    
-    // Get all channels that exist in the data
-    if (!data || data.length === 0) return []
-    
-    const channelSet = new Set<string>()
-    data.forEach(d => {
-      if (d.distributionChannel) channelSet.add(d.distributionChannel)
-    })
-    
-    const allChannels = Array.from(channelSet)
-    
-    // Filter channels based on selected types
-    const groups: Array<{ group: string; items: string[] }> = []
-    
-    if (filters.distributionChannelType.length === 0) {
-      // No type selected - show all channels grouped
-      const availableOffline = offlineChannels.filter(ch => allChannels.includes(ch))
-      const availableOnline = onlineChannels.filter(ch => allChannels.includes(ch))
-      
-      if (availableOffline.length > 0) {
-        groups.push({
-          group: 'Offline',
-          items: availableOffline
-        })
-      }
-      
-      if (availableOnline.length > 0) {
-        groups.push({
-          group: 'Online',
-          items: availableOnline
-        })
-      }
-    } else {
-      // Show only channels for selected types, but always show both groups if both types are selected
-      const hasOffline = filters.distributionChannelType.includes('Offline')
-      const hasOnline = filters.distributionChannelType.includes('Online')
-      
-      if (hasOffline) {
-        const availableOffline = offlineChannels.filter(ch => allChannels.includes(ch))
-        if (availableOffline.length > 0) {
-          groups.push({
-            group: 'Offline',
-            items: availableOffline
-          })
-        }
-      }
-      
-      if (hasOnline) {
-        const availableOnline = onlineChannels.filter(ch => allChannels.includes(ch))
-        if (availableOnline.length > 0) {
-          groups.push({
-            group: 'Online',
-            items: availableOnline
-          })
-        }
-      }
-    }
-    
-    return groups
-  }, [data, filters.distributionChannelType])
-
-  // Get flat list of available distribution channels based on selected types
-  const availableDistributionChannels = useMemo(() => {
-    if (!data || data.length === 0) return []
-    
-    const channelSet = new Set<string>()
-    
-    if (filters.distributionChannelType.length === 0) {
-      // No type filter - include all channels
-      data.forEach(d => {
-        if (d.distributionChannel) channelSet.add(d.distributionChannel)
-      })
-    } else {
-      // Filter by selected types
-      const filteredData = data.filter(d => 
-        filters.distributionChannelType.includes(d.distributionChannelType)
-      )
-      filteredData.forEach(d => {
-        if (d.distributionChannel) channelSet.add(d.distributionChannel)
-      })
-    }
-    
-    return Array.from(channelSet).sort()
-  }, [data, filters.distributionChannelType])
+      years: (distinctValues(store, 'year') as number[]).sort((a, b) => a - b),
+      geography: toFilterHierarchy(getHierarchy('geography', store)), // Regions and their states
+      productHierarchy: toFilterHierarchy(getHierarchy('product', store)),
+      endUserHierarchy: toFilterHierarchy(getHierarchy('endUser', store)),
+      channelHierarchy: toFilterHierarchy(getHierarchy('channel', store)),
+      productCategories: options('productCategory'),
+      subProductCategories: options('subProductCategory'),
+      productTypes: options('productType'),
+      bladeMaterials: options('bladeMaterial'),
+      handleLengths: options('handleLength'),
+      applications: options('application'),
+      endUsers: options('endUser'), // This contains profession data
+      distributionChannelTypes: options('distributionChannelType'), // This contains sales channel data
+    }
+  }, [store])
+
+  // Filter data - each filter becomes a row bitmap and the bitmaps are intersected.
+  // Year is applied separately so KPIs can reach the years before the selection,
+  // and geography so the map can show the states outside it.
+  const marketSelection = useMemo(() => {
+    if (!store) return null
+
+    return (Object.keys(filterDimensions) as StandardFilterKey[]).reduce(
+      (selection, key) => bitmapAnd(selection, selectDimension(store, filterDimensions[key], filters[key])),
+      selectAll(store)
+    )
+  }, [store, filters])
 
-  // Filter data
-  const filteredData = useMemo(() => {
-    let filtered = [...data]
+  const segmentSelection = useMemo(() => {
+    if (!store || !marketSelection) return null
+    if (filters.country.length === 0) return marketSelection
+    return bitmapAnd(marketSelection, selectGeography(store, filters.country))
+  }, [store, marketSelection, filters.country])
 
-    if (filters.year.length > 0) {
-      filtered = filtered.filter(d => filters.year.includes(d.year))
-    }
-    if (filters.country.length > 0) {
-      filtered = filtered.filter(d => filters.country.includes(d.country || d.region))
-    }
-    if (filters.productCategory.length > 0) {
-      filtered = filtered.filter(d => filters.productCategory.includes(d.productCategory))
-    }
-    if (filters.subProductCategory.length > 0) {
-      filtered = filtered.filter(d => filters.subProductCategory.includes(d.subProductCategory))
-    }
-    // Handle hierarchical product type filter
-    if (filters.productType.length > 0) {
-      filtered = filtered.filter(d => {
-        return filters.productType.some(selected => {
-          if (selected === d.productCategory || selected === d.productType) return true
-          if (selected.includes(' - ')) {
-            const [mainCat, subCat] = selected.split(' - ')
-            return d.productCategory === mainCat && d.subProductCategory === subCat
-          }
-          return false
-        })
-      })
-    }
-    // Handle hierarchical technology filter - maps to bladeMaterial field
-    if (filters.technology.length > 0) {
-      filtered = filtered.filter(d => {
-        return filters.technology.some(selected => {
-          const mainCat = selected.includes(' - ') ? selected.split(' - ')[0] : selected
-          // Map technology filter to existing data fields
-          return d.bladeMaterial?.includes(mainCat) || d.application?.includes(mainCat)
-        })
-      })
-    }
-    // Handle blade type filter - maps to bladeMaterial field
-    if (filters.bladeType.length > 0) {
-      filtered = filtered.filter(d => filters.bladeType.some(bt => d.bladeMaterial?.includes(bt)))
-    }
-    // Handle price range filter - maps to handleLength field
-    if (filters.priceRange.length > 0) {
-      filtered = filtered.filter(d => filters.priceRange.some(pr => d.handleLength?.includes(pr)))
-    }
-    if (filters.bladeMaterial.length > 0) {
-      filtered = filtered.filter(d => filters.bladeMaterial.includes(d.bladeMaterial))
-    }
-    if (filters.handleLength.length > 0) {
-      filtered = filtered.filter(d => filters.handleLength.includes(d.handleLength))
-    }
-    if (filters.application.length > 0) {
-      filtered = filtered.filter(d => filters.application.includes(d.application))
-    }
-    // Handle hierarchical end user filter
-    if (filters.endUser.length > 0) {
-      filtered = filtered.filter(d => {
-        return filters.endUser.some(selected => {
-          if (selected === d.endUser) return true
-          if (selected.includes(' - ')) {
-            const [, subCat] = selected.split(' - ')
-            return d.endUser === subCat
-          }
-          // Check if main category matches
-          return d.endUser?.includes(selected)
-        })
-      })
-    }
-    // Handle hierarchical distribution channel filter
-    if (filters.distributionChannel.length > 0) {
-      filtered = filtered.filter(d => {
-        return filters.distributionChannel.some(selected => {
-          if (selected === d.distributionChannel || selected === d.distributionChannelType) return true
-          if (selected.includes(' - ')) {
-            const [mainCat, subCat] = selected.split(' - ')
-            return d.distributionChannelType === mainCat && d.distributionChannel === subCat
-          }
-          return false
-        })
-      })
-    }
-    if (filters.distributionChannelType.length > 0) {
-      filtered = filtered.filter(d => filters.distributionChannelType.includes(d.distributionChannelType))
-    }
+  const filteredSelection = useMemo(() => {
+    if (!store || !segmentSelection) return null
+    return selectDimensions(store, { year: filters.year }, segmentSelection)
+  }, [store, segmentSelection, filters.year])
 
-    return filtered
-  }, [data, filters])
+  // Measure behind the charts for the selected market evaluation type
+  const valueMeasure = filters.marketEvaluation === 'By Volume' ? 'volumeUnits' : 'marketValueUsd'
 
-  // Get data value based on market evaluation type
-  const getDataValue = (d: any): number => {
+  // Scale a summed measure for display
+  const toDisplayValue = (total: number): number => {
     if (filters.marketEvaluation === 'By Volume') {
-      return d.volumeUnits || 0
+      return total
     }
-    return (d.marketValueUsd || 0) / 1000 // Convert to millions
+    return total / 1000 // Convert to millions
   }
 
+  // The measure the charts show, as the market definition labels it
+  const activeMeasure = marketDefinition.measures[filters.marketEvaluation === 'By Volume' ? 'volume' : 'value']
+
   const getDataLabel = (): string => {
-    return filters.marketEvaluation === 'By Volume' ? 'Market Volume (Units)' : 'Market Size (US$ Million)'
+    return `${activeMeasure.label} (${activeMeasure.unit})`
   }
 
   // Analysis data for charts - Market segment based
   const analysisData = useMemo(() => {
-    // Generate demo data based on selected filters
-    const generateDemoData = () => {
-      const years = filters.year.length > 0 ? filters.year : [2024, 2025, 2026, 2027, 2028, 2029, 2030, 2031, 2032]
-      const countries = filters.country.length > 0 ? filters.country : ['US', 'Germany', 'China', 'Japan']
-
-      // Product type hierarchy
-      const productTypeHierarchy: Record<string, string[]> = {
-        'Foil Shavers': ['Single-foil', 'Dual-foil', 'Multi-foil (3+)'],
-        'Rotary Shavers': ['Dual-head', 'Triple-head', 'Multi-head (4+)'],
-        'Trimmers & Groomers': ['Beard trimmers', 'Body groomers', 'Others'],
-        'Hybrid Shavers': ['Blade-electric combo', 'Wet & dry hybrid tools'],
-        'Lady Shavers': ['Face shavers', 'Body shavers', 'Bikini trimmers'],
-        'Hair Clippers': ['Corded clippers', 'Cordless clippers', 'Others']
-      }
-
-      // Get selected product types or use defaults
-      let productTypes: string[] = []
-      if (filters.productType.length > 0) {
-        // First, collect all parent categories that have child selections
-        const parentsWithChildren = new Set<string>()
-        filters.productType.forEach(pt => {
-          if (pt.includes(' - ')) {
-            const parent = pt.split(' - ')[0]
-            parentsWithChildren.add(parent)
-          }
-        })
-
-        // Now build productTypes: skip parent if it has child selections
-        filters.productType.forEach(pt => {
-          if (pt.includes(' - ')) {
-            // This is a child item, add the child name
-            productTypes.push(pt.split(' - ')[1])
-          } else {
-            // This is a parent item, only add if it doesn't have child selections
-            if (!parentsWithChildren.has(pt)) {
-              productTypes.push(pt)
-            }
-          }
-        })
-      } else {
-        productTypes = Object.keys(productTypeHierarchy)
-      }
-
-      // Technology options
-      let technologies: string[] = []
-      if (filters.technology.length > 0) {
-        // First, collect all parent categories that have child selections
-        const parentsWithChildren = new Set<string>()
-        filters.technology.forEach(t => {
-          if (t.includes(' - ')) {
-            const parent = t.split(' - ')[0]
-            parentsWithChildren.add(parent)
-          }
-        })
-
-        // Now build technologies: skip parent if it has child selections
-        filters.technology.forEach(t => {
-          if (t.includes(' - ')) {
-            technologies.push(t.split(' - ')[1])
-          } else {
-            if (!parentsWithChildren.has(t)) {
-              technologies.push(t)
-            }
-          }
-        })
-      } else {
-        technologies = ['Corded', 'Cordless / Rechargeable']
-      }
-
-      // Blade types
-      const bladeTypes = filters.bladeType.length > 0
-        ? filters.bladeType
-        : ['Stainless Steel Blades', 'Titanium-coated Blades', 'Carbon Steel', 'Ceramic Blades']
-
-      // Price ranges
-      const priceRanges = filters.priceRange.length > 0
-        ? filters.priceRange
-        : ['Economy', 'Mid-Range', 'Premium']
-
-      // End users
-      const endUserHierarchy: Record<string, string[]> = {
-        'Home Users': ['Men', 'Women', 'Unisex'],
-        'Professional Users': ['Barbers', 'Salons', 'Grooming service providers', 'Others']
-      }
-      let endUsers: string[] = []
-      if (filters.endUser.length > 0) {
-        // First, collect all parent categories that have child selections
-        const parentsWithChildren = new Set<string>()
-        filters.endUser.forEach(eu => {
-          if (eu.includes(' - ')) {
-            const parent = eu.split(' - ')[0]
-            parentsWithChildren.add(parent)
-          }
-        })
-
-        // Now build endUsers: skip parent if it has child selections
-        filters.endUser.forEach(eu => {
-          if (eu.includes(' - ')) {
-            endUsers.push(eu.split(' - ')[1])
-          } else {
-            // Only add parent if it doesn't have child selections
-            if (!parentsWithChildren.has(eu)) {
-              endUsers.push(eu)
-            }
-          }
-        })
-      } else {
-        endUsers = Object.keys(endUserHierarchy)
-      }
-
-      // Distribution channels
-      let distributionChannels: string[] = []
-      if (filters.distributionChannel.length > 0) {
-        // First, collect all parent categories that have child selections
-        const parentsWithChildren = new Set<string>()
-        filters.distributionChannel.forEach(dc => {
-          if (dc.includes(' - ')) {
-            const parent = dc.split(' - ')[0]
-            parentsWithChildren.add(parent)
-          }
-        })
-
-        // Now build distributionChannels: skip parent if it has child selections
-        filters.distributionChannel.forEach(dc => {
-          if (dc.includes(' - ')) {
-            distributionChannels.push(dc.split(' - ')[1])
-          } else {
-            if (!parentsWithChildren.has(dc)) {
-              distributionChannels.push(dc)
-            }
-          }
-        })
-      } else {
-        distributionChannels = ['Offline', 'Online']
-      }
-
-      // Base market values by country (in millions)
-      const countryBaseValues: Record<string, number> = {
-        'US': 15000,
-        'Germany': 5200,
-        'China': 12800,
-        'Japan': 6800
-      }
-
-      // Growth rates
-      const yearGrowthRate = 1.065 // 6.5% annual growth
-
-      // Generate chart data for product types
-      const productTypeChartData = years.map(year => {
-        const entry: Record<string, number | string> = { year: String(year) }
-        const yearMultiplier = Math.pow(yearGrowthRate, year - 2024)
-        const countryMultiplier = countries.reduce((sum, c) => sum + (countryBaseValues[c] || 5000), 0) / 40000
-
-        productTypes.forEach((pt, idx) => {
-          const baseValue = (8000 - idx * 800) * countryMultiplier * yearMultiplier
-          entry[pt] = Math.round(baseValue * (0.9 + Math.random() * 0.2))
-        })
-        return entry
-      })
-
-      // Generate stacked data for blade types
-      const bladeTypeStackedData = {
-        chartData: years.map(year => {
-          const entry: Record<string, number | string> = { year: String(year) }
-          const yearMultiplier = Math.pow(yearGrowthRate, year - 2024)
-          const countryMultiplier = countries.reduce((sum, c) => sum + (countryBaseValues[c] || 5000), 0) / 40000
-
-          bladeTypes.forEach((bt, idx) => {
-            const baseValue = (6000 - idx * 1000) * countryMultiplier * yearMultiplier
-            entry[bt] = Math.round(baseValue * (0.9 + Math.random() * 0.2))
-          })
-          return entry
-        }),
-        segments: bladeTypes
-      }
-
-      // Generate stacked data for price ranges
-      const priceRangeStackedData = {
-        chartData: years.map(year => {
-          const entry: Record<string, number | string> = { year: String(year) }
-          const yearMultiplier = Math.pow(yearGrowthRate, year - 2024)
-          const countryMultiplier = countries.reduce((sum, c) => sum + (countryBaseValues[c] || 5000), 0) / 40000
-
-          priceRanges.forEach((pr, idx) => {
-            const baseValue = (7000 - idx * 1500) * countryMultiplier * yearMultiplier
-            entry[pr] = Math.round(baseValue * (0.9 + Math.random() * 0.2))
-          })
-          return entry
-        }),
-        segments: priceRanges
-      }
-
-      // Generate stacked data for technology
-      const technologyStackedData = {
-        chartData: years.map(year => {
-          const entry: Record<string, number | string> = { year: String(year) }
-          const yearMultiplier = Math.pow(yearGrowthRate, year - 2024)
-          const countryMultiplier = countries.reduce((sum, c) => sum + (countryBaseValues[c] || 5000), 0) / 40000
-
-          technologies.forEach((tech, idx) => {
-            const baseValue = (9000 - idx * 2000) * countryMultiplier * yearMultiplier
-            entry[tech] = Math.round(baseValue * (0.9 + Math.random() * 0.2))
-          })
-          return entry
-        }),
-        segments: technologies
-      }
-
-      // Generate stacked data for end users
-      const endUserStackedData = {
-        chartData: years.map(year => {
-          const entry: Record<string, number | string> = { year: String(year) }
-          const yearMultiplier = Math.pow(yearGrowthRate, year - 2024)
-          const countryMultiplier = countries.reduce((sum, c) => sum + (countryBaseValues[c] || 5000), 0) / 40000
-
-          endUsers.forEach((eu, idx) => {
-            const baseValue = (10000 - idx * 2000) * countryMultiplier * yearMultiplier
-            entry[eu] = Math.round(baseValue * (0.9 + Math.random() * 0.2))
-          })
-          return entry
-        }),
-        segments: endUsers
-      }
-
-      // Generate stacked data for distribution channels
-      const distributionChannelStackedData = {
-        chartData: years.map(year => {
-          const entry: Record<string, number | string> = { year: String(year) }
-          const yearMultiplier = Math.pow(yearGrowthRate, year - 2024)
-          const countryMultiplier = countries.reduce((sum, c) => sum + (countryBaseValues[c] || 5000), 0) / 40000
-
-          distributionChannels.forEach((dc, idx) => {
-            const baseValue = (12000 - idx * 3000) * countryMultiplier * yearMultiplier
-            entry[dc] = Math.round(baseValue * (0.9 + Math.random() * 0.2))
-          })
-          return entry
-        }),
-        segments: distributionChannels
-      }
-
-      // Generate country chart data
-      const countryChartData = years.map(year => {
-        const entry: Record<string, number | string> = { year: String(year) }
-        const yearMultiplier = Math.pow(yearGrowthRate, year - 2024)
-
-        countries.forEach(country => {
-          const baseValue = (countryBaseValues[country] || 5000) * yearMultiplier
-          entry[country] = Math.round(baseValue * (0.9 + Math.random() * 0.2))
-        })
-        return entry
-      })
-
-      return {
-        productCategoryChartData: productTypeChartData,
-        subProductCategoryChartData: [],
-        productTypeChartData,
-        bladeMaterialChartData: bladeTypeStackedData.chartData,
-        handleLengthChartData: priceRangeStackedData.chartData,
-        applicationChartData: [],
-        endUserChartData: endUserStackedData.chartData,
-        countryChartData,
-        regionCountryPercentageChartData: countryChartData,
-        productCategories: productTypes,
-        subProductCategories: [],
-        productTypes,
-        bladeMaterials: bladeTypes,
-        handleLengths: priceRanges,
-        applications: [],
-        endUsers,
-        countries,
-        regionsForChart: countries,
-        bladeMaterialStackedData: bladeTypeStackedData,
-        handleLengthStackedData: priceRangeStackedData,
-        applicationStackedData: { chartData: [], segments: [] },
-        technologyStackedData,
-        endUserStackedData,
-        distributionChannelTypeStackedData: distributionChannelStackedData,
-        offlineChannelStackedData: { chartData: [], segments: [] },
-        onlineChannelStackedData: { chartData: [], segments: [] },
-      }
-    }
-
-    if (filteredData.length === 0) {
-      return generateDemoData()
-    }
-
-    const years = [...new Set(filteredData.map(d => d.year))].sort()
-
-    // Helper function to generate segment chart data
-    const generateSegmentChartData = (
-      segmentKey: string,
-      getSegmentValue: (d: any) => string,
-      selectedSegments?: string[]
-    ) => {
-      // Use selected segments from filter if provided, otherwise use segments from filtered data
-      const segmentsFromData = [...new Set(filteredData.map(getSegmentValue))].filter(Boolean).sort()
-
-      // Process selected segments to exclude parent items when children are selected
-      let processedSegments: string[] = []
-      if (selectedSegments && selectedSegments.length > 0) {
-        // First, collect all parent categories that have child selections
-        const parentsWithChildren = new Set<string>()
-        selectedSegments.forEach(s => {
-          if (s && s.includes(' - ')) {
-            const parent = s.split(' - ')[0]
-            parentsWithChildren.add(parent)
-          }
-        })
-
-        // Now build processedSegments: skip parent if it has child selections
-        selectedSegments.forEach(s => {
-          if (!s) return
-          if (s.includes(' - ')) {
-            // This is a child item, add the child name only
-            processedSegments.push(s.split(' - ')[1])
-          } else {
-            // This is a parent item, only add if it doesn't have child selections
-            if (!parentsWithChildren.has(s)) {
-              processedSegments.push(s)
-            }
-          }
-        })
-        processedSegments = processedSegments.sort()
-      }
-
-      const segments = processedSegments.length > 0
-        ? processedSegments
-        : segmentsFromData
-      
-      const segmentMap = new Map<string, number>()
-      
-      filteredData.forEach(d => {
-        const key = `${d.year}-${getSegmentValue(d)}`
-        segmentMap.set(key, (segmentMap.get(key) || 0) + getDataValue(d))
-      })
-
-      const chartData = years.map((year) => {
-        const entry: Record<string, number | string> = { year: String(year) }
-        segments.forEach((segment) => {
-          const key = `${year}-${segment}`
-          entry[segment] = segmentMap.get(key) || 0
-        })
-        return entry
-      })
-
-      return { chartData, segments }
+    // No matching rows: the standard tab shows an empty state instead of charts
+    if (!store || !filteredSelection || bitmapCount(filteredSelection) === 0) {
+      return null
     }
 
-    // Helper function to generate year-wise stacked bar chart data
-    const generateYearWiseStackedBarData = (
-      getSegmentValue: (d: any) => string,
-      selectedSegments?: string[]
-    ) => {
-      const segmentsFromData = [...new Set(filteredData.map(getSegmentValue))].filter(Boolean).sort()
-
-      // Process selected segments to exclude parent items when children are selected
-      let processedSegments: string[] = []
-      if (selectedSegments && selectedSegments.length > 0) {
-        // First, collect all parent categories that have child selections
-        const parentsWithChildren = new Set<string>()
-        selectedSegments.forEach(s => {
-          if (s && s.includes(' - ')) {
-            const parent = s.split(' - ')[0]
-            parentsWithChildren.add(parent)
-          }
-        })
-
-        // Now build processedSegments: skip parent if it has child selections
-        selectedSegments.forEach(s => {
-          if (!s) return
-          if (s.includes(' - ')) {
-            // This is a child item, add the child name only
-            processedSegments.push(s.split(' - ')[1])
-          } else {
-            // This is a parent item, only add if it doesn't have child selections
-            if (!parentsWithChildren.has(s)) {
-              processedSegments.push(s)
-            }
-          }
-        })
-        processedSegments = processedSegments.sort()
-      }
-
-      const segments = processedSegments.length > 0
-        ? processedSegments
-        : segmentsFromData
-
-      // Group by year, then by segment
-      const yearSegmentMap = new Map<number, Map<string, number>>()
-      
-      filteredData.forEach(d => {
-        const year = d.year
-        const segment = getSegmentValue(d)
-        if (segment) {
-          if (!yearSegmentMap.has(year)) {
-            yearSegmentMap.set(year, new Map<string, number>())
-          }
-          const segmentMap = yearSegmentMap.get(year)!
-          segmentMap.set(segment, (segmentMap.get(segment) || 0) + getDataValue(d))
-        }
-      })
-
-      // Convert to array format for stacked bar chart
-      const chartData = years.map(year => {
-        const entry: Record<string, number | string> = { year: String(year) }
-        const segmentMap = yearSegmentMap.get(year) || new Map<string, number>()
-        segments.forEach(segment => {
-          entry[segment] = segmentMap.get(segment) || 0
-        })
-        return entry
-      })
+    const years = (distinctValues(store, 'year', filteredSelection) as number[]).sort((a, b) => a - b)
+    const valueColumn: MeasureExpression = `sum(${valueMeasure})`
 
-      // Filter segments that have at least one non-zero value
-      const activeSegments = segments.filter(segment => 
-        chartData.some(entry => (entry[segment] as number) > 0)
+    // One entry per year with a column per segment of the dimension
+    const yearlyBreakdown = (id: DimensionId, segments: string[], selection: Bitmap = filteredSelection) => {
+      const { column } = dimensions[id]
+      return pivot(
+        query(store, { where: selection, groupBy: ['year', column], measures: [valueColumn] }),
+        { index: 'year', column, value: valueColumn, indexValues: years, columns: segments, format: toDisplayValue }
       )
-
-      return { chartData, segments: activeSegments }
     }
 
-    // Product Category Chart - use selected filters to show all selected options
-    const productCategoryData = generateSegmentChartData(
-      'productCategory',
-      (d) => d.productCategory || '',
-      filters.productCategory.length > 0 ? filters.productCategory : undefined
-    )
-
-    // Sub Product Category Chart - use selected filters to show all selected options
-    const subProductCategoryData = generateSegmentChartData(
-      'subProductCategory',
-      (d) => d.subProductCategory || '',
-      filters.subProductCategory.length > 0 ? filters.subProductCategory : undefined
-    )
-
-    // Product Type Chart (kept for backward compatibility) - use selected filters to show all selected options
-    const productTypeData = generateSegmentChartData(
-      'productType',
-      (d) => d.productType || '',
-      filters.productType.length > 0 ? filters.productType : undefined
-    )
-
-    // Blade Material Chart - use selected filters to show all selected options
-    const bladeMaterialData = generateSegmentChartData(
-      'bladeMaterial', 
-      (d) => d.bladeMaterial || '',
-      filters.bladeMaterial.length > 0 ? filters.bladeMaterial : undefined
-    )
+    // Filter segments that have at least one non-zero value
+    const withActiveSegments = (chartData: Array<Record<string, number | string>>, segments: string[]) => ({
+      chartData,
+      segments: segments.filter(segment => chartData.some(entry => (entry[segment] as number) > 0)),
+    })
 
-    // Handle Length Chart - use selected filters to show all selected options
-    const handleLengthData = generateSegmentChartData(
-      'handleLength', 
-      (d) => d.handleLength || '',
-      filters.handleLength.length > 0 ? filters.handleLength : undefined
-    )
+    // Segment chart - the dimension's values among the filtered rows, narrowed to the selected ones
+    const generateSegmentChartData = (id: DimensionId, selected: string[] = []) => {
+      const segments = dimensionSegments(store, id, filteredSelection, selected)
+      return { chartData: yearlyBreakdown(id, segments), segments }
+    }
 
-    // Application Chart - use selected filters to show all selected options
-    const applicationData = generateSegmentChartData(
-      'application', 
-      (d) => d.application || '',
-      filters.application.length > 0 ? filters.application : undefined
-    )
+    // Year-wise stacked bar chart data, keeping only segments with data
+    const generateYearWiseStackedBarData = (id: DimensionId, selected: string[] = []) => {
+      const { chartData, segments } = generateSegmentChartData(id, selected)
+      return withActiveSegments(chartData, segments)
+    }
 
-    // End User Chart - use selected filters to show all selected options
-    const endUserData = generateSegmentChartData(
-      'endUser', 
-      (d) => d.endUser || '',
-      filters.endUser.length > 0 ? filters.endUser : undefined
-    )
+    // One line per breakdown
+    const productCategoryData = generateSegmentChartData('productCategory', filters.productCategory)
+    const subProductCategoryData = generateSegmentChartData('subProductCategory', filters.subProductCategory)
+    // Product Type Chart (kept for backward compatibility)
+    const productTypeData = generateSegmentChartData('productType', filters.productType)
+    const bladeMaterialData = generateSegmentChartData('pipeMaterial', filters.bladeMaterial)
+    const handleLengthData = generateSegmentChartData('priceBand', filters.handleLength)
+    const applicationData = generateSegmentChartData('application', filters.application)
+    const endUserData = generateSegmentChartData('endUser', filters.endUser)
 
     // Region Chart - use selected filters to show all selected options (changed from Country to Region)
-    const regionsFromData = [...new Set(filteredData.map(d => d.region))].filter(Boolean).sort()
-    const regionsForChart = filters.region && filters.region.length > 0
+    const regionsForChart = filters.region.length > 0
       ? filters.region.filter(r => r).sort()
-      : regionsFromData
-    const regionMap = new Map<string, number>()
-    filteredData.forEach(d => {
-      const key = `${d.year}-${d.region}`
-      regionMap.set(key, (regionMap.get(key) || 0) + getDataValue(d))
-    })
-    const countryChartData = years.map((year) => {
-      const entry: Record<string, number | string> = { year: String(year) }
-      regionsForChart.forEach((region) => {
-        const key = `${year}-${region}`
-        entry[region] = regionMap.get(key) || 0
-      })
-      return entry
-    })
-
-
-    // Region Distribution by Year (simplified to show only regions, no countries)
-    const regionYearTotals: Record<string, Record<string, number>> = {}
-
-    filteredData.forEach((d) => {
-      const value = getDataValue(d)
-      const year = d.year
-      const region = d.region
-      const yearKey = String(year)
-
-      if (!regionYearTotals[yearKey]) {
-        regionYearTotals[yearKey] = {}
-      }
-      if (!regionYearTotals[yearKey][region]) {
-        regionYearTotals[yearKey][region] = 0
-      }
-
-      regionYearTotals[yearKey][region] += value
-    })
-
-    // Calculate total across all regions for percentage
-    const yearTotals: Record<string, number> = {}
-    Object.entries(regionYearTotals).forEach(([year, regionData]) => {
-      yearTotals[year] = Object.values(regionData).reduce((sum, val) => sum + val, 0)
-    })
-
-    const regionCountryPercentageChartData = Object.entries(regionYearTotals).flatMap(([year, regionData]) => {
-      const totalForYear = yearTotals[year]
-
-      return Object.entries(regionData).map(([region, value]) => {
-        const percentage = totalForYear > 0 ? ((value / totalForYear) * 100) : 0
-
-        return {
-          year: Number(year),
-          region,
-          country: region, // Use region as country for compatibility with the chart component
-          value: filters.marketEvaluation === 'By Volume' ? value : percentage,
-          yearRegion: `${year} - ${region}`
-        }
-      })
-    })
-
-    // Generate year-wise stacked bar chart data for share analysis
-    const bladeMaterialStackedData = generateYearWiseStackedBarData(
-      (d) => d.bladeMaterial || '',
-      filters.bladeMaterial.length > 0 ? filters.bladeMaterial : undefined
-    )
-    const handleLengthStackedData = generateYearWiseStackedBarData(
-      (d) => d.handleLength || '',
-      filters.handleLength.length > 0 ? filters.handleLength : undefined
-    )
-    const applicationStackedData = generateYearWiseStackedBarData(
-      (d) => d.application || '',
-      filters.application.length > 0 ? filters.application : undefined
-    )
-    const technologyStackedData = generateYearWiseStackedBarData(
-      (d) => d.technology || '',
-      filters.technology.length > 0 ? filters.technology : undefined
-    )
-    const endUserStackedData = generateYearWiseStackedBarData(
-      (d) => d.endUser || '',
-      filters.endUser.length > 0 ? filters.endUser : undefined
-    )
-
-    // Generate distribution channel type stacked bar chart data (Online vs Offline)
-    const distributionChannelTypeStackedData = generateYearWiseStackedBarData(
-      (d) => d.distributionChannelType || '',
-      filters.distributionChannelType.length > 0 ? filters.distributionChannelType : undefined
-    )
-
-    // Generate distribution channel subtype stacked bar chart data
-    // Only show if a distribution channel type is selected
-    let offlineChannelStackedData: { chartData: Array<Record<string, number | string>>; segments: string[] } = { chartData: [], segments: [] }
-    let onlineChannelStackedData: { chartData: Array<Record<string, number | string>>; segments: string[] } = { chartData: [], segments: [] }
-    
-    if (filters.distributionChannelType.length > 0) {
-      // Filter data for offline channels
-      if (filters.distributionChannelType.includes('Offline')) {
-        const offlineData = filteredData.filter(d => d.distributionChannelType === 'Offline')
-        const offlineChannels = [...new Set(offlineData.map(d => d.distributionChannel))].filter(Boolean).sort() as string[]
-        
-        const yearChannelMap = new Map<number, Map<string, number>>()
-        offlineData.forEach(d => {
-          const year = d.year
-          const channel = d.distributionChannel
-          if (channel) {
-            if (!yearChannelMap.has(year)) {
-              yearChannelMap.set(year, new Map<string, number>())
-            }
-            const channelMap = yearChannelMap.get(year)!
-            channelMap.set(channel, (channelMap.get(channel) || 0) + getDataValue(d))
-          }
-        })
-        
-        const chartData = years.map(year => {
-          const entry: Record<string, number | string> = { year: String(year) }
-          const channelMap = yearChannelMap.get(year) || new Map<string, number>()
-          offlineChannels.forEach(channel => {
-            entry[channel] = channelMap.get(channel) || 0
-          })
-          return entry
-        })
-        
-        const activeChannels = offlineChannels.filter(channel => 
-          chartData.some(entry => (entry[channel] as number) > 0)
-        )
-        
-        offlineChannelStackedData = { chartData, segments: activeChannels }
-      }
-      
-      // Filter data for online channels
-      if (filters.distributionChannelType.includes('Online')) {
-        const onlineData = filteredData.filter(d => d.distributionChannelType === 'Online')
-        const onlineChannels = [...new Set(onlineData.map(d => d.distributionChannel))].filter(Boolean).sort() as string[]
-        
-        const yearChannelMap = new Map<number, Map<string, number>>()
-        onlineData.forEach(d => {
-          const year = d.year
-          const channel = d.distributionChannel
-          if (channel) {
-            if (!yearChannelMap.has(year)) {
-              yearChannelMap.set(year, new Map<string, number>())
-            }
-            const channelMap = yearChannelMap.get(year)!
-            channelMap.set(channel, (channelMap.get(channel) || 0) + getDataValue(d))
-          }
-        })
-        
-        const chartData = years.map(year => {
-          const entry: Record<string, number | string> = { year: String(year) }
-          const channelMap = yearChannelMap.get(year) || new Map<string, number>()
-          onlineChannels.forEach(channel => {
-            entry[channel] = channelMap.get(channel) || 0
-          })
-          return entry
-        })
-        
-        const activeChannels = onlineChannels.filter(channel => 
-          chartData.some(entry => (entry[channel] as number) > 0)
-        )
-        
-        onlineChannelStackedData = { chartData, segments: activeChannels }
+      : dimensionSegments(store, 'region', filteredSelection)
+    const countryChartData = yearlyBreakdown('region', regionsForChart)
+
+    // Region → state breakdown by year; the chart stacks states and totals each region
+    const regionStateChartData = query(store, { where: filteredSelection, groupBy: ['year', 'region', 'country'], measures: [valueColumn] })
+      .filter(row => row.country)
+      .map(row => ({
+        year: Number(row.year),
+        region: String(row.region),
+        country: String(row.country),
+        value: toDisplayValue(row[valueColumn]),
+        yearRegion: `${row.year} - ${row.region}`
+      }))
+
+    // Year-wise stacked bar chart data for share analysis
+    const bladeMaterialStackedData = generateYearWiseStackedBarData('pipeMaterial', filters.bladeMaterial)
+    const handleLengthStackedData = generateYearWiseStackedBarData('priceBand', filters.handleLength)
+    const applicationStackedData = generateYearWiseStackedBarData('application', filters.application)
+    // The filter panel's application dropdown writes to the technology filter
+    const technologyStackedData = generateYearWiseStackedBarData('application', filters.technology)
+    const endUserStackedData = generateYearWiseStackedBarData('endUser', filters.endUser)
+    const distributionChannelTypeStackedData = generateYearWiseStackedBarData('salesChannel', filters.distributionChannelType)
+
+    // Distribution channel subtype stacked bar chart data, only for the selected channel types
+    const channelStackedData = (channelType: string) => {
+      if (!filters.distributionChannelType.includes(channelType)) {
+        return { chartData: [], segments: [] }
       }
+      const selection = selectDimensions(store, { salesChannel: [channelType] }, filteredSelection)
+      const channels = dimensionSegments(store, 'onlineChannel', selection)
+      return withActiveSegments(yearlyBreakdown('onlineChannel', channels, selection), channels)
     }
+    const offlineChannelStackedData = channelStackedData('Offline')
+    const onlineChannelStackedData = channelStackedData('Online')
 
     return {
       productCategoryChartData: productCategoryData.chartData,
@@ -1052,7 +435,7 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
       applicationChartData: applicationData.chartData,
       endUserChartData: endUserData.chartData,
       countryChartData,
-      regionCountryPercentageChartData,
+      regionStateChartData,
       productCategories: productCategoryData.segments,
       subProductCategories: subProductCategoryData.segments,
       productTypes: productTypeData.segments,
@@ -1072,57 +455,80 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
       offlineChannelStackedData,
       onlineChannelStackedData,
     }
-  }, [filteredData, filters.marketEvaluation, filters.productCategory, filters.subProductCategory, filters.productType, filters.bladeMaterial, filters.handleLength, filters.application, filters.technology, filters.endUser, filters.country, filters.distributionChannelType])
+  }, [store, filteredSelection, filters.marketEvaluation, filters.productCategory, filters.subProductCategory, filters.productType, filters.bladeMaterial, filters.handleLength, filters.application, filters.technology, filters.endUser, filters.country, filters.distributionChannelType])
 
-  // KPI Stats - Generate based on selected filters using demo data
+  // KPI Stats - computed from the filtered data for the latest selected year
   const kpis = useMemo(() => {
-    // Base market values by country (in millions USD)
-    const countryBaseValues: Record<string, number> = {
-      'US': 4500,
-      'Germany': 1800,
-      'China': 3800,
-      'Japan': 2200
+    if (!store || !segmentSelection) return null
+    return computeMarketKpis(store, segmentSelection, filters.year, valueMeasure)
+  }, [store, segmentSelection, filters.year, valueMeasure])
+
+  // KPI cards, each with its change against the previous period
+  const kpiCards = useMemo(() => {
+    if (!kpis) return []
+
+    const { firstYear, latestYear, previousYear } = kpis
+    const change = (value: number, previous: number | null, label: string, asPoints = false) => {
+      if (previous === null || (!asPoints && previous === 0)) return {}
+      const delta = asPoints ? value - previous : ((value - previous) / Math.abs(previous)) * 100
+      return {
+        increase: `${delta >= 0 ? '+' : ''}${formatWithCommas(delta, 1)}${asPoints ? ' pts' : '%'} vs ${label}`,
+        trend: delta < 0 ? 'down' as const : 'up' as const,
+      }
     }
+    const previousLabel = String(previousYear)
 
-    // Get selected countries or use all
-    const selectedCountries = filters.country.length > 0 ? filters.country : ['US', 'Germany', 'China', 'Japan']
-
-    // Get selected years or use default (latest year 2032 for total market size)
-    const selectedYears = filters.year.length > 0 ? filters.year : [2032]
-    const latestYear = Math.max(...selectedYears)
-
-    // Calculate year multiplier (6.5% annual growth from 2024)
-    const yearGrowthRate = 1.065
-    const yearMultiplier = Math.pow(yearGrowthRate, latestYear - 2024)
-
-    // Calculate total market value based on selected countries
-    let totalValue = selectedCountries.reduce((sum, country) => {
-      return sum + (countryBaseValues[country] || 2000)
-    }, 0) * yearMultiplier
-
-    // Apply filter multipliers for product type selections
-    if (filters.productType.length > 0 && filters.productType.length < 6) {
-      totalValue *= (filters.productType.length / 6) * 1.1
+    const cards: Array<{ title: string; subtitle: string; increase?: string; trend?: 'up' | 'down' }> = [
+      {
+        title: `$${formatWithCommas(kpis.totalValue.value, 1)}M`,
+        subtitle: `Market Size (${latestYear})`,
+        ...change(kpis.totalValue.value, kpis.totalValue.previous, previousLabel),
+      },
+      {
+        title: `${formatNumber(kpis.totalVolume.value)} Units`,
+        subtitle: `Market Volume (${latestYear})`,
+        ...change(kpis.totalVolume.value, kpis.totalVolume.previous, previousLabel),
+      },
+      {
+        title: `$${formatWithCommas(kpis.averagePrice.value, 2)}`,
+        subtitle: `Average Selling Price (${latestYear})`,
+        ...change(kpis.averagePrice.value, kpis.averagePrice.previous, previousLabel),
+      },
+    ]
+    if (kpis.cagr) {
+      cards.push({
+        title: `${formatWithCommas(kpis.cagr.value, 1)}%`,
+        subtitle: `CAGR ${firstYear}–${latestYear}`,
+        ...change(kpis.cagr.value, kpis.cagr.previous, `${firstYear - 1}–${latestYear - 1}`, true),
+      })
     }
-
-    // Apply filter multipliers for other selections
-    if (filters.technology.length > 0 && filters.technology.length < 4) {
-      totalValue *= 0.85
+    if (kpis.yoy) {
+      cards.push({
+        title: `${kpis.yoy.value >= 0 ? '+' : ''}${formatWithCommas(kpis.yoy.value, 1)}%`,
+        subtitle: `YoY Growth (${latestYear})`,
+        ...change(kpis.yoy.value, kpis.yoy.previous, previousLabel, true),
+      })
     }
-    if (filters.distributionChannel.length > 0 && filters.distributionChannel.length < 4) {
-      totalValue *= 0.75
+    if (kpis.topSegment) {
+      cards.push({
+        title: kpis.topSegment.name,
+        subtitle: `Top Segment (${formatWithCommas(kpis.topSegment.share, 1)}% share)`,
+        ...change(kpis.topSegment.share, kpis.topSegment.previousShare, previousLabel, true),
+      })
     }
+    return cards
+  }, [kpis])
 
-    return {
-      totalValue: filters.marketEvaluation === 'By Volume'
-        ? `${formatWithCommas(totalValue * 0.8, 1)}K Units`
-        : `$${formatWithCommas(totalValue, 1)}M`,
-    }
-  }, [filters.country, filters.year, filters.productType, filters.technology, filters.distributionChannel, filters.marketEvaluation])
+  // Bottom-up demand estimate - annual volume of surveyed accounts
+  const bottomUpDemand = useMemo(() => ({
+    total: getTotalAddressableVolume(customerData),
+    byRegion: rollupAddressableVolume(customerData, 'region'),
+    byIndustrySector: rollupAddressableVolume(customerData, 'industrySector'),
+  }), [customerData])
 
   // Get unique options for incremental filters
   const incrementalFilterOptions = useMemo(() => {
-    if (!data || data.length === 0) {
+    if (!store || store.rowCount === 0) {
       return {
         regions: [],
         productTypes: [],
@@ -1130,763 +536,470 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
       }
     }
     
-    const regionSet = new Set<string>()
-    const productTypeSet = new Set<string>()
-    const countrySet = new Set<string>()
-    
-    data.forEach(d => {
-      if (d.region) regionSet.add(d.region)
-      if (d.productType) productTypeSet.add(d.productType)
-      if (d.country) countrySet.add(d.country)
-    })
+    const options = (key: DimensionKey) => (distinctValues(store, key) as string[]).filter(Boolean).sort()
     
     return {
-      regions: Array.from(regionSet).sort(),
-      productTypes: Array.from(productTypeSet).sort(),
-      countries: Array.from(countrySet).sort(),
+      regions: options('region'),
+      productTypes: options('productType'),
+      countries: options('country'),
     }
-  }, [data])
+  }, [store])
 
   // Filter data for incremental chart
-  const filteredIncrementalData = useMemo(() => {
-    let filtered = [...data]
-
-    // Filter by country
-    if (incrementalFilters.country.length > 0) {
-      filtered = filtered.filter(d => incrementalFilters.country.includes(d.country))
-    }
+  const incrementalSelection = useMemo(() => {
+    if (!store) return null
 
-    // Filter by hierarchical product type
-    if (incrementalFilters.productType.length > 0) {
-      filtered = filtered.filter(d => {
-        // Check if any selected filter matches
-        return incrementalFilters.productType.some(selected => {
-          // Check for exact match with main category
-          if (selected === d.productCategory || selected === d.productType) {
-            return true
-          }
-          // Check for subcategory match (format: "MainCategory - SubCategory")
-          if (selected.includes(' - ')) {
-            const [mainCat, subCat] = selected.split(' - ')
-            return d.productCategory === mainCat && d.subProductCategory === subCat
-          }
-          // Check if the data's product type starts with the selected category
-          if (d.productType && d.productType.startsWith(selected)) {
-            return true
-          }
-          return false
-        })
-      })
-    }
+    return selectDimensions(store, {
+      region: incrementalFilters.region,
+      state: incrementalFilters.country,
+      productType: incrementalFilters.productType,
+    })
+  }, [store, incrementalFilters.region, incrementalFilters.country, incrementalFilters.productType])
 
-    return filtered
-  }, [data, incrementalFilters])
+  // Incremental opportunity between the chosen base and end years
+  const opportunity = useMemo(() => {
+    if (!store || !incrementalSelection) return null
+    return computeIncrementalOpportunity(store, incrementalSelection, incrementalFilters)
+  }, [store, incrementalSelection, incrementalFilters.baseYear, incrementalFilters.endYear, incrementalFilters.breakdown])
 
   // Waterfall Chart Data (Incremental Opportunity) - based on filters
   const waterfallData = useMemo(() => {
-    // Demo data configuration based on filters
-    const countryMultipliers: Record<string, number> = {
-      'US': 1.0,
-      'Germany': 0.35,
-      'China': 0.85,
-      'Japan': 0.45
-    }
-
-    const productTypeMultipliers: Record<string, number> = {
-      'Foil Shavers': 0.25,
-      'Rotary Shavers': 0.20,
-      'Trimmers & Groomers': 0.18,
-      'Hybrid Shavers': 0.12,
-      'Lady Shavers': 0.10,
-      'Hair Clippers': 0.15
-    }
-
-    // Calculate multiplier based on selected filters
-    let filterMultiplier = 1.0
-
-    if (incrementalFilters.country.length > 0) {
-      filterMultiplier = incrementalFilters.country.reduce((sum, country) => {
-        return sum + (countryMultipliers[country] || 0.25)
-      }, 0) / (incrementalFilters.country.length > 1 ? 1 : 1)
-    }
-
-    if (incrementalFilters.productType.length > 0) {
-      // Get unique main categories from selected product types
-      const mainCategories = new Set<string>()
-      incrementalFilters.productType.forEach(pt => {
-        if (pt.includes(' - ')) {
-          mainCategories.add(pt.split(' - ')[0])
-        } else {
-          mainCategories.add(pt)
-        }
-      })
-
-      const productMultiplier = Array.from(mainCategories).reduce((sum, cat) => {
-        return sum + (productTypeMultipliers[cat] || 0.1)
-      }, 0)
-
-      filterMultiplier *= productMultiplier
-    }
-
-    // Default base values
-    const defaultBaseValue = 57159
-    const defaultIncrements = [2638.4, 2850.4, 3055.6, 3231.0, 3432.9, 3674.2, 3885.1]
-
-    // Calculate base value from 2024 data
-    const baseYearData = filteredIncrementalData.filter(d => d.year === 2024)
-    let baseValue = baseYearData.reduce((sum, d) => sum + (d.marketValueUsd || 0) / 1000, 0)
-
-    // If no data, use demo data with filter multiplier
-    if (baseValue === 0) {
-      baseValue = defaultBaseValue * filterMultiplier
-    }
-
-    // Calculate incremental values for each year
-    const incrementalValues = []
-    for (let year = 2025; year <= 2031; year++) {
-      const yearData = filteredIncrementalData.filter(d => d.year === year)
-      const prevYearData = filteredIncrementalData.filter(d => d.year === year - 1)
-
-      const yearValue = yearData.reduce((sum, d) => sum + (d.marketValueUsd || 0) / 1000, 0)
-      const prevYearValue = prevYearData.reduce((sum, d) => sum + (d.marketValueUsd || 0) / 1000, 0)
-
-      let incremental: number
-      if (yearValue > 0 && prevYearValue > 0) {
-        incremental = yearValue - prevYearValue
-      } else {
-        // Use demo data scaled by filter multiplier
-        incremental = defaultIncrements[year - 2025] * filterMultiplier
-      }
-
-      incrementalValues.push({ year: String(year), value: incremental })
+    if (!opportunity) {
+      return { chartData: [], incrementalOpportunity: 0, segments: [] }
     }
 
-    let cumulative = baseValue
+    let cumulative = opportunity.baseValue
     const chartData = [
-      { year: '2024', baseValue, totalValue: baseValue, isBase: true },
-      ...incrementalValues.map(item => {
-        cumulative += item.value
+      { year: String(opportunity.baseYear), baseValue: opportunity.baseValue, totalValue: opportunity.baseValue, isBase: true },
+      ...opportunity.steps.map(step => {
+        cumulative += step.incremental
         return {
-          year: item.year,
-          incrementalValue: item.value,
+          year: String(step.year),
+          incrementalValue: step.incremental,
           totalValue: cumulative,
+          contributions: step.contributions,
+          priceEffect: step.priceEffect,
+          volumeEffect: step.volumeEffect,
         }
       }),
-      { year: '2032', baseValue: cumulative, totalValue: cumulative, isTotal: true },
+      { year: 'Total', baseValue: cumulative, totalValue: cumulative, isTotal: true },
     ]
 
-    const totalIncremental = incrementalValues.reduce((sum, item) => sum + item.value, 0)
-
-    return { chartData, incrementalOpportunity: totalIncremental }
-  }, [filteredIncrementalData, incrementalFilters])
+    return {
+      chartData,
+      incrementalOpportunity: opportunity.totalIncremental,
+      segments: opportunity.segments.map(({ segment }) => segment),
+    }
+  }, [opportunity])
 
   // Get unique options for attractiveness filters
   const attractivenessFilterOptions = useMemo(() => {
-    if (!data || data.length === 0) {
+    if (!store || store.rowCount === 0) {
       return {
         regions: [],
         productTypes: [],
+        countries: [],
       }
     }
     
-    const regionSet = new Set<string>()
-    const productTypeSet = new Set<string>()
-    
-    data.forEach(d => {
-      if (d.region) regionSet.add(d.region)
-      if (d.productType) productTypeSet.add(d.productType)
-    })
-    
     return {
-      regions: Array.from(regionSet).sort(),
-      productTypes: Array.from(productTypeSet).sort(),
+      regions: (distinctValues(store, 'region') as string[]).filter(Boolean).sort(),
+      productTypes: (distinctValues(store, 'productType') as string[]).filter(Boolean).sort(),
+      countries: (distinctValues(store, 'country') as string[]).filter(Boolean).sort(),
     }
-  }, [data])
+  }, [store])
 
   // Filter data for attractiveness chart
-  const filteredAttractivenessData = useMemo(() => {
-    let filtered = [...data]
+  const attractivenessSelection = useMemo(() => {
+    if (!store) return null
 
-    // Filter by year range 2025-2032
-    filtered = filtered.filter(d => d.year >= 2025 && d.year <= 2032)
+    return selectDimensions(store, {
+      geography: attractivenessFilters.country,
+      region: attractivenessFilters.region,
+      productType: attractivenessFilters.productType,
+    })
+  }, [store, attractivenessFilters.country, attractivenessFilters.region, attractivenessFilters.productType])
+
+  const attractiveness = useMemo(() => {
+    if (!store || !attractivenessSelection) return null
+    return computeAttractiveness(
+      store,
+      attractivenessSelection,
+      attractivenessFilters.dimension,
+      attractivenessFilters.startYear,
+      attractivenessFilters.endYear
+    )
+  }, [store, attractivenessSelection, attractivenessFilters.dimension, attractivenessFilters.startYear, attractivenessFilters.endYear])
 
-    // Filter by country
-    if (attractivenessFilters.country.length > 0) {
-      filtered = filtered.filter(d => attractivenessFilters.country.includes(d.country || d.region))
-    }
+  const bubbleChartData = useMemo(() => {
+    if (!attractiveness) return []
+    return attractiveness.points.map(point => ({
+      region: point.segment,
+      cagrIndex: point.cagrIndex,
+      marketShareIndex: point.marketShareIndex,
+      incrementalOpportunity: point.incrementalOpportunity,
+      quadrant: classifyQuadrant(point, quadrantThresholds),
+      description: `CAGR ${formatWithCommas(point.cagr, 1)}% vs market ${formatWithCommas(attractiveness.marketCagr, 1)}%, ${formatWithCommas(point.share, 1)}% share`,
+    }))
+  }, [attractiveness, quadrantThresholds])
 
-    if (attractivenessFilters.region.length > 0) {
-      filtered = filtered.filter(d => attractivenessFilters.region.includes(d.region))
+  // Get unique options for YoY filters
+  const yoyFilterOptions = useMemo(() => {
+    if (!store || store.rowCount === 0) {
+      return {
+        regions: [],
+        entities: [],
+        entityLabels: {},
+      }
+    }
+    
+    const countryRegionMap = new Map<string, string>() // country -> region mapping
+    query(store, { groupBy: ['country', 'region'], measures: ['count'] }).forEach(({ country, region }) => {
+      if (country && region) {
+        countryRegionMap.set(String(country), String(region))
+      }
+    })
+    
+    const regions = (distinctValues(store, 'region') as string[]).filter(Boolean).sort()
+    let entities: string[]
+    const entityLabels: Record<string, string> = {}
+    if (yoyFilters.groupBy === 'country') {
+      // Filter states based on selected regions and label them with their region
+      entities = Array.from(countryRegionMap.keys())
+        .filter(country => yoyFilters.region.length === 0 || yoyFilters.region.includes(countryRegionMap.get(country)!))
+        .sort()
+      entities.forEach(country => {
+        entityLabels[country] = `${country} (${countryRegionMap.get(country)})`
+      })
+    } else if (yoyFilters.groupBy === 'region') {
+      entities = yoyFilters.region.length > 0 ? regions.filter(region => yoyFilters.region.includes(region)) : regions
+    } else {
+      entities = (distinctValues(store, yoyFilters.groupBy) as string[]).filter(Boolean).sort()
     }
-    if (attractivenessFilters.productType.length > 0) {
-      filtered = filtered.filter(d => attractivenessFilters.productType.includes(d.productType))
+    
+    return {
+      regions,
+      entities,
+      entityLabels,
     }
+  }, [store, yoyFilters.region, yoyFilters.groupBy])
 
-    return filtered
-  }, [data, attractivenessFilters])
-
-  // Segment hierarchy configuration - defines parent segments and their child sub-segments
-  const segmentHierarchy: Record<string, { items: string[]; subItems: Record<string, string[]> }> = useMemo(() => ({
-    productType: {
-      items: ['Foil Shavers', 'Rotary Shavers', 'Trimmers & Groomers', 'Hybrid Shavers', 'Lady Shavers', 'Hair Clippers'],
-      subItems: {
-        'Foil Shavers': ['Single-foil', 'Dual-foil', 'Multi-foil (3+)'],
-        'Rotary Shavers': ['Dual-head', 'Triple-head', 'Multi-head (4+)'],
-        'Trimmers & Groomers': ['Beard trimmers', 'Body groomers', 'Detail trimmers'],
-        'Hybrid Shavers': ['Blade-electric combo', 'Wet & dry hybrid tools'],
-        'Lady Shavers': ['Face shavers', 'Body shavers', 'Bikini trimmers'],
-        'Hair Clippers': ['Corded clippers', 'Cordless clippers', 'Others'],
-      }
-    },
-    technology: {
-      items: ['Corded', 'Cordless / Rechargeable'],
-      subItems: {
-        'Corded': ['AC powered', 'DC powered'],
-        'Cordless / Rechargeable': ['Li-ion battery', 'NiMH battery'],
-      }
-    },
-    bladeType: {
-      items: ['Stainless Steel Blades', 'Titanium-coated Blades', 'Carbon Steel', 'Ceramic Blades', 'Self-sharpening Blades', 'Replaceable vs Non-replaceable Heads'],
-      subItems: {} // No sub-items for blade type
-    },
-    priceRange: {
-      items: ['Economy', 'Mid-Range', 'Premium'],
-      subItems: {} // No sub-items for price range
-    },
-    endUser: {
-      items: ['Home Users', 'Professional Users'],
-      subItems: {
-        'Home Users': ['Men', 'Women', 'Unisex'],
-        'Professional Users': ['Barbers', 'Salons', 'Grooming service providers'],
-      }
-    },
-    distributionChannel: {
-      items: ['Offline', 'Online'],
-      subItems: {
-        'Offline': ['Supermarkets & Hypermarkets', 'Specialty Stores', 'Department Stores', 'Others'],
-        'Online': ['E-commerce / Third Party Platforms', 'Company Websites'],
-      }
-    },
-  }), [])
-
-  // Check if segment has child filters (subItems)
-  const segmentHasChildFilters = useMemo(() => {
-    const segment = attractivenessFilters.segment
-    if (!segment || !segmentHierarchy[segment]) return false
-    const subItems = segmentHierarchy[segment].subItems
-    return subItems && Object.keys(subItems).length > 0
-  }, [attractivenessFilters.segment, segmentHierarchy])
-
-  // Get available sub-segment options based on selected segment
-  // Only show options if the segment has child filters
-  const availableSubSegments = useMemo(() => {
-    const segment = attractivenessFilters.segment
-    if (!segment || !segmentHierarchy[segment]) return []
-    // Only return items if this segment has subItems (child filters)
-    const subItems = segmentHierarchy[segment].subItems
-    if (!subItems || Object.keys(subItems).length === 0) return []
-    return segmentHierarchy[segment].items
-  }, [attractivenessFilters.segment, segmentHierarchy])
-
-  // Get available sub-sub-segment options based on selected sub-segment
-  const availableSubSubSegments = useMemo(() => {
-    const segment = attractivenessFilters.segment
-    const subSegment = attractivenessFilters.subSegment
-    if (!segment || !subSegment || !segmentHierarchy[segment]) return []
-    return segmentHierarchy[segment].subItems[subSegment] || []
-  }, [attractivenessFilters.segment, attractivenessFilters.subSegment, segmentHierarchy])
-
-  // Bubble Chart Data (Market Attractiveness) - based on filters
-  const bubbleChartData = useMemo(() => {
-    // Define segment data configurations with sub-segment values
-    const segmentConfigs: Record<string, { items: string[]; values: Record<string, { cagr: number; share: number; opp: number }> }> = {
-      productType: {
-        items: ['Foil Shavers', 'Rotary Shavers', 'Trimmers & Groomers', 'Hybrid Shavers', 'Lady Shavers', 'Hair Clippers'],
-        values: {
-          'Foil Shavers': { cagr: 4.2, share: 12.5, opp: 9500 },
-          'Rotary Shavers': { cagr: 6.8, share: 9.8, opp: 7800 },
-          'Trimmers & Groomers': { cagr: 9.5, share: 7.2, opp: 8200 },
-          'Hybrid Shavers': { cagr: 11.2, share: 3.5, opp: 5500 },
-          'Lady Shavers': { cagr: 7.5, share: 5.8, opp: 4200 },
-          'Hair Clippers': { cagr: 3.5, share: 15.2, opp: 6100 },
-        }
-      },
-      technology: {
-        items: ['Corded', 'Cordless / Rechargeable'],
-        values: {
-          'Corded': { cagr: 3.5, share: 12.5, opp: 3200 },
-          'Cordless / Rechargeable': { cagr: 8.2, share: 9.5, opp: 12500 },
-        }
-      },
-      bladeType: {
-        items: ['Stainless Steel Blades', 'Titanium-coated Blades', 'Carbon Steel', 'Ceramic Blades', 'Self-sharpening Blades', 'Replaceable vs Non-replaceable Heads'],
-        values: {
-          'Stainless Steel Blades': { cagr: 4.2, share: 13.5, opp: 9200 },
-          'Titanium-coated Blades': { cagr: 7.5, share: 10.2, opp: 7500 },
-          'Carbon Steel': { cagr: 5.5, share: 11.8, opp: 4100 },
-          'Ceramic Blades': { cagr: 8.8, share: 6.5, opp: 4800 },
-          'Self-sharpening Blades': { cagr: 10.2, share: 8.2, opp: 6500 },
-          'Replaceable vs Non-replaceable Heads': { cagr: 6.5, share: 7.8, opp: 5800 },
-        }
-      },
-      priceRange: {
-        items: ['Economy', 'Mid-Range', 'Premium'],
-        values: {
-          'Economy': { cagr: 4.2, share: 12.5, opp: 5500 },
-          'Mid-Range': { cagr: 6.8, share: 9.5, opp: 9800 },
-          'Premium': { cagr: 9.5, share: 6.8, opp: 7200 },
-        }
-      },
-      endUser: {
-        items: ['Home Users', 'Professional Users'],
-        values: {
-          'Home Users': { cagr: 4.2, share: 14.5, opp: 11200 },
-          'Professional Users': { cagr: 8.5, share: 7.8, opp: 6800 },
-        }
-      },
-      distributionChannel: {
-        items: ['Offline', 'Online'],
-        values: {
-          'Offline': { cagr: 3.5, share: 12.5, opp: 6800 },
-          'Online': { cagr: 8.5, share: 8.2, opp: 9500 },
-        }
-      },
-    }
+  // Filter data for YoY/CAGR chart
+  const yoySelection = useMemo(() => {
+    if (!store) return null
 
-    // Sub-segment values configuration
-    const subSegmentConfigs: Record<string, Record<string, { items: string[]; values: Record<string, { cagr: number; share: number; opp: number }> }>> = {
-      productType: {
-        'Foil Shavers': {
-          items: ['Single-foil', 'Dual-foil', 'Multi-foil (3+)'],
-          values: {
-            'Single-foil': { cagr: 3.2, share: 8.5, opp: 2800 },
-            'Dual-foil': { cagr: 4.5, share: 10.2, opp: 3500 },
-            'Multi-foil (3+)': { cagr: 5.8, share: 7.8, opp: 3200 },
-          }
-        },
-        'Rotary Shavers': {
-          items: ['Dual-head', 'Triple-head', 'Multi-head (4+)'],
-          values: {
-            'Dual-head': { cagr: 5.2, share: 6.5, opp: 2200 },
-            'Triple-head': { cagr: 7.5, share: 8.8, opp: 3500 },
-            'Multi-head (4+)': { cagr: 8.8, share: 5.2, opp: 2100 },
-          }
-        },
-        'Trimmers & Groomers': {
-          items: ['Beard trimmers', 'Body groomers', 'Detail trimmers'],
-          values: {
-            'Beard trimmers': { cagr: 9.2, share: 6.8, opp: 3800 },
-            'Body groomers': { cagr: 10.5, share: 5.5, opp: 2800 },
-            'Detail trimmers': { cagr: 8.8, share: 4.2, opp: 1600 },
-          }
-        },
-        'Hybrid Shavers': {
-          items: ['Blade-electric combo', 'Wet & dry hybrid tools'],
-          values: {
-            'Blade-electric combo': { cagr: 10.5, share: 4.2, opp: 2800 },
-            'Wet & dry hybrid tools': { cagr: 11.8, share: 5.5, opp: 2700 },
-          }
-        },
-        'Lady Shavers': {
-          items: ['Face shavers', 'Body shavers', 'Bikini trimmers'],
-          values: {
-            'Face shavers': { cagr: 6.8, share: 4.5, opp: 1400 },
-            'Body shavers': { cagr: 8.2, share: 5.2, opp: 1800 },
-            'Bikini trimmers': { cagr: 7.5, share: 3.8, opp: 1000 },
-          }
-        },
-        'Hair Clippers': {
-          items: ['Corded clippers', 'Cordless clippers', 'Others'],
-          values: {
-            'Corded clippers': { cagr: 2.8, share: 8.5, opp: 2100 },
-            'Cordless clippers': { cagr: 4.5, share: 6.2, opp: 2500 },
-            'Others': { cagr: 5.2, share: 4.8, opp: 1500 },
-          }
-        },
-      },
-      technology: {
-        'Corded': {
-          items: ['AC powered', 'DC powered'],
-          values: {
-            'AC powered': { cagr: 2.8, share: 7.5, opp: 1800 },
-            'DC powered': { cagr: 4.2, share: 5.2, opp: 1400 },
-          }
-        },
-        'Cordless / Rechargeable': {
-          items: ['Li-ion battery', 'NiMH battery'],
-          values: {
-            'Li-ion battery': { cagr: 9.5, share: 6.8, opp: 8500 },
-            'NiMH battery': { cagr: 5.8, share: 4.2, opp: 2800 },
-          }
-        },
-      },
-      priceRange: {
-        'Economy': {
-          items: ['Under $20', '$20-$50'],
-          values: {
-            'Under $20': { cagr: 3.5, share: 6.8, opp: 2200 },
-            '$20-$50': { cagr: 4.8, share: 8.2, opp: 3300 },
-          }
-        },
-        'Mid-Range': {
-          items: ['$50-$100', '$100-$150'],
-          values: {
-            '$50-$100': { cagr: 6.2, share: 7.5, opp: 4800 },
-            '$100-$150': { cagr: 7.5, share: 6.2, opp: 5000 },
-          }
-        },
-        'Premium': {
-          items: ['$150-$300', 'Above $300'],
-          values: {
-            '$150-$300': { cagr: 8.8, share: 5.2, opp: 4200 },
-            'Above $300': { cagr: 10.2, share: 3.8, opp: 3000 },
-          }
-        },
-      },
-      endUser: {
-        'Home Users': {
-          items: ['Men', 'Women', 'Unisex'],
-          values: {
-            'Men': { cagr: 4.5, share: 9.5, opp: 5500 },
-            'Women': { cagr: 5.8, share: 6.8, opp: 3500 },
-            'Unisex': { cagr: 3.8, share: 4.2, opp: 2200 },
-          }
-        },
-        'Professional Users': {
-          items: ['Barbers', 'Salons', 'Grooming service providers'],
-          values: {
-            'Barbers': { cagr: 7.8, share: 5.5, opp: 2800 },
-            'Salons': { cagr: 9.2, share: 4.8, opp: 2500 },
-            'Grooming service providers': { cagr: 8.5, share: 3.2, opp: 1500 },
-          }
-        },
-      },
-      distributionChannel: {
-        'Offline': {
-          items: ['Supermarkets & Hypermarkets', 'Specialty Stores', 'Department Stores', 'Others'],
-          values: {
-            'Supermarkets & Hypermarkets': { cagr: 3.8, share: 6.5, opp: 2800 },
-            'Specialty Stores': { cagr: 4.5, share: 5.2, opp: 2200 },
-            'Department Stores': { cagr: 2.8, share: 3.8, opp: 1200 },
-            'Others': { cagr: 3.2, share: 2.5, opp: 600 },
-          }
-        },
-        'Online': {
-          items: ['E-commerce / Third Party Platforms', 'Company Websites'],
-          values: {
-            'E-commerce / Third Party Platforms': { cagr: 9.8, share: 6.5, opp: 6500 },
-            'Company Websites': { cagr: 7.2, share: 4.2, opp: 3000 },
-          }
-        },
-      },
-    }
+    return selectDimensions(store, {
+      region: yoyFilters.region,
+      productType: yoyFilters.productType,
+    })
+  }, [store, yoyFilters.region, yoyFilters.productType])
 
-    // Country-based multipliers
-    const countryMultipliers: Record<string, number> = {
-      'US': 1.0,
-      'Germany': 0.65,
-      'China': 0.95,
-      'Japan': 0.75
-    }
+  // YoY/CAGR series per entity, overlaid in one chart
+  const yoyGrowthSeries = useMemo(() => {
+    if (!store || !yoySelection) return []
 
-    // Default country data
-    const defaultCountryData: Record<string, { cagr: number; share: number; opp: number }> = {
-      'US': { cagr: 5.8, share: 8.5, opp: 12500 },
-      'Germany': { cagr: 4.5, share: 5.2, opp: 6800 },
-      'China': { cagr: 8.5, share: 9.2, opp: 15500 },
-      'Japan': { cagr: 5.2, share: 6.8, opp: 8200 },
-    }
+    const series = computeGrowthByEntity(store, yoySelection, yoyFilters.groupBy, yoyFilters.entities, {
+      startYear: yoyFilters.startYear,
+      endYear: yoyFilters.endYear,
+      measure: valueMeasure,
+    })
+    // Without a selection, compare the largest entities
+    return yoyFilters.entities.length > 0 ? series : series.slice(0, YOY_DEFAULT_ENTITY_COUNT)
+  }, [store, yoySelection, yoyFilters.groupBy, yoyFilters.entities, yoyFilters.startYear, yoyFilters.endYear, valueMeasure])
 
-    // Calculate country multiplier based on selected countries
-    let countryMultiplier = 1.0
-    if (attractivenessFilters.country.length > 0) {
-      countryMultiplier = attractivenessFilters.country.reduce((sum, c) => sum + (countryMultipliers[c] || 0.5), 0) / attractivenessFilters.country.length
-    }
+  // Filter data for the forecast chart
+  const forecastSelection = useMemo(() => {
+    if (!store) return null
 
-    // Determine what to group by based on segment and sub-segment selection
-    const selectedSegment = attractivenessFilters.segment
-    const selectedSubSegment = attractivenessFilters.subSegment
+    return selectDimensions(store, {
+      region: forecastFilters.region,
+      productType: forecastFilters.productType,
+    })
+  }, [store, forecastFilters.region, forecastFilters.productType])
+
+  // Every model fitted to the actual years, for the chart and the comparison table
+  const forecastResults = useMemo(() => {
+    if (!store || !forecastSelection) return []
+
+    const measure: MeasureExpression = `sum(${valueMeasure})`
+    const history = query(store, {
+      where: forecastSelection,
+      filters: { year: year => Number(year) <= forecastFilters.lastActualYear },
+      groupBy: ['year'],
+      measures: [measure],
+    }).map(row => ({ year: Number(row.year), value: toDisplayValue(row[measure]) }))
+
+    return (Object.keys(forecasters) as ForecastModel[])
+      .map(model => forecastSeries(history, {
+        model,
+        endYear: forecastFilters.endYear,
+        confidence: forecastFilters.confidence,
+      }))
+      .filter((result): result is ForecastResult => result !== null)
+  }, [store, forecastSelection, forecastFilters.lastActualYear, forecastFilters.endYear, forecastFilters.confidence, valueMeasure])
+
+  const selectedForecast = forecastResults.find(result => result.model === forecastFilters.model) || null
 
-    // If a sub-segment is selected, show its child items
-    if (selectedSegment && selectedSubSegment && subSegmentConfigs[selectedSegment]?.[selectedSubSegment]) {
-      const subConfig = subSegmentConfigs[selectedSegment][selectedSubSegment]
-      return subConfig.items.map(item => {
-        const baseValues = subConfig.values[item] || { cagr: 5.0, share: 5.0, opp: 5000 }
-        return {
-          region: item,
-          cagrIndex: baseValues.cagr * countryMultiplier * (0.9 + Math.random() * 0.2),
-          marketShareIndex: baseValues.share * countryMultiplier * (0.9 + Math.random() * 0.2),
-          incrementalOpportunity: baseValues.opp * countryMultiplier * (0.9 + Math.random() * 0.2),
-        }
-      })
-    }
+  useEffect(() => {
+    saveScenarios(scenarios)
+  }, [scenarios])
+
+  const scenarioSegmentOptions = useMemo(() => ({
+    region: incrementalFilterOptions.regions,
+    productCategory: uniqueOptions.productCategories,
+  }), [incrementalFilterOptions.regions, uniqueOptions.productCategories])
+
+  // Yearly totals of every scenario for a selection, in display units
+  const compareScenarios = (selection: Bitmap | null) => {
+    if (!store || !selection) return []
+    const cells = baselineCells(store, selection, forecastFilters)
+    const measure = filters.marketEvaluation === 'By Volume' ? 'volume' : 'value'
+    const labels = scenarioLabels(scenarios)
+    return scenarios.map((scenario, index) => ({
+      scenario,
+      label: labels[index],
+      totals: new Map(Array.from(scenarioTotals(applyScenario(cells, scenario, forecastFilters.lastActualYear), measure))
+        .map(([year, total]) => [year, toDisplayValue(total)])),
+    }))
+  }
 
-    // If no sub-segment selected but segment is selected, show segment items
-    if (selectedSegment && segmentConfigs[selectedSegment]) {
-      const config = segmentConfigs[selectedSegment]
-      return config.items.map(item => {
-        const baseValues = config.values[item] || { cagr: 5.0, share: 5.0, opp: 5000 }
-        return {
-          region: item,
-          cagrIndex: baseValues.cagr * countryMultiplier * (0.9 + Math.random() * 0.2),
-          marketShareIndex: baseValues.share * countryMultiplier * (0.9 + Math.random() * 0.2),
-          incrementalOpportunity: baseValues.opp * countryMultiplier * (0.9 + Math.random() * 0.2),
-        }
-      })
-    }
+  const standardScenarios = useMemo(
+    () => compareScenarios(segmentSelection),
+    [store, segmentSelection, scenarios, filters.marketEvaluation, forecastFilters.model, forecastFilters.lastActualYear, forecastFilters.endYear]
+  )
+  const incrementalScenarios = useMemo(
+    () => compareScenarios(incrementalSelection),
+    [store, incrementalSelection, scenarios, filters.marketEvaluation, forecastFilters.model, forecastFilters.lastActualYear, forecastFilters.endYear]
+  )
+  const yoyScenarios = useMemo(
+    () => compareScenarios(yoySelection),
+    [store, yoySelection, scenarios, filters.marketEvaluation, forecastFilters.model, forecastFilters.lastActualYear, forecastFilters.endYear]
+  )
 
-    // Default: Show by country
-    const countries = attractivenessFilters.country.length > 0
-      ? attractivenessFilters.country
-      : ['US', 'Germany', 'China', 'Japan']
+  // Filter data for the sensitivity analysis
+  const sensitivitySelection = useMemo(() => {
+    if (!store) return null
 
-    return countries.map(country => {
-      const baseValues = defaultCountryData[country] || { cagr: 5.0, share: 5.0, opp: 5000 }
-      return {
-        region: country,
-        cagrIndex: baseValues.cagr * (0.9 + Math.random() * 0.2),
-        marketShareIndex: baseValues.share * (0.9 + Math.random() * 0.2),
-        incrementalOpportunity: baseValues.opp * (0.9 + Math.random() * 0.2),
-      }
+    return selectDimensions(store, {
+      region: sensitivityFilters.region,
+      productType: sensitivityFilters.productType,
     })
-  }, [filteredAttractivenessData, attractivenessFilters])
+  }, [store, sensitivityFilters.region, sensitivityFilters.productType])
 
-  // Get unique options for YoY filters
-  const yoyFilterOptions = useMemo(() => {
-    if (!data || data.length === 0) {
-      return {
-        regions: [],
-        productTypes: [],
-        countries: [],
-        countryOptions: [], // Options with region names
-      }
-    }
-    
-    const regionSet = new Set<string>()
-    const productTypeSet = new Set<string>()
-    const countryRegionMap = new Map<string, string>() // country -> region mapping
-    
-    data.forEach(d => {
-      if (d.region) regionSet.add(d.region)
-      if (d.productType) productTypeSet.add(d.productType)
-      if (d.country && d.region) {
-        countryRegionMap.set(d.country, d.region)
-      }
+  const sensitivityModel = useMemo(() => {
+    if (!store || !sensitivitySelection) return null
+    return buildSensitivityModel(store, sensitivitySelection, sensitivityFilters.year)
+  }, [store, sensitivitySelection, sensitivityFilters.year])
+
+  // Simulate in a worker whenever the tab is open and its inputs change
+  useEffect(() => {
+    if (activeTab !== 'sensitivity') return
+    if (!sensitivityModel) {
+      setSensitivityResult(null)
+      return
+    }
+
+    let cancelled = false
+    setSensitivityRunning(true)
+    setSensitivityError(null)
+    runSensitivityAnalysis(sensitivityModel, {
+      iterations: sensitivityFilters.iterations,
+      uncertainty: sensitivityFilters.uncertainty,
     })
-    
-    // Filter countries based on selected regions
-    let availableCountries = Array.from(countryRegionMap.keys())
-    if (yoyFilters.region.length > 0) {
-      availableCountries = availableCountries.filter(country => {
-        const countryRegion = countryRegionMap.get(country)
-        return countryRegion && yoyFilters.region.includes(countryRegion)
+      .then(result => {
+        if (!cancelled) setSensitivityResult(result)
       })
-    }
-    
-    // Create country options with region names
-    const countryOptions = availableCountries
-      .sort()
-      .map(country => {
-        const region = countryRegionMap.get(country) || ''
-        return {
-          value: country,
-          label: `${country} (${region})`
-        }
+      .catch(error => {
+        if (!cancelled) setSensitivityError(error instanceof Error ? error.message : String(error))
       })
-    
-    return {
-      regions: Array.from(regionSet).sort(),
-      productTypes: Array.from(productTypeSet).sort(),
-      countries: availableCountries.sort(),
-      countryOptions: countryOptions,
+      .finally(() => {
+        if (!cancelled) setSensitivityRunning(false)
+      })
+    return () => {
+      cancelled = true
     }
-  }, [data, yoyFilters.region])
-
-  // Filter data for YoY/CAGR chart
-  const filteredYoyData = useMemo(() => {
-    let filtered = [...data]
+  }, [activeTab, sensitivityModel, sensitivityFilters.iterations, sensitivityFilters.uncertainty])
 
-    if (yoyFilters.region.length > 0) {
-      filtered = filtered.filter(d => yoyFilters.region.includes(d.region))
-    }
-    if (yoyFilters.country.length > 0) {
-      filtered = filtered.filter(d => yoyFilters.country.includes(d.country))
+  // Brand and company options for the competitive landscape filters
+  const competitiveFilterOptions = useMemo(() => {
+    if (!store || store.rowCount === 0) {
+      return { brands: [], companies: [] }
     }
 
-    // Filter by product type - handle hierarchical selection
-    if (yoyFilters.productType.length > 0) {
-      const selectedTypes = yoyFilters.productType
-
-      // Product type hierarchy
-      const productTypeHierarchy: Record<string, string[]> = {
-        'Foil Shavers': ['Single-foil', 'Dual-foil', 'Multi-foil (3+)'],
-        'Rotary Shavers': ['Dual-head', 'Triple-head', 'Multi-head (4+)'],
-        'Trimmers & Groomers': ['Beard trimmers', 'Body groomers', 'Others'],
-        'Hybrid Shavers': ['Blade-electric combo', 'Wet & dry hybrid tools'],
-        'Lady Shavers': ['Face shavers', 'Body shavers', 'Bikini trimmers'],
-        'Hair Clippers': ['Corded clippers', 'Cordless clippers', 'Others']
-      }
-
-      // Build list of all product types to include
-      const typesToInclude: string[] = []
-
-      // Check each parent category
-      Object.entries(productTypeHierarchy).forEach(([parent, children]) => {
-        const hasParent = selectedTypes.includes(parent)
-        const hasSubfilter = selectedTypes.some(t => t.startsWith(`${parent} - `))
-
-        if (hasParent || hasSubfilter) {
-          typesToInclude.push(parent)
-          children.forEach(child => typesToInclude.push(child))
-        }
-      })
-
-      // Filter based on product type
-      if (typesToInclude.length > 0) {
-        filtered = filtered.filter(d => {
-          const productType = d.productType || ''
-          return typesToInclude.some(t => productType.toLowerCase().includes(t.toLowerCase()))
-        })
-      }
+    return {
+      brands: (distinctValues(store, 'brand') as string[]).filter(Boolean).sort(),
+      companies: (distinctValues(store, 'company') as string[]).filter(Boolean).sort(),
     }
+  }, [store])
 
-    return filtered
-  }, [data, yoyFilters])
-
-  // YoY/CAGR Chart Data - Generate separate data for each country (with demo data)
-  const yoyCagrDataByEntity = useMemo(() => {
-    // If no countries are selected, return empty array
-    if (yoyFilters.country.length === 0) {
-      return []
-    }
+  // Filter data for the competitive landscape
+  const competitiveSelection = useMemo(() => {
+    if (!store) return null
 
-    // Country-specific base growth rates
-    const countryBaseRates: Record<string, { baseYoy: number, baseCagr: number }> = {
-      'US': { baseYoy: 5.2, baseCagr: 4.8 },
-      'Germany': { baseYoy: 4.5, baseCagr: 4.2 },
-      'China': { baseYoy: 8.5, baseCagr: 7.8 },
-      'Japan': { baseYoy: 3.8, baseCagr: 3.5 },
-    }
+    return selectDimensions(store, {
+      region: competitiveFilters.region,
+      productType: competitiveFilters.productType,
+      brand: competitiveFilters.brand,
+      company: competitiveFilters.company,
+    })
+  }, [store, competitiveFilters.region, competitiveFilters.brand, competitiveFilters.company, competitiveFilters.productType])
 
-    // Product type multipliers for growth rates
-    const productTypeMultipliers: Record<string, number> = {
-      'Foil Shavers': 1.0,
-      'Rotary Shavers': 1.1,
-      'Trimmers & Groomers': 1.25,
-      'Hybrid Shavers': 1.4,
-      'Lady Shavers': 1.15,
-      'Hair Clippers': 0.9,
-      // Sub-categories
-      'Single-foil': 0.85,
-      'Dual-foil': 1.0,
-      'Multi-foil (3+)': 1.15,
-      'Dual-head': 0.95,
-      'Triple-head': 1.1,
-      'Multi-head (4+)': 1.2,
-      'Beard trimmers': 1.2,
-      'Body groomers': 1.3,
-      'Blade-electric combo': 1.35,
-      'Wet & dry hybrid tools': 1.45,
-      'Face shavers': 1.1,
-      'Body shavers': 1.15,
-      'Bikini trimmers': 1.2,
-      'Corded clippers': 0.75,
-      'Cordless clippers': 1.0,
-      'Others': 0.9,
+  // Yearly shares for both competitor levels; the HHI trend compares them
+  const shareSnapshots = useMemo(() => {
+    if (!store || !competitiveSelection) return null
+    return {
+      brand: computeShareByYear(store, competitiveSelection, 'brand'),
+      company: computeShareByYear(store, competitiveSelection, 'company'),
     }
+  }, [store, competitiveSelection])
 
-    // Get product type multiplier based on selected product types
-    const getProductTypeMultiplier = (): number => {
-      if (yoyFilters.productType.length === 0) return 1.0
+  const competitiveLandscape = useMemo(() => {
+    if (!store || !competitiveSelection || !shareSnapshots) return null
 
-      // Process selected product types to get child items only when parent has children selected
-      const processedTypes: string[] = []
-      const parentsWithChildren = new Set<string>()
+    const snapshots = shareSnapshots[competitiveFilters.competitor]
+    const focus = snapshots.find(snapshot => snapshot.year === competitiveFilters.year)
+    const start = snapshots.find(snapshot => snapshot.year === competitiveFilters.startYear)
+    if (!focus || !start) return null
 
-      yoyFilters.productType.forEach(pt => {
-        if (pt.includes(' - ')) {
-          const parent = pt.split(' - ')[0]
-          parentsWithChildren.add(parent)
-        }
-      })
-
-      yoyFilters.productType.forEach(pt => {
-        if (pt.includes(' - ')) {
-          processedTypes.push(pt.split(' - ')[1])
-        } else if (!parentsWithChildren.has(pt)) {
-          processedTypes.push(pt)
-        }
+    const topCompetitors = focus.competitors.slice(0, competitiveFilters.topN).map(item => item.competitor)
+    const sharesOf = (competitors: Array<{ competitor: string; share: number }>) => {
+      const entry: Record<string, number> = {}
+      topCompetitors.forEach(competitor => {
+        entry[competitor] = competitors.find(item => item.competitor === competitor)?.share ?? 0
       })
-
-      if (processedTypes.length === 0) return 1.0
-
-      // Average the multipliers for all selected product types
-      const totalMultiplier = processedTypes.reduce((sum, type) => {
-        return sum + (productTypeMultipliers[type] || 1.0)
-      }, 0)
-
-      return totalMultiplier / processedTypes.length
+      return entry
     }
 
-    const productTypeMultiplier = getProductTypeMultiplier()
-
-    // Generate label suffix based on product type selection
-    const getProductTypeLabel = (): string => {
-      if (yoyFilters.productType.length === 0) return ''
-
-      // Process to get display names
-      const processedTypes: string[] = []
-      const parentsWithChildren = new Set<string>()
+    const regionShares = computeShareByRegion(store, competitiveSelection, competitiveFilters.competitor, competitiveFilters.year)
+    const regionChart = regionShares.map(({ region, competitors }) => {
+      const entry: Record<string, string | number> = { region, ...sharesOf(competitors) }
+      const others = 100 - topCompetitors.reduce((sum, competitor) => sum + (entry[competitor] as number), 0)
+      // Remaining share, unless the top competitors are the whole market
+      if (others > 0.05) entry.Others = others
+      return entry
+    })
 
-      yoyFilters.productType.forEach(pt => {
-        if (pt.includes(' - ')) {
-          const parent = pt.split(' - ')[0]
-          parentsWithChildren.add(parent)
-        }
+    return {
+      focus,
+      start,
+      topCompetitors,
+      shift: computeShareShift(start, focus),
+      regionShares,
+      regionChart,
+      regionKeys: regionChart.some(entry => 'Others' in entry) ? [...topCompetitors, 'Others'] : topCompetitors,
+      shareTrend: snapshots.map(snapshot => ({ year: snapshot.year, ...sharesOf(snapshot.competitors) })),
+      shiftChart: [start, focus].map(snapshot => ({ year: snapshot.year, ...sharesOf(snapshot.competitors) })),
+      // Combined share of the top competitors (concentration ratio)
+      topShare: focus.competitors.slice(0, competitiveFilters.topN).reduce((sum, item) => sum + item.share, 0),
+    }
+  }, [store, competitiveSelection, shareSnapshots, competitiveFilters.competitor, competitiveFilters.year, competitiveFilters.startYear, competitiveFilters.topN])
+
+  const hhiTrend = useMemo(() => {
+    if (!shareSnapshots) return []
+    return shareSnapshots.brand.map(snapshot => ({
+      year: snapshot.year,
+      'Brand HHI': snapshot.hhi,
+      'Company HHI': shareSnapshots.company.find(item => item.year === snapshot.year)?.hhi ?? 0,
+    }))
+  }, [shareSnapshots])
+
+  // Filter data for the pricing tab
+  const pricingSelection = useMemo(() => {
+    if (!store) return null
+
+    return selectDimensions(store, {
+      region: pricingFilters.region,
+      productType: pricingFilters.productType,
+    })
+  }, [store, pricingFilters.region, pricingFilters.productType])
+
+  const aspSeries = useMemo(() => {
+    if (!store || !pricingSelection) return []
+    return computeAspBySegment(store, pricingSelection, pricingFilters.dimension).slice(0, ASP_SEGMENT_COUNT)
+  }, [store, pricingSelection, pricingFilters.dimension])
+
+  const aspChart = useMemo(() => {
+    const years = Array.from(new Set(aspSeries.flatMap(series => series.points.map(point => point.year)))).sort((a, b) => a - b)
+    return years.map(year => {
+      const entry: Record<string, number> = { year }
+      aspSeries.forEach(series => {
+        const point = series.points.find(item => item.year === year)
+        if (point) entry[series.segment] = point.asp
       })
+      return entry
+    })
+  }, [aspSeries])
 
-      yoyFilters.productType.forEach(pt => {
-        if (pt.includes(' - ')) {
-          processedTypes.push(pt.split(' - ')[1])
-        } else if (!parentsWithChildren.has(pt)) {
-          processedTypes.push(pt)
-        }
-      })
+  const pricingAnalysis = useMemo(() => {
+    if (!store || !pricingSelection) return null
 
-      if (processedTypes.length === 0) return ''
-      if (processedTypes.length === 1) return ` - ${processedTypes[0]}`
-      if (processedTypes.length <= 3) return ` - ${processedTypes.join(', ')}`
-      return ` - ${processedTypes.length} Product Types`
+    const { bands, histogram } = computePriceBands(store, pricingSelection, pricingFilters.year)
+    const totals = query(store, {
+      where: pricingSelection,
+      filters: { year: [pricingFilters.year - 1, pricingFilters.year] },
+      groupBy: ['year'],
+      measures: ['sum(revenue)', 'sum(volumeUnits)'],
+    })
+    const aspIn = (year: number) => {
+      const row = totals.find(item => Number(item.year) === year)
+      return row && row['sum(volumeUnits)'] > 0 ? row['sum(revenue)'] / row['sum(volumeUnits)'] : null
     }
 
-    const productTypeLabel = getProductTypeLabel()
+    const points = computePriceVolumePoints(store, pricingSelection, pricingFilters.year)
+    const categories = Array.from(new Set(points.map(point => point.category))).sort()
+    const categoryColors = getChartColors(categories.length)
+    const colorOf = (category: string) => categoryColors[categories.indexOf(category)]
 
-    // Generate data for each selected country
-    return yoyFilters.country.map(country => {
-      const baseRates = countryBaseRates[country] || { baseYoy: 5.0, baseCagr: 4.5 }
-      const years = ['2025', '2026', '2027', '2028', '2029', '2030', '2031', '2032']
-
-      const chartData = years.map((year, index) => {
-        // Add some variation per year
-        const yearVariation = 1 + (Math.sin(index * 0.7) * 0.15)
-        const randomVariation = 0.95 + Math.random() * 0.1
+    return {
+      bands,
+      histogram: histogram.map(bin => ({
+        range: `$${Math.round(bin.from)}–${Math.round(bin.to)}`,
+        ...bin.units,
+      })),
+      asp: aspIn(pricingFilters.year),
+      previousAsp: aspIn(pricingFilters.year - 1),
+      points,
+      pointColors: points.map(point => colorOf(point.category)),
+      categoryLegend: categories.map(category => ({ category, color: colorOf(category) })),
+      elasticities: estimateElasticities(store, pricingSelection, pricingFilters.year),
+    }
+  }, [store, pricingSelection, pricingFilters.year])
+
+  // State and region metrics for the map, under every filter but geography
+  const geographyMetrics = useMemo(() => {
+    if (!store || !marketSelection) return null
+    return computeGeographyMetrics(store, marketSelection, filters.year)
+  }, [store, marketSelection, filters.year])
+
+  const mapStateValues = useMemo(() => {
+    const values = new Map<string, number | null>()
+    if (!geographyMetrics) return values
+    geographyMetrics.stateRegions.forEach((region, state) => {
+      const stats = mapOptions.level === 'region'
+        ? geographyMetrics.regions.get(region)
+        : geographyMetrics.states.get(state)
+      values.set(state, stats ? stats[mapOptions.metric] : null)
+    })
+    return values
+  }, [geographyMetrics, mapOptions.level, mapOptions.metric])
 
-        const yoy = index === 0 ? 0 : baseRates.baseYoy * productTypeMultiplier * yearVariation * randomVariation
-        const cagr = index === 0 ? 0 : baseRates.baseCagr * productTypeMultiplier * (1 + index * 0.02) * randomVariation
+  // Clicking a state adds it to, or removes it from, the geography filter
+  const toggleCountryFilter = (state: string) => {
+    setFilters({ ...filters, country: toggleGeographyState(filters.country, state, uniqueOptions.geography) })
+  }
 
-        return {
-          year,
-          yoy: Math.round(yoy * 100) / 100,
-          cagr: Math.round(cagr * 100) / 100,
-        }
+  const standardScenarioChart = useMemo(() => {
+    const years = (filters.year.length > 0 ? [...filters.year] : uniqueOptions.years).sort((a, b) => a - b)
+    return years.map(year => {
+      const row: Record<string, number | string> = { year: String(year) }
+      standardScenarios.forEach(({ label, totals }) => {
+        row[label] = totals.get(year) ?? 0
+        const previous = totals.get(year - 1)
+        if (previous) row[`${label}_yoy`] = ((row[label] as number) / previous - 1) * 100
       })
-
-      return {
-        label: `${country}${productTypeLabel}`,
-        data: chartData
-      }
+      return row
     })
-  }, [yoyFilters.country, yoyFilters.productType])
+  }, [standardScenarios, filters.year, uniqueOptions.years])
 
   if (loading) {
     return (
@@ -1920,7 +1033,7 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
         animate={{ opacity: 1, y: 0 }}
         className="mb-8"
       >
-        <InfoTooltip content="• Provides insights into market size and volume analysis\n• Analyze data by market segments: Product Category, Blade Material, Handle Length, Application, End User\n• Use filters to explore market trends\n• Charts show market size (US$ Million) or volume (Units) by selected segments">
+        <InfoTooltip content={`• Provides insights into ${marketDefinition.scope} ${marketDefinition.name} market size and volume\n• Analyze data by market segments: ${Object.values(segments).map(segment => segment.label).join(', ')}\n• Use filters to explore market trends\n• Charts show ${marketDefinition.measures.value.label.toLowerCase()} (${marketDefinition.measures.value.unit}) or ${marketDefinition.measures.volume.label.toLowerCase()} (${marketDefinition.measures.volume.unit}) by selected segments`}>
           <h1 className="text-4xl font-bold text-text-primary-light dark:text-text-primary-dark mb-3 cursor-help">
             Market Analysis
           </h1>
@@ -1930,7 +1043,7 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
         </p>
       </motion.div>
 
-      {!data || data.length === 0 ? (
+      {!store || store.rowCount === 0 ? (
         <div className={`p-8 rounded-2xl shadow-xl ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-300'}`}>
           <div className="text-center py-12">
             <p className="text-lg text-text-secondary-light dark:text-text-secondary-dark mb-4">
@@ -1998,6 +1111,58 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                   <div className={`absolute bottom-0 left-0 right-0 h-0.5 ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
                 )}
               </button>
+              <button
+                onClick={() => setActiveTab('forecast')}
+                className={`px-6 py-3 font-semibold text-base transition-all relative ${
+                  activeTab === 'forecast'
+                    ? 'text-electric-blue dark:text-cyan-accent'
+                    : 'text-text-secondary-light dark:text-text-secondary-dark hover:text-electric-blue dark:hover:text-cyan-accent'
+                }`}
+              >
+                Forecast
+                {activeTab === 'forecast' && (
+                  <div className={`absolute bottom-0 left-0 right-0 h-0.5 ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveTab('sensitivity')}
+                className={`px-6 py-3 font-semibold text-base transition-all relative ${
+                  activeTab === 'sensitivity'
+                    ? 'text-electric-blue dark:text-cyan-accent'
+                    : 'text-text-secondary-light dark:text-text-secondary-dark hover:text-electric-blue dark:hover:text-cyan-accent'
+                }`}
+              >
+                Sensitivity
+                {activeTab === 'sensitivity' && (
+                  <div className={`absolute bottom-0 left-0 right-0 h-0.5 ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveTab('competitive')}
+                className={`px-6 py-3 font-semibold text-base transition-all relative ${
+                  activeTab === 'competitive'
+                    ? 'text-electric-blue dark:text-cyan-accent'
+                    : 'text-text-secondary-light dark:text-text-secondary-dark hover:text-electric-blue dark:hover:text-cyan-accent'
+                }`}
+              >
+                Competitive Landscape
+                {activeTab === 'competitive' && (
+                  <div className={`absolute bottom-0 left-0 right-0 h-0.5 ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                )}
+              </button>
+              <button
+                onClick={() => setActiveTab('pricing')}
+                className={`px-6 py-3 font-semibold text-base transition-all relative ${
+                  activeTab === 'pricing'
+                    ? 'text-electric-blue dark:text-cyan-accent'
+                    : 'text-text-secondary-light dark:text-text-secondary-dark hover:text-electric-blue dark:hover:text-cyan-accent'
+                }`}
+              >
+                Pricing
+                {activeTab === 'pricing' && (
+                  <div className={`absolute bottom-0 left-0 right-0 h-0.5 ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                )}
+              </button>
             </div>
           </div>
 
@@ -2025,99 +1190,47 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                 onChange={(value) => setFilters({ ...filters, year: (value as string[]).map(v => Number(v)) })}
                 options={uniqueOptions.years ? uniqueOptions.years.map(y => String(y)) : []}
               />
-              <FilterDropdown
-                label="By Country"
-                value={filters.country}
-                onChange={(value) => setFilters({ ...filters, country: value as string[] })}
-                options={['US', 'Germany', 'China', 'Japan']}
+              <HierarchicalFilterDropdown
+                label="By Geography"
+                value={toGeographyOptions(filters.country, uniqueOptions.geography)}
+                onChange={(value) => setFilters({ ...filters, country: fromGeographyOptions(value, uniqueOptions.geography) })}
+                hierarchy={uniqueOptions.geography}
               />
               <HierarchicalFilterDropdown
-                label="By Product Type"
+                label={`By ${dimensions.productCategory.label}`}
                 value={filters.productType}
                 onChange={(value) => setFilters({ ...filters, productType: value })}
-                hierarchy={[
-                  {
-                    mainCategory: 'Foil Shavers',
-                    subCategories: ['Single-foil', 'Dual-foil', 'Multi-foil (3+)']
-                  },
-                  {
-                    mainCategory: 'Rotary Shavers',
-                    subCategories: ['Dual-head', 'Triple-head', 'Multi-head (4+)']
-                  },
-                  {
-                    mainCategory: 'Trimmers & Groomers',
-                    subCategories: ['Beard trimmers', 'Body groomers', 'Others']
-                  },
-                  {
-                    mainCategory: 'Hybrid Shavers',
-                    subCategories: ['Blade-electric combo', 'Wet & dry hybrid tools']
-                  },
-                  {
-                    mainCategory: 'Lady Shavers',
-                    subCategories: ['Face shavers', 'Body shavers', 'Bikini trimmers']
-                  },
-                  {
-                    mainCategory: 'Hair Clippers',
-                    subCategories: ['Corded clippers', 'Cordless clippers', 'Others']
-                  }
-                ]}
+                hierarchy={uniqueOptions.productHierarchy}
               />
               <HierarchicalFilterDropdown
-                label="By Technology"
+                label={`By ${dimensions.application.label}`}
                 value={filters.technology}
                 onChange={(value) => setFilters({ ...filters, technology: value })}
-                hierarchy={[
-                  {
-                    mainCategory: 'Corded',
-                    subCategories: []
-                  },
-                  {
-                    mainCategory: 'Cordless / Rechargeable',
-                    subCategories: ['Li-ion battery', 'NiMH battery']
-                  }
-                ]}
+                hierarchy={segments.application.values.map(value => ({ mainCategory: value, subCategories: [] }))}
               />
               <FilterDropdown
-                label="By Blade Type"
+                label={`By ${dimensions.pipeMaterial.label}`}
                 value={filters.bladeType}
                 onChange={(value) => setFilters({ ...filters, bladeType: value as string[] })}
-                options={['Stainless Steel Blades', 'Titanium-coated Blades', 'Carbon Steel', 'Ceramic Blades', 'Self-sharpening Blades', 'Replaceable vs Non-replaceable Heads']}
+                options={segments.bladeMaterial.values}
               />
               <FilterDropdown
-                label="By Price Range"
+                label={`By ${dimensions.priceBand.label}`}
                 value={filters.priceRange}
                 onChange={(value) => setFilters({ ...filters, priceRange: value as string[] })}
-                options={['Economy', 'Mid-Range', 'Premium']}
+                options={segments.handleLength.values}
               />
               <HierarchicalFilterDropdown
-                label="By End User"
+                label={`By ${dimensions.endUser.label}`}
                 value={filters.endUser}
                 onChange={(value) => setFilters({ ...filters, endUser: value })}
-                hierarchy={[
-                  {
-                    mainCategory: 'Home Users',
-                    subCategories: ['Men', 'Women', 'Unisex']
-                  },
-                  {
-                    mainCategory: 'Professional Users',
-                    subCategories: ['Barbers', 'Salons', 'Grooming service providers', 'Others']
-                  }
-                ]}
+                hierarchy={uniqueOptions.endUserHierarchy}
               />
               <HierarchicalFilterDropdown
-                label="By Distribution Channel"
+                label={`By ${dimensions.salesChannel.label}`}
                 value={filters.distributionChannel}
                 onChange={(value) => setFilters({ ...filters, distributionChannel: value })}
-                hierarchy={[
-                  {
-                    mainCategory: 'Offline',
-                    subCategories: ['Supermarkets & Hypermarkets', 'Specialty Stores', 'Brand Retail Stores', 'Electronics Stores', 'Pharmacy/Drug Stores', 'Professional Supply Stores (Barber/salon suppliers)']
-                  },
-                  {
-                    mainCategory: 'Online',
-                    subCategories: ['E-commerce / Third Party Platforms', 'Company / Brand Websites']
-                  }
-                ]}
+                hierarchy={uniqueOptions.channelHierarchy}
               />
             </div>
 
@@ -2136,15 +1249,15 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                       </span>
                     </div>
                     <div>
-                      <span className="font-medium text-text-secondary-light dark:text-text-secondary-dark">Product Type:</span>
+                      <span className="font-medium text-text-secondary-light dark:text-text-secondary-dark">{dimensions.productCategory.label}:</span>
                       <span className="ml-2 font-semibold text-electric-blue dark:text-cyan-accent">
                         {filters.productType.length > 0 ? filters.productType.join(', ') : 'All'}
                       </span>
                     </div>
                     <div>
-                      <span className="font-medium text-text-secondary-light dark:text-text-secondary-dark">Country:</span>
+                      <span className="font-medium text-text-secondary-light dark:text-text-secondary-dark">Geography:</span>
                       <span className="ml-2 font-semibold text-electric-blue dark:text-cyan-accent">
-                        {filters.country.length > 0 ? filters.country.join(', ') : 'All Countries'}
+                        {filters.country.length > 0 ? filters.country.join(', ') : 'All Regions'}
                       </span>
                     </div>
                     <div>
@@ -2173,36 +1286,114 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                     </h2>
                   </div>
                 </div>
-                <div className="grid grid-cols-1 md:grid-cols-1 gap-6">
-                  <div className={`p-7 rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
-                    <StatBox
-                      title={kpis.totalValue}
-                      subtitle={`Total ${filters.marketEvaluation === 'By Volume' ? 'Volume' : 'Market Size'}`}
-                    />
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  {kpiCards.map(card => (
+                    <div key={card.subtitle} className={`p-7 rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                      <StatBox
+                        title={card.title}
+                        subtitle={card.subtitle}
+                        increase={card.increase}
+                        trend={card.trend}
+                      />
+                    </div>
+                  ))}
+                  {bottomUpDemand.total.parsedAccounts > 0 && (
+                    <div className={`p-7 rounded-2xl shadow-lg hover:shadow-xl transition-all duration-300 ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                      <StatBox
+                        title={`${formatNumber(bottomUpDemand.total.midpoint)} Units / Year`}
+                        subtitle={`Bottom-up Demand (${bottomUpDemand.total.parsedAccounts} Surveyed Accounts)`}
+                        increase={`Range ${formatNumber(bottomUpDemand.total.min)} – ${formatNumber(bottomUpDemand.total.max)}`}
+                      />
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Bottom-up Demand Estimate */}
+              {bottomUpDemand.total.parsedAccounts > 0 && (
+                <div className="mb-20">
+                  <div className="mb-8">
+                    <div className="flex items-center gap-3 mb-3">
+                      <div className={`w-1 h-10 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                      <InfoTooltip content="• Sums the estimated annual volume requirement of every surveyed account\n• Ranges such as 6,000-10,000 contribute their midpoint; min and max columns show the full range\n• Compare against the top-down market size above">
+                        <h2 className="text-3xl font-bold text-text-primary-light dark:text-text-primary-dark cursor-help">
+                          Bottom-up Demand Estimate
+                        </h2>
+                      </InfoTooltip>
+                    </div>
+                    <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4 mb-2">
+                      Total addressable annual volume of surveyed accounts by region and industry sector
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {[
+                      { title: 'By Region', rows: bottomUpDemand.byRegion },
+                      { title: 'By Industry / Sector', rows: bottomUpDemand.byIndustrySector },
+                    ].map(table => (
+                      <div key={table.title} className={`p-5 rounded-xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                        <h3 className="text-base font-bold text-electric-blue dark:text-cyan-accent mb-3 pb-3 border-b border-gray-200 dark:border-navy-light">
+                          {table.title}
+                        </h3>
+                        <div className="max-h-80 overflow-y-auto">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-text-secondary-light dark:text-text-secondary-dark">
+                                <th className="py-2 pr-2 font-semibold">Group</th>
+                                <th className="py-2 px-2 font-semibold text-right">Accounts</th>
+                                <th className="py-2 px-2 font-semibold text-right">Min</th>
+                                <th className="py-2 px-2 font-semibold text-right">Midpoint</th>
+                                <th className="py-2 pl-2 font-semibold text-right">Max</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {table.rows.map(row => (
+                                <tr key={row.key} className="border-t border-gray-100 dark:border-navy-light text-text-primary-light dark:text-text-primary-dark">
+                                  <td className="py-2 pr-2 max-w-[12rem] truncate" title={row.key}>{row.key}</td>
+                                  <td className="py-2 px-2 text-right">{row.parsedAccounts}/{row.accounts}</td>
+                                  <td className="py-2 px-2 text-right">{formatNumber(row.min)}</td>
+                                  <td className="py-2 px-2 text-right font-semibold">{formatNumber(row.midpoint)}</td>
+                                  <td className="py-2 pl-2 text-right">{formatNumber(row.max)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 </div>
+              )}
+
+          {!analysisData && (
+            <div className={`mb-20 p-8 rounded-2xl shadow-xl ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-300'}`}>
+              <div className="text-center py-12">
+                <p className="text-lg text-text-secondary-light dark:text-text-secondary-dark">
+                  No data for the current filters
+                </p>
               </div>
+            </div>
+          )}
 
               {/* Graph 1: Market Size by Product Type */}
-          {analysisData.productTypeChartData.length > 0 && analysisData.productTypes && analysisData.productTypes.length > 0 && (
+          {analysisData && analysisData.productTypeChartData.length > 0 && analysisData.productTypes && analysisData.productTypes.length > 0 && (
             <div className="mb-20">
               <div className="mb-8">
                 <div className="flex items-center gap-3 mb-3">
                   <div className={`w-1 h-10 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
-                  <InfoTooltip content={`• Shows ${filters.marketEvaluation === 'By Volume' ? 'market volume' : 'market size'} by product type grouped by year\n• X-axis: Year\n• Y-axis: ${filters.marketEvaluation === 'By Volume' ? 'Market Volume' : 'Market Size'}\n• Compare product type performance across years`}>
+                  <InfoTooltip content={`• Shows ${activeMeasure.label.toLowerCase()} by ${dimensions.productCategory.label.toLowerCase()} grouped by year\n• X-axis: Year\n• Y-axis: ${activeMeasure.label}\n• Compare ${dimensions.productCategory.label.toLowerCase()} performance across years`}>
                     <h2 className="text-3xl font-bold text-text-primary-light dark:text-text-primary-dark cursor-help">
-                      {filters.marketEvaluation === 'By Volume' ? 'Market Volume' : 'Market Size'} by Product Type
+                      {activeMeasure.label} by {dimensions.productCategory.label}
                     </h2>
                   </InfoTooltip>
                 </div>
                 <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4 mb-2">
-                  Product type performance comparison by year
+                  {dimensions.productCategory.label} performance comparison by year
                 </p>
               </div>
               <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[550px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
                 <div className="mb-4 pb-4 border-b border-gray-200 dark:border-navy-light">
                   <h3 className="text-lg font-bold text-electric-blue dark:text-cyan-accent mb-1">
-                    {filters.marketEvaluation === 'By Volume' ? 'Market Volume' : 'Market Size'} by Product Type by Year
+                    {activeMeasure.label} by {dimensions.productCategory.label} by Year
                   </h3>
                   <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
                     {getDataLabel()}
@@ -2221,7 +1412,7 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
           )}
 
           {/* Share Analysis Section - Year-wise Stacked Bar Charts */}
-          {((analysisData.bladeMaterialStackedData.chartData.length > 0 && analysisData.bladeMaterialStackedData.segments.length > 0) ||
+          {analysisData && ((analysisData.bladeMaterialStackedData.chartData.length > 0 && analysisData.bladeMaterialStackedData.segments.length > 0) ||
             (analysisData.handleLengthStackedData.chartData.length > 0 && analysisData.handleLengthStackedData.segments.length > 0) ||
             (analysisData.technologyStackedData.chartData.length > 0 && analysisData.technologyStackedData.segments.length > 0) ||
             (analysisData.endUserStackedData.chartData.length > 0 && analysisData.endUserStackedData.segments.length > 0) ||
@@ -2232,9 +1423,9 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
               <div className="mb-8">
                 <div className="flex items-center gap-3 mb-3">
                   <div className={`w-1 h-10 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
-                  <InfoTooltip content={`• Shows ${filters.marketEvaluation === 'By Volume' ? 'market volume' : 'market size'} share across different segments by year\n• Each stacked bar represents a year with segments showing the proportion\n• X-axis: Year, Y-axis: ${filters.marketEvaluation === 'By Volume' ? 'Market Volume' : 'Market Size'}\n• Hover over bars to see detailed values and percentages`}>
+                  <InfoTooltip content={`• Shows ${activeMeasure.label.toLowerCase()} share across different segments by year\n• Each stacked bar represents a year with segments showing the proportion\n• X-axis: Year, Y-axis: ${activeMeasure.label}\n• Hover over bars to see detailed values and percentages`}>
                     <h2 className="text-3xl font-bold text-text-primary-light dark:text-text-primary-dark cursor-help">
-                      {filters.marketEvaluation === 'By Volume' ? 'Market Volume' : 'Market Size'} Analysis by Segments
+                      {activeMeasure.label} Analysis by Segments
                     </h2>
                   </InfoTooltip>
                 </div>
@@ -2244,13 +1435,13 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {/* Blade Type Stacked Bar Chart */}
+                {/* Material Stacked Bar Chart */}
                 {analysisData.bladeMaterialStackedData.chartData.length > 0 && analysisData.bladeMaterialStackedData.segments.length > 0 && (
                   <div className={`p-5 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[480px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
                     <div className="mb-3 pb-3 border-b border-gray-200 dark:border-navy-light">
-                      <InfoTooltip content={`• Shows ${filters.marketEvaluation === 'By Volume' ? 'market volume' : 'market size'} share by blade type by year\n• X-axis: Year, Y-axis: ${filters.marketEvaluation === 'By Volume' ? 'Market Volume' : 'Market Size'}\n• Each stacked bar shows the proportion for that year\n• Hover over bars to see detailed values and percentages`}>
+                      <InfoTooltip content={`• Shows ${activeMeasure.label.toLowerCase()} share by ${dimensions.pipeMaterial.label.toLowerCase()} by year\n• X-axis: Year, Y-axis: ${activeMeasure.label}\n• Each stacked bar shows the proportion for that year\n• Hover over bars to see detailed values and percentages`}>
                         <h3 className="text-base font-bold text-electric-blue dark:text-cyan-accent mb-1 cursor-help">
-                          Blade Type Share
+                          {dimensions.pipeMaterial.label} Share
                         </h3>
                       </InfoTooltip>
                       <p className="text-xs text-text-secondary-light dark:text-text-secondary-dark">
@@ -2269,13 +1460,13 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                   </div>
                 )}
 
-                {/* Price Range Stacked Bar Chart */}
+                {/* Price Band Stacked Bar Chart */}
                 {analysisData.handleLengthStackedData.chartData.length > 0 && analysisData.handleLengthStackedData.segments.length > 0 && (
                   <div className={`p-5 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[480px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
                     <div className="mb-3 pb-3 border-b border-gray-200 dark:border-navy-light">
-                      <InfoTooltip content={`• Shows ${filters.marketEvaluation === 'By Volume' ? 'market volume' : 'market size'} share by price range by year\n• X-axis: Year, Y-axis: ${filters.marketEvaluation === 'By Volume' ? 'Market Volume' : 'Market Size'}\n• Each stacked bar shows the proportion for that year\n• Hover over bars to see detailed values and percentages`}>
+                      <InfoTooltip content={`• Shows ${activeMeasure.label.toLowerCase()} share by ${dimensions.priceBand.label.toLowerCase()} by year\n• X-axis: Year, Y-axis: ${activeMeasure.label}\n• Each stacked bar shows the proportion for that year\n• Hover over bars to see detailed values and percentages`}>
                         <h3 className="text-base font-bold text-electric-blue dark:text-cyan-accent mb-1 cursor-help">
-                          Price Range Share
+                          {dimensions.priceBand.label} Share
                         </h3>
                       </InfoTooltip>
                       <p className="text-xs text-text-secondary-light dark:text-text-secondary-dark">
@@ -2298,9 +1489,9 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                 {analysisData.technologyStackedData.chartData.length > 0 && analysisData.technologyStackedData.segments.length > 0 && (
                   <div className={`p-5 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[480px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
                     <div className="mb-3 pb-3 border-b border-gray-200 dark:border-navy-light">
-                      <InfoTooltip content={`• Shows ${filters.marketEvaluation === 'By Volume' ? 'market volume' : 'market size'} share by technology by year\n• X-axis: Year, Y-axis: ${filters.marketEvaluation === 'By Volume' ? 'Market Volume' : 'Market Size'}\n• Each stacked bar shows the proportion for that year\n• Hover over bars to see detailed values and percentages`}>
+                      <InfoTooltip content={`• Shows ${activeMeasure.label.toLowerCase()} share by ${dimensions.application.label.toLowerCase()} by year\n• X-axis: Year, Y-axis: ${activeMeasure.label}\n• Each stacked bar shows the proportion for that year\n• Hover over bars to see detailed values and percentages`}>
                         <h3 className="text-base font-bold text-electric-blue dark:text-cyan-accent mb-1 cursor-help">
-                          Technology Share
+                          {dimensions.application.label} Share
                         </h3>
                       </InfoTooltip>
                       <p className="text-xs text-text-secondary-light dark:text-text-secondary-dark">
@@ -2323,9 +1514,9 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                 {analysisData.endUserStackedData.chartData.length > 0 && analysisData.endUserStackedData.segments.length > 0 && (
                   <div className={`p-5 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[480px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
                     <div className="mb-3 pb-3 border-b border-gray-200 dark:border-navy-light">
-                      <InfoTooltip content={`• Shows ${filters.marketEvaluation === 'By Volume' ? 'market volume' : 'market size'} share by end user by year\n• X-axis: Year, Y-axis: ${filters.marketEvaluation === 'By Volume' ? 'Market Volume' : 'Market Size'}\n• Each stacked bar shows the proportion for that year\n• Hover over bars to see detailed values and percentages`}>
+                      <InfoTooltip content={`• Shows ${activeMeasure.label.toLowerCase()} share by ${dimensions.endUser.label.toLowerCase()} by year\n• X-axis: Year, Y-axis: ${activeMeasure.label}\n• Each stacked bar shows the proportion for that year\n• Hover over bars to see detailed values and percentages`}>
                         <h3 className="text-base font-bold text-electric-blue dark:text-cyan-accent mb-1 cursor-help">
-                          End User Share
+                          {dimensions.endUser.label} Share
                         </h3>
                       </InfoTooltip>
                       <p className="text-xs text-text-secondary-light dark:text-text-secondary-dark">
@@ -2348,9 +1539,9 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                 {analysisData.distributionChannelTypeStackedData.chartData.length > 0 && analysisData.distributionChannelTypeStackedData.segments.length > 0 && (
                   <div className={`p-5 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[480px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
                     <div className="mb-3 pb-3 border-b border-gray-200 dark:border-navy-light">
-                      <InfoTooltip content={`• Shows ${filters.marketEvaluation === 'By Volume' ? 'market volume' : 'market size'} share by distribution channel type by year\n• X-axis: Year, Y-axis: ${filters.marketEvaluation === 'By Volume' ? 'Market Volume' : 'Market Size'}\n• Each stacked bar shows the proportion for that year\n• Hover over bars to see detailed values and percentages`}>
+                      <InfoTooltip content={`• Shows ${activeMeasure.label.toLowerCase()} share by ${dimensions.salesChannel.label.toLowerCase()} by year\n• X-axis: Year, Y-axis: ${activeMeasure.label}\n• Each stacked bar shows the proportion for that year\n• Hover over bars to see detailed values and percentages`}>
                         <h3 className="text-base font-bold text-electric-blue dark:text-cyan-accent mb-1 cursor-help">
-                          Distribution Channel Type Share
+                          {dimensions.salesChannel.label} Share
                         </h3>
                       </InfoTooltip>
                       <p className="text-xs text-text-secondary-light dark:text-text-secondary-dark">
@@ -2373,7 +1564,7 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                 {analysisData.offlineChannelStackedData.chartData.length > 0 && analysisData.offlineChannelStackedData.segments.length > 0 && (
                   <div className={`p-5 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[480px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
                     <div className="mb-3 pb-3 border-b border-gray-200 dark:border-navy-light">
-                      <InfoTooltip content={`• Shows ${filters.marketEvaluation === 'By Volume' ? 'market volume' : 'market size'} share by offline distribution channel subtypes by year\n• X-axis: Year, Y-axis: ${filters.marketEvaluation === 'By Volume' ? 'Market Volume' : 'Market Size'}\n• Each stacked bar shows the proportion for that year\n• Hover over bars to see detailed values and percentages`}>
+                      <InfoTooltip content={`• Shows ${activeMeasure.label.toLowerCase()} share by offline distribution channel subtypes by year\n• X-axis: Year, Y-axis: ${activeMeasure.label}\n• Each stacked bar shows the proportion for that year\n• Hover over bars to see detailed values and percentages`}>
                         <h3 className="text-base font-bold text-electric-blue dark:text-cyan-accent mb-1 cursor-help">
                           Offline Channel Share
                         </h3>
@@ -2398,7 +1589,7 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                 {analysisData.onlineChannelStackedData.chartData.length > 0 && analysisData.onlineChannelStackedData.segments.length > 0 && (
                   <div className={`p-5 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[480px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
                     <div className="mb-3 pb-3 border-b border-gray-200 dark:border-navy-light">
-                      <InfoTooltip content={`• Shows ${filters.marketEvaluation === 'By Volume' ? 'market volume' : 'market size'} share by online distribution channel subtypes by year\n• X-axis: Year, Y-axis: ${filters.marketEvaluation === 'By Volume' ? 'Market Volume' : 'Market Size'}\n• Each stacked bar shows the proportion for that year\n• Hover over bars to see detailed values and percentages`}>
+                      <InfoTooltip content={`• Shows ${activeMeasure.label.toLowerCase()} share by online distribution channel subtypes by year\n• X-axis: Year, Y-axis: ${activeMeasure.label}\n• Each stacked bar shows the proportion for that year\n• Hover over bars to see detailed values and percentages`}>
                         <h3 className="text-base font-bold text-electric-blue dark:text-cyan-accent mb-1 cursor-help">
                           Online Channel Share
                         </h3>
@@ -2423,14 +1614,14 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
           )}
 
           {/* Graph 6: Market Size by Region */}
-          {analysisData.countryChartData.length > 0 && analysisData.regionsForChart && analysisData.regionsForChart.length > 0 && (
+          {analysisData && analysisData.countryChartData.length > 0 && analysisData.regionsForChart && analysisData.regionsForChart.length > 0 && (
             <div className="mb-20">
               <div className="mb-8">
                 <div className="flex items-center gap-3 mb-3">
                   <div className={`w-1 h-10 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
-                  <InfoTooltip content={`• Shows ${filters.marketEvaluation === 'By Volume' ? 'market volume' : 'market size'} by region grouped by year\n• X-axis: Year\n• Y-axis: ${filters.marketEvaluation === 'By Volume' ? 'Market Volume' : 'Market Size'}\n• Compare region performance across years`}>
+                  <InfoTooltip content={`• Shows ${activeMeasure.label.toLowerCase()} by region grouped by year\n• X-axis: Year\n• Y-axis: ${activeMeasure.label}\n• Compare region performance across years`}>
                     <h2 className="text-3xl font-bold text-text-primary-light dark:text-text-primary-dark cursor-help">
-                      {filters.marketEvaluation === 'By Volume' ? 'Market Volume' : 'Market Size'} by Region by Year
+                      {activeMeasure.label} by Region by Year
                     </h2>
                   </InfoTooltip>
                 </div>
@@ -2441,7 +1632,7 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
               <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[550px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
                 <div className="mb-4 pb-4 border-b border-gray-200 dark:border-navy-light">
                   <h3 className="text-lg font-bold text-electric-blue dark:text-cyan-accent mb-1">
-                    {filters.marketEvaluation === 'By Volume' ? 'Market Volume' : 'Market Size'} by Region by Year
+                    {activeMeasure.label} by Region by Year
                   </h3>
                   <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
                     {getDataLabel()}
@@ -2459,6 +1650,198 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
             </div>
           )}
 
+          {/* Graph 7: Market Size by Region and State */}
+          {analysisData && analysisData.regionStateChartData.length > 0 && (
+            <div className="mb-20">
+              <div className="mb-8">
+                <div className="flex items-center gap-3 mb-3">
+                  <div className={`w-1 h-10 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                  <InfoTooltip content={`• Stacks each region's ${activeMeasure.label.toLowerCase()} by state, grouped by year\n• The label on each bar is the region subtotal\n• Only the states in the geography filter are stacked, so a region can be compared against a single state`}>
+                    <h2 className="text-3xl font-bold text-text-primary-light dark:text-text-primary-dark cursor-help">
+                      {activeMeasure.label} by Region and State
+                    </h2>
+                  </InfoTooltip>
+                </div>
+                <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4 mb-2">
+                  State contributions stacked within each region, with region subtotals
+                </p>
+              </div>
+              <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[550px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                <div className="mb-4 pb-4 border-b border-gray-200 dark:border-navy-light">
+                  <h3 className="text-lg font-bold text-electric-blue dark:text-cyan-accent mb-1">
+                    {activeMeasure.label} by Region and State
+                  </h3>
+                  <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
+                    {getDataLabel()}
+                  </p>
+                </div>
+                <div className="flex-1 flex items-center justify-center min-h-0 pt-2">
+                  <RegionCountryStackedBarChart
+                    data={analysisData.regionStateChartData}
+                    dataKey="value"
+                    xAxisLabel="Region and Year"
+                    yAxisLabel={getDataLabel()}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Geographic Map */}
+          {geographyMetrics && (
+            <div className="mb-20">
+              <div className="mb-8">
+                <div className="flex items-center gap-3 mb-3">
+                  <div className={`w-1 h-10 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                  <InfoTooltip content={`• Shades ${mapOptions.level === 'region' ? 'regions' : 'states'} by ${geoMetricLabels[mapOptions.metric].toLowerCase()}, ${geographyMetrics.startYear}${geographyMetrics.endYear > geographyMetrics.startYear ? `–${geographyMetrics.endYear}` : ''}\n• Uses every active filter except geography\n• Click a region to drill into its states\n• Click a state to add it to or remove it from the geography filter`}>
+                    <h2 className="text-3xl font-bold text-text-primary-light dark:text-text-primary-dark cursor-help">
+                      Geographic Distribution
+                    </h2>
+                  </InfoTooltip>
+                </div>
+                <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4 mb-2">
+                  {mapOptions.focusRegion ? `States in the ${mapOptions.focusRegion}` : mapOptions.level === 'region' ? 'U.S. regions' : 'U.S. states'}
+                  {filters.country.length > 0 && ` · filtered to ${filters.country.join(', ')}`}
+                </p>
+              </div>
+              <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[600px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                <div className="mb-4 pb-4 border-b border-gray-200 dark:border-navy-light flex flex-wrap items-center justify-between gap-3">
+                  <h3 className="text-lg font-bold text-electric-blue dark:text-cyan-accent">
+                    {geoMetricLabels[mapOptions.metric]}
+                  </h3>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {mapOptions.focusRegion && (
+                      <button
+                        onClick={() => setMapOptions({ ...mapOptions, level: 'region', focusRegion: null })}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-semibold text-electric-blue dark:text-cyan-accent hover:underline"
+                      >
+                        <ArrowLeft size={14} /> All Regions
+                      </button>
+                    )}
+                    {!mapOptions.focusRegion && (['region', 'state'] as const).map(level => (
+                      <button
+                        key={level}
+                        onClick={() => setMapOptions({ ...mapOptions, level })}
+                        className={`px-3 py-1.5 rounded-lg text-sm font-semibold transition-all ${
+                          mapOptions.level === level
+                            ? 'bg-electric-blue text-white'
+                            : 'text-text-secondary-light dark:text-text-secondary-dark hover:text-electric-blue dark:hover:text-cyan-accent'
+                        }`}
+                      >
+                        {level === 'region' ? 'Regions' : 'States'}
+                      </button>
+                    ))}
+                    <span className="w-px h-6 bg-gray-200 dark:bg-navy-light mx-1" />
+                    {(Object.keys(geoMetricLabels) as GeoMetric[]).map(metric => (
+                      <button
+                        key={metric}
+                        onClick={() => setMapOptions({ ...mapOptions, metric })}
+                        className={`px-3 py-1.5 rounded-lg text-sm font-semibold transition-all ${
+                          mapOptions.metric === metric
+                            ? 'bg-electric-blue text-white'
+                            : 'text-text-secondary-light dark:text-text-secondary-dark hover:text-electric-blue dark:hover:text-cyan-accent'
+                        }`}
+                      >
+                        {metric === 'value' ? 'Value' : metric === 'volume' ? 'Volume' : 'CAGR'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex-1 min-h-0">
+                  <ChoroplethMap
+                    stateValues={mapStateValues}
+                    stateRegions={geographyMetrics.stateRegions}
+                    level={mapOptions.level}
+                    focusRegion={mapOptions.focusRegion}
+                    selectedStates={expandGeography(filters.country, uniqueOptions.geography)}
+                    metricLabel={geoMetricLabels[mapOptions.metric]}
+                    formatValue={mapOptions.metric === 'cagr' ? (value) => `${formatWithCommas(value, 2)}%` : formatNumber}
+                    onRegionClick={(region) => setMapOptions({ ...mapOptions, level: 'state', focusRegion: region })}
+                    onStateClick={toggleCountryFilter}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+              {/* Scenario Planner */}
+              <div className="mb-20">
+                <div className="mb-8">
+                  <div className="flex items-center gap-3 mb-3">
+                    <div className={`w-1 h-10 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                    <InfoTooltip content={`• Each scenario adjusts the ${forecastModelLabels[forecastFilters.model]} forecast from the Forecast tab for the years after ${forecastFilters.lastActualYear}; actuals are unchanged\n• Volume growth and price inflation add percentage points to the yearly growth rate\n• Segment adjustments apply to one region or product category; mix moves market share into the segment each year\n• Scenarios are saved in this browser and compared on the Incremental and Y-o-Y tabs too`}>
+                      <h2 className="text-3xl font-bold text-text-primary-light dark:text-text-primary-dark cursor-help">
+                        Scenario Planner
+                      </h2>
+                    </InfoTooltip>
+                  </div>
+                  <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4 mb-2">
+                    Define market cases as adjustments to growth, price and segment mix
+                  </p>
+                </div>
+                <div className="mb-6">
+                  <ScenarioPlanner
+                    scenarios={scenarios}
+                    onChange={setScenarios}
+                    onReset={() => setScenarios(DEFAULT_SCENARIOS)}
+                    segmentOptions={scenarioSegmentOptions}
+                  />
+                </div>
+                <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[550px] flex flex-col mb-6 ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                  <div className="mb-4 pb-4 border-b border-gray-200 dark:border-navy-light">
+                    <h3 className="text-lg font-bold text-electric-blue dark:text-cyan-accent mb-1">
+                      {activeMeasure.label} by Scenario
+                    </h3>
+                    <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
+                      {getDataLabel()}
+                    </p>
+                  </div>
+                  <div className="flex-1 flex items-center justify-center min-h-0 pt-2">
+                    <LineChart
+                      data={standardScenarioChart}
+                      dataKeys={standardScenarios.map(({ label }) => label)}
+                      nameKey="year"
+                      colors={SCENARIO_COLORS}
+                      xAxisLabel="Year"
+                      yAxisLabel={getDataLabel()}
+                      isVolume={filters.marketEvaluation === 'By Volume'}
+                    />
+                  </div>
+                </div>
+                {standardScenarioChart.length > 1 && (
+                  <div className={`p-5 rounded-xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                    <h3 className="text-base font-bold text-electric-blue dark:text-cyan-accent mb-3 pb-3 border-b border-gray-200 dark:border-navy-light">
+                      Scenario Summary
+                    </h3>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-text-secondary-light dark:text-text-secondary-dark">
+                          <th className="py-2 pr-2 font-semibold">Scenario</th>
+                          <th className="py-2 px-2 font-semibold text-right">{standardScenarioChart[standardScenarioChart.length - 1].year}</th>
+                          <th className="py-2 px-2 font-semibold text-right">CAGR {standardScenarioChart[0].year}–{standardScenarioChart[standardScenarioChart.length - 1].year}</th>
+                          <th className="py-2 pl-2 font-semibold text-right">vs {standardScenarios[0]?.label}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {standardScenarios.map(({ label }) => {
+                          const first = standardScenarioChart[0][label] as number
+                          const last = standardScenarioChart[standardScenarioChart.length - 1][label] as number
+                          const reference = standardScenarioChart[standardScenarioChart.length - 1][standardScenarios[0].label] as number
+                          const years = standardScenarioChart.length - 1
+                          return (
+                            <tr key={label} className="border-t border-gray-100 dark:border-navy-light text-text-primary-light dark:text-text-primary-dark">
+                              <td className="py-2 pr-2">{label}</td>
+                              <td className="py-2 px-2 text-right font-semibold">{formatNumber(last)}</td>
+                              <td className="py-2 px-2 text-right">{first > 0 ? `${formatWithCommas((Math.pow(last / first, 1 / years) - 1) * 100, 2)}%` : '—'}</td>
+                              <td className="py-2 pl-2 text-right">{reference > 0 ? `${last >= reference ? '+' : ''}${formatWithCommas((last / reference - 1) * 100, 1)}%` : '—'}</td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
             </>
           )}
 
@@ -2475,52 +1858,55 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                     </h3>
                   </div>
                   <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4">
-                    Filter incremental opportunity data by region and product type.
+                    Filter incremental opportunity data by region, country and product type, and choose the window and breakdown.
                   </p>
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  <FilterDropdown
+                    label="By Region"
+                    value={incrementalFilters.region}
+                    onChange={(value) => setIncrementalFilters({ ...incrementalFilters, region: value as string[] })}
+                    options={incrementalFilterOptions.regions}
+                  />
                   <FilterDropdown
                     label="By Country"
                     value={incrementalFilters.country}
                     onChange={(value) => setIncrementalFilters({ ...incrementalFilters, country: value as string[] })}
-                    options={['US', 'Germany', 'China', 'Japan']}
+                    options={incrementalFilterOptions.countries}
                   />
                   <HierarchicalFilterDropdown
                     label="By Product Type"
                     value={incrementalFilters.productType}
                     onChange={(value) => setIncrementalFilters({ ...incrementalFilters, productType: value })}
-                    hierarchy={[
-                      {
-                        mainCategory: 'Foil Shavers',
-                        subCategories: ['Single-foil', 'Dual-foil', 'Multi-foil (3+)']
-                      },
-                      {
-                        mainCategory: 'Rotary Shavers',
-                        subCategories: ['Dual-head', 'Triple-head', 'Multi-head (4+)']
-                      },
-                      {
-                        mainCategory: 'Trimmers & Groomers',
-                        subCategories: ['Beard trimmers', 'Body groomers', 'Others']
-                      },
-                      {
-                        mainCategory: 'Hybrid Shavers',
-                        subCategories: ['Blade-electric combo', 'Wet & dry hybrid tools']
-                      },
-                      {
-                        mainCategory: 'Lady Shavers',
-                        subCategories: ['Face shavers', 'Body shavers', 'Bikini trimmers']
-                      },
-                      {
-                        mainCategory: 'Hair Clippers',
-                        subCategories: ['Corded clippers', 'Cordless clippers', 'Others']
-                      }
-                    ]}
+                    hierarchy={uniqueOptions.productHierarchy}
                   />
-                </div>
-              </div>
-
-              <div className="mb-20">
+                  <FilterDropdown
+                    label="Base Year"
+                    value={incrementalFilters.baseYear}
+                    onChange={(value) => value && setIncrementalFilters({ ...incrementalFilters, baseYear: Number(value) })}
+                    options={uniqueOptions.years.filter(year => year < incrementalFilters.endYear)}
+                    multiple={false}
+                  />
+                  <FilterDropdown
+                    label="End Year"
+                    value={incrementalFilters.endYear}
+                    onChange={(value) => value && setIncrementalFilters({ ...incrementalFilters, endYear: Number(value) })}
+                    options={uniqueOptions.years.filter(year => year > incrementalFilters.baseYear)}
+                    multiple={false}
+                  />
+                  <FilterDropdown
+                    label="Break Down By"
+                    value={incrementalFilters.breakdown}
+                    onChange={(value) => value && setIncrementalFilters({ ...incrementalFilters, breakdown: value as OpportunityBreakdown })}
+                    options={Object.keys(opportunityBreakdowns)}
+                    optionLabels={opportunityBreakdowns}
+                    multiple={false}
+                  />
+                </div>
+              </div>
+
+              <div className="mb-10">
                 <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[600px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
                   <div className="flex-1 flex items-center justify-center min-h-0">
                     <WaterfallChart
@@ -2528,10 +1914,110 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                       xAxisLabel="Incremental $ Opportunity"
                       yAxisLabel="Market Value (US$ Mn)"
                       incrementalOpportunity={waterfallData.incrementalOpportunity}
+                      segments={waterfallData.segments}
                     />
                   </div>
                 </div>
               </div>
+
+              {/* Opportunity Breakdown */}
+              {opportunity && (
+                <div className="mb-20">
+                  <div className="mb-8">
+                    <div className="flex items-center gap-3 mb-3">
+                      <div className={`w-1 h-10 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                      <InfoTooltip content={`• Change in market value from ${opportunity.baseYear} to ${opportunity.endYear}\n• Price effect: change in average value per unit, applied to the average volume\n• Volume effect: change in units, valued at the average price\n• The two effects add up to the total opportunity`}>
+                        <h2 className="text-3xl font-bold text-text-primary-light dark:text-text-primary-dark cursor-help">
+                          Opportunity Breakdown
+                        </h2>
+                      </InfoTooltip>
+                    </div>
+                    <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4 mb-2">
+                      Where the {opportunity.baseYear}–{opportunity.endYear} incremental opportunity comes from, by {opportunityBreakdowns[incrementalFilters.breakdown].toLowerCase()} and by price vs volume
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                    {[
+                      { title: opportunity.totalIncremental, subtitle: 'Total Incremental Opportunity' },
+                      { title: opportunity.priceEffect, subtitle: 'Price Effect' },
+                      { title: opportunity.volumeEffect, subtitle: 'Volume Effect' },
+                    ].map(card => (
+                      <div key={card.subtitle} className={`p-7 rounded-2xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                        <StatBox
+                          title={`$${formatWithCommas(card.title, 1)}M`}
+                          subtitle={card.subtitle}
+                          increase={opportunity.totalIncremental !== 0 ? `${formatWithCommas((card.title / opportunity.totalIncremental) * 100, 1)}% of total` : undefined}
+                          trend={card.title < 0 ? 'down' : 'up'}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div className={`p-5 rounded-xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                    <h3 className="text-base font-bold text-electric-blue dark:text-cyan-accent mb-3 pb-3 border-b border-gray-200 dark:border-navy-light">
+                      By {opportunityBreakdowns[incrementalFilters.breakdown]}
+                    </h3>
+                    <div className="max-h-96 overflow-y-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-text-secondary-light dark:text-text-secondary-dark">
+                            <th className="py-2 pr-2 font-semibold">Segment</th>
+                            <th className="py-2 px-2 font-semibold text-right">Incremental (US$ Mn)</th>
+                            <th className="py-2 pl-2 font-semibold text-right">Share of Total</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {opportunity.segments.map(row => (
+                            <tr key={row.segment} className="border-t border-gray-100 dark:border-navy-light text-text-primary-light dark:text-text-primary-dark">
+                              <td className="py-2 pr-2">{row.segment}</td>
+                              <td className="py-2 px-2 text-right font-semibold">{formatWithCommas(row.incremental, 1)}</td>
+                              <td className="py-2 pl-2 text-right">{formatWithCommas(row.share, 1)}%</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Scenario Comparison */}
+              {incrementalScenarios.length > 0 && (
+                <div className="mb-20">
+                  <div className="mb-8">
+                    <div className="flex items-center gap-3 mb-3">
+                      <div className={`w-1 h-10 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                      <InfoTooltip content="• Incremental opportunity of each scenario over the same window\n• Edit scenarios in the Scenario Planner on the Standard tab">
+                        <h2 className="text-3xl font-bold text-text-primary-light dark:text-text-primary-dark cursor-help">
+                          Scenario Comparison
+                        </h2>
+                      </InfoTooltip>
+                    </div>
+                    <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4 mb-2">
+                      {incrementalFilters.baseYear}–{incrementalFilters.endYear} incremental opportunity by scenario
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    {incrementalScenarios.map(({ label, totals }, index) => {
+                      const base = totals.get(incrementalFilters.baseYear) ?? 0
+                      const end = totals.get(incrementalFilters.endYear) ?? 0
+                      return (
+                        <div
+                          key={label}
+                          className={`p-7 rounded-2xl shadow-lg border-t-4 ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}
+                          style={{ borderTopColor: SCENARIO_COLORS[index % SCENARIO_COLORS.length] }}
+                        >
+                          <StatBox
+                            title={filters.marketEvaluation === 'By Volume' ? `${formatNumber(end - base)} Units` : `$${formatWithCommas(end - base, 1)}M`}
+                            subtitle={label}
+                            increase={base > 0 ? `${formatWithCommas(((end - base) / base) * 100, 1)}% over ${incrementalFilters.baseYear}` : undefined}
+                            trend={end < base ? 'down' : 'up'}
+                          />
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              )}
             </>
           )}
 
@@ -2548,99 +2034,94 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                     </h3>
                   </div>
                   <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4">
-                    Filter market attractiveness data by country and segment (2025-2032).
+                    Filter market attractiveness data by state and product type, and choose the dimension, window and quadrant thresholds.
                   </p>
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
                   <FilterDropdown
-                    label="By Country"
-                    value={attractivenessFilters.country[0] || ''}
-                    onChange={(value) => setAttractivenessFilters({ ...attractivenessFilters, country: value ? [value as string] : [] })}
-                    options={['US', 'Germany', 'China', 'Japan']}
+                    label="By State"
+                    value={attractivenessFilters.country}
+                    onChange={(value) => setAttractivenessFilters({ ...attractivenessFilters, country: value as string[] })}
+                    options={attractivenessFilterOptions.countries}
+                  />
+                  <HierarchicalFilterDropdown
+                    label="By Product Type"
+                    value={attractivenessFilters.productType}
+                    onChange={(value) => setAttractivenessFilters({ ...attractivenessFilters, productType: value })}
+                    hierarchy={uniqueOptions.productHierarchy}
+                  />
+                  <FilterDropdown
+                    label="Compare By"
+                    value={attractivenessFilters.dimension}
+                    onChange={(value) => value && setAttractivenessFilters({ ...attractivenessFilters, dimension: value as AttractivenessDimension })}
+                    options={Object.keys(attractivenessDimensions)}
+                    optionLabels={attractivenessDimensions}
                     multiple={false}
                   />
-                  <div className="relative">
-                    <label className="block text-sm font-semibold text-text-secondary-light dark:text-text-secondary-dark mb-2">
-                      By Segment
-                    </label>
-                    <select
-                      value={attractivenessFilters.segment}
-                      onChange={(e) => setAttractivenessFilters({
-                        ...attractivenessFilters,
-                        segment: e.target.value,
-                        subSegment: '' // Reset sub-segment when segment changes
-                      })}
-                      className={`w-full px-4 py-3 rounded-lg border-2 focus:outline-none focus:ring-2 focus:ring-electric-blue dark:focus:ring-cyan-accent transition-all ${
-                        isDark
-                          ? 'bg-navy-dark border-navy-light text-text-primary-dark'
-                          : 'bg-white border-gray-300 text-text-primary-light'
-                      }`}
-                    >
-                      <option value="productType">By Product Type</option>
-                      <option value="technology">By Technology</option>
-                      <option value="bladeType">By Blade Type</option>
-                      <option value="priceRange">By Price Range</option>
-                      <option value="endUser">By End User</option>
-                      <option value="distributionChannel">By Distribution Channel</option>
-                    </select>
+                  <div className="grid grid-cols-2 gap-4">
+                    <FilterDropdown
+                      label="Start Year"
+                      value={attractivenessFilters.startYear}
+                      onChange={(value) => value && setAttractivenessFilters({ ...attractivenessFilters, startYear: Number(value) })}
+                      options={uniqueOptions.years.filter(year => year < attractivenessFilters.endYear)}
+                      multiple={false}
+                    />
+                    <FilterDropdown
+                      label="End Year"
+                      value={attractivenessFilters.endYear}
+                      onChange={(value) => value && setAttractivenessFilters({ ...attractivenessFilters, endYear: Number(value) })}
+                      options={uniqueOptions.years.filter(year => year > attractivenessFilters.startYear)}
+                      multiple={false}
+                    />
                   </div>
-                  <div className="relative">
-                    <label className="block text-sm font-semibold text-text-secondary-light dark:text-text-secondary-dark mb-2">
-                      By Sub-segment
-                    </label>
-                    <select
-                      value={attractivenessFilters.subSegment}
-                      onChange={(e) => setAttractivenessFilters({ ...attractivenessFilters, subSegment: e.target.value })}
-                      disabled={!segmentHasChildFilters}
-                      className={`w-full px-4 py-3 rounded-lg border-2 focus:outline-none focus:ring-2 focus:ring-electric-blue dark:focus:ring-cyan-accent transition-all ${
+                  {([
+                    { key: 'cagrIndex', label: 'Growth Threshold (CAGR Index)' },
+                    { key: 'shareIndex', label: 'Share Threshold (Market Share Index)' },
+                  ] as const).map(({ key, label }) => (
+                    <div key={key} className="relative">
+                      <label className="block text-sm font-semibold text-text-secondary-light dark:text-text-secondary-dark mb-2">
+                        {label}: {quadrantThresholds[key].toFixed(2)}
+                      </label>
+                      <input
+                        type="range"
+                        min={0}
+                        max={3}
+                        step={0.05}
+                        value={quadrantThresholds[key]}
+                        onChange={(e) => setQuadrantThresholds({ ...quadrantThresholds, [key]: Number(e.target.value) })}
+                        className="w-full accent-electric-blue dark:accent-cyan-accent"
+                      />
+                    </div>
+                  ))}
+                  <div className="flex items-end">
+                    <button
+                      onClick={() => setQuadrantThresholds(DEFAULT_QUADRANT_THRESHOLDS)}
+                      className={`px-4 py-3 rounded-lg border-2 text-sm font-semibold transition-all ${
                         isDark
-                          ? 'bg-navy-dark border-navy-light text-text-primary-dark'
-                          : 'bg-white border-gray-300 text-text-primary-light'
-                      } ${!segmentHasChildFilters ? 'opacity-50 cursor-not-allowed' : ''}`}
+                          ? 'bg-navy-dark border-navy-light text-text-primary-dark hover:border-cyan-accent'
+                          : 'bg-white border-gray-300 text-text-primary-light hover:border-electric-blue'
+                      }`}
                     >
-                      <option value="">{segmentHasChildFilters ? 'Select Sub-segment...' : 'No sub-segments available'}</option>
-                      {availableSubSegments.map(subSeg => (
-                        <option key={subSeg} value={subSeg}>{subSeg}</option>
-                      ))}
-                    </select>
-                    {!segmentHasChildFilters && (
-                      <p className="text-xs text-text-secondary-light dark:text-text-secondary-dark mt-1">
-                        This segment shows all items directly on the graph
-                      </p>
-                    )}
-                    {availableSubSubSegments.length > 0 && (
-                      <p className="text-xs text-text-secondary-light dark:text-text-secondary-dark mt-1">
-                        Will show: {availableSubSubSegments.join(', ')}
-                      </p>
-                    )}
+                      Reset to Market Average
+                    </button>
                   </div>
                 </div>
               </div>
 
-              <div className="mb-20">
+              <div className="mb-10">
                 <div className="mb-8">
                   <div className="flex items-center gap-3 mb-3">
                     <div className={`w-1 h-10 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
-                    <InfoTooltip content="• Shows market attractiveness by selected segment from 2025 to 2032\n• X-axis: CAGR Index (Compound Annual Growth Rate)\n• Y-axis: Market Share Index\n• Bubble size indicates CAGR Index (higher CAGR = larger bubble)\n• Select a sub-segment to drill down into specific categories">
+                    <InfoTooltip content={`• CAGR Index: segment CAGR over ${attractivenessFilters.startYear}-${attractivenessFilters.endYear} divided by the market CAGR\n• Market Share Index: ${attractivenessFilters.endYear} share divided by the average share of the segments shown\n• 1.0 on either axis is the market average\n• Bubble size indicates incremental opportunity\n• Dashed lines are the quadrant thresholds`}>
                       <h2 className="text-3xl font-bold text-text-primary-light dark:text-text-primary-dark cursor-help">
-                        Market Attractiveness, {attractivenessFilters.subSegment
-                          ? `${attractivenessFilters.subSegment}`
-                          : attractivenessFilters.segment ? `By ${
-                            attractivenessFilters.segment === 'productType' ? 'Product Type' :
-                            attractivenessFilters.segment === 'technology' ? 'Technology' :
-                            attractivenessFilters.segment === 'bladeType' ? 'Blade Type' :
-                            attractivenessFilters.segment === 'priceRange' ? 'Price Range' :
-                            attractivenessFilters.segment === 'endUser' ? 'End User' :
-                            attractivenessFilters.segment === 'distributionChannel' ? 'Distribution Channel' : 'Segment'
-                          }` : 'By Country'}, 2025-2032
+                        Market Attractiveness, By {attractivenessDimensions[attractivenessFilters.dimension]}, {attractivenessFilters.startYear}-{attractivenessFilters.endYear}
                       </h2>
                     </InfoTooltip>
                   </div>
                   <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4 mb-2">
-                    {attractivenessFilters.subSegment
-                      ? `Showing sub-categories of ${attractivenessFilters.subSegment}`
-                      : 'Market attractiveness analysis by CAGR and Market Share Index'}
+                    Market attractiveness analysis by CAGR and Market Share Index
+                    {attractiveness && `, market CAGR ${formatWithCommas(attractiveness.marketCagr, 1)}%`}
                     {attractivenessFilters.country.length > 0 && ` for ${attractivenessFilters.country.join(', ')}`}
                   </p>
                 </div>
@@ -2658,6 +2139,11 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                       data={bubbleChartData}
                       xAxisLabel="CAGR Index"
                       yAxisLabel="Market Share Index"
+                      quadrants={{
+                        x: quadrantThresholds.cagrIndex,
+                        y: quadrantThresholds.shareIndex,
+                        labels: ['Invest', 'Harvest', 'Maintain', 'Exit'],
+                      }}
                     />
                   </div>
                   {/* Segment Legend - Minimal horizontal style */}
@@ -2679,6 +2165,50 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                   </div>
                 </div>
               </div>
+
+              {/* Attractiveness Scores */}
+              {attractiveness && (
+                <div className="mb-20">
+                  <div className={`p-5 rounded-xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                    <h3 className="text-base font-bold text-electric-blue dark:text-cyan-accent mb-3 pb-3 border-b border-gray-200 dark:border-navy-light">
+                      Attractiveness Scores
+                    </h3>
+                    <div className="max-h-96 overflow-y-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-text-secondary-light dark:text-text-secondary-dark">
+                            <th className="py-2 pr-2 font-semibold">{attractivenessDimensions[attractivenessFilters.dimension]}</th>
+                            <th className="py-2 px-2 font-semibold text-right">CAGR</th>
+                            <th className="py-2 px-2 font-semibold text-right">CAGR Index</th>
+                            <th className="py-2 px-2 font-semibold text-right">Share</th>
+                            <th className="py-2 px-2 font-semibold text-right">Share Index</th>
+                            <th className="py-2 px-2 font-semibold text-right">Incremental (US$ Mn)</th>
+                            <th className="py-2 px-2 font-semibold text-right">Opportunity Index</th>
+                            <th className="py-2 pl-2 font-semibold">Quadrant</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {attractiveness.points.map(point => {
+                            const quadrant: Quadrant = classifyQuadrant(point, quadrantThresholds)
+                            return (
+                              <tr key={point.segment} className="border-t border-gray-100 dark:border-navy-light text-text-primary-light dark:text-text-primary-dark">
+                                <td className="py-2 pr-2">{point.segment}</td>
+                                <td className="py-2 px-2 text-right">{formatWithCommas(point.cagr, 1)}%</td>
+                                <td className="py-2 px-2 text-right font-semibold">{point.cagrIndex.toFixed(2)}</td>
+                                <td className="py-2 px-2 text-right">{formatWithCommas(point.share, 1)}%</td>
+                                <td className="py-2 px-2 text-right font-semibold">{point.marketShareIndex.toFixed(2)}</td>
+                                <td className="py-2 px-2 text-right">{formatWithCommas(point.incrementalOpportunity, 1)}</td>
+                                <td className="py-2 px-2 text-right">{point.opportunityIndex.toFixed(2)}</td>
+                                <td className="py-2 pl-2 font-semibold" title={quadrantDescriptions[quadrant]}>{quadrant}</td>
+                              </tr>
+                            )
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                </div>
+              )}
             </>
           )}
 
@@ -2695,50 +2225,51 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                     </h3>
                   </div>
                   <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4">
-                    Filter YoY and CAGR analysis data by country and product type.
+                    Compare growth of regions, states or product categories over a chosen window.
                   </p>
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                   <FilterDropdown
-                    label="By Country"
-                    value={yoyFilters.country}
-                    onChange={(value) => {
-                      const newCountries = value as string[]
-                      setYoyFilters({ ...yoyFilters, country: newCountries })
-                    }}
-                    options={['US', 'Germany', 'China', 'Japan']}
+                    label="Compare By"
+                    value={yoyFilters.groupBy}
+                    onChange={(value) => value && setYoyFilters({ ...yoyFilters, groupBy: value as GrowthEntityKey, entities: [] })}
+                    options={Object.keys(growthEntityLabels)}
+                    optionLabels={growthEntityLabels}
+                    multiple={false}
+                  />
+                  <FilterDropdown
+                    label={`By ${growthEntityLabels[yoyFilters.groupBy]}`}
+                    value={yoyFilters.entities}
+                    onChange={(value) => setYoyFilters({ ...yoyFilters, entities: value as string[] })}
+                    options={yoyFilterOptions.entities}
+                    optionLabels={yoyFilterOptions.entityLabels}
+                  />
+                  <FilterDropdown
+                    label="By Region"
+                    value={yoyFilters.region}
+                    onChange={(value) => setYoyFilters({ ...yoyFilters, region: value as string[] })}
+                    options={yoyFilterOptions.regions}
                   />
                   <HierarchicalFilterDropdown
                     label="By Product Type"
                     value={yoyFilters.productType}
                     onChange={(value) => setYoyFilters({ ...yoyFilters, productType: value })}
-                    hierarchy={[
-                      {
-                        mainCategory: 'Foil Shavers',
-                        subCategories: ['Single-foil', 'Dual-foil', 'Multi-foil (3+)']
-                      },
-                      {
-                        mainCategory: 'Rotary Shavers',
-                        subCategories: ['Dual-head', 'Triple-head', 'Multi-head (4+)']
-                      },
-                      {
-                        mainCategory: 'Trimmers & Groomers',
-                        subCategories: ['Beard trimmers', 'Body groomers', 'Others']
-                      },
-                      {
-                        mainCategory: 'Hybrid Shavers',
-                        subCategories: ['Blade-electric combo', 'Wet & dry hybrid tools']
-                      },
-                      {
-                        mainCategory: 'Lady Shavers',
-                        subCategories: ['Face shavers', 'Body shavers', 'Bikini trimmers']
-                      },
-                      {
-                        mainCategory: 'Hair Clippers',
-                        subCategories: ['Corded clippers', 'Cordless clippers', 'Others']
-                      }
-                    ]}
+                    hierarchy={uniqueOptions.productHierarchy}
+                  />
+                  <FilterDropdown
+                    label="Start Year"
+                    value={yoyFilters.startYear}
+                    onChange={(value) => value && setYoyFilters({ ...yoyFilters, startYear: Number(value) })}
+                    options={uniqueOptions.years.filter(year => year < yoyFilters.endYear)}
+                    multiple={false}
+                  />
+                  <FilterDropdown
+                    label="End Year"
+                    value={yoyFilters.endYear}
+                    onChange={(value) => value && setYoyFilters({ ...yoyFilters, endYear: Number(value) })}
+                    options={uniqueOptions.years.filter(year => year > yoyFilters.startYear)}
+                    multiple={false}
                   />
                 </div>
               </div>
@@ -2747,48 +2278,849 @@ export function MarketAnalysis({ onNavigate }: MarketAnalysisProps) {
                 <div className="mb-8">
                   <div className="flex items-center gap-3 mb-3">
                     <div className={`w-1 h-10 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
-                    <InfoTooltip content="• Shows Year-over-Year (Y-o-Y) growth rate and Compound Annual Growth Rate (CAGR)\n• Toggle between Y-o-Y and CAGR views using the button\n• Y-o-Y shows year-to-year growth percentage\n• CAGR shows cumulative annual growth rate from the first year\n• Select countries to generate separate charts for each (no summation)\n• Use product type filter to analyze growth by specific product segments">
+                    <InfoTooltip content={`• Y-o-Y: growth over the previous year, ▲/▼ marks acceleration or deceleration\n• CAGR: compound annual growth from ${yoyFilters.startYear}\n• Rolling CAGR: compound annual growth over the trailing 3 years\n• Pick entities to compare; otherwise the ${YOY_DEFAULT_ENTITY_COUNT} largest are shown`}>
                       <h2 className="text-3xl font-bold text-text-primary-light dark:text-text-primary-dark cursor-help">
                         Year-over-Year (Y-o-Y) & CAGR Analysis
                       </h2>
                     </InfoTooltip>
                   </div>
                   <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4 mb-2">
-                    Growth rate analysis with toggle between Y-o-Y and CAGR metrics. Separate charts for each selected country.
+                    {filters.marketEvaluation === 'By Volume' ? 'Volume' : 'Market value'} growth by {growthEntityLabels[yoyFilters.groupBy].toLowerCase()}, {yoyFilters.startYear}–{yoyFilters.endYear}
                   </p>
                 </div>
 
-                {yoyCagrDataByEntity.length === 0 ? (
-                  <div className={`p-6 rounded-xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
-                    <div className="flex items-center justify-center h-[400px]">
-                      <p className="text-text-secondary-light dark:text-text-secondary-dark text-lg">
-                        Please select at least one country to view the analysis
+                <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[600px] flex flex-col mb-6 ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                  <div className="flex-1 flex items-center justify-center min-h-0 pt-2">
+                    <YoYCAGRChart
+                      series={yoyGrowthSeries.map(item => ({ name: item.entity, points: item.points }))}
+                      xAxisLabel="Year"
+                      yAxisLabel="Growth Rate (%)"
+                    />
+                  </div>
+                </div>
+
+                {yoyGrowthSeries.length > 0 && (
+                  <div className={`p-5 rounded-xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                    <h3 className="text-base font-bold text-electric-blue dark:text-cyan-accent mb-3 pb-3 border-b border-gray-200 dark:border-navy-light">
+                      Growth Summary
+                    </h3>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-text-secondary-light dark:text-text-secondary-dark">
+                          <th className="py-2 pr-2 font-semibold">{growthEntityLabels[yoyFilters.groupBy]}</th>
+                          <th className="py-2 px-2 font-semibold text-right">CAGR {yoyFilters.startYear}–{yoyFilters.endYear}</th>
+                          <th className="py-2 px-2 font-semibold text-right">Latest Y-o-Y</th>
+                          <th className="py-2 pl-2 font-semibold text-right">Momentum</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {yoyGrowthSeries.map(item => (
+                          <tr key={item.entity} className="border-t border-gray-100 dark:border-navy-light text-text-primary-light dark:text-text-primary-dark">
+                            <td className="py-2 pr-2">{item.entity}</td>
+                            <td className="py-2 px-2 text-right font-semibold">{item.cagr === null ? '—' : `${formatWithCommas(item.cagr, 2)}%`}</td>
+                            <td className="py-2 px-2 text-right">{item.latestYoy === null ? '—' : `${formatWithCommas(item.latestYoy, 2)}%`}</td>
+                            <td className={`py-2 pl-2 text-right ${item.latestTrend === 'accelerating' ? 'text-success' : item.latestTrend === 'decelerating' ? 'text-error' : ''}`}>
+                              {item.latestTrend === 'accelerating' ? '▲ Accelerating' : item.latestTrend === 'decelerating' ? '▼ Decelerating' : item.latestTrend === 'steady' ? 'Steady' : '—'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {yoyScenarios.length > 0 && (
+                  <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[600px] flex flex-col mt-6 ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                    <div className="mb-4 pb-4 border-b border-gray-200 dark:border-navy-light">
+                      <h3 className="text-lg font-bold text-electric-blue dark:text-cyan-accent mb-1">
+                        Growth by Scenario
+                      </h3>
+                      <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
+                        Total market growth under each scenario; edit scenarios on the Standard tab
                       </p>
                     </div>
+                    <div className="flex-1 flex items-center justify-center min-h-0 pt-2">
+                      <YoYCAGRChart
+                        series={yoyScenarios.map(({ label, totals }) => ({
+                          name: label,
+                          points: computeGrowthSeries(totals, { startYear: yoyFilters.startYear, endYear: yoyFilters.endYear }),
+                        }))}
+                        xAxisLabel="Year"
+                        yAxisLabel="Growth Rate (%)"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
+          {/* Forecast Tab */}
+          {activeTab === 'forecast' && (
+            <>
+              {/* Filters Section for Forecast Tab */}
+              <div className={`p-8 rounded-2xl mb-8 shadow-xl ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-300'} relative`} style={{ overflow: 'visible' }}>
+                <div className="mb-6">
+                  <div className="flex items-center gap-3 mb-2">
+                    <div className={`w-1 h-8 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                    <h3 className="text-2xl font-bold text-text-primary-light dark:text-text-primary-dark">
+                      Filter Data
+                    </h3>
+                  </div>
+                  <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4">
+                    Project the market from its actual years with a choice of forecasting model.
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <FilterDropdown
+                    label="Forecast Model"
+                    value={forecastFilters.model}
+                    onChange={(value) => value && setForecastFilters({ ...forecastFilters, model: value as ForecastModel })}
+                    options={Object.keys(forecasters)}
+                    optionLabels={forecastModelLabels}
+                    multiple={false}
+                  />
+                  <FilterDropdown
+                    label="By Region"
+                    value={forecastFilters.region}
+                    onChange={(value) => setForecastFilters({ ...forecastFilters, region: value as string[] })}
+                    options={incrementalFilterOptions.regions}
+                  />
+                  <HierarchicalFilterDropdown
+                    label="By Product Type"
+                    value={forecastFilters.productType}
+                    onChange={(value) => setForecastFilters({ ...forecastFilters, productType: value })}
+                    hierarchy={uniqueOptions.productHierarchy}
+                  />
+                  <FilterDropdown
+                    label="Actuals Through"
+                    value={forecastFilters.lastActualYear}
+                    onChange={(value) => value && setForecastFilters({ ...forecastFilters, lastActualYear: Number(value) })}
+                    options={uniqueOptions.years.filter(year => year < forecastFilters.endYear)}
+                    multiple={false}
+                  />
+                  <FilterDropdown
+                    label="Forecast To"
+                    value={forecastFilters.endYear}
+                    onChange={(value) => value && setForecastFilters({ ...forecastFilters, endYear: Number(value) })}
+                    options={uniqueOptions.years.filter(year => year > forecastFilters.lastActualYear)}
+                    multiple={false}
+                  />
+                  <FilterDropdown
+                    label="Confidence Level"
+                    value={forecastFilters.confidence}
+                    onChange={(value) => value && setForecastFilters({ ...forecastFilters, confidence: Number(value) as ConfidenceLevel })}
+                    options={[...CONFIDENCE_LEVELS]}
+                    optionLabels={Object.fromEntries(CONFIDENCE_LEVELS.map(level => [level, `${Math.round(level * 100)}%`]))}
+                    multiple={false}
+                  />
+                </div>
+              </div>
+
+              <div className="mb-20">
+                <div className="mb-8">
+                  <div className="flex items-center gap-3 mb-3">
+                    <div className={`w-1 h-10 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                    <InfoTooltip content={`• Solid line: actual years up to ${forecastFilters.lastActualYear}\n• Dashed line: ${forecastModelLabels[forecastFilters.model]} forecast\n• Shaded band: ${Math.round(forecastFilters.confidence * 100)}% prediction interval\n• ${forecasters[forecastFilters.model].description}`}>
+                      <h2 className="text-3xl font-bold text-text-primary-light dark:text-text-primary-dark cursor-help">
+                        Market Forecast, {forecastFilters.lastActualYear + 1}-{forecastFilters.endYear}
+                      </h2>
+                    </InfoTooltip>
+                  </div>
+                  <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4 mb-2">
+                    {filters.marketEvaluation === 'By Volume' ? 'Volume' : 'Market value'} projected with {forecastModelLabels[forecastFilters.model]}
+                  </p>
+                </div>
+
+                <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[600px] flex flex-col mb-6 ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                  <div className="flex-1 flex items-center justify-center min-h-0 pt-2">
+                    {selectedForecast ? (
+                      <ForecastChart
+                        actuals={selectedForecast.actuals}
+                        forecast={selectedForecast.forecast}
+                        confidence={forecastFilters.confidence}
+                        yAxisLabel={getDataLabel()}
+                        isVolume={filters.marketEvaluation === 'By Volume'}
+                      />
+                    ) : (
+                      <p className="text-text-secondary-light dark:text-text-secondary-dark">
+                        Not enough actual years to fit {forecastModelLabels[forecastFilters.model]}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                {forecastResults.length > 0 && (
+                  <div className={`p-5 rounded-xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                    <h3 className="text-base font-bold text-electric-blue dark:text-cyan-accent mb-3 pb-3 border-b border-gray-200 dark:border-navy-light">
+                      Model Comparison
+                    </h3>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-text-secondary-light dark:text-text-secondary-dark">
+                          <th className="py-2 pr-2 font-semibold">Model</th>
+                          <th className="py-2 px-2 font-semibold text-right">{forecastFilters.endYear} Forecast</th>
+                          <th className="py-2 px-2 font-semibold text-right">{Math.round(forecastFilters.confidence * 100)}% Interval</th>
+                          <th className="py-2 px-2 font-semibold text-right">CAGR</th>
+                          <th className="py-2 pl-2 font-semibold text-right">Fit RMSE</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {forecastResults.map(result => {
+                          const end = result.forecast[result.forecast.length - 1]
+                          return (
+                            <tr
+                              key={result.model}
+                              onClick={() => setForecastFilters({ ...forecastFilters, model: result.model })}
+                              className={`border-t border-gray-100 dark:border-navy-light text-text-primary-light dark:text-text-primary-dark cursor-pointer ${
+                                result.model === forecastFilters.model ? 'font-semibold text-electric-blue dark:text-cyan-accent' : ''
+                              }`}
+                            >
+                              <td className="py-2 pr-2">{forecastModelLabels[result.model]}</td>
+                              <td className="py-2 px-2 text-right">{end ? formatNumber(end.value) : '—'}</td>
+                              <td className="py-2 px-2 text-right">{end ? `${formatNumber(end.lower)} – ${formatNumber(end.upper)}` : '—'}</td>
+                              <td className="py-2 px-2 text-right">{result.cagr === null ? '—' : `${formatWithCommas(result.cagr, 2)}%`}</td>
+                              <td className="py-2 pl-2 text-right">{result.rmse === null ? '—' : formatNumber(result.rmse)}</td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
+          {/* Sensitivity Tab */}
+          {activeTab === 'sensitivity' && (
+            <>
+              {/* Filters Section for Sensitivity Tab */}
+              <div className={`p-8 rounded-2xl mb-8 shadow-xl ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-300'} relative`} style={{ overflow: 'visible' }}>
+                <div className="mb-6">
+                  <div className="flex items-center gap-3 mb-2">
+                    <div className={`w-1 h-8 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                    <h3 className="text-2xl font-bold text-text-primary-light dark:text-text-primary-dark">
+                      Filter Data
+                    </h3>
+                  </div>
+                  <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4">
+                    Choose the year, how uncertain each market size driver is, and how many simulations to run.
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6">
+                  <FilterDropdown
+                    label="Target Year"
+                    value={sensitivityFilters.year}
+                    onChange={(value) => value && setSensitivityFilters({ ...sensitivityFilters, year: Number(value) })}
+                    options={uniqueOptions.years}
+                    multiple={false}
+                  />
+                  <FilterDropdown
+                    label="Driver Uncertainty"
+                    value={sensitivityFilters.uncertainty}
+                    onChange={(value) => value && setSensitivityFilters({ ...sensitivityFilters, uncertainty: Number(value) })}
+                    options={[0.1, 0.2, 0.3]}
+                    optionLabels={{ 0.1: '±10%', 0.2: '±20%', 0.3: '±30%' }}
+                    multiple={false}
+                  />
+                  <FilterDropdown
+                    label="Simulations"
+                    value={sensitivityFilters.iterations}
+                    onChange={(value) => value && setSensitivityFilters({ ...sensitivityFilters, iterations: Number(value) })}
+                    options={[1000, 5000, 10000]}
+                    optionLabels={{ 1000: '1,000', 5000: '5,000', 10000: '10,000' }}
+                    multiple={false}
+                  />
+                  <FilterDropdown
+                    label="By Region"
+                    value={sensitivityFilters.region}
+                    onChange={(value) => setSensitivityFilters({ ...sensitivityFilters, region: value as string[] })}
+                    options={incrementalFilterOptions.regions}
+                  />
+                  <HierarchicalFilterDropdown
+                    label="By Product Type"
+                    value={sensitivityFilters.productType}
+                    onChange={(value) => setSensitivityFilters({ ...sensitivityFilters, productType: value })}
+                    hierarchy={uniqueOptions.productHierarchy}
+                  />
+                </div>
+              </div>
+
+              <div className="mb-20">
+                <div className="mb-8">
+                  <div className="flex items-center gap-3 mb-3">
+                    <div className={`w-1 h-10 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                    <InfoTooltip content={`• Each driver multiplier (product category, pipe material, application, region, brand premium) varies independently within ±${Math.round(sensitivityFilters.uncertainty * 100)}% on a triangular distribution\n• ${formatWithCommas(sensitivityFilters.iterations, 0)} simulations recompute the ${sensitivityFilters.year} market value\n• P10 / P90: 80% of simulations fall between them\n• Tornado: market value with one driver at its P10 and P90, all others at base`}>
+                      <h2 className="text-3xl font-bold text-text-primary-light dark:text-text-primary-dark cursor-help">
+                        Market Size Sensitivity, {sensitivityFilters.year}
+                      </h2>
+                    </InfoTooltip>
+                  </div>
+                  <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4 mb-2">
+                    {sensitivityRunning
+                      ? 'Running simulations...'
+                      : sensitivityError
+                        ? `Simulation failed: ${sensitivityError}`
+                        : 'How confident the market value is, and which drivers move it most'}
+                  </p>
+                </div>
+
+                {sensitivityResult && (
+                  <div className={sensitivityRunning ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                      {[
+                        { value: sensitivityResult.p10, subtitle: 'P10 Market Value' },
+                        { value: sensitivityResult.p50, subtitle: 'P50 Market Value' },
+                        { value: sensitivityResult.p90, subtitle: 'P90 Market Value' },
+                      ].map(card => (
+                        <div key={card.subtitle} className={`p-7 rounded-2xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                          <StatBox
+                            title={`$${formatWithCommas(card.value, 1)}M`}
+                            subtitle={card.subtitle}
+                            increase={`${card.value >= sensitivityResult.baseValue ? '+' : ''}${formatWithCommas((card.value / sensitivityResult.baseValue - 1) * 100, 1)}% vs base`}
+                            trend={card.value < sensitivityResult.baseValue ? 'down' : 'up'}
+                          />
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[600px] flex flex-col mb-6 ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                      <div className="mb-4 pb-4 border-b border-gray-200 dark:border-navy-light">
+                        <h3 className="text-lg font-bold text-electric-blue dark:text-cyan-accent mb-1">
+                          Drivers of {sensitivityResult.year} Market Value
+                        </h3>
+                        <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
+                          Swing from base of ${formatWithCommas(sensitivityResult.baseValue, 1)}M, top {TORNADO_DRIVER_COUNT} drivers
+                        </p>
+                      </div>
+                      <div className="flex-1 flex items-center justify-center min-h-0 pt-2">
+                        <TornadoChart
+                          data={sensitivityResult.tornado.slice(0, TORNADO_DRIVER_COUNT).map(({ driver, low, high }) => ({
+                            name: `${driverGroupLabels[driver.group]}: ${driver.level}`,
+                            low,
+                            high,
+                            description: driver.multiplier === null ? undefined : `Generator multiplier ${driver.multiplier.toFixed(2)}x`,
+                          }))}
+                          baseValue={sensitivityResult.baseValue}
+                          lowLabel="Driver at P10"
+                          highLabel="Driver at P90"
+                        />
+                      </div>
+                    </div>
+
+                    <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[500px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                      <div className="mb-4 pb-4 border-b border-gray-200 dark:border-navy-light">
+                        <h3 className="text-lg font-bold text-electric-blue dark:text-cyan-accent mb-1">
+                          Distribution of Simulated Outcomes
+                        </h3>
+                        <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
+                          {formatWithCommas(sensitivityResult.iterations, 0)} simulations, mean ${formatWithCommas(sensitivityResult.mean, 1)}M
+                        </p>
+                      </div>
+                      <div className="flex-1 flex items-center justify-center min-h-0 pt-2">
+                        <BarChart
+                          data={sensitivityResult.histogram.map(bin => ({
+                            range: `${formatNumber(bin.from)}–${formatNumber(bin.to)}`,
+                            simulations: bin.count,
+                          }))}
+                          dataKey="simulations"
+                          nameKey="range"
+                          xAxisLabel="Market Value (US$ Mn)"
+                          yAxisLabel="Simulations"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
+          {/* Competitive Landscape Tab */}
+          {activeTab === 'competitive' && (
+            <>
+              {/* Filters Section for Competitive Landscape Tab */}
+              <div className={`p-8 rounded-2xl mb-8 shadow-xl ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-300'} relative`} style={{ overflow: 'visible' }}>
+                <div className="mb-6">
+                  <div className="flex items-center gap-3 mb-2">
+                    <div className={`w-1 h-8 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                    <h3 className="text-2xl font-bold text-text-primary-light dark:text-text-primary-dark">
+                      Filter Data
+                    </h3>
+                  </div>
+                  <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4">
+                    Compare brands or companies, and the years to measure share shift between.
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                  <FilterDropdown
+                    label="Compare"
+                    value={competitiveFilters.competitor}
+                    onChange={(value) => value && setCompetitiveFilters({ ...competitiveFilters, competitor: value as CompetitorKey })}
+                    options={Object.keys(competitorLabels)}
+                    optionLabels={competitorLabels}
+                    multiple={false}
+                  />
+                  <FilterDropdown
+                    label="From Year"
+                    value={competitiveFilters.startYear}
+                    onChange={(value) => value && setCompetitiveFilters({ ...competitiveFilters, startYear: Number(value) })}
+                    options={uniqueOptions.years.filter(year => year < competitiveFilters.year)}
+                    multiple={false}
+                  />
+                  <FilterDropdown
+                    label="To Year"
+                    value={competitiveFilters.year}
+                    onChange={(value) => value && setCompetitiveFilters({ ...competitiveFilters, year: Number(value) })}
+                    options={uniqueOptions.years.filter(year => year > competitiveFilters.startYear)}
+                    multiple={false}
+                  />
+                  <FilterDropdown
+                    label="Top N"
+                    value={competitiveFilters.topN}
+                    onChange={(value) => value && setCompetitiveFilters({ ...competitiveFilters, topN: Number(value) })}
+                    options={[3, 5, 10]}
+                    multiple={false}
+                  />
+                  <FilterDropdown
+                    label="By Region"
+                    value={competitiveFilters.region}
+                    onChange={(value) => setCompetitiveFilters({ ...competitiveFilters, region: value as string[] })}
+                    options={incrementalFilterOptions.regions}
+                  />
+                  <HierarchicalFilterDropdown
+                    label="By Product Type"
+                    value={competitiveFilters.productType}
+                    onChange={(value) => setCompetitiveFilters({ ...competitiveFilters, productType: value })}
+                    hierarchy={uniqueOptions.productHierarchy}
+                  />
+                  <FilterDropdown
+                    label="By Brand"
+                    value={competitiveFilters.brand}
+                    onChange={(value) => setCompetitiveFilters({ ...competitiveFilters, brand: value as string[] })}
+                    options={competitiveFilterOptions.brands}
+                  />
+                  <FilterDropdown
+                    label="By Company"
+                    value={competitiveFilters.company}
+                    onChange={(value) => setCompetitiveFilters({ ...competitiveFilters, company: value as string[] })}
+                    options={competitiveFilterOptions.companies}
+                  />
+                </div>
+              </div>
+
+              <div className="mb-20">
+                <div className="mb-8">
+                  <div className="flex items-center gap-3 mb-3">
+                    <div className={`w-1 h-10 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                    <InfoTooltip content={`• Share: ${competitorLabels[competitiveFilters.competitor].toLowerCase()} market value as a percent of the filtered market\n• Share shift: change in share between ${competitiveFilters.startYear} and ${competitiveFilters.year}, in percentage points\n• HHI: sum of squared shares, 0–10,000\n• Below ${formatWithCommas(HHI_THRESHOLDS.moderate, 0)}: unconcentrated; above ${formatWithCommas(HHI_THRESHOLDS.high, 0)}: highly concentrated`}>
+                      <h2 className="text-3xl font-bold text-text-primary-light dark:text-text-primary-dark cursor-help">
+                        Competitive Landscape, By {competitorLabels[competitiveFilters.competitor]}, {competitiveFilters.year}
+                      </h2>
+                    </InfoTooltip>
+                  </div>
+                  <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4 mb-2">
+                    Who leads the market, who is gaining share, and how concentrated it is
+                  </p>
+                </div>
+
+                {!competitiveLandscape ? (
+                  <div className={`p-6 rounded-xl shadow-lg flex items-center justify-center h-40 ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                    <p className="text-text-secondary-light dark:text-text-secondary-dark">No data available</p>
                   </div>
                 ) : (
-                  <div className="grid grid-cols-1 gap-6">
-                    {yoyCagrDataByEntity.map((entity, index) => (
-                      <div key={index} className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[600px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
+                      <div className={`p-7 rounded-2xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                        <StatBox
+                          title={competitiveLandscape.focus.competitors[0].competitor}
+                          subtitle={`Leading ${competitorLabels[competitiveFilters.competitor]}`}
+                          increase={`${formatShare(competitiveLandscape.focus.competitors[0].share)} share`}
+                        />
+                      </div>
+                      <div className={`p-7 rounded-2xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                        <StatBox
+                          title={formatShare(competitiveLandscape.topShare)}
+                          subtitle={`Top ${competitiveFilters.topN} Combined Share`}
+                          increase={`of $${formatWithCommas(competitiveLandscape.focus.total, 1)}M`}
+                        />
+                      </div>
+                      {(['brand', 'company'] as CompetitorKey[]).map(key => {
+                        const snapshots = shareSnapshots?.[key] ?? []
+                        const focus = snapshots.find(snapshot => snapshot.year === competitiveFilters.year)
+                        const start = snapshots.find(snapshot => snapshot.year === competitiveFilters.startYear)
+                        if (!focus) return null
+                        const change = start ? focus.hhi - start.hhi : 0
+                        return (
+                          <div key={key} className={`p-7 rounded-2xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                            <StatBox
+                              title={formatWithCommas(focus.hhi, 0)}
+                              subtitle={`${competitorLabels[key]} HHI, ${concentrationLevel(focus.hhi)}`}
+                              increase={`${change >= 0 ? '+' : ''}${formatWithCommas(change, 0)} since ${competitiveFilters.startYear}`}
+                              trend={change < 0 ? 'down' : 'up'}
+                            />
+                          </div>
+                        )
+                      })}
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+                      <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[550px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
                         <div className="mb-4 pb-4 border-b border-gray-200 dark:border-navy-light">
                           <h3 className="text-lg font-bold text-electric-blue dark:text-cyan-accent mb-1">
-                            {entity.label}
+                            Share Trend, Top {competitiveFilters.topN}
                           </h3>
                           <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
-                            Toggle between Y-o-Y and CAGR views
+                            Share of market value by year
                           </p>
                         </div>
                         <div className="flex-1 flex items-center justify-center min-h-0 pt-2">
-                          <YoYCAGRChart
-                            data={entity.data}
+                          <LineChart
+                            data={competitiveLandscape.shareTrend}
+                            dataKeys={competitiveLandscape.topCompetitors}
+                            nameKey="year"
+                            colors={getChartColors(competitiveLandscape.topCompetitors.length)}
                             xAxisLabel="Year"
-                            yAxisLabel="Growth Rate (%)"
+                            yAxisLabel="Market Share (%)"
+                            focusDataRange
+                            formatValue={formatShare}
                           />
                         </div>
                       </div>
-                    ))}
+
+                      <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[550px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                        <div className="mb-4 pb-4 border-b border-gray-200 dark:border-navy-light">
+                          <h3 className="text-lg font-bold text-electric-blue dark:text-cyan-accent mb-1">
+                            Share Shift, {competitiveFilters.startYear} vs {competitiveFilters.year}
+                          </h3>
+                          <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
+                            Share of the top {competitiveFilters.topN} in {competitiveFilters.year}
+                          </p>
+                        </div>
+                        <div className="flex-1 flex items-center justify-center min-h-0 pt-2">
+                          <SegmentGroupedBarChart
+                            data={competitiveLandscape.shiftChart}
+                            segmentKeys={competitiveLandscape.topCompetitors}
+                            xAxisLabel="Year"
+                            yAxisLabel="Market Share (%)"
+                          />
+                        </div>
+                      </div>
+
+                      <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[550px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                        <div className="mb-4 pb-4 border-b border-gray-200 dark:border-navy-light">
+                          <h3 className="text-lg font-bold text-electric-blue dark:text-cyan-accent mb-1">
+                            Share by Region, {competitiveFilters.year}
+                          </h3>
+                          <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
+                            Regional HHI: {competitiveLandscape.regionShares.map(({ region, hhi }) => `${region} ${formatWithCommas(hhi, 0)}`).join(' · ')}
+                          </p>
+                        </div>
+                        <div className="flex-1 flex items-center justify-center min-h-0 pt-2">
+                          <CrossSegmentStackedBarChart
+                            data={competitiveLandscape.regionChart}
+                            dataKeys={competitiveLandscape.regionKeys}
+                            nameKey="region"
+                            xAxisLabel="Region"
+                            yAxisLabel="Market Share (%)"
+                          />
+                        </div>
+                      </div>
+
+                      <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[550px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                        <div className="mb-4 pb-4 border-b border-gray-200 dark:border-navy-light">
+                          <h3 className="text-lg font-bold text-electric-blue dark:text-cyan-accent mb-1">
+                            Market Concentration (HHI)
+                          </h3>
+                          <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
+                            Herfindahl-Hirschman index by year, brands and companies
+                          </p>
+                        </div>
+                        <div className="flex-1 flex items-center justify-center min-h-0 pt-2">
+                          <LineChart
+                            data={hhiTrend}
+                            dataKeys={['Brand HHI', 'Company HHI']}
+                            nameKey="year"
+                            xAxisLabel="Year"
+                            yAxisLabel="HHI"
+                            focusDataRange
+                            formatValue={(value) => formatWithCommas(value, 0)}
+                          />
+                        </div>
+                      </div>
+                    </div>
+
+                    {/* Top-N Rankings */}
+                    <div className={`p-5 rounded-xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                      <h3 className="text-base font-bold text-electric-blue dark:text-cyan-accent mb-3 pb-3 border-b border-gray-200 dark:border-navy-light">
+                        {competitorLabels[competitiveFilters.competitor]} Rankings, {competitiveFilters.year}
+                      </h3>
+                      <div className="max-h-96 overflow-y-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-text-secondary-light dark:text-text-secondary-dark">
+                              <th className="py-2 pr-2 font-semibold">Rank</th>
+                              <th className="py-2 px-2 font-semibold">{competitorLabels[competitiveFilters.competitor]}</th>
+                              <th className="py-2 px-2 font-semibold text-right">Market Value (US$ Mn)</th>
+                              <th className="py-2 px-2 font-semibold text-right">Share</th>
+                              <th className="py-2 px-2 font-semibold text-right" title="Average market share reported on the data rows">Reported Share</th>
+                              <th className="py-2 px-2 font-semibold text-right">Shift since {competitiveFilters.startYear}</th>
+                              <th className="py-2 pl-2 font-semibold text-right">Rank in {competitiveFilters.startYear}</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {competitiveLandscape.focus.competitors.slice(0, competitiveFilters.topN).map((item, index) => {
+                              const shift = competitiveLandscape.shift.find(entry => entry.competitor === item.competitor)
+                              return (
+                                <tr key={item.competitor} className="border-t border-gray-100 dark:border-navy-light text-text-primary-light dark:text-text-primary-dark">
+                                  <td className="py-2 pr-2 font-semibold">{index + 1}</td>
+                                  <td className="py-2 px-2">{item.competitor}</td>
+                                  <td className="py-2 px-2 text-right">{formatWithCommas(item.value, 1)}</td>
+                                  <td className="py-2 px-2 text-right font-semibold">{formatShare(item.share)}</td>
+                                  <td className="py-2 px-2 text-right">{formatShare(item.reportedShare)}</td>
+                                  <td className={`py-2 px-2 text-right font-semibold ${shift && shift.shift < 0 ? 'text-error' : 'text-success'}`}>
+                                    {shift ? `${shift.shift >= 0 ? '+' : ''}${formatWithCommas(shift.shift, 2)} pp` : '—'}
+                                  </td>
+                                  <td className="py-2 pl-2 text-right">{shift?.startRank ?? '—'}</td>
+                                </tr>
+                              )
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+            </>
+          )}
+
+          {/* Pricing Tab */}
+          {activeTab === 'pricing' && (
+            <>
+              {/* Filters Section for Pricing Tab */}
+              <div className={`p-8 rounded-2xl mb-8 shadow-xl ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-300'} relative`} style={{ overflow: 'visible' }}>
+                <div className="mb-6">
+                  <div className="flex items-center gap-3 mb-2">
+                    <div className={`w-1 h-8 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                    <h3 className="text-2xl font-bold text-text-primary-light dark:text-text-primary-dark">
+                      Filter Data
+                    </h3>
+                  </div>
+                  <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4">
+                    Choose the segment for the price trend and the year for price bands and elasticity.
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                  <FilterDropdown
+                    label="ASP By"
+                    value={pricingFilters.dimension}
+                    onChange={(value) => value && setPricingFilters({ ...pricingFilters, dimension: value as PricingDimension })}
+                    options={Object.keys(pricingDimensions)}
+                    optionLabels={pricingDimensions}
+                    multiple={false}
+                  />
+                  <FilterDropdown
+                    label="Year"
+                    value={pricingFilters.year}
+                    onChange={(value) => value && setPricingFilters({ ...pricingFilters, year: Number(value) })}
+                    options={uniqueOptions.years}
+                    multiple={false}
+                  />
+                  <FilterDropdown
+                    label="By Region"
+                    value={pricingFilters.region}
+                    onChange={(value) => setPricingFilters({ ...pricingFilters, region: value as string[] })}
+                    options={incrementalFilterOptions.regions}
+                  />
+                  <HierarchicalFilterDropdown
+                    label="By Product Type"
+                    value={pricingFilters.productType}
+                    onChange={(value) => setPricingFilters({ ...pricingFilters, productType: value })}
+                    hierarchy={uniqueOptions.productHierarchy}
+                  />
+                </div>
+              </div>
+
+              <div className="mb-20">
+                <div className="mb-8">
+                  <div className="flex items-center gap-3 mb-3">
+                    <div className={`w-1 h-10 rounded-full ${isDark ? 'bg-cyan-accent' : 'bg-electric-blue'}`}></div>
+                    <InfoTooltip content={`• ASP: average selling price, revenue divided by units sold\n• Price bands: ${PRICE_BANDS.join(' / ')} positioning of each product\n• Implied elasticity: slope of log units on log price across sub-category, state, material and price band cells in ${pricingFilters.year}\n• Below -1: elastic; -1 to 0: inelastic; above 0: volume rises with price`}>
+                      <h2 className="text-3xl font-bold text-text-primary-light dark:text-text-primary-dark cursor-help">
+                        Pricing Analysis, {pricingFilters.year}
+                      </h2>
+                    </InfoTooltip>
+                  </div>
+                  <p className="text-base text-text-secondary-light dark:text-text-secondary-dark ml-4 mb-2">
+                    Average selling prices, price band mix and how volume responds to price
+                  </p>
+                </div>
+
+                {pricingAnalysis && pricingAnalysis.asp !== null && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                    <div className={`p-7 rounded-2xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                      <StatBox
+                        title={formatPrice(pricingAnalysis.asp)}
+                        subtitle={`Average Selling Price, ${pricingFilters.year}`}
+                        increase={pricingAnalysis.previousAsp
+                          ? `${pricingAnalysis.asp >= pricingAnalysis.previousAsp ? '+' : ''}${formatWithCommas((pricingAnalysis.asp / pricingAnalysis.previousAsp - 1) * 100, 1)}% vs ${pricingFilters.year - 1}`
+                          : undefined}
+                        trend={pricingAnalysis.previousAsp && pricingAnalysis.asp < pricingAnalysis.previousAsp ? 'down' : 'up'}
+                      />
+                    </div>
+                    {pricingAnalysis.bands.length > 1 && (
+                      <div className={`p-7 rounded-2xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                        <StatBox
+                          title={`${formatWithCommas(pricingAnalysis.bands[pricingAnalysis.bands.length - 1].asp / pricingAnalysis.bands[0].asp, 2)}x`}
+                          subtitle={`${pricingAnalysis.bands[pricingAnalysis.bands.length - 1].band} ASP over ${pricingAnalysis.bands[0].band}`}
+                          increase={`${formatPrice(pricingAnalysis.bands[pricingAnalysis.bands.length - 1].asp)} vs ${formatPrice(pricingAnalysis.bands[0].asp)}`}
+                        />
+                      </div>
+                    )}
+                    {pricingAnalysis.elasticities.length > 0 && (
+                      <div className={`p-7 rounded-2xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                        <StatBox
+                          title={pricingAnalysis.elasticities[0].category}
+                          subtitle="Most Price-Sensitive Category"
+                          increase={`Elasticity ${formatWithCommas(pricingAnalysis.elasticities[0].elasticity, 2)}`}
+                          trend={pricingAnalysis.elasticities[0].elasticity < 0 ? 'down' : 'up'}
+                        />
+                      </div>
+                    )}
                   </div>
                 )}
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+                  <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[550px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                    <div className="mb-4 pb-4 border-b border-gray-200 dark:border-navy-light">
+                      <h3 className="text-lg font-bold text-electric-blue dark:text-cyan-accent mb-1">
+                        Average Selling Price by {pricingDimensions[pricingFilters.dimension]}
+                      </h3>
+                      <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
+                        Revenue per unit by year, US$
+                      </p>
+                    </div>
+                    <div className="flex-1 flex items-center justify-center min-h-0 pt-2">
+                      <LineChart
+                        data={aspChart}
+                        dataKeys={aspSeries.map(series => series.segment)}
+                        nameKey="year"
+                        colors={getChartColors(aspSeries.length)}
+                        xAxisLabel="Year"
+                        yAxisLabel="ASP (US$ / unit)"
+                        focusDataRange
+                        formatValue={formatPrice}
+                      />
+                    </div>
+                  </div>
+
+                  <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[550px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                    <div className="mb-4 pb-4 border-b border-gray-200 dark:border-navy-light">
+                      <h3 className="text-lg font-bold text-electric-blue dark:text-cyan-accent mb-1">
+                        Price Distribution by Band, {pricingFilters.year}
+                      </h3>
+                      <p className="text-sm text-text-secondary-light dark:text-text-secondary-dark">
+                        Units sold at each unit price
+                      </p>
+                    </div>
+                    <div className="flex-1 flex items-center justify-center min-h-0 pt-2">
+                      <CrossSegmentStackedBarChart
+                        data={pricingAnalysis?.histogram ?? []}
+                        dataKeys={pricingAnalysis?.bands.map(band => band.band) ?? []}
+                        nameKey="range"
+                        xAxisLabel="Unit Price (US$)"
+                        yAxisLabel="Units Sold"
+                      />
+                    </div>
+                  </div>
+
+                  <div className={`p-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 h-[550px] flex flex-col ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                    <div className="mb-4 pb-4 border-b border-gray-200 dark:border-navy-light">
+                      <h3 className="text-lg font-bold text-electric-blue dark:text-cyan-accent mb-1">
+                        Price vs Volume, {pricingFilters.year}
+                      </h3>
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-text-secondary-light dark:text-text-secondary-dark">
+                        {pricingAnalysis?.categoryLegend.map(({ category, color }) => (
+                          <span key={category} className="flex items-center gap-1.5">
+                            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} />
+                            {category}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex-1 flex items-center justify-center min-h-0 pt-2">
+                      <ScatterChart
+                        data={pricingAnalysis?.points ?? []}
+                        xDataKey="asp"
+                        yDataKey="volume"
+                        nameKey="name"
+                        xAxisLabel="ASP (US$ / unit)"
+                        yAxisLabel="Units Sold"
+                        colors={pricingAnalysis?.pointColors}
+                      />
+                    </div>
+                  </div>
+
+                  <div className={`p-5 rounded-xl shadow-lg ${isDark ? 'bg-navy-card border-2 border-navy-light' : 'bg-white border-2 border-gray-200'}`}>
+                    <h3 className="text-base font-bold text-electric-blue dark:text-cyan-accent mb-3 pb-3 border-b border-gray-200 dark:border-navy-light">
+                      Price Bands, {pricingFilters.year}
+                    </h3>
+                    <table className="w-full text-sm mb-6">
+                      <thead>
+                        <tr className="text-left text-text-secondary-light dark:text-text-secondary-dark">
+                          <th className="py-2 pr-2 font-semibold">Band</th>
+                          <th className="py-2 px-2 font-semibold text-right">ASP</th>
+                          <th className="py-2 px-2 font-semibold text-right">Price Range</th>
+                          <th className="py-2 px-2 font-semibold text-right">Volume Share</th>
+                          <th className="py-2 pl-2 font-semibold text-right">Revenue Share</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {pricingAnalysis?.bands.map(band => (
+                          <tr key={band.band} className="border-t border-gray-100 dark:border-navy-light text-text-primary-light dark:text-text-primary-dark">
+                            <td className="py-2 pr-2 font-semibold">{band.band}</td>
+                            <td className="py-2 px-2 text-right">{formatPrice(band.asp)}</td>
+                            <td className="py-2 px-2 text-right">{formatPrice(band.minPrice)}–{formatPrice(band.maxPrice)}</td>
+                            <td className="py-2 px-2 text-right">{formatWithCommas(band.volumeShare, 1)}%</td>
+                            <td className="py-2 pl-2 text-right">{formatWithCommas(band.revenueShare, 1)}%</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+
+                    <h3 className="text-base font-bold text-electric-blue dark:text-cyan-accent mb-3 pb-3 border-b border-gray-200 dark:border-navy-light">
+                      Implied Price Elasticity, {pricingFilters.year}
+                    </h3>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-text-secondary-light dark:text-text-secondary-dark">
+                          <th className="py-2 pr-2 font-semibold">Product Category</th>
+                          <th className="py-2 px-2 font-semibold text-right">Elasticity</th>
+                          <th className="py-2 px-2 font-semibold text-right" title="Share of the variation in log units explained by log price">R²</th>
+                          <th className="py-2 px-2 font-semibold text-right">Cells</th>
+                          <th className="py-2 pl-2 font-semibold">Reading</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {pricingAnalysis?.elasticities.map(estimate => (
+                          <tr key={estimate.category} className="border-t border-gray-100 dark:border-navy-light text-text-primary-light dark:text-text-primary-dark">
+                            <td className="py-2 pr-2">{estimate.category}</td>
+                            <td className="py-2 px-2 text-right font-semibold">{formatWithCommas(estimate.elasticity, 2)}</td>
+                            <td className="py-2 px-2 text-right">{estimate.rSquared.toFixed(2)}</td>
+                            <td className="py-2 px-2 text-right">{formatWithCommas(estimate.observations, 0)}</td>
+                            <td className="py-2 pl-2">{classifyElasticity(estimate.elasticity)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
               </div>
             </>
           )}
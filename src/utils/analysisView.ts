@@ -0,0 +1,209 @@
+import { competitorLabels, type CompetitorKey } from './competitiveLandscape'
+import { CONFIDENCE_LEVELS, LAST_ACTUAL_YEAR, forecasters, type ConfidenceLevel, type ForecastModel } from './forecasting'
+import { growthEntityLabels, type GrowthEntityKey } from './growthAnalytics'
+import { opportunityBreakdowns, type OpportunityBreakdown } from './incrementalOpportunity'
+import { attractivenessDimensions, type AttractivenessDimension } from './marketAttractiveness'
+import { marketDefinition } from './marketDefinition'
+import { pricingDimensions, type PricingDimension } from './pricing'
+import {
+  marketAnalysisPath,
+  navigateTo,
+  parseLocation,
+  readQuery,
+  toMarketAnalysisTab,
+  writeQuery,
+  type MarketAnalysisTab,
+} from './routing'
+
+export const MARKET_EVALUATION_TYPES = ['By Value', 'By Volume'] as const
+
+export type MarketEvaluationType = typeof MARKET_EVALUATION_TYPES[number]
+
+export const marketAnalysisTabLabels: Record<MarketAnalysisTab, string> = {
+  standard: 'Market Size',
+  incremental: 'Incremental Opportunity',
+  attractiveness: 'Market Attractiveness',
+  yoy: 'Y-o-Y / CAGR Analysis',
+  forecast: 'Forecast',
+  sensitivity: 'Sensitivity',
+  competitive: 'Competitive Landscape',
+  pricing: 'Pricing',
+}
+
+// Each tab's filters before any are changed; the URL records only the differences
+export const defaultFilters = {
+  year: [] as number[],
+  region: [] as string[],
+  country: [] as string[], // Using for region
+  productCategory: [] as string[],
+  subProductCategory: [] as string[],
+  productType: [] as string[], // Kept for backward compatibility
+  technology: [] as string[],
+  bladeType: [] as string[],
+  priceRange: [] as string[],
+  bladeMaterial: [] as string[],
+  handleLength: [] as string[],
+  application: [] as string[],
+  endUser: [] as string[], // Using for profession
+  distributionChannelType: [] as string[], // Using for sales channel
+  distributionChannel: [] as string[],
+  marketEvaluation: 'By Value' as MarketEvaluationType,
+}
+
+export const defaultIncrementalFilters = {
+  region: [] as string[],
+  productType: [] as string[],
+  country: [] as string[],
+  // Window and segment breakdown of the opportunity
+  baseYear: LAST_ACTUAL_YEAR,
+  endYear: marketDefinition.years.outlookEnd,
+  breakdown: 'productCategory' as OpportunityBreakdown,
+}
+
+export const defaultAttractivenessFilters = {
+  region: [] as string[],
+  productType: [] as string[],
+  country: [] as string[],
+  dimension: 'productCategory' as AttractivenessDimension,
+  startYear: LAST_ACTUAL_YEAR + 1,
+  endYear: marketDefinition.years.outlookEnd,
+}
+
+export const defaultYoyFilters = {
+  region: [] as string[],
+  productType: [] as string[],
+  groupBy: 'region' as GrowthEntityKey,
+  entities: [] as string[],
+  startYear: LAST_ACTUAL_YEAR,
+  endYear: marketDefinition.years.outlookEnd,
+}
+
+export const defaultSensitivityFilters = {
+  region: [] as string[],
+  productType: [] as string[],
+  year: marketDefinition.years.outlookEnd,
+  uncertainty: 0.2,
+  iterations: 5000,
+}
+
+export const defaultCompetitiveFilters = {
+  region: [] as string[],
+  productType: [] as string[],
+  brand: [] as string[],
+  company: [] as string[],
+  competitor: 'brand' as CompetitorKey,
+  startYear: LAST_ACTUAL_YEAR,
+  year: marketDefinition.years.outlookEnd,
+  topN: 5,
+}
+
+export const defaultPricingFilters = {
+  region: [] as string[],
+  productType: [] as string[],
+  dimension: 'productCategory' as PricingDimension,
+  year: LAST_ACTUAL_YEAR,
+}
+
+export const defaultForecastFilters = {
+  region: [] as string[],
+  productType: [] as string[],
+  model: 'logLinear' as ForecastModel,
+  lastActualYear: LAST_ACTUAL_YEAR,
+  endYear: marketDefinition.years.last,
+  confidence: 0.95 as ConfidenceLevel,
+}
+
+/**
+ * Everything that sets up what the market analysis page shows: the tab,
+ * every tab's filters and, in `filters.marketEvaluation`, the measure.
+ */
+export interface AnalysisView {
+  tab: MarketAnalysisTab
+  filters: typeof defaultFilters
+  incrementalFilters: typeof defaultIncrementalFilters
+  attractivenessFilters: typeof defaultAttractivenessFilters
+  yoyFilters: typeof defaultYoyFilters
+  forecastFilters: typeof defaultForecastFilters
+  sensitivityFilters: typeof defaultSensitivityFilters
+  competitiveFilters: typeof defaultCompetitiveFilters
+  pricingFilters: typeof defaultPricingFilters
+}
+
+export const defaultView: AnalysisView = {
+  tab: 'standard',
+  filters: defaultFilters,
+  incrementalFilters: defaultIncrementalFilters,
+  attractivenessFilters: defaultAttractivenessFilters,
+  yoyFilters: defaultYoyFilters,
+  forecastFilters: defaultForecastFilters,
+  sensitivityFilters: defaultSensitivityFilters,
+  competitiveFilters: defaultCompetitiveFilters,
+  pricingFilters: defaultPricingFilters,
+}
+
+// Values the fixed-choice fields may take; the charts can't handle any other
+export const allowedViewValues = {
+  filters: { marketEvaluation: MARKET_EVALUATION_TYPES },
+  incrementalFilters: { breakdown: Object.keys(opportunityBreakdowns) },
+  attractivenessFilters: { dimension: Object.keys(attractivenessDimensions) },
+  yoyFilters: { groupBy: Object.keys(growthEntityLabels) },
+  forecastFilters: { model: Object.keys(forecasters), confidence: CONFIDENCE_LEVELS },
+  competitiveFilters: { competitor: Object.keys(competitorLabels) },
+  pricingFilters: { dimension: Object.keys(pricingDimensions) },
+}
+
+// The query string of a view, one parameter prefix per tab
+export function viewQuery(view: AnalysisView): URLSearchParams {
+  const query = new URLSearchParams()
+  writeQuery(query, '', view.filters, defaultFilters)
+  writeQuery(query, 'incremental', view.incrementalFilters, defaultIncrementalFilters)
+  writeQuery(query, 'attractiveness', view.attractivenessFilters, defaultAttractivenessFilters)
+  writeQuery(query, 'yoy', view.yoyFilters, defaultYoyFilters)
+  writeQuery(query, 'forecast', view.forecastFilters, defaultForecastFilters)
+  writeQuery(query, 'sensitivity', view.sensitivityFilters, defaultSensitivityFilters)
+  writeQuery(query, 'competitive', view.competitiveFilters, defaultCompetitiveFilters)
+  writeQuery(query, 'pricing', view.pricingFilters, defaultPricingFilters)
+  return query
+}
+
+export function viewFromQuery(tab: MarketAnalysisTab, query: URLSearchParams): AnalysisView {
+  return {
+    tab,
+    filters: readQuery(query, '', defaultFilters, { numberLists: ['year'], allowed: allowedViewValues.filters }),
+    incrementalFilters: readQuery(query, 'incremental', defaultIncrementalFilters, { allowed: allowedViewValues.incrementalFilters }),
+    attractivenessFilters: readQuery(query, 'attractiveness', defaultAttractivenessFilters, { allowed: allowedViewValues.attractivenessFilters }),
+    yoyFilters: readQuery(query, 'yoy', defaultYoyFilters, { allowed: allowedViewValues.yoyFilters }),
+    forecastFilters: readQuery(query, 'forecast', defaultForecastFilters, { allowed: allowedViewValues.forecastFilters }),
+    sensitivityFilters: readQuery(query, 'sensitivity', defaultSensitivityFilters),
+    competitiveFilters: readQuery(query, 'competitive', defaultCompetitiveFilters, { allowed: allowedViewValues.competitiveFilters }),
+    pricingFilters: readQuery(query, 'pricing', defaultPricingFilters, { allowed: allowedViewValues.pricingFilters }),
+  }
+}
+
+// The view the address bar describes, or null off the market analysis page
+export function viewFromLocation(): AnalysisView | null {
+  const { page, section, query } = parseLocation()
+  return page === 'MarketAnalysis' ? viewFromQuery(toMarketAnalysisTab(section), query) : null
+}
+
+// Shows a view, switching to the market analysis page if needed
+export const openView = (view: AnalysisView) => navigateTo(marketAnalysisPath(view.tab), viewQuery(view))
+
+/**
+ * A view read from outside the app, e.g. an imported file. Missing fields
+ * take their defaults; the rest goes through the query string codec, so
+ * mistyped values end up typed like the defaults and fixed-choice fields
+ * holding anything but their allowed values fall back to them.
+ */
+export function normalizeView(value: unknown): AnalysisView {
+  const raw = (value ?? {}) as Partial<Record<keyof AnalysisView, unknown>>
+  const merged = { ...defaultView }
+  ;(Object.keys(defaultView) as (keyof AnalysisView)[]).forEach(key => {
+    if (key === 'tab') return
+    const set = raw[key]
+    if (set && typeof set === 'object') {
+      Object.assign(merged, { [key]: { ...defaultView[key], ...set } })
+    }
+  })
+  return viewFromQuery(toMarketAnalysisTab(typeof raw.tab === 'string' ? raw.tab : null), viewQuery(merged))
+}
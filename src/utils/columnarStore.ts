@@ -0,0 +1,237 @@
+import type { DataSummary, ShovelMarketData } from './dataGenerator'
+
+export const DIMENSION_KEYS = [
+  'year',
+  'region',
+  'country',
+  'productCategory',
+  'subProductCategory',
+  'productType',
+  'bladeMaterial',
+  'handleLength',
+  'application',
+  'endUser',
+  'distributionChannelType',
+  'distributionChannel',
+  'brand',
+  'company',
+] as const
+
+export const MEASURE_KEYS = [
+  'price',
+  'volumeUnits',
+  'qty',
+  'revenue',
+  'marketValueUsd',
+  'marketSharePct',
+  'cagr',
+  'yoyGrowth',
+] as const
+
+export type DimensionKey = typeof DIMENSION_KEYS[number]
+export type MeasureKey = typeof MEASURE_KEYS[number]
+export type DimensionValue = string | number
+
+export interface DimensionColumn {
+  // Dictionary index of every row's value
+  codes: Uint16Array
+  dictionary: DimensionValue[]
+}
+
+/**
+ * Column-oriented copy of `ShovelMarketData`. It holds only typed arrays and
+ * plain dictionaries, so it can be transferred from the data worker without
+ * copying.
+ */
+export interface ColumnarStore {
+  rowCount: number
+  recordIds: Int32Array
+  dimensions: Record<DimensionKey, DimensionColumn>
+  measures: Record<MeasureKey, Float64Array>
+}
+
+// One bit per row, packed into 32-bit words
+export type Bitmap = Uint32Array
+
+const MAX_DICTIONARY_SIZE = 0xFFFF
+
+export function buildColumnarStore(rows: ShovelMarketData[]): ColumnarStore {
+  const rowCount = rows.length
+  const recordIds = new Int32Array(rowCount)
+  const dimensions = {} as Record<DimensionKey, DimensionColumn>
+  const lookups = {} as Record<DimensionKey, Map<DimensionValue, number>>
+  const measures = {} as Record<MeasureKey, Float64Array>
+
+  DIMENSION_KEYS.forEach(key => {
+    dimensions[key] = { codes: new Uint16Array(rowCount), dictionary: [] }
+    lookups[key] = new Map()
+  })
+  MEASURE_KEYS.forEach(key => {
+    measures[key] = new Float64Array(rowCount)
+  })
+
+  for (let row = 0; row < rowCount; row++) {
+    const record = rows[row]
+    recordIds[row] = record.recordId
+
+    for (let d = 0; d < DIMENSION_KEYS.length; d++) {
+      const key = DIMENSION_KEYS[d]
+      const value = record[key] ?? ''
+      const lookup = lookups[key]
+      let code = lookup.get(value)
+      if (code === undefined) {
+        code = dimensions[key].dictionary.length
+        if (code > MAX_DICTIONARY_SIZE) {
+          throw new Error(`Too many distinct values in "${key}" for a dictionary-encoded column`)
+        }
+        dimensions[key].dictionary.push(value)
+        lookup.set(value, code)
+      }
+      dimensions[key].codes[row] = code
+    }
+
+    for (let m = 0; m < MEASURE_KEYS.length; m++) {
+      const key = MEASURE_KEYS[m]
+      measures[key][row] = record[key] || 0
+    }
+  }
+
+  return { rowCount, recordIds, dimensions, measures }
+}
+
+// Buffers to pass as the transfer list when posting a store between threads
+export function getTransferables(store: ColumnarStore): ArrayBuffer[] {
+  return [
+    store.recordIds.buffer as ArrayBuffer,
+    ...DIMENSION_KEYS.map(key => store.dimensions[key].codes.buffer as ArrayBuffer),
+    ...MEASURE_KEYS.map(key => store.measures[key].buffer as ArrayBuffer),
+  ]
+}
+
+// Distinct values of each filterable field, read from the dictionaries
+export function summarizeStore(store: ColumnarStore): DataSummary {
+  const values = (key: DimensionKey) =>
+    (store.dimensions[key].dictionary as string[]).filter(Boolean).sort()
+
+  return {
+    years: (store.dimensions.year.dictionary as number[]).slice().sort((a, b) => a - b),
+    regions: values('region'),
+    productCategories: values('productCategory'),
+    subProductCategories: values('subProductCategory'),
+    productTypes: values('productType'),
+    bladeMaterials: values('bladeMaterial'),
+    handleLengths: values('handleLength'),
+    applications: values('application'),
+    endUsers: values('endUser'),
+    distributionChannelTypes: values('distributionChannelType'),
+  }
+}
+
+export function createBitmap(rowCount: number, fill = false): Bitmap {
+  const bitmap = new Uint32Array(Math.ceil(rowCount / 32))
+  if (fill && bitmap.length > 0) {
+    bitmap.fill(0xFFFFFFFF)
+    // Clear the bits past the last row
+    const tail = rowCount % 32
+    if (tail) bitmap[bitmap.length - 1] = (1 << tail) - 1
+  }
+  return bitmap
+}
+
+export function bitmapAnd(a: Bitmap, b: Bitmap): Bitmap {
+  const result = new Uint32Array(a.length)
+  for (let i = 0; i < a.length; i++) result[i] = a[i] & b[i]
+  return result
+}
+
+export function bitmapOr(a: Bitmap, b: Bitmap): Bitmap {
+  const result = new Uint32Array(a.length)
+  for (let i = 0; i < a.length; i++) result[i] = a[i] | b[i]
+  return result
+}
+
+const popcount = (word: number): number => {
+  word = word - ((word >>> 1) & 0x55555555)
+  word = (word & 0x33333333) + ((word >>> 2) & 0x33333333)
+  return (((word + (word >>> 4)) & 0x0F0F0F0F) * 0x01010101) >>> 24
+}
+
+export function bitmapCount(bitmap: Bitmap): number {
+  let count = 0
+  for (let i = 0; i < bitmap.length; i++) {
+    if (bitmap[i]) count += popcount(bitmap[i])
+  }
+  return count
+}
+
+export function forEachRow(bitmap: Bitmap, callback: (row: number) => void) {
+  for (let i = 0; i < bitmap.length; i++) {
+    let word = bitmap[i]
+    while (word) {
+      const bit = 31 - Math.clz32(word & -word)
+      callback(i * 32 + bit)
+      word &= word - 1
+    }
+  }
+}
+
+// Bitmap per dictionary code, built on first use of a dimension
+const dimensionIndexes = new WeakMap<DimensionColumn, Bitmap[]>()
+
+function getDimensionIndex(store: ColumnarStore, key: DimensionKey): Bitmap[] {
+  const column = store.dimensions[key]
+  let index = dimensionIndexes.get(column)
+  if (!index) {
+    index = column.dictionary.map(() => createBitmap(store.rowCount))
+    const { codes } = column
+    for (let row = 0; row < store.rowCount; row++) {
+      index[codes[row]][row >>> 5] |= 1 << (row & 31)
+    }
+    dimensionIndexes.set(column, index)
+  }
+  return index
+}
+
+export function selectAll(store: ColumnarStore): Bitmap {
+  return createBitmap(store.rowCount, true)
+}
+
+/**
+ * Rows whose value for `key` passes `test`. The test runs once per distinct
+ * value, not once per row.
+ */
+export function selectWhere(store: ColumnarStore, key: DimensionKey, test: (value: DimensionValue) => boolean): Bitmap {
+  const index = getDimensionIndex(store, key)
+  const result = createBitmap(store.rowCount)
+  store.dimensions[key].dictionary.forEach((value, code) => {
+    if (!test(value)) return
+    const bitmap = index[code]
+    for (let i = 0; i < result.length; i++) result[i] |= bitmap[i]
+  })
+  return result
+}
+
+export function selectIn(store: ColumnarStore, key: DimensionKey, values: DimensionValue[]): Bitmap {
+  const wanted = new Set(values)
+  return selectWhere(store, key, value => wanted.has(value))
+}
+
+export function getDimensionValue(store: ColumnarStore, key: DimensionKey, row: number): DimensionValue {
+  const column = store.dimensions[key]
+  return column.dictionary[column.codes[row]]
+}
+
+/**
+ * Distinct values of a dimension among the selected rows (all rows when no
+ * selection is given), in dictionary order.
+ */
+export function distinctValues(store: ColumnarStore, key: DimensionKey, selection?: Bitmap): DimensionValue[] {
+  const column = store.dimensions[key]
+  if (!selection) return column.dictionary.slice()
+
+  const seen = new Uint8Array(column.dictionary.length)
+  forEachRow(selection, row => {
+    seen[column.codes[row]] = 1
+  })
+  return column.dictionary.filter((_, code) => seen[code])
+}
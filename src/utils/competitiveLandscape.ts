@@ -0,0 +1,161 @@
+import type { Bitmap, ColumnarStore } from './columnarStore'
+import { query } from './marketQuery'
+
+export type CompetitorKey = 'brand' | 'company'
+
+export const competitorLabels: Record<CompetitorKey, string> = {
+  brand: 'Brand',
+  company: 'Company',
+}
+
+export type ConcentrationLevel = 'Unconcentrated' | 'Moderately Concentrated' | 'Highly Concentrated'
+
+// HHI bands of the 2023 US Merger Guidelines
+export const HHI_THRESHOLDS = { moderate: 1000, high: 1800 }
+
+export interface CompetitorShare {
+  competitor: string
+  // US$ Mn
+  value: number
+  // Percent of the selection's market value
+  share: number
+  // Average of the rows' reported marketSharePct
+  reportedShare: number
+}
+
+export interface ShareSnapshot {
+  year: number
+  // US$ Mn
+  total: number
+  // Largest share first
+  competitors: CompetitorShare[]
+  hhi: number
+}
+
+export interface RegionShare {
+  region: string
+  competitors: CompetitorShare[]
+  hhi: number
+}
+
+export interface ShareShift {
+  competitor: string
+  startShare: number
+  endShare: number
+  // Percentage points
+  shift: number
+  startRank: number | null
+  endRank: number | null
+}
+
+/**
+ * Herfindahl-Hirschman index: the sum of squared percent shares, from near 0
+ * for a fragmented market to 10,000 for a monopoly.
+ */
+export function herfindahl(shares: number[]): number {
+  return shares.reduce((sum, share) => sum + share * share, 0)
+}
+
+export function concentrationLevel(hhi: number): ConcentrationLevel {
+  if (hhi > HHI_THRESHOLDS.high) return 'Highly Concentrated'
+  if (hhi >= HHI_THRESHOLDS.moderate) return 'Moderately Concentrated'
+  return 'Unconcentrated'
+}
+
+type ShareRow = { competitor: string; value: number; reportedShare: number }
+
+const toShares = (rows: ShareRow[]): { competitors: CompetitorShare[]; total: number; hhi: number } => {
+  const total = rows.reduce((sum, row) => sum + row.value, 0)
+  const competitors = rows
+    .map(row => ({ ...row, share: total > 0 ? (row.value / total) * 100 : 0 }))
+    .sort((a, b) => b.value - a.value)
+  return { competitors, total, hhi: herfindahl(competitors.map(item => item.share)) }
+}
+
+// Rows of one group, keyed by the group's value
+const groupShareRows = (
+  rows: Array<Record<string, string | number>>,
+  groupKey: 'year' | 'region',
+  key: CompetitorKey
+) => {
+  const byGroup = new Map<string | number, ShareRow[]>()
+  rows.forEach(row => {
+    const competitor = String(row[key])
+    if (!competitor) return
+    const group = row[groupKey]
+    if (!byGroup.has(group)) byGroup.set(group, [])
+    byGroup.get(group)!.push({
+      competitor,
+      value: Number(row['sum(marketValueUsd)']) / 1000,
+      reportedShare: Number(row['avg(marketSharePct)']),
+    })
+  })
+  return byGroup
+}
+
+/**
+ * Each year's competitor shares of market value in the selection, oldest
+ * year first. Shares are of the selection, so they always total 100%.
+ */
+export function computeShareByYear(store: ColumnarStore, selection: Bitmap, key: CompetitorKey): ShareSnapshot[] {
+  const rows = query(store, {
+    where: selection,
+    groupBy: ['year', key],
+    measures: ['sum(marketValueUsd)', 'avg(marketSharePct)'],
+  })
+
+  return Array.from(groupShareRows(rows, 'year', key).entries())
+    .map(([year, shareRows]) => ({ year: Number(year), ...toShares(shareRows) }))
+    .sort((a, b) => a.year - b.year)
+}
+
+// Competitor shares within each region for one year
+export function computeShareByRegion(
+  store: ColumnarStore,
+  selection: Bitmap,
+  key: CompetitorKey,
+  year: number
+): RegionShare[] {
+  const rows = query(store, {
+    where: selection,
+    filters: { year: [year] },
+    groupBy: ['region', key],
+    measures: ['sum(marketValueUsd)', 'avg(marketSharePct)'],
+  })
+
+  return Array.from(groupShareRows(rows, 'region', key).entries())
+    .map(([region, shareRows]) => {
+      const { competitors, hhi } = toShares(shareRows)
+      return { region: String(region), competitors, hhi }
+    })
+    .sort((a, b) => a.region.localeCompare(b.region))
+}
+
+/**
+ * Share gained or lost by each competitor between two snapshots, biggest
+ * gainer first. Competitors missing from a snapshot count as 0% there.
+ */
+export function computeShareShift(start: ShareSnapshot, end: ShareSnapshot): ShareShift[] {
+  const rankIn = (snapshot: ShareSnapshot, competitor: string) => {
+    const index = snapshot.competitors.findIndex(item => item.competitor === competitor)
+    return index === -1 ? null : index + 1
+  }
+  const shareIn = (snapshot: ShareSnapshot, competitor: string) =>
+    snapshot.competitors.find(item => item.competitor === competitor)?.share ?? 0
+
+  const competitors = new Set([...start.competitors, ...end.competitors].map(item => item.competitor))
+  return Array.from(competitors)
+    .map(competitor => {
+      const startShare = shareIn(start, competitor)
+      const endShare = shareIn(end, competitor)
+      return {
+        competitor,
+        startShare,
+        endShare,
+        shift: endShare - startShare,
+        startRank: rankIn(start, competitor),
+        endRank: rankIn(end, competitor),
+      }
+    })
+    .sort((a, b) => b.shift - a.shift)
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { readCSV, readCSVStream } from './csvReader'
+
+const utf8 = (text: string) => new TextEncoder().encode(text)
+
+const concat = (...parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  parts.reduce((offset, part) => {
+    bytes.set(part, offset)
+    return offset + part.length
+  }, 0)
+  return bytes
+}
+
+// A stream that hands out `bytes` in chunks of `size`
+const chunked = (bytes: Uint8Array, size: number) => new ReadableStream<Uint8Array>({
+  start(controller) {
+    for (let start = 0; start < bytes.length; start += size) {
+      controller.enqueue(bytes.slice(start, start + size))
+    }
+    controller.close()
+  },
+})
+
+// "Zoë,Köln" in Windows-1252
+const cp1252Row = new Uint8Array([0x5A, 0x6F, 0xEB, 0x2C, 0x4B, 0xF6, 0x6C, 0x6E, 0x0A])
+
+describe('readCSV decoding', () => {
+  it('reads UTF-8 with and without a BOM', async () => {
+    const plain = await readCSV(utf8('name,city\nJosé,München\n'))
+    expect(plain.rows).toEqual([['José', 'München']])
+    expect(plain.encoding).toBe('utf-8')
+    expect(plain.hadBOM).toBe(false)
+
+    const withBOM = await readCSV(concat(new Uint8Array([0xEF, 0xBB, 0xBF]), utf8('name,city\nJosé,München\n')))
+    expect(withBOM.headers).toEqual(['name', 'city'])
+    expect(withBOM.hadBOM).toBe(true)
+  })
+
+  it('keeps the UTF-8 before the first bad byte and decodes the rest as Windows-1252', async () => {
+    const head = utf8('name,city\nJosé,München\n')
+    const result = await readCSV(concat(head, cp1252Row))
+
+    expect(result.rows).toEqual([['José', 'München'], ['Zoë', 'Köln']])
+    expect(result.encoding).toBe('windows-1252')
+    expect(result.diagnostics).toEqual([{
+      row: 0,
+      line: 0,
+      severity: 'warning',
+      message: `Invalid UTF-8 at byte ${head.length + 2}; decoded as Windows-1252 from there on`,
+    }])
+  })
+
+  it('counts the BOM in the reported byte offset', async () => {
+    const head = concat(new Uint8Array([0xEF, 0xBB, 0xBF]), utf8('name,city\n'))
+    const result = await readCSV(concat(head, cp1252Row))
+
+    expect(result.rows).toEqual([['Zoë', 'Köln']])
+    expect(result.diagnostics[0].message).toContain(`at byte ${head.length + 2}`)
+  })
+
+  it('decodes the same way whatever the chunk size', async () => {
+    const bytes = concat(utf8('name,city\nJosé,München\n€uro,Zürich\n'), cp1252Row)
+    const whole = await readCSV(bytes)
+
+    for (const size of [1, 2, 3, 5, 7]) {
+      const streamed = await readCSVStream(chunked(bytes, size))
+      expect(streamed.rows).toEqual(whole.rows)
+      expect(streamed.diagnostics).toEqual(whole.diagnostics)
+    }
+  })
+
+  it('does not split a multi-byte character across chunks', async () => {
+    const result = await readCSVStream(chunked(utf8('name\n€\n😀\n'), 1))
+    expect(result.rows).toEqual([['€'], ['😀']])
+    expect(result.encoding).toBe('utf-8')
+    expect(result.diagnostics).toEqual([])
+  })
+
+  it('treats overlong encodings and surrogates as invalid UTF-8', async () => {
+    const overlong = await readCSV(concat(utf8('name\n'), new Uint8Array([0xC0, 0xAF, 0x0A])))
+    expect(overlong.encoding).toBe('windows-1252')
+    expect(overlong.diagnostics[0].message).toContain('at byte 5')
+
+    const surrogate = await readCSV(concat(utf8('name\n'), new Uint8Array([0xED, 0xA0, 0x80, 0x0A])))
+    expect(surrogate.encoding).toBe('windows-1252')
+  })
+
+  it('repairs mojibake without reporting an encoding fallback', async () => {
+    const result = await readCSV(utf8('name\nA â€“ B\n'))
+    expect(result.rows).toEqual([['A – B']])
+    expect(result.diagnostics.map(diagnostic => diagnostic.message)).toEqual(['Repaired mis-encoded characters in 1 row'])
+  })
+})
@@ -0,0 +1,464 @@
+export type CsvDelimiter = ',' | ';' | '\t'
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252'
+
+export interface CsvDiagnostic {
+  // 1-based record number (the header is record 1) and the physical line it
+  // starts on; both are 0 for diagnostics about the file as a whole
+  row: number
+  line: number
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export interface CsvReadOptions {
+  // Detected from the header line when omitted
+  delimiter?: CsvDelimiter
+}
+
+export interface CsvReadResult {
+  headers: string[]
+  rows: string[][]
+  delimiter: CsvDelimiter
+  encoding: CsvEncoding
+  hadBOM: boolean
+  diagnostics: CsvDiagnostic[]
+}
+
+const DELIMITER_CANDIDATES: CsvDelimiter[] = [',', ';', '\t']
+
+// Windows-1252 characters in 0x80-0x9F that differ from Latin-1
+const CP1252_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85,
+  '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8A,
+  '‹': 0x8B, 'Œ': 0x8C, 'Ž': 0x8E, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+  '˜': 0x98, '™': 0x99, 'š': 0x9A, '›': 0x9B, 'œ': 0x9C,
+  'ž': 0x9E, 'Ÿ': 0x9F,
+}
+
+// A UTF-8 lead byte followed by 1-3 continuation bytes, as they appear after
+// being decoded as Windows-1252 (e.g. "â€“" for an en-dash)
+const MOJIBAKE_PATTERN = /[Â-ô][\u0080-¿ŒœŠšŸŽžƒˆ˜–—‘-„†-•…‰‹›€™]{1,3}/g
+
+const toCp1252Byte = (char: string): number | null => {
+  const code = char.charCodeAt(0)
+  if (code < 0x80 || (code > 0x9F && code < 0x100)) return code
+  if (char in CP1252_EXTRAS) return CP1252_EXTRAS[char]
+  // Bytes Windows-1252 leaves undefined decode to the matching C1 control
+  return [0x81, 0x8D, 0x8F, 0x90, 0x9D].includes(code) ? code : null
+}
+
+/**
+ * Repair text that was saved as UTF-8, read back as Windows-1252 and saved
+ * again, e.g. "â€“" → "–" and "â€™" → "’". Sequences that do not re-encode to
+ * valid UTF-8 are left untouched.
+ */
+export function repairMojibake(text: string): string {
+  if (!/[Â-ô]/.test(text)) return text
+  const decoder = new TextDecoder('utf-8', { fatal: true })
+
+  return text.replace(MOJIBAKE_PATTERN, (sequence) => {
+    const bytes: number[] = []
+    for (const char of sequence) {
+      const byte = toCp1252Byte(char)
+      if (byte === null) return sequence
+      bytes.push(byte)
+    }
+    try {
+      return decoder.decode(new Uint8Array(bytes))
+    } catch {
+      return sequence
+    }
+  })
+}
+
+/**
+ * Pick the delimiter that splits the header line into the most fields,
+ * ignoring delimiters inside quotes. Defaults to a comma.
+ */
+export function detectDelimiter(sample: string): CsvDelimiter {
+  const counts = new Map<CsvDelimiter, number>()
+  let inQuotes = false
+
+  for (const char of sample) {
+    if (char === '"') {
+      inQuotes = !inQuotes
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break
+    } else if (!inQuotes && DELIMITER_CANDIDATES.includes(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, (counts.get(char as CsvDelimiter) || 0) + 1)
+    }
+  }
+
+  let best: CsvDelimiter = ','
+  counts.forEach((count, delimiter) => {
+    if (count > (counts.get(best) || 0)) best = delimiter
+  })
+  return best
+}
+
+/**
+ * Byte-order marks are stripped and determine the encoding. Without a BOM the
+ * input is decoded as UTF-8, falling back to Windows-1252 once an invalid
+ * UTF-8 sequence is seen.
+ */
+function createDecoder(onFallback: (byteOffset: number) => void) {
+  let encoding: CsvEncoding | null = null
+  let hadBOM = false
+  let decoder: TextDecoder | null = null
+  let pending: Uint8Array = new Uint8Array(0)
+  let byteOffset = 0
+
+  // Number of trailing bytes that start an incomplete UTF-8 sequence
+  const incompleteTail = (bytes: Uint8Array): number => {
+    for (let back = 1; back <= Math.min(3, bytes.length); back++) {
+      const byte = bytes[bytes.length - back]
+      if ((byte & 0xC0) === 0x80) continue
+      const needed = byte >= 0xF0 ? 4 : byte >= 0xE0 ? 3 : byte >= 0xC0 ? 2 : 1
+      return needed > back ? back : 0
+    }
+    return 0
+  }
+
+  // Length of the longest prefix made of well-formed UTF-8 sequences
+  const validPrefix = (bytes: Uint8Array): number => {
+    let i = 0
+    while (i < bytes.length) {
+      const byte = bytes[i]
+      if (byte < 0x80) {
+        i++
+        continue
+      }
+      // Lead byte: sequence length and the allowed range of the second byte,
+      // which rules out overlong forms, surrogates and code points past U+10FFFF
+      let length = 0
+      let low = 0x80
+      let high = 0xBF
+      if (byte >= 0xC2 && byte <= 0xDF) length = 2
+      else if (byte >= 0xE0 && byte <= 0xEF) {
+        length = 3
+        if (byte === 0xE0) low = 0xA0
+        if (byte === 0xED) high = 0x9F
+      } else if (byte >= 0xF0 && byte <= 0xF4) {
+        length = 4
+        if (byte === 0xF0) low = 0x90
+        if (byte === 0xF4) high = 0x8F
+      }
+      if (length === 0 || i + length > bytes.length) return i
+      if (bytes[i + 1] < low || bytes[i + 1] > high) return i
+      for (let k = 2; k < length; k++) {
+        if ((bytes[i + k] & 0xC0) !== 0x80) return i
+      }
+      i += length
+    }
+    return i
+  }
+
+  const detect = (bytes: Uint8Array): Uint8Array => {
+    if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+      hadBOM = true
+      encoding = 'utf-8'
+      byteOffset = 3
+      return bytes.subarray(3)
+    }
+    if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+      hadBOM = true
+      encoding = 'utf-16le'
+      decoder = new TextDecoder('utf-16le')
+      return bytes.subarray(2)
+    }
+    if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+      hadBOM = true
+      encoding = 'utf-16be'
+      decoder = new TextDecoder('utf-16be')
+      return bytes.subarray(2)
+    }
+    encoding = 'utf-8'
+    return bytes
+  }
+
+  const decode = (chunk: Uint8Array, done: boolean): string => {
+    let bytes = chunk
+    if (pending.length > 0) {
+      bytes = new Uint8Array(pending.length + chunk.length)
+      bytes.set(pending)
+      bytes.set(chunk, pending.length)
+      pending = new Uint8Array(0)
+    }
+    if (encoding === null) {
+      // Wait for enough bytes to recognise a BOM
+      if (bytes.length < 3 && !done) {
+        pending = bytes
+        return ''
+      }
+      bytes = detect(bytes)
+    }
+    if (decoder) {
+      return decoder.decode(bytes, { stream: !done })
+    }
+
+    // UTF-8 without a BOM: decode strictly so Windows-1252 input is caught
+    const tail = done ? 0 : incompleteTail(bytes)
+    const complete = bytes.subarray(0, bytes.length - tail)
+    pending = bytes.slice(bytes.length - tail)
+    const valid = validPrefix(complete)
+    const text = new TextDecoder('utf-8').decode(complete.subarray(0, valid))
+    if (valid === complete.length) {
+      byteOffset += complete.length
+      return text
+    }
+
+    // Keep the valid UTF-8 before the bad byte and switch encodings from there on
+    onFallback(byteOffset + valid)
+    encoding = 'windows-1252'
+    decoder = new TextDecoder('windows-1252')
+    const rest = new Uint8Array(complete.length - valid + pending.length)
+    rest.set(complete.subarray(valid))
+    rest.set(pending, complete.length - valid)
+    pending = new Uint8Array(0)
+    return text + decoder.decode(rest, { stream: !done })
+  }
+
+  return {
+    decode,
+    get encoding(): CsvEncoding {
+      return encoding || 'utf-8'
+    },
+    get hadBOM() {
+      return hadBOM
+    },
+  }
+}
+
+/**
+ * Incremental RFC 4180 tokenizer. Text can be pushed in arbitrary chunks;
+ * quoted fields may contain delimiters, escaped quotes ("") and line breaks.
+ */
+function createTokenizer(onRecord: (fields: string[], line: number) => void, onDiagnostic: (diagnostic: CsvDiagnostic) => void) {
+  let delimiter: CsvDelimiter | null = null
+  let buffered = ''
+  let fields: string[] = []
+  let field = ''
+  let inQuotes = false
+  // Set after a closing quote until the next delimiter or line break
+  let afterQuote = false
+  let fieldStarted = false
+  let skipLineFeed = false
+  let line = 1
+  let recordLine = 1
+  let record = 0
+
+  const endField = () => {
+    fields.push(field)
+    field = ''
+    afterQuote = false
+    fieldStarted = false
+  }
+
+  const endRecord = () => {
+    endField()
+    // Blank lines are not records
+    if (!(fields.length === 1 && fields[0] === '')) {
+      record++
+      onRecord(fields, recordLine)
+    }
+    fields = []
+  }
+
+  const warn = (message: string) => {
+    onDiagnostic({ row: record + 1, line: recordLine, severity: 'warning', message })
+  }
+
+  const consume = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+
+      if (skipLineFeed) {
+        skipLineFeed = false
+        if (char === '\n') continue
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          if (i + 1 === text.length) {
+            // Can't tell "" from a closing quote until the next chunk
+            buffered = '"'
+            return
+          }
+          if (text[i + 1] === '"') {
+            field += '"'
+            i++
+          } else {
+            inQuotes = false
+            afterQuote = true
+          }
+        } else {
+          if (char === '\r' || (char === '\n' && field[field.length - 1] !== '\r')) line++
+          field += char
+        }
+        continue
+      }
+
+      if (char === delimiter) {
+        endField()
+      } else if (char === '\r' || char === '\n') {
+        endRecord()
+        line++
+        recordLine = line
+        skipLineFeed = char === '\r'
+      } else if (char === '"') {
+        if (!fieldStarted) {
+          inQuotes = true
+          fieldStarted = true
+        } else {
+          warn(afterQuote ? 'Unexpected quote after a closing quote' : 'Unescaped quote inside an unquoted field')
+          field += char
+        }
+      } else {
+        if (afterQuote) {
+          warn(`Unexpected character "${char}" after a closing quote`)
+          afterQuote = false
+        }
+        field += char
+        fieldStarted = true
+      }
+    }
+  }
+
+  const push = (chunk: string) => {
+    const text = buffered + chunk
+    buffered = ''
+    if (delimiter === null) {
+      // Need the full header line to detect the delimiter
+      if (!/[\r\n]/.test(text)) {
+        buffered = text
+        return
+      }
+      delimiter = detectDelimiter(text)
+    }
+    consume(text)
+  }
+
+  const end = () => {
+    if (delimiter === null) {
+      delimiter = detectDelimiter(buffered)
+    }
+    const rest = buffered
+    buffered = ''
+    consume(rest)
+    if (buffered === '"') {
+      // A quote at the very end of the input closes the field
+      buffered = ''
+      inQuotes = false
+      afterQuote = true
+    }
+    if (inQuotes) {
+      onDiagnostic({ row: record + 1, line: recordLine, severity: 'error', message: 'Unterminated quoted field at end of file' })
+    }
+    if (fieldStarted || field !== '' || fields.length > 0) {
+      endRecord()
+    }
+  }
+
+  return {
+    push,
+    end,
+    setDelimiter(value: CsvDelimiter) {
+      delimiter = value
+    },
+    get delimiter(): CsvDelimiter {
+      return delimiter || ','
+    },
+  }
+}
+
+/**
+ * Stream a CSV file into rows of repaired, untrimmed field values. The first
+ * record is returned as the headers; rows whose field count differs from the
+ * header are kept and reported in the diagnostics.
+ */
+export async function readCSVStream(stream: ReadableStream<Uint8Array>, options: CsvReadOptions = {}): Promise<CsvReadResult> {
+  const diagnostics: CsvDiagnostic[] = []
+  let headers: string[] | null = null
+  const rows: string[][] = []
+  let repairedRows = 0
+
+  const tokenizer = createTokenizer((fields, line) => {
+    const repaired = fields.map(repairMojibake)
+    if (repaired.some((value, index) => value !== fields[index])) repairedRows++
+
+    if (headers === null) {
+      headers = repaired
+      return
+    }
+    if (repaired.length !== headers.length) {
+      diagnostics.push({
+        row: rows.length + 2,
+        line,
+        severity: 'warning',
+        message: `Expected ${headers.length} fields but found ${repaired.length}`,
+      })
+    }
+    rows.push(repaired)
+  }, (diagnostic) => diagnostics.push(diagnostic))
+
+  if (options.delimiter) {
+    tokenizer.setDelimiter(options.delimiter)
+  }
+
+  // Reported for the whole file: the chunk holding the bad byte is decoded
+  // before any of its records are tokenized
+  const decoder = createDecoder((byteOffset) => {
+    diagnostics.push({
+      row: 0,
+      line: 0,
+      severity: 'warning',
+      message: `Invalid UTF-8 at byte ${byteOffset}; decoded as Windows-1252 from there on`,
+    })
+  })
+
+  const reader = stream.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    tokenizer.push(decoder.decode(value, false))
+  }
+  tokenizer.push(decoder.decode(new Uint8Array(0), true))
+  tokenizer.end()
+
+  if (repairedRows > 0) {
+    diagnostics.push({
+      row: 0,
+      line: 0,
+      severity: 'warning',
+      message: `Repaired mis-encoded characters in ${repairedRows} ${repairedRows === 1 ? 'row' : 'rows'}`,
+    })
+  }
+
+  return {
+    headers: headers || [],
+    rows,
+    delimiter: tokenizer.delimiter,
+    encoding: decoder.encoding,
+    hadBOM: decoder.hadBOM,
+    diagnostics,
+  }
+}
+
+/**
+ * Read CSV text or bytes that are already in memory.
+ */
+export function readCSV(input: string | ArrayBuffer | Uint8Array, options: CsvReadOptions = {}): Promise<CsvReadResult> {
+  const bytes = typeof input === 'string'
+    ? new TextEncoder().encode(input)
+    : input instanceof Uint8Array ? input : new Uint8Array(input)
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes)
+      controller.close()
+    },
+  })
+  return readCSVStream(stream, options)
+}
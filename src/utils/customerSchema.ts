@@ -0,0 +1,49 @@
+import type { CustomerIntelligenceData } from './csvParser'
+import { applySchema, isEmail, isPhone, isUrl, type ColumnMapping, type FieldSchema, type SchemaValidationReport } from './importSchema'
+import { marketDefinition } from './marketDefinition'
+
+export type CustomerField = keyof CustomerIntelligenceData
+
+export interface CustomerSchemaResult {
+  data: CustomerIntelligenceData[]
+  report: SchemaValidationReport<CustomerField>
+}
+
+export const customerSchema: FieldSchema<CustomerField>[] = [
+  { key: 'region', label: 'Region', aliases: ['Geography', 'Market Region'], required: true },
+  { key: 'sNo', label: 'S.No.', aliases: ['S. No.', 'S No', 'Serial No', 'Serial Number', '#'], required: false },
+  { key: 'companyName', label: 'Company Name', aliases: ['Company', 'Account', 'Account Name', 'Organization'], required: true },
+  { key: 'industrySector', label: 'Industry / Sector', aliases: ['Industry', 'Sector', 'Industry Sector', 'Industry/Sector'], required: false },
+  { key: 'headquartersAddress', label: "Headquarter's Address", aliases: ['Headquarters Address', 'HQ Address', 'Address', 'Headquarters'], required: false },
+  { key: 'yearsOfExistence', label: 'Years of Existence', aliases: ['Years in Business', 'Company Age', 'Years Active'], required: false },
+  { key: 'name', label: 'Name', aliases: ['Contact Name', 'Contact', 'Contact Person'], required: false },
+  { key: 'decisionRole', label: 'Decision Role', aliases: ['Role', 'Designation', 'Decision Maker Role', 'Title'], required: false },
+  { key: 'emailId', label: 'Email ID', aliases: ['Email', 'E-mail', 'Email Address', 'Contact Email'], required: false, validate: isEmail },
+  { key: 'website', label: 'Website', aliases: ['URL', 'Web', 'Company Website', 'Web Address'], required: false, validate: isUrl },
+  { key: 'telephone', label: 'Telephone', aliases: ['Phone', 'Phone Number', 'Tel', 'Contact Number'], required: false, validate: isPhone },
+  { key: 'typeOfShovelRequired', label: `Type of ${marketDefinition.productNoun} Required`, aliases: ['Shovel Type', 'Shovel Type Required', 'Product Type Required'], required: false },
+  { key: 'primaryUseCase', label: 'Primary Use Case', aliases: ['Use Case', 'Primary Application', 'Application'], required: false },
+  { key: 'estimatedVolumeRequirement', label: 'Estimated Volume Requirement (Annual)', aliases: ['Estimated Annual Volume', 'Annual Volume Requirement', 'Volume Requirement', 'Annual Volume'], required: false },
+  { key: 'replacementCycle', label: 'Replacement Cycle', aliases: ['Replacement Frequency'], required: false },
+  { key: 'existingBrandsUsed', label: 'Existing Brands Used', aliases: ['Existing Brands', 'Current Brands', 'Brands Used'], required: false },
+  { key: 'qualityPreference', label: 'Quality Preference', aliases: ['Quality Requirement'], required: false },
+  { key: 'priceSensitivity', label: 'Price Sensitivity', aliases: ['Price Sensitivity Level'], required: false },
+  { key: 'certificationsRequired', label: 'Certifications Required', aliases: ['Certifications', 'Required Certifications'], required: false },
+  { key: 'sustainabilityPreference', label: 'Sustainability Preference', aliases: ['Sustainability', 'Sustainability Requirement'], required: false },
+  { key: 'demandAttractiveScore', label: 'Demand Attractive Score', aliases: ['Demand Attractiveness Score', 'Demand Score', 'Demand Attractiveness'], required: false },
+  { key: 'fitForOEMShovelType', label: `Fit for OEM / ${marketDefinition.productNoun} Type`, aliases: ['OEM Fit', 'Fit for OEM', 'OEM / Shovel Type Fit', 'OEM Fit Score'], required: false },
+  { key: 'leadPotential', label: 'Lead Potential', aliases: ['Lead Tier', 'Lead Score', 'Lead Status'], required: false },
+]
+
+/**
+ * Map raw CSV rows onto `CustomerIntelligenceData`, matching headers by label
+ * or alias unless an explicit column mapping is given.
+ */
+export function applyCustomerSchema(
+  headers: string[],
+  rows: string[][],
+  mapping?: ColumnMapping<CustomerField>
+): CustomerSchemaResult {
+  const { records, report } = applySchema(headers, rows, customerSchema, mapping)
+  return { data: records, report }
+}
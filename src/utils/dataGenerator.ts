@@ -1,3 +1,5 @@
+import { childrenOf, marketDefinition } from './marketDefinition'
+
 interface ShovelMarketData {
   recordId: number
   year: number
@@ -25,46 +27,34 @@ interface ShovelMarketData {
   yoyGrowth: number
 }
 
-const generateComprehensiveData = (): ShovelMarketData[] => {
-  const years = Array.from({ length: 15 }, (_, i) => 2021 + i)
-  const regions = ["Northeast", "Midwest", "South", "West"]
+// Market size drivers: every generated record's price and volume are
+// products of these multipliers, declared with the market definition
+const { drivers } = marketDefinition
 
-  // Product categories and their subcategories for U.S. Water Repair Products Market
-  const productCategories = {
-    "Pipe Repair & Connection Products": [
-      "Repair Clamps",
-      "Repair Sleeves",
-      "Wide-Range Couplings",
-      "Transition Couplings",
-      "Flange Adapters"
-    ],
-    "Restraint Couplings": [
-      "Service Line Products",
-      "Service Saddles",
-      "Tapping Sleeves"
-    ],
-    "Corporation Stops": [],
-    "Curb Valves & Boxes": [],
-    "Valve Solutions": [
-      "Gate Valves",
-      "Butterfly Valves",
-      "Insertion Valves",
-      "Check Valves"
-    ],
-    "Hydrants & Flow Control": [
-      "Fire Hydrants",
-      "Hydrant Repair Kits"
-    ],
-    "Others (Leak Detection & Condition Assessment)": [
-      "Acoustic Leak Detection Systems",
-      "Smart Monitoring Sensors",
-      "Pipe Condition Assessment Tools"
-    ]
-  }
+export const productCategoryMultipliers = drivers.productCategory
+export const bladeMaterialMultipliers = drivers.bladeMaterial
+export const applicationMultipliers = drivers.application
+export const regionMultipliers = drivers.region
+
+export const brands = marketDefinition.competitors.brands
+
+// Brand-specific multipliers
+export const brandPremiumMap: Record<string, number> = {}
+brands.forEach((brand, idx) => {
+  const { base, step, tiers } = drivers.brandPremium
+  brandPremiumMap[brand] = base + (idx % tiers) * step
+})
+
+// onProgress receives the fraction (0-1) of years generated so far
+export const generateComprehensiveData = (onProgress?: (progress: number) => void): ShovelMarketData[] => {
+  const { years: yearRange, geography, segments, competitors } = marketDefinition
+  const years = Array.from({ length: yearRange.last - yearRange.first + 1 }, (_, i) => yearRange.first + i)
+  const regions = geography.values
 
   // Flatten for iteration
   const productTypesList: Array<{ category: string; subCategory: string }> = []
-  Object.entries(productCategories).forEach(([category, subCategories]) => {
+  segments.productCategory.values.forEach(category => {
+    const subCategories = childrenOf(segments.productCategory, category)
     if (subCategories.length === 0) {
       // For categories without subcategories, use the category name as subcategory
       productTypesList.push({ category, subCategory: category })
@@ -74,129 +64,19 @@ const generateComprehensiveData = (): ShovelMarketData[] => {
       })
     }
   })
-  
-  // Pipe Material Compatibility
-  const bladeMaterials = [
-    "Ductile Iron",
-    "Cast Iron",
-    "PVC",
-    "HDPE",
-    "Steel",
-    "Concrete / Asbestos Cement"
-  ]
-
-  // Applications
-  const handleLengths = ["Mass", "Premium", "Luxury"] // Price Range placeholder
-
-  // Application categories
-  const applications = [
-    "Potable Water Distribution",
-    "Wastewater / Sewer Lines",
-    "Emergency Leak Repair",
-    "Planned Rehabilitation / Retrofits",
-    "New Installation & Expansion Projects",
-    "Industrial Water Lines",
-    "Agricultural / Irrigation Lines",
-    "Others"
-  ]
-
-  // End User categories
-  const professions = [
-    "Municipal Water Utilities",
-    "Private Water Utilities",
-    "Public Works Departments",
-    "Civil & Water Infrastructure Contractors",
-    "Industrial Facilities",
-    "Commercial Plumbing Contractors",
-    "Distributors & Waterworks Wholesalers",
-    "Others"
-  ]
-  
-  // Distribution Channel categories
-  const salesChannels = [
-    "Direct Sales",
-    "Distributor / Wholesaler Network",
-    "Online Procurement Platforms",
-    "Federal & Infrastructure-Funded Projects"
-  ]
-
-  const distributionChannelTypes = ["Offline", "Online"]
-  const offlineChannels = ["Direct Sales", "Distributor Network", "Federal Projects"]
-  const onlineChannels = ["Online Procurement Platforms", "E-commerce"]
-  
-  const brands = [
-    "Mueller", "Smith-Blair", "Romac", "Dresser", "Ford Meter Box",
-    "American Flow Control", "Mueller Systems", "Echologics", "JCM Industries", "Krausz"
-  ]
 
-  const companies = [
-    "Mueller Water Products", "Smith-Blair Inc", "Romac Industries", "Dresser Utility Solutions", "Ford Meter Box Company",
-    "American Flow Control (AFC)", "Mueller Systems", "Echologics (Mueller)", "JCM Industries", "Krausz USA"
-  ]
-  
-  const countryMap: Record<string, string[]> = {
-    'Northeast': ['New York', 'Pennsylvania', 'Massachusetts', 'New Jersey', 'Connecticut', 'Maine'],
-    'Midwest': ['Illinois', 'Ohio', 'Michigan', 'Wisconsin', 'Minnesota', 'Indiana'],
-    'South': ['Texas', 'Florida', 'Georgia', 'North Carolina', 'Virginia', 'Tennessee'],
-    'West': ['California', 'Washington', 'Oregon', 'Colorado', 'Arizona', 'Nevada']
-  }
-  
-  // Product category multipliers for variation
-  const productCategoryMultipliers: Record<string, { price: number; volume: number; cagr: number }> = {
-    'Pipe Repair & Connection Products': { price: 1.0, volume: 1.3, cagr: 1.2 },
-    'Restraint Couplings': { price: 1.1, volume: 1.1, cagr: 1.1 },
-    'Corporation Stops': { price: 0.9, volume: 1.2, cagr: 1.0 },
-    'Curb Valves & Boxes': { price: 0.95, volume: 1.15, cagr: 1.05 },
-    'Valve Solutions': { price: 1.2, volume: 1.0, cagr: 1.15 },
-    'Hydrants & Flow Control': { price: 1.3, volume: 0.9, cagr: 1.1 },
-    'Others (Leak Detection & Condition Assessment)': { price: 1.5, volume: 0.8, cagr: 1.3 }
-  }
+  const bladeMaterials = segments.bladeMaterial.values
+  const handleLengths = segments.handleLength.values
+  const applications = segments.application.values
+  const professions = segments.endUser.values
+  const salesChannels = segments.distributionChannelType.values
+  const offlineChannels = drivers.channels.Offline
+  const onlineChannels = drivers.channels.Online
+  const companies = competitors.companies
 
   const getProductCategoryMultiplier = (category: string) => {
     return productCategoryMultipliers[category] || { price: 1.0, volume: 1.0, cagr: 1.0 }
   }
-  
-  // Pipe Material Compatibility multipliers
-  const bladeMaterialMultipliers: Record<string, { price: number; volume: number }> = {
-    'Ductile Iron': { price: 1.2, volume: 1.3 },
-    'Cast Iron': { price: 1.1, volume: 1.2 },
-    'PVC': { price: 0.8, volume: 1.4 },
-    'HDPE': { price: 0.9, volume: 1.3 },
-    'Steel': { price: 1.3, volume: 1.1 },
-    'Concrete / Asbestos Cement': { price: 1.0, volume: 1.0 }
-  }
-  
-  // Application multipliers
-  const applicationMultipliers: Record<string, { volume: number; price: number }> = {
-    'Potable Water Distribution': { volume: 1.5, price: 1.2 },
-    'Wastewater / Sewer Lines': { volume: 1.3, price: 1.1 },
-    'Emergency Leak Repair': { volume: 1.4, price: 1.3 },
-    'Planned Rehabilitation / Retrofits': { volume: 1.2, price: 1.2 },
-    'New Installation & Expansion Projects': { volume: 1.1, price: 1.0 },
-    'Industrial Water Lines': { volume: 1.0, price: 1.1 },
-    'Agricultural / Irrigation Lines': { volume: 0.9, price: 0.9 },
-    'Others': { volume: 0.8, price: 0.8 }
-  }
-  
-  // Distribution channel multipliers
-  const distributionChannelMultipliers: Record<string, { volume: number; price: number }> = {
-    'Offline': { volume: 1.3, price: 1.1 },
-    'Online': { volume: 1.2, price: 0.95 }
-  }
-  
-  // Region-specific multipliers
-  const regionMultipliers: Record<string, { volume: number; marketShare: number }> = {
-    'Northeast': { volume: 1.3, marketShare: 1.2 },
-    'Midwest': { volume: 1.4, marketShare: 1.3 },
-    'South': { volume: 1.5, marketShare: 1.4 },
-    'West': { volume: 1.2, marketShare: 1.1 }
-  }
-  
-  // Brand-specific multipliers
-  const brandPremiumMap: Record<string, number> = {}
-  brands.forEach((brand, idx) => {
-    brandPremiumMap[brand] = 0.8 + (idx % 3) * 0.4 // Creates 3 tiers: 0.8, 1.2, 1.6
-  })
 
   const data: ShovelMarketData[] = []
   let recordId = 100000
@@ -207,10 +87,10 @@ const generateComprehensiveData = (): ShovelMarketData[] => {
     return seed / 233280
   }
   
-  for (const year of years) {
+  for (const [yearIndex, year] of years.entries()) {
     for (const region of regions) {
       const regionMult = regionMultipliers[region]
-      const countries = countryMap[region] || []
+      const countries = childrenOf(geography, region)
       // If no countries, use region name as country (e.g., "Rest of Europe")
       const countriesToProcess = countries.length > 0 ? countries : [region]
       
@@ -223,8 +103,8 @@ const generateComprehensiveData = (): ShovelMarketData[] => {
             const bladeMult = bladeMaterialMultipliers[bladeMaterial]
             
             for (const handleLength of handleLengths) {
-              // Price Range multiplier
-              const handleMult = handleLength === 'Luxury' ? 1.5 : handleLength === 'Premium' ? 1.2 : 0.8
+              // Price band multiplier
+              const handleMult = drivers.handleLength[handleLength]?.price ?? 1.0
               
               for (const application of applications) {
                 const appMult = applicationMultipliers[application]
@@ -235,7 +115,7 @@ const generateComprehensiveData = (): ShovelMarketData[] => {
                 
                 // Determine distribution channel type based on sales channel
                 const distributionChannelType = salesChannel.startsWith('D2C') || salesChannel.startsWith('Offline') || salesChannel.startsWith('Others') ? salesChannel : 'Online'
-                const channelMult = distributionChannelMultipliers[salesChannel.includes('Offline') ? 'Offline' : 'Online']
+                const channelMult = drivers.channelType[salesChannel.includes('Offline') ? 'Offline' : 'Online']
                 
                 // Determine specific distribution channel
                 const distributionChannel = salesChannel.includes('Offline')
@@ -248,7 +128,7 @@ const generateComprehensiveData = (): ShovelMarketData[] => {
                 
                 // Apply all multipliers for variation
                 const basePrice = 10 + seededRandom() * 90 // $10-$100
-                const price = basePrice * productMult.price * bladeMult.price * brandMult * handleMult * (1 + (year - 2021) * 0.02)
+                const price = basePrice * productMult.price * bladeMult.price * brandMult * handleMult * (1 + (year - yearRange.first) * 0.02)
                 
                 const baseVolume = 100 + seededRandom() * 900 // 100-1000 units
                 const volumeUnits = Math.floor(
@@ -258,7 +138,7 @@ const generateComprehensiveData = (): ShovelMarketData[] => {
                   bladeMult.volume * 
                   appMult.volume * 
                   channelMult.volume * 
-                  (1 + (year - 2021) * 0.05)
+                  (1 + (year - yearRange.first) * 0.05)
                 )
                 
                 const revenue = price * volumeUnits
@@ -306,14 +186,20 @@ const generateComprehensiveData = (): ShovelMarketData[] => {
         }
       }
     }
+    onProgress?.((yearIndex + 1) / years.length)
   }
   
   return data
 }
 
 let dataCache: ShovelMarketData[] | null = null
+// Dataset loaded through the import wizard; takes precedence over generated data
+let importedData: ShovelMarketData[] | null = null
 
 export const getData = (): ShovelMarketData[] => {
+  if (importedData) {
+    return importedData
+  }
   if (!dataCache) {
     try {
       dataCache = generateComprehensiveData()
@@ -329,6 +215,25 @@ export const clearDataCache = () => {
   dataCache = null
 }
 
+export const setImportedData = (data: ShovelMarketData[] | null) => {
+  importedData = data
+}
+
+export const hasImportedData = (): boolean => importedData !== null
+
+export interface DataSummary {
+  years: number[]
+  regions: string[]
+  productCategories: string[]
+  subProductCategories: string[]
+  productTypes: string[]
+  bladeMaterials: string[]
+  handleLengths: string[]
+  applications: string[]
+  endUsers: string[]
+  distributionChannelTypes: string[]
+}
+
 export interface FilterOptions {
   year?: number[]
   productCategory?: string[]
@@ -392,107 +297,4 @@ export const addCommas = (num: number | null | undefined): string | number | nul
   return Number(num).toLocaleString('en-US', { maximumFractionDigits: 2 })
 }
 
-// Product category and subcategory hierarchy for filters
-export interface ProductCategoryHierarchy {
-  mainCategory: string
-  subCategories: string[]
-}
-
-export const getProductCategoryHierarchy = (): ProductCategoryHierarchy[] => {
-  return [
-    {
-      mainCategory: "Pipe Repair & Connection Products",
-      subCategories: [
-        "Repair Clamps",
-        "Repair Sleeves",
-        "Wide-Range Couplings",
-        "Transition Couplings",
-        "Flange Adapters"
-      ]
-    },
-    {
-      mainCategory: "Restraint Couplings",
-      subCategories: [
-        "Service Line Products",
-        "Service Saddles",
-        "Tapping Sleeves"
-      ]
-    },
-    {
-      mainCategory: "Corporation Stops",
-      subCategories: []
-    },
-    {
-      mainCategory: "Curb Valves & Boxes",
-      subCategories: []
-    },
-    {
-      mainCategory: "Valve Solutions",
-      subCategories: [
-        "Gate Valves",
-        "Butterfly Valves",
-        "Insertion Valves",
-        "Check Valves"
-      ]
-    },
-    {
-      mainCategory: "Hydrants & Flow Control",
-      subCategories: [
-        "Fire Hydrants",
-        "Hydrant Repair Kits"
-      ]
-    },
-    {
-      mainCategory: "Others (Leak Detection & Condition Assessment)",
-      subCategories: [
-        "Acoustic Leak Detection Systems",
-        "Smart Monitoring Sensors",
-        "Pipe Condition Assessment Tools"
-      ]
-    }
-  ]
-}
-
-// Kept for backward compatibility
-export interface ProductTypeHierarchy {
-  mainCategory: string
-  subCategories: string[]
-}
-
-export const getProductTypeHierarchy = (): ProductTypeHierarchy[] => {
-  return getProductCategoryHierarchy()
-}
-
-// Nested hierarchy interface for 3-level structure
-export interface NestedSubCategory {
-  name: string
-  children?: string[]
-}
-
-export interface NestedHierarchyItem {
-  mainCategory: string
-  subCategories: (string | NestedSubCategory)[]
-}
-
-export const getSalesChannelHierarchy = (): NestedHierarchyItem[] => {
-  return [
-    {
-      mainCategory: "Direct Sales",
-      subCategories: []
-    },
-    {
-      mainCategory: "Distributor / Wholesaler Network",
-      subCategories: []
-    },
-    {
-      mainCategory: "Online Procurement Platforms",
-      subCategories: []
-    },
-    {
-      mainCategory: "Federal & Infrastructure-Funded Projects",
-      subCategories: []
-    }
-  ]
-}
-
 export type { ShovelMarketData }
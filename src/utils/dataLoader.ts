@@ -0,0 +1,110 @@
+import { getData, hasImportedData, generateComprehensiveData, type DataSummary, type ShovelMarketData } from './dataGenerator'
+import { buildColumnarStore, summarizeStore, type ColumnarStore } from './columnarStore'
+import type { DataWorkerRequest, DataWorkerResponse } from '../workers/dataWorker'
+
+export interface DataLoadProgress {
+  // 0-1 across generation and indexing
+  progress: number
+  message: string
+}
+
+export interface LoadedData {
+  store: ColumnarStore
+  summary: DataSummary
+}
+
+type ProgressListener = (progress: DataLoadProgress) => void
+
+// Generation is the bulk of the work; the rest of the bar covers building columns
+const GENERATION_SHARE = 0.85
+
+const listeners = new Set<ProgressListener>()
+let pendingLoad: Promise<LoadedData> | null = null
+let generated: LoadedData | null = null
+// Store built from the import wizard's rows, rebuilt when they change
+let imported: { rows: ShovelMarketData[]; loaded: LoadedData } | null = null
+
+const emit = (progress: DataLoadProgress) => {
+  listeners.forEach(listener => listener(progress))
+}
+
+const fromRows = (rows: ShovelMarketData[]): LoadedData => {
+  const store = buildColumnarStore(rows)
+  return { store, summary: summarizeStore(store) }
+}
+
+const generateInWorker = (): Promise<LoadedData> => new Promise((resolve, reject) => {
+  const worker = new Worker(new URL('../workers/dataWorker.ts', import.meta.url), { type: 'module' })
+
+  worker.onmessage = (event: MessageEvent<DataWorkerResponse>) => {
+    const message = event.data
+    switch (message.type) {
+      case 'progress':
+        emit({ progress: message.progress * GENERATION_SHARE, message: 'Generating market data...' })
+        break
+      case 'indexing':
+        emit({ progress: GENERATION_SHARE, message: 'Indexing records...' })
+        break
+      case 'done':
+        worker.terminate()
+        resolve({ store: message.store, summary: summarizeStore(message.store) })
+        break
+      case 'error':
+        worker.terminate()
+        reject(new Error(message.message))
+        break
+    }
+  }
+  worker.onerror = (event) => {
+    worker.terminate()
+    reject(new Error(event.message || 'Data worker failed'))
+  }
+
+  const request: DataWorkerRequest = { type: 'generate' }
+  worker.postMessage(request)
+})
+
+/**
+ * Load the market dataset as a columnar store without blocking the page.
+ * Generation runs in a Web Worker (falling back to the main thread where
+ * workers are unavailable) and the result is cached, so later calls resolve
+ * immediately. Every caller's listener receives progress for the shared
+ * in-flight load.
+ */
+export function loadData(onProgress?: ProgressListener): Promise<LoadedData> {
+  if (hasImportedData()) {
+    const rows = getData()
+    if (!imported || imported.rows !== rows) {
+      imported = { rows, loaded: fromRows(rows) }
+    }
+    onProgress?.({ progress: 1, message: 'Data ready' })
+    return Promise.resolve(imported.loaded)
+  }
+  if (generated) {
+    onProgress?.({ progress: 1, message: 'Data ready' })
+    return Promise.resolve(generated)
+  }
+
+  if (onProgress) {
+    listeners.add(onProgress)
+  }
+  if (!pendingLoad) {
+    emit({ progress: 0, message: 'Generating market data...' })
+    const generateOnMainThread = () => fromRows(generateComprehensiveData())
+    const load = typeof Worker === 'undefined'
+      ? Promise.resolve().then(generateOnMainThread)
+      : generateInWorker().catch((error) => {
+          console.error('Data worker failed, generating on the main thread:', error)
+          return generateOnMainThread()
+        })
+
+    pendingLoad = load.then((result) => {
+      generated = result
+      emit({ progress: 1, message: 'Data ready' })
+      listeners.clear()
+      pendingLoad = null
+      return result
+    })
+  }
+  return pendingLoad
+}
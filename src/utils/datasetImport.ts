@@ -0,0 +1,161 @@
+import { readCSV, type CsvDiagnostic } from './csvReader'
+import { setImportedData } from './dataGenerator'
+import { setImportedCustomerData } from './csvParser'
+import { applyCustomerSchema, customerSchema, type CustomerField } from './customerSchema'
+import { applyMarketSchema, marketSchema, type MarketField } from './marketSchema'
+import type { ColumnMapping, FieldSchema, SchemaValidationReport } from './importSchema'
+
+export type DatasetTarget = 'market' | 'customer'
+
+export type ImportFileFormat = 'csv' | 'tsv' | 'json'
+
+export interface ParsedImportFile {
+  fileName: string
+  format: ImportFileFormat
+  headers: string[]
+  rows: string[][]
+  diagnostics: CsvDiagnostic[]
+}
+
+export interface ImportPreparation {
+  rowCount: number
+  report: SchemaValidationReport
+  skippedRows: number
+  // Required fields with no mapped column block the import
+  canImport: boolean
+  commit: () => void
+}
+
+export interface ImportedDatasetInfo {
+  fileName: string
+  rowCount: number
+  importedAt: Date
+}
+
+export const datasetTargets: Record<DatasetTarget, { label: string; description: string; page: string }> = {
+  market: {
+    label: 'Market Data',
+    description: 'Year, region and segment level market size and volume that drives Market Analysis',
+    page: 'MarketAnalysis',
+  },
+  customer: {
+    label: 'Customer Intelligence',
+    description: 'Surveyed accounts with contacts, requirements and lead assessment',
+    page: 'CustomerIntelligence',
+  },
+}
+
+export const ACCEPTED_FILE_TYPES = '.csv,.tsv,.txt,.json'
+
+const importedDatasets: Partial<Record<DatasetTarget, ImportedDatasetInfo>> = {}
+
+export const getImportedDatasetInfo = (target: DatasetTarget): ImportedDatasetInfo | null =>
+  importedDatasets[target] || null
+
+export const getTargetSchema = (target: DatasetTarget): FieldSchema[] =>
+  target === 'market' ? marketSchema : customerSchema
+
+const stringifyCell = (value: unknown): string => {
+  if (value === null || value === undefined) return ''
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+// Accepts an array of objects, an array of arrays (first row is the header)
+// or either of those under a top-level "data" / "rows" key
+const parseJSONRows = (text: string): { headers: string[]; rows: string[][] } => {
+  const parsed = JSON.parse(text)
+  const records: unknown = Array.isArray(parsed) ? parsed : parsed?.data ?? parsed?.rows
+  if (!Array.isArray(records)) {
+    throw new Error('JSON file must contain an array of records')
+  }
+  if (records.length === 0) {
+    return { headers: [], rows: [] }
+  }
+
+  if (Array.isArray(records[0])) {
+    const [headerRow, ...rows] = records as unknown[][]
+    return { headers: headerRow.map(stringifyCell), rows: rows.map(row => row.map(stringifyCell)) }
+  }
+
+  const headers: string[] = []
+  const seen = new Set<string>()
+  records.forEach(record => {
+    Object.keys(record || {}).forEach(key => {
+      if (!seen.has(key)) {
+        seen.add(key)
+        headers.push(key)
+      }
+    })
+  })
+  const rows = records.map(record => headers.map(header => stringifyCell((record as Record<string, unknown>)?.[header])))
+  return { headers, rows }
+}
+
+/**
+ * Read a dropped CSV, TSV or JSON file into headers and string rows.
+ */
+export async function readImportFile(file: File): Promise<ParsedImportFile> {
+  const extension = file.name.split('.').pop()?.toLowerCase() || ''
+
+  if (extension === 'json' || file.type === 'application/json') {
+    const { headers, rows } = parseJSONRows(await file.text())
+    return { fileName: file.name, format: 'json', headers, rows, diagnostics: [] }
+  }
+
+  const result = await readCSV(await file.arrayBuffer(), extension === 'tsv' ? { delimiter: '\t' } : {})
+  return {
+    fileName: file.name,
+    format: result.delimiter === '\t' ? 'tsv' : 'csv',
+    headers: result.headers.map(header => header.trim()),
+    rows: result.rows,
+    diagnostics: result.diagnostics,
+  }
+}
+
+/**
+ * Apply a column mapping to a parsed file and validate it. Nothing reaches the
+ * dashboard until `commit` is called.
+ */
+export function prepareImport(file: ParsedImportFile, target: DatasetTarget, mapping: ColumnMapping): ImportPreparation {
+  const recordImport = (rowCount: number) => {
+    importedDatasets[target] = { fileName: file.fileName, rowCount, importedAt: new Date() }
+  }
+
+  if (target === 'market') {
+    const { data, report, skippedRows } = applyMarketSchema(file.headers, file.rows, mapping as ColumnMapping<MarketField>)
+    return {
+      rowCount: data.length,
+      report,
+      skippedRows,
+      canImport: data.length > 0 && !report.missingColumns.some(column => column.required),
+      commit: () => {
+        setImportedData(data)
+        recordImport(data.length)
+      },
+    }
+  }
+
+  const { data, report } = applyCustomerSchema(file.headers, file.rows, mapping as ColumnMapping<CustomerField>)
+  return {
+    rowCount: data.length,
+    report,
+    skippedRows: 0,
+    canImport: data.length > 0 && !report.missingColumns.some(column => column.required),
+    commit: () => {
+      setImportedCustomerData({ data, diagnostics: file.diagnostics, report })
+      recordImport(data.length)
+    },
+  }
+}
+
+/**
+ * Drop an imported dataset so the dashboard goes back to its default source.
+ */
+export function resetImportedDataset(target: DatasetTarget) {
+  if (target === 'market') {
+    setImportedData(null)
+  } else {
+    setImportedCustomerData(null)
+  }
+  delete importedDatasets[target]
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { forecasters, forecastSeries, type ForecastModel, type Observation } from './forecasting'
+
+const series = (values: number[], firstYear = 2021): Observation[] =>
+  values.map((value, index) => ({ year: firstYear + index, value }))
+
+// Four actual years, as the default view has, with some noise around a trend
+const fourYears = series([97, 113, 117, 133])
+
+const halfWidth = (model: ForecastModel, history: Observation[], confidence: 0.8 | 0.9 | 0.95, endYear = 2025) => {
+  const point = forecastSeries(history, { model, endYear, confidence })!.forecast[0]
+  return (point.upper - point.lower) / 2
+}
+
+describe('forecastSeries', () => {
+  it('fits every model to four actual years', () => {
+    (Object.keys(forecasters) as ForecastModel[]).forEach(model => {
+      const result = forecastSeries(fourYears, { model, endYear: 2030, confidence: 0.95 })
+      expect(result, model).not.toBeNull()
+      expect(result!.forecast.map(point => point.year)).toEqual([2025, 2026, 2027, 2028, 2029, 2030])
+      result!.forecast.forEach(point => {
+        expect(point.lower).toBeLessThan(point.value)
+        expect(point.upper).toBeGreaterThan(point.value)
+      })
+    })
+  })
+
+  it('returns null when the history is shorter than the model needs', () => {
+    expect(forecastSeries(series([100, 110]), { model: 'linear', endYear: 2025, confidence: 0.95 })).toBeNull()
+    expect(forecastSeries(series([100, 110, 120]), { model: 'holt', endYear: 2025, confidence: 0.95 })).toBeNull()
+    expect(forecastSeries(series([100, -5, 120]), { model: 'logLinear', endYear: 2025, confidence: 0.95 })).toBeNull()
+  })
+
+  it('projects an exact line with no interval', () => {
+    const result = forecastSeries(series([100, 110, 120, 130]), { model: 'linear', endYear: 2026, confidence: 0.95 })!
+    expect(result.forecast[0].value).toBeCloseTo(140)
+    expect(result.forecast[1].value).toBeCloseTo(150)
+    expect(result.forecast[1].upper - result.forecast[1].lower).toBeCloseTo(0)
+    expect(result.cagr).toBeCloseTo((Math.pow(150 / 130, 1 / 2) - 1) * 100)
+  })
+
+  it('uses exact t quantiles when the fit leaves one or two degrees of freedom', () => {
+    // Residuals of the linear fit to three points are ±1, ∓2, ±1: s² = 6 / 1
+    const three = series([101, 108, 121])
+    expect(halfWidth('linear', three, 0.95, 2024)).toBeCloseTo(12.7062 * Math.sqrt(6) * Math.sqrt(1 + 1 / 3 + 2 ** 2 / 2), 2)
+
+    // Four points leave two: the line 115 + 11.2 (x - 1.5) misses by
+    // -1.2, 3.6, -3.6, 1.2, so s² = 28.8 / 2
+    const fourWidth = Math.sqrt(14.4) * Math.sqrt(1 + 1 / 4 + 2.5 ** 2 / 5)
+    expect(halfWidth('linear', fourYears, 0.95)).toBeCloseTo(4.3027 * fourWidth, 2)
+    expect(halfWidth('linear', fourYears, 0.8)).toBeCloseTo(1.8856 * fourWidth, 2)
+  })
+
+  it('widens the interval with the confidence level and the horizon', () => {
+    (Object.keys(forecasters) as ForecastModel[]).forEach(model => {
+      expect(halfWidth(model, fourYears, 0.8), model).toBeLessThan(halfWidth(model, fourYears, 0.9))
+      expect(halfWidth(model, fourYears, 0.9), model).toBeLessThan(halfWidth(model, fourYears, 0.95))
+
+      const [first, , third] = forecastSeries(fourYears, { model, endYear: 2027, confidence: 0.9 })!.forecast
+      expect(third.upper - third.lower, model).toBeGreaterThan(first.upper - first.lower)
+    })
+  })
+
+  it("keeps Holt's interval open on four years", () => {
+    const width = halfWidth('holt', fourYears, 0.95)
+    expect(Number.isFinite(width)).toBe(true)
+    expect(width).toBeGreaterThan(0)
+  })
+
+  it('never forecasts below zero', () => {
+    const falling = series([400, 300, 200, 100])
+    const result = forecastSeries(falling, { model: 'linear', endYear: 2030, confidence: 0.95 })!
+    result.forecast.forEach(point => {
+      expect(point.value).toBeGreaterThanOrEqual(0)
+      expect(point.lower).toBeGreaterThanOrEqual(0)
+    })
+  })
+})
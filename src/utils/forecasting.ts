@@ -0,0 +1,272 @@
+import { marketDefinition } from './marketDefinition'
+
+export type ForecastModel = 'linear' | 'logLinear' | 'holt' | 'logistic'
+
+// Last year treated as reported actuals; later years are projections
+export const LAST_ACTUAL_YEAR = marketDefinition.years.lastActual
+
+export const CONFIDENCE_LEVELS = [0.8, 0.9, 0.95] as const
+export type ConfidenceLevel = typeof CONFIDENCE_LEVELS[number]
+
+// Two-sided standard normal quantiles for each confidence level
+const Z_SCORES: Record<ConfidenceLevel, number> = { 0.8: 1.2816, 0.9: 1.6449, 0.95: 1.96 }
+
+export interface Observation {
+  year: number
+  value: number
+}
+
+export interface ForecastPoint {
+  year: number
+  value: number
+  // Prediction interval at the requested confidence level
+  lower: number
+  upper: number
+}
+
+export interface FittedModel {
+  // In-sample prediction for each observation, null where the model has none
+  fitted: Array<number | null>
+  predict: (year: number) => ForecastPoint
+}
+
+export interface Forecaster {
+  label: string
+  description: string
+  // Fewest observations the model can be fitted to
+  minObservations: number
+  fit: (history: Observation[], confidence: ConfidenceLevel) => FittedModel | null
+}
+
+export interface ForecastOptions {
+  model: ForecastModel
+  endYear: number
+  confidence: ConfidenceLevel
+}
+
+export interface ForecastResult {
+  model: ForecastModel
+  actuals: Observation[]
+  forecast: ForecastPoint[]
+  // Root mean squared error of the in-sample fit
+  rmse: number | null
+  // Percent a year from the last actual to the end of the forecast
+  cagr: number | null
+}
+
+/**
+ * Student t quantile for a two-sided interval. One and two degrees of
+ * freedom, which short yearly histories leave, have closed forms; beyond
+ * that the Cornish-Fisher expansion of the normal quantile is within 3%.
+ */
+const criticalValue = (confidence: ConfidenceLevel, degreesOfFreedom: number): number => {
+  const z = Z_SCORES[confidence]
+  const p = (1 + confidence) / 2
+  if (degreesOfFreedom < 1) return Infinity
+  if (degreesOfFreedom === 1) return Math.tan(Math.PI * (p - 0.5))
+  if (degreesOfFreedom === 2) return (2 * p - 1) / Math.sqrt(2 * p * (1 - p))
+  const df = degreesOfFreedom
+  return z
+    + (z ** 3 + z) / (4 * df)
+    + (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * df ** 2)
+    + (3 * z ** 7 + 19 * z ** 5 + 17 * z ** 3 - 15 * z) / (384 * df ** 3)
+}
+
+interface LeastSquaresFit {
+  predict: (x: number) => number
+  // Half-width of the prediction interval for a new observation at x
+  halfWidth: (x: number) => number
+}
+
+const leastSquares = (xs: number[], ys: number[], confidence: ConfidenceLevel): LeastSquaresFit => {
+  const n = xs.length
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0)
+  const sxy = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0)
+  const slope = sxx > 0 ? sxy / sxx : 0
+  const predict = (x: number) => meanY + slope * (x - meanX)
+
+  const sse = xs.reduce((sum, x, i) => sum + (ys[i] - predict(x)) ** 2, 0)
+  const standardError = Math.sqrt(sse / Math.max(1, n - 2))
+  const t = criticalValue(confidence, n - 2)
+  return {
+    predict,
+    halfWidth: x => t * standardError * Math.sqrt(1 + 1 / n + (sxx > 0 ? (x - meanX) ** 2 / sxx : 0)),
+  }
+}
+
+const linearTrend: Forecaster = {
+  label: 'Linear Trend',
+  description: 'Straight-line fit; adds the same amount every year',
+  minObservations: 3,
+  fit: (history, confidence) => {
+    const ols = leastSquares(history.map(o => o.year), history.map(o => o.value), confidence)
+    return {
+      fitted: history.map(o => ols.predict(o.year)),
+      predict: year => {
+        const value = ols.predict(year)
+        const halfWidth = ols.halfWidth(year)
+        return { year, value, lower: value - halfWidth, upper: value + halfWidth }
+      },
+    }
+  },
+}
+
+const logLinearTrend: Forecaster = {
+  label: 'Log-linear (CAGR)',
+  description: 'Constant growth rate fitted to the log of the values',
+  minObservations: 3,
+  fit: (history, confidence) => {
+    if (history.some(o => o.value <= 0)) return null
+    const ols = leastSquares(history.map(o => o.year), history.map(o => Math.log(o.value)), confidence)
+    return {
+      fitted: history.map(o => Math.exp(ols.predict(o.year))),
+      predict: year => {
+        const logValue = ols.predict(year)
+        const halfWidth = ols.halfWidth(year)
+        return {
+          year,
+          value: Math.exp(logValue),
+          lower: Math.exp(logValue - halfWidth),
+          upper: Math.exp(logValue + halfWidth),
+        }
+      },
+    }
+  },
+}
+
+// Smoothing weights tried for Holt's level and trend, 0.05..0.95
+const SMOOTHING_GRID = Array.from({ length: 19 }, (_, i) => (i + 1) * 0.05)
+
+const holtSmoothing: Forecaster = {
+  label: "Holt's Exponential Smoothing",
+  description: 'Level and trend that adapt to recent years; weights chosen by least squares',
+  // The first two years only seed level and trend; the interval rests on the
+  // one-step errors of the rest
+  minObservations: 4,
+  fit: (history, confidence) => {
+    const values = history.map(o => o.value)
+    const run = (alpha: number, beta: number) => {
+      let level = values[0]
+      let trend = values[1] - values[0]
+      const fitted: Array<number | null> = [null]
+      let sse = 0
+      for (let i = 1; i < values.length; i++) {
+        const oneStep = level + trend
+        fitted.push(oneStep)
+        // The first step is exact by construction of the initial trend
+        if (i > 1) sse += (values[i] - oneStep) ** 2
+        const previousLevel = level
+        level = alpha * values[i] + (1 - alpha) * (level + trend)
+        trend = beta * (level - previousLevel) + (1 - beta) * trend
+      }
+      return { level, trend, fitted, sse }
+    }
+
+    let best = { alpha: SMOOTHING_GRID[0], beta: SMOOTHING_GRID[0], ...run(SMOOTHING_GRID[0], SMOOTHING_GRID[0]) }
+    SMOOTHING_GRID.forEach(alpha => SMOOTHING_GRID.forEach(beta => {
+      const candidate = run(alpha, beta)
+      if (candidate.sse < best.sse) best = { alpha, beta, ...candidate }
+    }))
+
+    const { alpha, beta, level, trend, fitted, sse } = best
+    // The weights come from a grid search and are not counted against the
+    // errors' degrees of freedom; the t quantile still widens short histories
+    const errors = values.length - 2
+    const variance = sse / errors
+    const t = criticalValue(confidence, errors)
+    const lastYear = history[history.length - 1].year
+    return {
+      fitted,
+      predict: year => {
+        const h = year - lastYear
+        const value = level + h * trend
+        // Forecast variance of the additive-trend model (Hyndman & Athanasopoulos)
+        const halfWidth = t * Math.sqrt(variance * (1 + (h - 1) * (alpha ** 2 + alpha * beta * h + beta ** 2 * h * (2 * h - 1) / 6)))
+        return { year, value, lower: value - halfWidth, upper: value + halfWidth }
+      },
+    }
+  },
+}
+
+// Saturation levels tried, as multiples of the largest observation
+const CAPACITY_GRID = Array.from({ length: 60 }, (_, i) => 1.02 * Math.pow(10 / 1.02, i / 59))
+
+const logisticSaturation: Forecaster = {
+  label: 'Logistic Saturation',
+  description: 'S-curve that levels off at a fitted market capacity',
+  minObservations: 3,
+  fit: (history, confidence) => {
+    if (history.some(o => o.value <= 0)) return null
+    const years = history.map(o => o.year)
+    const peak = Math.max(...history.map(o => o.value))
+
+    // For a fixed capacity K, ln(K / y - 1) is linear in time; pick the K
+    // whose curve fits the original values best. K is not counted as a
+    // fitted parameter in the interval, so bands are slightly optimistic.
+    const fits = CAPACITY_GRID.map(multiple => {
+      const capacity = peak * multiple
+      const ols = leastSquares(years, history.map(o => Math.log(capacity / o.value - 1)), confidence)
+      const sse = history.reduce((sum, o) => sum + (o.value - capacity / (1 + Math.exp(ols.predict(o.year)))) ** 2, 0)
+      return { capacity, ols, sse }
+    })
+    const { capacity, ols } = fits.reduce((best, fit) => fit.sse < best.sse ? fit : best)
+    const curve = (z: number) => capacity / (1 + Math.exp(z))
+    return {
+      fitted: history.map(o => curve(ols.predict(o.year))),
+      predict: year => {
+        const z = ols.predict(year)
+        const halfWidth = ols.halfWidth(year)
+        // The curve falls as z rises, so the upper z bound gives the lower value
+        return { year, value: curve(z), lower: curve(z + halfWidth), upper: curve(z - halfWidth) }
+      },
+    }
+  },
+}
+
+export const forecasters: Record<ForecastModel, Forecaster> = {
+  linear: linearTrend,
+  logLinear: logLinearTrend,
+  holt: holtSmoothing,
+  logistic: logisticSaturation,
+}
+
+export const forecastModelLabels = Object.fromEntries(
+  Object.entries(forecasters).map(([model, forecaster]) => [model, forecaster.label])
+) as Record<ForecastModel, string>
+
+/**
+ * Project a yearly series from its last observation to `endYear`. Returns
+ * null when the history is too short for the model or the model cannot be
+ * fitted (e.g. non-positive values for the log-based models).
+ */
+export function forecastSeries(history: Observation[], { model, endYear, confidence }: ForecastOptions): ForecastResult | null {
+  const actuals = [...history].sort((a, b) => a.year - b.year)
+  const forecaster = forecasters[model]
+  if (actuals.length < forecaster.minObservations) return null
+
+  const fitted = forecaster.fit(actuals, confidence)
+  if (!fitted) return null
+
+  const last = actuals[actuals.length - 1]
+  const forecast: ForecastPoint[] = []
+  for (let year = last.year + 1; year <= endYear; year++) {
+    const point = fitted.predict(year)
+    // Markets do not go negative, whatever the trend says
+    forecast.push({ ...point, value: Math.max(0, point.value), lower: Math.max(0, point.lower), upper: Math.max(0, point.upper) })
+  }
+
+  const residuals = actuals
+    .map((o, i) => fitted.fitted[i] === null ? null : o.value - fitted.fitted[i]!)
+    .filter((residual): residual is number => residual !== null)
+  const end = forecast[forecast.length - 1]
+
+  return {
+    model,
+    actuals,
+    forecast,
+    rmse: residuals.length > 0 ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length) : null,
+    cagr: end && last.value > 0 ? (Math.pow(end.value / last.value, 1 / (end.year - last.year)) - 1) * 100 : null,
+  }
+}
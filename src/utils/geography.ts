@@ -0,0 +1,152 @@
+import type { Bitmap, ColumnarStore } from './columnarStore'
+import { calculateCAGR } from './growthAnalytics'
+import type { FilterHierarchyItem } from './hierarchyRegistry'
+import { query } from './marketQuery'
+import { selectDimension } from './semanticFields'
+
+export type GeoMetric = 'value' | 'volume' | 'cagr'
+
+export const geoMetricLabels: Record<GeoMetric, string> = {
+  value: 'Market Value (US$ Mn)',
+  volume: 'Volume (Units)',
+  cagr: 'Value CAGR (%)',
+}
+
+export interface GeoStats {
+  // US$ Mn
+  value: number
+  volume: number
+  // Percent a year between the first and last year of the window
+  cagr: number | null
+}
+
+export interface GeographyMetrics {
+  states: Map<string, GeoStats>
+  regions: Map<string, GeoStats>
+  // Region of each state in the data
+  stateRegions: Map<string, string>
+  startYear: number
+  endYear: number
+}
+
+type YearTotals = Map<number, { value: number; volume: number }>
+
+const addTo = (totals: YearTotals, year: number, value: number, volume: number) => {
+  const entry = totals.get(year) ?? { value: 0, volume: 0 }
+  entry.value += value
+  entry.volume += volume
+  totals.set(year, entry)
+}
+
+/**
+ * Value, volume and CAGR of every state and region in the selection. Value
+ * and volume are summed over `years` (all years when empty); CAGR runs from
+ * the first to the last of them.
+ */
+export function computeGeographyMetrics(store: ColumnarStore, selection: Bitmap, years: number[]): GeographyMetrics | null {
+  const rows = query(store, {
+    where: selection,
+    filters: { year: years },
+    groupBy: ['region', 'country', 'year'],
+    measures: ['sum(marketValueUsd)', 'sum(volumeUnits)'],
+  })
+  if (rows.length === 0) return null
+
+  const stateTotals = new Map<string, YearTotals>()
+  const regionTotals = new Map<string, YearTotals>()
+  const stateRegions = new Map<string, string>()
+  let startYear = Infinity
+  let endYear = -Infinity
+  rows.forEach(row => {
+    const region = String(row.region)
+    const state = String(row.country)
+    const year = Number(row.year)
+    const value = row['sum(marketValueUsd)'] / 1000
+    const volume = row['sum(volumeUnits)']
+    startYear = Math.min(startYear, year)
+    endYear = Math.max(endYear, year)
+
+    if (!regionTotals.has(region)) regionTotals.set(region, new Map())
+    addTo(regionTotals.get(region)!, year, value, volume)
+    if (state) {
+      stateRegions.set(state, region)
+      if (!stateTotals.has(state)) stateTotals.set(state, new Map())
+      addTo(stateTotals.get(state)!, year, value, volume)
+    }
+  })
+
+  const toStats = (totals: YearTotals): GeoStats => {
+    let value = 0
+    let volume = 0
+    totals.forEach(entry => {
+      value += entry.value
+      volume += entry.volume
+    })
+    const start = totals.get(startYear)?.value
+    const end = totals.get(endYear)?.value
+    return {
+      value,
+      volume,
+      cagr: start === undefined || end === undefined ? null : calculateCAGR(start, end, endYear - startYear),
+    }
+  }
+  const statsOf = (totals: Map<string, YearTotals>) =>
+    new Map(Array.from(totals.entries()).map(([key, yearTotals]) => [key, toStats(yearTotals)]))
+
+  return { states: statsOf(stateTotals), regions: statsOf(regionTotals), stateRegions, startYear, endYear }
+}
+
+/**
+ * Rows in any of the selected geographies. A selection mixes region and
+ * state names, so "Midwest" and "Texas" together select the whole Midwest
+ * plus one Southern state.
+ */
+export function selectGeography(store: ColumnarStore, selected: string[]): Bitmap {
+  return selectDimension(store, 'geography', selected)
+}
+
+// The states a selection covers, with each selected region expanded
+export function expandGeography(selected: string[], hierarchy: FilterHierarchyItem[]): string[] {
+  const states = new Set<string>()
+  hierarchy.forEach(({ mainCategory, subCategories }) => {
+    subCategories.forEach(state => {
+      if (selected.includes(mainCategory) || selected.includes(state)) states.add(state)
+    })
+  })
+  return Array.from(states)
+}
+
+// States back to a selection, naming a region when all its states are in
+export function collapseGeography(states: string[], hierarchy: FilterHierarchyItem[]): string[] {
+  return hierarchy.flatMap(({ mainCategory, subCategories }) => {
+    const inRegion = subCategories.filter(state => states.includes(state))
+    if (inRegion.length > 0 && inRegion.length === subCategories.length) return [mainCategory]
+    return inRegion
+  })
+}
+
+// Adds a state to the selection, or takes it out (splitting its region if needed)
+export function toggleGeographyState(selected: string[], state: string, hierarchy: FilterHierarchyItem[]): string[] {
+  const states = expandGeography(selected, hierarchy)
+  return collapseGeography(
+    states.includes(state) ? states.filter(selectedState => selectedState !== state) : [...states, state],
+    hierarchy
+  )
+}
+
+// A selection as HierarchicalFilterDropdown values ("Region" and "Region - State")
+export function toGeographyOptions(selected: string[], hierarchy: FilterHierarchyItem[]): string[] {
+  const states = expandGeography(selected, hierarchy)
+  return hierarchy.flatMap(({ mainCategory, subCategories }) => {
+    const inRegion = subCategories.filter(state => states.includes(state))
+    return inRegion.length > 0 ? [mainCategory, ...inRegion.map(state => `${mainCategory} - ${state}`)] : []
+  })
+}
+
+// HierarchicalFilterDropdown values back to a selection
+export function fromGeographyOptions(values: string[], hierarchy: FilterHierarchyItem[]): string[] {
+  const states = hierarchy.flatMap(({ mainCategory, subCategories }) =>
+    subCategories.filter(state => values.includes(`${mainCategory} - ${state}`))
+  )
+  return collapseGeography(states, hierarchy)
+}
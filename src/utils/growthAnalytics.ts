@@ -0,0 +1,148 @@
+import type { Bitmap, ColumnarStore } from './columnarStore'
+import { query } from './marketQuery'
+
+export type GrowthEntityKey = 'region' | 'country' | 'productCategory'
+
+export const growthEntityLabels: Record<GrowthEntityKey, string> = {
+  region: 'Region',
+  country: 'State',
+  productCategory: 'Product Category',
+}
+
+export type GrowthTrend = 'accelerating' | 'decelerating' | 'steady'
+
+export interface GrowthPoint {
+  year: number
+  value: number
+  // Percent change over the previous year
+  yoy: number | null
+  // Percent a year compounded from the first year of the window
+  cagr: number | null
+  // Percent a year compounded over the trailing rolling window
+  rollingCagr: number | null
+  // Whether YoY growth sped up or slowed down against the year before
+  trend: GrowthTrend | null
+}
+
+export interface GrowthSeries {
+  entity: string
+  points: GrowthPoint[]
+  // CAGR between the first and last year of the window
+  cagr: number | null
+  latestYoy: number | null
+  latestTrend: GrowthTrend | null
+}
+
+export interface GrowthOptions {
+  startYear: number
+  endYear: number
+  // Years in the trailing CAGR window
+  rollingWindow?: number
+  measure?: 'marketValueUsd' | 'volumeUnits'
+}
+
+// YoY moves smaller than this, in percentage points, count as steady
+const TREND_TOLERANCE = 0.1
+
+/**
+ * Compound annual growth rate in percent, or null when it is undefined
+ * (no periods, or a start value that is zero or negative).
+ */
+export function calculateCAGR(startValue: number, endValue: number, periods: number): number | null {
+  if (periods <= 0 || startValue <= 0 || endValue < 0) return null
+  return (Math.pow(endValue / startValue, 1 / periods) - 1) * 100
+}
+
+export function calculateYoY(previousValue: number | undefined, value: number): number | null {
+  if (previousValue === undefined || previousValue === 0) return null
+  return ((value - previousValue) / previousValue) * 100
+}
+
+const classifyTrend = (previousYoy: number | null, yoy: number | null): GrowthTrend | null => {
+  if (previousYoy === null || yoy === null) return null
+  if (yoy - previousYoy > TREND_TOLERANCE) return 'accelerating'
+  if (previousYoy - yoy > TREND_TOLERANCE) return 'decelerating'
+  return 'steady'
+}
+
+/**
+ * Growth metrics for one yearly series, limited to startYear..endYear. Years
+ * before the window still feed the first YoY and the rolling CAGR.
+ */
+export function computeGrowthSeries(
+  valuesByYear: Map<number, number>,
+  { startYear, endYear, rollingWindow = 3 }: GrowthOptions
+): GrowthPoint[] {
+  const points: GrowthPoint[] = []
+  const startValue = valuesByYear.get(startYear)
+  let previousYoy: number | null = null
+
+  for (let year = startYear; year <= endYear; year++) {
+    const value = valuesByYear.get(year)
+    if (value === undefined) continue
+
+    const yoy = calculateYoY(valuesByYear.get(year - 1), value)
+    const windowStart = valuesByYear.get(year - rollingWindow)
+    points.push({
+      year,
+      value,
+      yoy,
+      cagr: startValue === undefined ? null : calculateCAGR(startValue, value, year - startYear),
+      rollingCagr: windowStart === undefined ? null : calculateCAGR(windowStart, value, rollingWindow),
+      trend: classifyTrend(previousYoy, yoy),
+    })
+    previousYoy = yoy
+  }
+  return points
+}
+
+/**
+ * Growth series for each value of `entityKey` in the selection. With no
+ * entities given, every entity present in the data is returned, largest
+ * end-year value first.
+ */
+export function computeGrowthByEntity(
+  store: ColumnarStore,
+  selection: Bitmap,
+  entityKey: GrowthEntityKey,
+  entities: string[],
+  options: GrowthOptions
+): GrowthSeries[] {
+  const measure = options.measure === 'volumeUnits' ? 'sum(volumeUnits)' : 'sum(marketValueUsd)'
+  const rows = query(store, {
+    where: selection,
+    filters: entities.length > 0 ? { [entityKey]: entities } : {},
+    groupBy: [entityKey, 'year'],
+    measures: [measure],
+  })
+
+  const valuesByEntity = new Map<string, Map<number, number>>()
+  rows.forEach(row => {
+    const entity = String(row[entityKey])
+    if (!entity) return
+    if (!valuesByEntity.has(entity)) {
+      valuesByEntity.set(entity, new Map())
+    }
+    valuesByEntity.get(entity)!.set(Number(row.year), row[measure])
+  })
+
+  const series = Array.from(valuesByEntity.entries()).map(([entity, valuesByYear]) => {
+    const points = computeGrowthSeries(valuesByYear, options)
+    const latest = points[points.length - 1]
+    return {
+      entity,
+      points,
+      cagr: points.length > 1 ? points[points.length - 1].cagr : null,
+      latestYoy: latest?.yoy ?? null,
+      latestTrend: latest?.trend ?? null,
+    }
+  })
+
+  if (entities.length > 0) {
+    return entities
+      .map(entity => series.find(item => item.entity === entity))
+      .filter((item): item is GrowthSeries => item !== undefined)
+  }
+  const endValue = (item: GrowthSeries) => item.points[item.points.length - 1]?.value ?? 0
+  return series.sort((a, b) => endValue(b) - endValue(a))
+}
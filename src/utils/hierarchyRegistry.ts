@@ -0,0 +1,113 @@
+import { bitmapAnd, distinctValues, selectAll, selectIn, type Bitmap, type ColumnarStore, type DimensionKey } from './columnarStore'
+import { marketDefinition, type SegmentDefinition } from './marketDefinition'
+
+export type HierarchyId = 'product' | 'endUser' | 'channel' | 'geography'
+
+export interface HierarchyNode {
+  name: string
+  children: HierarchyNode[]
+}
+
+// Two levels, as HierarchicalFilterDropdown takes them
+export interface FilterHierarchyItem {
+  mainCategory: string
+  subCategories: string[]
+}
+
+// Up to three levels, as NestedHierarchicalFilterDropdown takes them
+export interface NestedFilterHierarchyItem {
+  mainCategory: string
+  subCategories: (string | { name: string; children?: string[] })[]
+}
+
+// Dropdown values join the names on the path from the top level
+export const HIERARCHY_SEPARATOR = ' - '
+
+// The columns each hierarchy's levels are stored in, top level first
+export const hierarchyLevels: Record<HierarchyId, DimensionKey[]> = {
+  product: ['productCategory', 'subProductCategory'],
+  endUser: ['endUser'],
+  // distributionChannel only records the online sub-channel, whatever the type, so it isn't a level
+  channel: ['distributionChannelType'],
+  geography: ['region', 'country'],
+}
+
+const definitionSegments: Record<HierarchyId, SegmentDefinition> = {
+  product: marketDefinition.segments.productCategory,
+  endUser: marketDefinition.segments.endUser,
+  channel: marketDefinition.segments.distributionChannelType,
+  geography: marketDefinition.geography,
+}
+
+// Known values in the market definition's order, then any others alphabetically
+const orderLike = (values: string[], reference: string[]) => {
+  const rank = (value: string) => reference.includes(value) ? reference.indexOf(value) : reference.length
+  return [...values].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+}
+
+// A hierarchy as the market definition declares it
+export function hierarchyFromDefinition(id: HierarchyId): HierarchyNode[] {
+  const segment = definitionSegments[id]
+  return segment.values.map(value => ({
+    name: value,
+    children: (segment.children?.[value] ?? []).map(child => ({ name: child, children: [] })),
+  }))
+}
+
+/**
+ * A hierarchy as it occurs in the data, one level per column of
+ * `hierarchyLevels`. A child named like its parent stands for "no
+ * breakdown" (the generator stores childless categories that way) and is
+ * left out.
+ */
+export function hierarchyFromStore(store: ColumnarStore, id: HierarchyId, selection: Bitmap = selectAll(store)): HierarchyNode[] {
+  const levels = hierarchyLevels[id]
+  const segment = definitionSegments[id]
+
+  const build = (depth: number, within: Bitmap, parent: string | null): HierarchyNode[] => {
+    const key = levels[depth]
+    const values = (distinctValues(store, key, within) as string[]).filter(value => value && value !== parent)
+    const reference = depth === 0 ? segment.values : (parent && segment.children?.[parent]) || []
+    return orderLike(values, reference).map(name => ({
+      name,
+      children: depth + 1 < levels.length
+        ? build(depth + 1, bitmapAnd(within, selectIn(store, key, [name])), name)
+        : [],
+    }))
+  }
+
+  return build(0, selection, null)
+}
+
+// The hierarchy in the loaded data, or the market definition's before any is loaded
+export function getHierarchy(id: HierarchyId, store?: ColumnarStore | null): HierarchyNode[] {
+  return store && store.rowCount > 0 ? hierarchyFromStore(store, id) : hierarchyFromDefinition(id)
+}
+
+export function toFilterHierarchy(nodes: HierarchyNode[]): FilterHierarchyItem[] {
+  return nodes.map(node => ({ mainCategory: node.name, subCategories: node.children.map(child => child.name) }))
+}
+
+export function toNestedFilterHierarchy(nodes: HierarchyNode[]): NestedFilterHierarchyItem[] {
+  return nodes.map(node => ({
+    mainCategory: node.name,
+    subCategories: node.children.map(child => child.children.length > 0
+      ? { name: child.name, children: child.children.map(grandchild => grandchild.name) }
+      : child.name),
+  }))
+}
+
+// Selected paths without a selected descendant; the dropdowns keep a parent selected while any child is
+export function deepestSelections(selected: string[]): string[] {
+  const paths = selected.filter(Boolean)
+  return paths.filter(path => !paths.some(other => other.startsWith(`${path}${HIERARCHY_SEPARATOR}`)))
+}
+
+/**
+ * The segments a dropdown selection stands for: the last name of each
+ * deepest selected path, so picking "Valve Solutions - Gate Valves" charts
+ * Gate Valves rather than all of Valve Solutions.
+ */
+export function resolveSelection(selected: string[]): string[] {
+  return deepestSelections(selected).map(path => path.split(HIERARCHY_SEPARATOR).pop()!)
+}
@@ -0,0 +1,156 @@
+export type FieldValidator = (value: string) => string | null
+
+export interface FieldSchema<K extends string = string> {
+  key: K
+  label: string
+  // Alternative header wordings used by past vendor deliveries
+  aliases: string[]
+  required: boolean
+  validate?: FieldValidator
+}
+
+export interface InvalidCell<K extends string = string> {
+  // 1-based data row number, not counting the header
+  row: number
+  header: string
+  field: K
+  value: string
+  message: string
+}
+
+export interface SchemaValidationReport<K extends string = string> {
+  matchedColumns: Array<{ header: string; field: K }>
+  missingColumns: Array<{ field: K; label: string; required: boolean }>
+  unknownColumns: string[]
+  duplicateColumns: string[]
+  invalidCells: InvalidCell<K>[]
+}
+
+// Target field per file column, or null when the column is ignored
+export type ColumnMapping<K extends string = string> = Array<K | null>
+
+export const isEmail: FieldValidator = (value) =>
+  /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? null : 'Not a valid email address'
+
+export const isUrl: FieldValidator = (value) => {
+  try {
+    const url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(value) ? value : `https://${value}`)
+    return url.hostname.includes('.') ? null : 'Not a valid URL'
+  } catch {
+    return 'Not a valid URL'
+  }
+}
+
+export const isPhone: FieldValidator = (value) => {
+  const digits = value.replace(/\D/g, '')
+  return /^\+?[\d\s().\-/]+(?:\s*(?:x|ext\.?)\s*\d+)?$/i.test(value) && digits.length >= 7 && digits.length <= 15
+    ? null
+    : 'Not a valid phone number'
+}
+
+export const isNumber: FieldValidator = (value) =>
+  Number.isFinite(parseNumber(value)) ? null : 'Not a number'
+
+export const isYear: FieldValidator = (value) => {
+  const year = parseNumber(value)
+  return Number.isInteger(year) && year >= 1900 && year <= 2100 ? null : 'Not a valid year'
+}
+
+// Accepts thousands separators, currency symbols and a trailing percent sign
+export const parseNumber = (value: string): number => {
+  const cleaned = value.trim().replace(/[,$€£\s]/g, '').replace(/%$/, '')
+  return cleaned === '' ? NaN : Number(cleaned)
+}
+
+// Header matching ignores case, punctuation and spacing ("Headquarters Address" = "Headquarter's Address")
+export const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/**
+ * Suggest a target field for every file column by matching its header
+ * against each field's label and aliases.
+ */
+export function suggestMapping<K extends string>(headers: string[], schema: FieldSchema<K>[]): ColumnMapping<K> {
+  const lookup = new Map<string, K>()
+  schema.forEach(field => {
+    [field.label, field.key, ...field.aliases].forEach(name => {
+      const normalized = normalizeHeader(name)
+      if (!lookup.has(normalized)) lookup.set(normalized, field.key)
+    })
+  })
+  return headers.map(header => lookup.get(normalizeHeader(header)) ?? null)
+}
+
+/**
+ * Report matched, missing, unknown and duplicate columns for a mapping. The
+ * first column mapped to a field wins; later ones are dropped from the
+ * returned mapping.
+ */
+export function describeMapping<K extends string>(
+  headers: string[],
+  mapping: ColumnMapping<K>,
+  schema: FieldSchema<K>[]
+): { mapping: ColumnMapping<K>; report: Omit<SchemaValidationReport<K>, 'invalidCells'> } {
+  const seen = new Set<K>()
+  const matchedColumns: SchemaValidationReport<K>['matchedColumns'] = []
+  const unknownColumns: string[] = []
+  const duplicateColumns: string[] = []
+
+  const deduped = headers.map((header, index) => {
+    const key = mapping[index] ?? null
+    if (key === null) {
+      if (header.trim()) unknownColumns.push(header)
+      return null
+    }
+    if (seen.has(key)) {
+      duplicateColumns.push(header)
+      return null
+    }
+    seen.add(key)
+    matchedColumns.push({ header, field: key })
+    return key
+  })
+
+  const missingColumns = schema
+    .filter(field => !seen.has(field.key))
+    .map(field => ({ field: field.key, label: field.label, required: field.required }))
+
+  return { mapping: deduped, report: { matchedColumns, missingColumns, unknownColumns, duplicateColumns } }
+}
+
+/**
+ * Map raw rows onto schema fields, validating non-empty cells and flagging
+ * empty required ones. Fields without a mapped column are left empty.
+ */
+export function applySchema<K extends string>(
+  headers: string[],
+  rows: string[][],
+  schema: FieldSchema<K>[],
+  mapping: ColumnMapping<K> = suggestMapping(headers, schema)
+): { records: Array<Record<K, string>>; report: SchemaValidationReport<K> } {
+  const { mapping: resolved, report } = describeMapping(headers, mapping, schema)
+  const fieldsByKey = new Map(schema.map(field => [field.key, field]))
+  const invalidCells: InvalidCell<K>[] = []
+
+  const records = rows.map((values, rowIndex) => {
+    const record = Object.fromEntries(schema.map(field => [field.key, ''])) as Record<K, string>
+
+    resolved.forEach((key, index) => {
+      if (key === null) return
+      const value = (values[index] || '').trim()
+      record[key] = value
+
+      const field = fieldsByKey.get(key)
+      const message = !value
+        ? (field?.required ? 'Required value is missing' : null)
+        : (field?.validate ? field.validate(value) : null)
+      if (message) {
+        invalidCells.push({ row: rowIndex + 1, header: headers[index], field: key, value, message })
+      }
+    })
+
+    return record
+  })
+
+  return { records, report: { ...report, invalidCells } }
+}
@@ -0,0 +1,163 @@
+import type { Bitmap, ColumnarStore } from './columnarStore'
+import { query } from './marketQuery'
+
+export type OpportunityBreakdown = 'productCategory' | 'region' | 'distributionChannelType'
+
+export const opportunityBreakdowns: Record<OpportunityBreakdown, string> = {
+  productCategory: 'Product Category',
+  region: 'Region',
+  distributionChannelType: 'Sales Channel',
+}
+
+export interface OpportunityStep {
+  year: number
+  startValue: number
+  endValue: number
+  incremental: number
+  // Price and volume effects add up to `incremental`
+  priceEffect: number
+  volumeEffect: number
+  contributions: Record<string, number>
+}
+
+export interface SegmentContribution {
+  segment: string
+  incremental: number
+  // Percent of the total incremental opportunity
+  share: number
+}
+
+export interface IncrementalOpportunity {
+  baseYear: number
+  endYear: number
+  baseValue: number
+  endValue: number
+  totalIncremental: number
+  priceEffect: number
+  volumeEffect: number
+  steps: OpportunityStep[]
+  // Segments in order of their contribution over the whole window
+  segments: SegmentContribution[]
+}
+
+export interface OpportunityOptions {
+  baseYear: number
+  endYear: number
+  breakdown: OpportunityBreakdown
+}
+
+interface YearTotals {
+  value: number
+  volume: number
+}
+
+// Values are reported in the dashboard's million units
+const toMillions = (value: number) => value / 1000
+
+/**
+ * Split a change in value into price and volume effects using the midpoint
+ * method, so the two effects sum exactly to the change with no residual.
+ */
+export function splitPriceVolume(start: YearTotals, end: YearTotals): { priceEffect: number; volumeEffect: number } {
+  const startPrice = start.volume > 0 ? start.value / start.volume : 0
+  const endPrice = end.volume > 0 ? end.value / end.volume : 0
+  // A side with no volume has no price; all of the change is volume
+  if (start.volume === 0 || end.volume === 0) {
+    return { priceEffect: 0, volumeEffect: end.value - start.value }
+  }
+  return {
+    priceEffect: (endPrice - startPrice) * (start.volume + end.volume) / 2,
+    volumeEffect: (end.volume - start.volume) * (startPrice + endPrice) / 2,
+  }
+}
+
+/**
+ * Incremental market value from `baseYear` to `endYear`, year by year, with
+ * each step split into segment contributions and price vs volume effects.
+ * Returns null when either end year has no data in the selection.
+ */
+export function computeIncrementalOpportunity(
+  store: ColumnarStore,
+  selection: Bitmap,
+  { baseYear, endYear, breakdown }: OpportunityOptions
+): IncrementalOpportunity | null {
+  if (endYear <= baseYear) return null
+
+  const rows = query(store, {
+    where: selection,
+    filters: { year: year => Number(year) >= baseYear && Number(year) <= endYear },
+    groupBy: ['year', breakdown],
+    measures: ['sum(marketValueUsd)', 'sum(volumeUnits)'],
+  })
+
+  const yearTotals = new Map<number, YearTotals>()
+  const segmentValues = new Map<number, Map<string, number>>()
+  rows.forEach(row => {
+    const year = Number(row.year)
+    const value = toMillions(row['sum(marketValueUsd)'])
+    const totals = yearTotals.get(year) || { value: 0, volume: 0 }
+    totals.value += value
+    totals.volume += row['sum(volumeUnits)']
+    yearTotals.set(year, totals)
+
+    if (!segmentValues.has(year)) {
+      segmentValues.set(year, new Map())
+    }
+    const segment = String(row[breakdown]) || 'Unspecified'
+    const segments = segmentValues.get(year)!
+    segments.set(segment, (segments.get(segment) || 0) + value)
+  })
+
+  if (!yearTotals.has(baseYear) || !yearTotals.has(endYear)) return null
+
+  const allSegments = Array.from(new Set(rows.map(row => String(row[breakdown]) || 'Unspecified')))
+  const empty: YearTotals = { value: 0, volume: 0 }
+  const steps: OpportunityStep[] = []
+  for (let year = baseYear + 1; year <= endYear; year++) {
+    const start = yearTotals.get(year - 1) || empty
+    const end = yearTotals.get(year) || empty
+    const startSegments = segmentValues.get(year - 1)
+    const endSegments = segmentValues.get(year)
+
+    const contributions: Record<string, number> = {}
+    allSegments.forEach(segment => {
+      contributions[segment] = (endSegments?.get(segment) || 0) - (startSegments?.get(segment) || 0)
+    })
+
+    steps.push({
+      year,
+      startValue: start.value,
+      endValue: end.value,
+      incremental: end.value - start.value,
+      ...splitPriceVolume(start, end),
+      contributions,
+    })
+  }
+
+  const baseValue = yearTotals.get(baseYear)!.value
+  const endValue = yearTotals.get(endYear)!.value
+  const totalIncremental = endValue - baseValue
+
+  const segments = allSegments
+    .map(segment => {
+      const incremental = steps.reduce((sum, step) => sum + step.contributions[segment], 0)
+      return {
+        segment,
+        incremental,
+        share: totalIncremental !== 0 ? (incremental / totalIncremental) * 100 : 0,
+      }
+    })
+    .sort((a, b) => b.incremental - a.incremental)
+
+  return {
+    baseYear,
+    endYear,
+    baseValue,
+    endValue,
+    totalIncremental,
+    priceEffect: steps.reduce((sum, step) => sum + step.priceEffect, 0),
+    volumeEffect: steps.reduce((sum, step) => sum + step.volumeEffect, 0),
+    steps,
+    segments,
+  }
+}
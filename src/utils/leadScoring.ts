@@ -0,0 +1,143 @@
+import type { CustomerIntelligenceData } from './csvParser'
+
+export type LeadTier = 'Hot' | 'Warm' | 'Cold'
+
+export const LEAD_TIERS: LeadTier[] = ['Hot', 'Warm', 'Cold']
+
+// Score fields are rated on a 1-5 scale in the survey
+const MIN_SCORE = 1
+const MAX_SCORE = 5
+
+const tierWeights: Record<LeadTier, number> = {
+  'Hot': 3,
+  'Warm': 2,
+  'Cold': 1,
+}
+
+export interface ParsedScore {
+  score: number | null
+  rationale: string
+}
+
+export interface ParsedTier {
+  tier: LeadTier | null
+  rationale: string
+}
+
+export interface LeadScore {
+  demandScore: number | null
+  demandRationale: string
+  oemFitScore: number | null
+  oemFitRationale: string
+  leadTier: LeadTier | null
+  leadRationale: string
+  // Composite used for ranking: tier first, then demand and OEM fit
+  priority: number
+}
+
+export interface ScoredCustomer extends CustomerIntelligenceData {
+  leadScore: LeadScore
+}
+
+export interface LeadParseIssue {
+  rowIndex: number
+  companyName: string
+  field: keyof CustomerIntelligenceData
+  value: string
+  reason: string
+}
+
+export interface LeadScoringResult {
+  rows: ScoredCustomer[]
+  issues: LeadParseIssue[]
+}
+
+/**
+ * Parse a "<score> <rationale>" field such as "5  largest national landscaper".
+ * The separator between score and rationale was lost in the CSV export, so any
+ * run of whitespace or dash/colon characters is accepted.
+ */
+export function parseScoreField(raw: string): ParsedScore {
+  const value = (raw || '').trim()
+  const match = value.match(/^(\d+(?:\.\d+)?)(?:\s*\/\s*5)?(?:[\s\-–—:|]+([\s\S]*))?$/)
+  if (!match) {
+    return { score: null, rationale: value }
+  }
+
+  const score = Number(match[1])
+  if (!Number.isFinite(score) || score < MIN_SCORE || score > MAX_SCORE) {
+    return { score: null, rationale: value }
+  }
+
+  return { score, rationale: (match[2] || '').trim() }
+}
+
+/**
+ * Parse a lead potential field such as "Hot  scale  centralized sourcing" into
+ * its Hot/Warm/Cold tier and the rationale that follows it.
+ */
+export function parseLeadTier(raw: string): ParsedTier {
+  const value = (raw || '').trim()
+  const match = value.match(/^(hot|warm|cold)\b[\s\-–—:|]*([\s\S]*)$/i)
+  if (!match) {
+    return { tier: null, rationale: value }
+  }
+
+  const tier = (match[1].charAt(0).toUpperCase() + match[1].slice(1).toLowerCase()) as LeadTier
+  return { tier, rationale: match[2].trim() }
+}
+
+const getPriority = (demandScore: number | null, oemFitScore: number | null, leadTier: LeadTier | null): number => {
+  const tierWeight = leadTier ? tierWeights[leadTier] : 0
+  return tierWeight * 10 + (demandScore || 0) + (oemFitScore || 0)
+}
+
+/**
+ * Normalize the free-text lead assessment fields of every row into typed
+ * scores, and report the rows whose fields could not be parsed.
+ */
+export function scoreCustomers(data: CustomerIntelligenceData[]): LeadScoringResult {
+  const issues: LeadParseIssue[] = []
+
+  const rows = data.map((row, rowIndex) => {
+    const demand = parseScoreField(row.demandAttractiveScore)
+    const oemFit = parseScoreField(row.fitForOEMShovelType)
+    const lead = parseLeadTier(row.leadPotential)
+
+    const report = (field: keyof CustomerIntelligenceData, reason: string) => {
+      issues.push({ rowIndex, companyName: row.companyName, field, value: row[field], reason })
+    }
+
+    if (demand.score === null) {
+      report('demandAttractiveScore', row.demandAttractiveScore ? `Expected a ${MIN_SCORE}-${MAX_SCORE} score` : 'Missing value')
+    }
+    if (oemFit.score === null) {
+      report('fitForOEMShovelType', row.fitForOEMShovelType ? `Expected a ${MIN_SCORE}-${MAX_SCORE} score` : 'Missing value')
+    }
+    if (lead.tier === null) {
+      report('leadPotential', row.leadPotential ? 'Expected Hot, Warm or Cold' : 'Missing value')
+    }
+
+    return {
+      ...row,
+      leadScore: {
+        demandScore: demand.score,
+        demandRationale: demand.rationale,
+        oemFitScore: oemFit.score,
+        oemFitRationale: oemFit.rationale,
+        leadTier: lead.tier,
+        leadRationale: lead.rationale,
+        priority: getPriority(demand.score, oemFit.score, lead.tier),
+      }
+    }
+  })
+
+  return { rows, issues }
+}
+
+/**
+ * Rank scored customers from most to least promising lead.
+ */
+export function rankLeads(rows: ScoredCustomer[]): ScoredCustomer[] {
+  return [...rows].sort((a, b) => b.leadScore.priority - a.leadScore.priority)
+}
@@ -0,0 +1,130 @@
+import type { Bitmap, ColumnarStore } from './columnarStore'
+import { calculateCAGR } from './growthAnalytics'
+import { query } from './marketQuery'
+
+export type AttractivenessDimension =
+  | 'region'
+  | 'country'
+  | 'productCategory'
+  | 'subProductCategory'
+  | 'bladeMaterial'
+  | 'application'
+  | 'endUser'
+  | 'distributionChannelType'
+
+export const attractivenessDimensions: Record<AttractivenessDimension, string> = {
+  region: 'Region',
+  country: 'State',
+  productCategory: 'Product Category',
+  subProductCategory: 'Sub-category',
+  bladeMaterial: 'Material',
+  application: 'Application',
+  endUser: 'End User',
+  distributionChannelType: 'Sales Channel',
+}
+
+export type Quadrant = 'Invest' | 'Maintain' | 'Harvest' | 'Exit'
+
+export const quadrantDescriptions: Record<Quadrant, string> = {
+  Invest: 'Growing faster than the market with an above-average share',
+  Maintain: 'Growing faster than the market from a below-average share',
+  Harvest: 'Above-average share in a segment growing slower than the market',
+  Exit: 'Below-average share and slower growth than the market',
+}
+
+// Index values where the quadrants split; 1.0 is the market average
+export interface QuadrantThresholds {
+  cagrIndex: number
+  shareIndex: number
+}
+
+export const DEFAULT_QUADRANT_THRESHOLDS: QuadrantThresholds = { cagrIndex: 1, shareIndex: 1 }
+
+export interface AttractivenessPoint {
+  segment: string
+  // Percent a year between the start and end year
+  cagr: number
+  // Percent of the end-year market
+  share: number
+  // US$ Mn added between the start and end year
+  incrementalOpportunity: number
+  cagrIndex: number
+  marketShareIndex: number
+  opportunityIndex: number
+}
+
+export interface AttractivenessResult {
+  points: AttractivenessPoint[]
+  marketCagr: number
+}
+
+export function classifyQuadrant(point: AttractivenessPoint, thresholds: QuadrantThresholds): Quadrant {
+  const fastGrowth = point.cagrIndex >= thresholds.cagrIndex
+  const largeShare = point.marketShareIndex >= thresholds.shareIndex
+  if (fastGrowth) return largeShare ? 'Invest' : 'Maintain'
+  return largeShare ? 'Harvest' : 'Exit'
+}
+
+/**
+ * Score every value of `dimension` in the selection between two years.
+ * Each index is relative to the market average, so 1.0 means "average":
+ * - CAGR index: segment CAGR / market CAGR. When the market is flat or
+ *   shrinking the ratio of growth factors is used instead.
+ * - Market share index: end-year share / average share (1 / segment count).
+ * - Opportunity index: incremental value / average incremental value.
+ */
+export function computeAttractiveness(
+  store: ColumnarStore,
+  selection: Bitmap,
+  dimension: AttractivenessDimension,
+  startYear: number,
+  endYear: number
+): AttractivenessResult | null {
+  if (endYear <= startYear) return null
+
+  const rows = query(store, {
+    where: selection,
+    filters: { year: [startYear, endYear] },
+    groupBy: [dimension, 'year'],
+    measures: ['sum(marketValueUsd)'],
+  })
+
+  const values = new Map<string, { start: number; end: number }>()
+  rows.forEach(row => {
+    const segment = String(row[dimension])
+    if (!segment) return
+    const entry = values.get(segment) || { start: 0, end: 0 }
+    // Reported in the dashboard's million units
+    const value = row['sum(marketValueUsd)'] / 1000
+    if (Number(row.year) === startYear) entry.start += value
+    else entry.end += value
+    values.set(segment, entry)
+  })
+
+  // Only segments present in both years can be scored
+  const segments = Array.from(values.entries()).filter(([, { start, end }]) => start > 0 && end > 0)
+  if (segments.length === 0) return null
+
+  const periods = endYear - startYear
+  const marketStart = segments.reduce((sum, [, { start }]) => sum + start, 0)
+  const marketEnd = segments.reduce((sum, [, { end }]) => sum + end, 0)
+  const marketCagr = calculateCAGR(marketStart, marketEnd, periods) ?? 0
+  const averageIncremental = (marketEnd - marketStart) / segments.length
+
+  const points = segments.map(([segment, { start, end }]) => {
+    const cagr = calculateCAGR(start, end, periods) ?? 0
+    const share = (end / marketEnd) * 100
+    const incrementalOpportunity = end - start
+    return {
+      segment,
+      cagr,
+      share,
+      incrementalOpportunity,
+      cagrIndex: marketCagr > 0 ? cagr / marketCagr : (1 + cagr / 100) / (1 + marketCagr / 100),
+      marketShareIndex: share / (100 / segments.length),
+      opportunityIndex: averageIncremental !== 0 ? incrementalOpportunity / averageIncremental : 0,
+    }
+  })
+
+  return { points: points.sort((a, b) => b.incrementalOpportunity - a.incrementalOpportunity), marketCagr }
+}
@@ -0,0 +1,221 @@
+import type { DimensionKey, MeasureKey } from './columnarStore'
+
+// A dataset column the dashboard segments by, and the values it takes
+export interface SegmentDefinition {
+  key: DimensionKey
+  label: string
+  values: string[]
+  // Second level of the hierarchy, stored in its own column
+  childKey?: DimensionKey
+  childLabel?: string
+  // Children of each value; values without an entry have none
+  children?: Record<string, string[]>
+}
+
+export interface MeasureDefinition {
+  key: MeasureKey
+  label: string
+  unit: string
+}
+
+export type SegmentId = 'productCategory' | 'bladeMaterial' | 'handleLength' | 'application' | 'endUser' | 'distributionChannelType'
+
+// Multipliers the synthetic data generator applies to each record
+export interface GeneratorDrivers {
+  productCategory: Record<string, { price: number; volume: number; cagr: number }>
+  bladeMaterial: Record<string, { price: number; volume: number }>
+  handleLength: Record<string, { price: number }>
+  application: Record<string, { volume: number; price: number }>
+  region: Record<string, { volume: number; marketShare: number }>
+  // Keyed by channel type; sales channels mentioning "Offline" use the offline entry
+  channelType: Record<'Offline' | 'Online', { volume: number; price: number }>
+  // Brand price premiums: brands cycle through `tiers` steps up from `base`
+  brandPremium: { base: number; step: number; tiers: number }
+  // Sub-channels picked for each channel type
+  channels: Record<'Offline' | 'Online', string[]>
+}
+
+export interface MarketDefinition {
+  // Market name without the geography, e.g. "Water Repair Products"
+  name: string
+  // Geography covered, as shown in titles
+  scope: string
+  // What a customer account buys, as shown in customer intelligence
+  productNoun: string
+  years: {
+    first: number
+    last: number
+    // Last year of reported actuals; later years are projections
+    lastActual: number
+    // End of the outlook period the dashboard headlines
+    outlookEnd: number
+  }
+  geography: SegmentDefinition
+  segments: Record<SegmentId, SegmentDefinition>
+  measures: { value: MeasureDefinition; volume: MeasureDefinition }
+  competitors: { brands: string[]; companies: string[] }
+  drivers: GeneratorDrivers
+}
+
+export const marketDefinition: MarketDefinition = {
+  name: 'Water Repair Products',
+  scope: 'U.S.',
+  productNoun: 'Repair Product',
+  years: { first: 2021, last: 2035, lastActual: 2024, outlookEnd: 2032 },
+  geography: {
+    key: 'region',
+    label: 'Region',
+    values: ['Northeast', 'Midwest', 'South', 'West'],
+    childKey: 'country',
+    childLabel: 'State',
+    children: {
+      'Northeast': ['New York', 'Pennsylvania', 'Massachusetts', 'New Jersey', 'Connecticut', 'Maine'],
+      'Midwest': ['Illinois', 'Ohio', 'Michigan', 'Wisconsin', 'Minnesota', 'Indiana'],
+      'South': ['Texas', 'Florida', 'Georgia', 'North Carolina', 'Virginia', 'Tennessee'],
+      'West': ['California', 'Washington', 'Oregon', 'Colorado', 'Arizona', 'Nevada'],
+    },
+  },
+  segments: {
+    productCategory: {
+      key: 'productCategory',
+      label: 'Product Category',
+      values: [
+        'Pipe Repair & Connection Products',
+        'Restraint Couplings',
+        'Corporation Stops',
+        'Curb Valves & Boxes',
+        'Valve Solutions',
+        'Hydrants & Flow Control',
+        'Others (Leak Detection & Condition Assessment)',
+      ],
+      childKey: 'subProductCategory',
+      childLabel: 'Sub-Product Category',
+      children: {
+        'Pipe Repair & Connection Products': ['Repair Clamps', 'Repair Sleeves', 'Wide-Range Couplings', 'Transition Couplings', 'Flange Adapters'],
+        'Restraint Couplings': ['Service Line Products', 'Service Saddles', 'Tapping Sleeves'],
+        'Valve Solutions': ['Gate Valves', 'Butterfly Valves', 'Insertion Valves', 'Check Valves'],
+        'Hydrants & Flow Control': ['Fire Hydrants', 'Hydrant Repair Kits'],
+        'Others (Leak Detection & Condition Assessment)': ['Acoustic Leak Detection Systems', 'Smart Monitoring Sensors', 'Pipe Condition Assessment Tools'],
+      },
+    },
+    bladeMaterial: {
+      key: 'bladeMaterial',
+      label: 'Pipe Material',
+      values: ['Ductile Iron', 'Cast Iron', 'PVC', 'HDPE', 'Steel', 'Concrete / Asbestos Cement'],
+    },
+    handleLength: {
+      key: 'handleLength',
+      label: 'Price Band',
+      values: ['Mass', 'Premium', 'Luxury'],
+    },
+    application: {
+      key: 'application',
+      label: 'Application',
+      values: [
+        'Potable Water Distribution',
+        'Wastewater / Sewer Lines',
+        'Emergency Leak Repair',
+        'Planned Rehabilitation / Retrofits',
+        'New Installation & Expansion Projects',
+        'Industrial Water Lines',
+        'Agricultural / Irrigation Lines',
+        'Others',
+      ],
+    },
+    endUser: {
+      key: 'endUser',
+      label: 'End User',
+      values: [
+        'Municipal Water Utilities',
+        'Private Water Utilities',
+        'Public Works Departments',
+        'Civil & Water Infrastructure Contractors',
+        'Industrial Facilities',
+        'Commercial Plumbing Contractors',
+        'Distributors & Waterworks Wholesalers',
+        'Others',
+      ],
+    },
+    distributionChannelType: {
+      key: 'distributionChannelType',
+      label: 'Sales Channel',
+      values: [
+        'Direct Sales',
+        'Distributor / Wholesaler Network',
+        'Online Procurement Platforms',
+        'Federal & Infrastructure-Funded Projects',
+      ],
+    },
+  },
+  measures: {
+    value: { key: 'marketValueUsd', label: 'Market Size', unit: 'US$ Million' },
+    volume: { key: 'volumeUnits', label: 'Market Volume', unit: 'Units' },
+  },
+  competitors: {
+    brands: [
+      'Mueller', 'Smith-Blair', 'Romac', 'Dresser', 'Ford Meter Box',
+      'American Flow Control', 'Mueller Systems', 'Echologics', 'JCM Industries', 'Krausz',
+    ],
+    companies: [
+      'Mueller Water Products', 'Smith-Blair Inc', 'Romac Industries', 'Dresser Utility Solutions', 'Ford Meter Box Company',
+      'American Flow Control (AFC)', 'Mueller Systems', 'Echologics (Mueller)', 'JCM Industries', 'Krausz USA',
+    ],
+  },
+  drivers: {
+    productCategory: {
+      'Pipe Repair & Connection Products': { price: 1.0, volume: 1.3, cagr: 1.2 },
+      'Restraint Couplings': { price: 1.1, volume: 1.1, cagr: 1.1 },
+      'Corporation Stops': { price: 0.9, volume: 1.2, cagr: 1.0 },
+      'Curb Valves & Boxes': { price: 0.95, volume: 1.15, cagr: 1.05 },
+      'Valve Solutions': { price: 1.2, volume: 1.0, cagr: 1.15 },
+      'Hydrants & Flow Control': { price: 1.3, volume: 0.9, cagr: 1.1 },
+      'Others (Leak Detection & Condition Assessment)': { price: 1.5, volume: 0.8, cagr: 1.3 },
+    },
+    bladeMaterial: {
+      'Ductile Iron': { price: 1.2, volume: 1.3 },
+      'Cast Iron': { price: 1.1, volume: 1.2 },
+      'PVC': { price: 0.8, volume: 1.4 },
+      'HDPE': { price: 0.9, volume: 1.3 },
+      'Steel': { price: 1.3, volume: 1.1 },
+      'Concrete / Asbestos Cement': { price: 1.0, volume: 1.0 },
+    },
+    handleLength: {
+      'Mass': { price: 0.8 },
+      'Premium': { price: 1.2 },
+      'Luxury': { price: 1.5 },
+    },
+    application: {
+      'Potable Water Distribution': { volume: 1.5, price: 1.2 },
+      'Wastewater / Sewer Lines': { volume: 1.3, price: 1.1 },
+      'Emergency Leak Repair': { volume: 1.4, price: 1.3 },
+      'Planned Rehabilitation / Retrofits': { volume: 1.2, price: 1.2 },
+      'New Installation & Expansion Projects': { volume: 1.1, price: 1.0 },
+      'Industrial Water Lines': { volume: 1.0, price: 1.1 },
+      'Agricultural / Irrigation Lines': { volume: 0.9, price: 0.9 },
+      'Others': { volume: 0.8, price: 0.8 },
+    },
+    region: {
+      'Northeast': { volume: 1.3, marketShare: 1.2 },
+      'Midwest': { volume: 1.4, marketShare: 1.3 },
+      'South': { volume: 1.5, marketShare: 1.4 },
+      'West': { volume: 1.2, marketShare: 1.1 },
+    },
+    channelType: {
+      Offline: { volume: 1.3, price: 1.1 },
+      Online: { volume: 1.2, price: 0.95 },
+    },
+    brandPremium: { base: 0.8, step: 0.4, tiers: 3 },
+    channels: {
+      Offline: ['Direct Sales', 'Distributor Network', 'Federal Projects'],
+      Online: ['Online Procurement Platforms', 'E-commerce'],
+    },
+  },
+}
+
+// Title of the dashboard, e.g. "U.S. Water Repair Products Market Dashboard"
+export const dashboardTitle = (definition: MarketDefinition = marketDefinition) =>
+  `${definition.scope} ${definition.name} Market Dashboard`
+
+// Children of a segment value, empty for values without a second level
+export const childrenOf = (segment: SegmentDefinition, value: string): string[] =>
+  segment.children?.[value] ?? []
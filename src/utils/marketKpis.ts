@@ -0,0 +1,124 @@
+import type { Bitmap, ColumnarStore } from './columnarStore'
+import { query } from './marketQuery'
+
+export interface KpiValue {
+  value: number
+  // Same KPI one period earlier, null when that period is not in the data
+  previous: number | null
+}
+
+export interface TopSegment {
+  name: string
+  // Percent of the latest year's total
+  share: number
+  previousShare: number | null
+}
+
+export interface MarketKpis {
+  firstYear: number
+  latestYear: number
+  previousYear: number | null
+  // marketValueUsd of the latest year, in the dashboard's million units
+  totalValue: KpiValue
+  totalVolume: KpiValue
+  // Revenue-weighted, US$ per unit
+  averagePrice: KpiValue
+  // Percent over firstYear..latestYear; previous is the window one year earlier
+  cagr: KpiValue | null
+  // Percent change of the latest year over the year before
+  yoy: KpiValue | null
+  topSegment: TopSegment | null
+}
+
+const growthPct = (from: number | undefined, to: number | undefined, periods: number): number | null => {
+  if (!from || to === undefined || periods <= 0) return null
+  return (Math.pow(to / from, 1 / periods) - 1) * 100
+}
+
+/**
+ * KPIs for the selected years of a selection that is filtered on everything
+ * but year, so each KPI can be compared with the period before the window.
+ * `basis` picks the measure behind the top segment ranking.
+ */
+export function computeMarketKpis(
+  store: ColumnarStore,
+  selection: Bitmap,
+  selectedYears: number[],
+  basis: 'marketValueUsd' | 'volumeUnits'
+): MarketKpis | null {
+  const byYear = new Map(
+    query(store, {
+      where: selection,
+      groupBy: ['year'],
+      measures: ['sum(marketValueUsd)', 'sum(volumeUnits)', 'sum(revenue)'],
+    }).map(row => [Number(row.year), row])
+  )
+
+  const years = (selectedYears.length > 0 ? selectedYears : Array.from(byYear.keys()))
+    .filter(year => byYear.has(year))
+    .sort((a, b) => a - b)
+  if (years.length === 0) return null
+
+  const firstYear = years[0]
+  const latestYear = years[years.length - 1]
+  const previousYear = byYear.has(latestYear - 1) ? latestYear - 1 : null
+
+  const valueOf = (year: number | null) => year === null ? undefined : byYear.get(year)?.['sum(marketValueUsd)']
+  const volumeOf = (year: number | null) => year === null ? undefined : byYear.get(year)?.['sum(volumeUnits)']
+  const priceOf = (year: number | null) => {
+    const row = year === null ? undefined : byYear.get(year)
+    return row && row['sum(volumeUnits)'] > 0 ? row['sum(revenue)'] / row['sum(volumeUnits)'] : undefined
+  }
+  const kpi = (read: (year: number | null) => number | undefined): KpiValue => ({
+    value: read(latestYear) ?? 0,
+    previous: read(previousYear) ?? null,
+  })
+
+  const span = latestYear - firstYear
+  const cagrValue = growthPct(valueOf(firstYear), valueOf(latestYear), span)
+  const cagr: KpiValue | null = cagrValue === null ? null : {
+    value: cagrValue,
+    previous: growthPct(valueOf(firstYear - 1), valueOf(latestYear - 1), span),
+  }
+
+  const yoyValue = growthPct(valueOf(previousYear), valueOf(latestYear), 1)
+  const yoy: KpiValue | null = yoyValue === null ? null : {
+    value: yoyValue,
+    previous: growthPct(valueOf(latestYear - 2), valueOf(previousYear), 1),
+  }
+
+  const measure = basis === 'volumeUnits' ? 'sum(volumeUnits)' : 'sum(marketValueUsd)'
+  const segmentRows = query(store, {
+    where: selection,
+    filters: { year: previousYear === null ? [latestYear] : [latestYear, previousYear] },
+    groupBy: ['year', 'productCategory'],
+    measures: [measure],
+  })
+  const sharesFor = (year: number | null) => {
+    const rows = segmentRows.filter(row => Number(row.year) === year)
+    const total = rows.reduce((sum, row) => sum + row[measure], 0)
+    return new Map(rows.map(row => [String(row.productCategory), total > 0 ? (row[measure] / total) * 100 : 0]))
+  }
+  const latestShares = sharesFor(latestYear)
+  const previousShares = sharesFor(previousYear)
+  const top = Array.from(latestShares.entries())
+    .filter(([name]) => name)
+    .sort((a, b) => b[1] - a[1])[0]
+
+  return {
+    firstYear,
+    latestYear,
+    previousYear,
+    totalValue: kpi(year => {
+      const value = valueOf(year)
+      return value === undefined ? undefined : value / 1000
+    }),
+    totalVolume: kpi(volumeOf),
+    averagePrice: kpi(priceOf),
+    cagr,
+    yoy,
+    topSegment: top
+      ? { name: top[0], share: top[1], previousShare: previousShares.get(top[0]) ?? null }
+      : null,
+  }
+}
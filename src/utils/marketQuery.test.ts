@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { buildColumnarStore, selectIn } from './columnarStore'
+import type { ShovelMarketData } from './dataGenerator'
+import { pivot, query, select } from './marketQuery'
+
+const row = (recordId: number, fields: Partial<ShovelMarketData>): ShovelMarketData => ({
+  recordId,
+  year: 2024,
+  region: 'West',
+  country: 'California',
+  productCategory: 'Valves',
+  subProductCategory: 'Gate Valves',
+  productType: 'Valves - Gate Valves',
+  bladeMaterial: 'Steel',
+  handleLength: 'Mid',
+  application: 'Water',
+  endUser: 'Utilities',
+  distributionChannelType: 'Offline',
+  distributionChannel: 'Distributors',
+  brand: 'Acme',
+  company: 'Acme Corp',
+  price: 10,
+  volumeUnits: 1,
+  qty: 1,
+  revenue: 10,
+  marketValueUsd: 10,
+  value: 10,
+  marketSharePct: 0,
+  cagr: 0,
+  yoyGrowth: 0,
+  ...fields,
+})
+
+const store = buildColumnarStore([
+  row(1, { year: 2024, region: 'West', productCategory: 'Valves', marketValueUsd: 100, price: 10 }),
+  row(2, { year: 2024, region: 'East', productCategory: 'Pipes', marketValueUsd: 50, price: 20 }),
+  row(3, { year: 2025, region: 'West', productCategory: 'Pipes', marketValueUsd: 70, price: 30 }),
+  row(4, { year: 2025, region: 'West', productCategory: 'Valves', marketValueUsd: 30, price: 40 }),
+  row(5, { year: 2024, region: 'West', productCategory: 'Valves', marketValueUsd: 20, price: 50 }),
+])
+
+describe('query', () => {
+  it('groups by several dimensions and aggregates each measure', () => {
+    const rows = query(store, {
+      groupBy: ['year', 'region', 'productCategory'],
+      measures: ['sum(marketValueUsd)', 'avg(price)', 'min(price)', 'max(price)', 'count'],
+    })
+    expect(rows).toEqual([
+      { year: 2024, region: 'West', productCategory: 'Valves', 'sum(marketValueUsd)': 120, 'avg(price)': 30, 'min(price)': 10, 'max(price)': 50, count: 2 },
+      { year: 2024, region: 'East', productCategory: 'Pipes', 'sum(marketValueUsd)': 50, 'avg(price)': 20, 'min(price)': 20, 'max(price)': 20, count: 1 },
+      { year: 2025, region: 'West', productCategory: 'Pipes', 'sum(marketValueUsd)': 70, 'avg(price)': 30, 'min(price)': 30, 'max(price)': 30, count: 1 },
+      { year: 2025, region: 'West', productCategory: 'Valves', 'sum(marketValueUsd)': 30, 'avg(price)': 40, 'min(price)': 40, 'max(price)': 40, count: 1 },
+    ])
+  })
+
+  it('aggregates everything into one row without a group-by', () => {
+    expect(query(store, { groupBy: [], measures: ['sum(marketValueUsd)', 'count'] }))
+      .toEqual([{ 'sum(marketValueUsd)': 270, count: 5 }])
+  })
+
+  it('applies value-list and predicate filters on top of `where`', () => {
+    const rows = query(store, {
+      where: selectIn(store, 'region', ['West']),
+      filters: { productCategory: ['Valves'], year: year => Number(year) > 2024 },
+      groupBy: ['year'],
+      measures: ['sum(marketValueUsd)'],
+    })
+    expect(rows).toEqual([{ year: 2025, 'sum(marketValueUsd)': 30 }])
+  })
+
+  it('ignores empty filter lists', () => {
+    expect(select(store, { region: [] })).toEqual(select(store))
+  })
+
+  it('returns no rows when nothing matches', () => {
+    expect(query(store, { filters: { region: ['North'] }, groupBy: ['year'], measures: ['count'] })).toEqual([])
+  })
+
+  it('rejects unknown measure expressions', () => {
+    // @ts-expect-error the expression type only allows known measures
+    expect(() => query(store, { groupBy: [], measures: ['sum(weight)'] })).toThrow('Unknown measure expression "sum(weight)"')
+  })
+})
+
+describe('pivot', () => {
+  it('spreads a column across keys and fills missing cells with 0', () => {
+    const rows = query(store, { groupBy: ['year', 'region'], measures: ['sum(marketValueUsd)'] })
+    expect(pivot(rows, {
+      index: 'year',
+      column: 'region',
+      value: 'sum(marketValueUsd)',
+      indexValues: [2024, 2025],
+      columns: ['West', 'East'],
+      format: value => value / 10,
+    })).toEqual([
+      { year: '2024', West: 12, East: 5 },
+      { year: '2025', West: 10, East: 0 },
+    ])
+  })
+})
@@ -0,0 +1,170 @@
+import {
+  bitmapAnd,
+  forEachRow,
+  selectAll,
+  selectIn,
+  selectWhere,
+  type Bitmap,
+  type ColumnarStore,
+  type DimensionKey,
+  type DimensionValue,
+  type MeasureKey,
+} from './columnarStore'
+
+export type Aggregate = 'sum' | 'avg' | 'min' | 'max'
+
+// "sum(marketValueUsd)", "avg(price)", ... or "count" for the number of rows
+export type MeasureExpression = `${Aggregate}(${MeasureKey})` | 'count'
+
+// Accepted values, or a test that runs once per distinct value
+export type DimensionFilter = DimensionValue[] | ((value: DimensionValue) => boolean)
+
+export type QueryFilters = Partial<Record<DimensionKey, DimensionFilter>>
+
+export interface Query<G extends DimensionKey, M extends MeasureExpression> {
+  filters?: QueryFilters
+  // Rows to start from, for conditions that span several dimensions
+  where?: Bitmap
+  groupBy: G[]
+  measures: M[]
+}
+
+export type QueryRow<G extends DimensionKey, M extends MeasureExpression> =
+  { [K in G]: DimensionValue } & { [K in M]: number }
+
+export interface PivotOptions<G extends DimensionKey, M extends MeasureExpression> {
+  // Dimension that becomes one entry per value, e.g. 'year'
+  index: G
+  // Dimension whose values become the entry's keys
+  column: G
+  value: M
+  indexValues: DimensionValue[]
+  columns: DimensionValue[]
+  format?: (value: number) => number
+}
+
+const MEASURE_PATTERN = /^(sum|avg|min|max)\((\w+)\)$/
+
+interface ParsedMeasure {
+  aggregate: Aggregate | 'count'
+  values: Float64Array | null
+}
+
+const parseMeasure = (store: ColumnarStore, expression: MeasureExpression): ParsedMeasure => {
+  if (expression === 'count') {
+    return { aggregate: 'count', values: null }
+  }
+  const match = MEASURE_PATTERN.exec(expression)
+  const values = match ? store.measures[match[2] as MeasureKey] : undefined
+  if (!match || !values) {
+    throw new Error(`Unknown measure expression "${expression}"`)
+  }
+  return { aggregate: match[1] as Aggregate, values }
+}
+
+/**
+ * Rows matching every filter, intersected with `where` when given. Empty
+ * value lists are ignored so unset UI filters can be passed straight through.
+ */
+export function select(store: ColumnarStore, filters: QueryFilters = {}, where?: Bitmap): Bitmap {
+  let selection = where ?? selectAll(store)
+  ;(Object.keys(filters) as DimensionKey[]).forEach(key => {
+    const filter = filters[key]
+    if (!filter || (Array.isArray(filter) && filter.length === 0)) return
+    const matches = Array.isArray(filter) ? selectIn(store, key, filter) : selectWhere(store, key, filter)
+    selection = bitmapAnd(selection, matches)
+  })
+  return selection
+}
+
+/**
+ * Filter, group and aggregate the store in one pass over the selected rows.
+ * Returns one row per group present in the data, in the order groups are
+ * first seen, keyed by the group-by dimensions and the measure expressions.
+ */
+export function query<G extends DimensionKey, M extends MeasureExpression>(
+  store: ColumnarStore,
+  { filters, where, groupBy, measures }: Query<G, M>
+): QueryRow<G, M>[] {
+  const selection = select(store, filters, where)
+  const columns = groupBy.map(key => store.dimensions[key])
+  const parsed = measures.map(expression => parseMeasure(store, expression))
+  // Composite group code: mixed-radix number over the dictionary sizes
+  const radices = columns.map(column => column.dictionary.length)
+  const groups = new Map<number, { count: number; accumulators: Float64Array }>()
+
+  forEachRow(selection, row => {
+    let code = 0
+    for (let c = 0; c < columns.length; c++) {
+      code = code * radices[c] + columns[c].codes[row]
+    }
+
+    let group = groups.get(code)
+    if (!group) {
+      const accumulators = new Float64Array(parsed.length)
+      parsed.forEach(({ aggregate }, m) => {
+        if (aggregate === 'min') accumulators[m] = Infinity
+        if (aggregate === 'max') accumulators[m] = -Infinity
+      })
+      group = { count: 0, accumulators }
+      groups.set(code, group)
+    }
+
+    group.count++
+    const { accumulators } = group
+    for (let m = 0; m < parsed.length; m++) {
+      const { aggregate, values } = parsed[m]
+      if (!values) continue
+      const value = values[row]
+      if (aggregate === 'min') {
+        if (value < accumulators[m]) accumulators[m] = value
+      } else if (aggregate === 'max') {
+        if (value > accumulators[m]) accumulators[m] = value
+      } else {
+        accumulators[m] += value
+      }
+    }
+  })
+
+  return Array.from(groups.entries()).map(([code, { count, accumulators }]) => {
+    const result: Record<string, DimensionValue> = {}
+    for (let c = columns.length - 1; c >= 0; c--) {
+      result[groupBy[c]] = columns[c].dictionary[code % radices[c]]
+      code = Math.floor(code / radices[c])
+    }
+    parsed.forEach(({ aggregate }, m) => {
+      result[measures[m]] = aggregate === 'count'
+        ? count
+        : aggregate === 'avg' ? accumulators[m] / count : accumulators[m]
+    })
+    return result as QueryRow<G, M>
+  })
+}
+
+/**
+ * Reshape grouped rows into chart entries: one entry per index value with a
+ * key per column value. Missing combinations are 0.
+ */
+export function pivot<G extends DimensionKey, M extends MeasureExpression>(
+  rows: QueryRow<G, M>[],
+  { index, column, value, indexValues, columns, format }: PivotOptions<G, M>
+): Array<Record<string, number | string>> {
+  const cells = new Map<DimensionValue, Map<DimensionValue, number>>()
+  rows.forEach(row => {
+    const indexValue = row[index] as DimensionValue
+    if (!cells.has(indexValue)) {
+      cells.set(indexValue, new Map())
+    }
+    cells.get(indexValue)!.set(row[column] as DimensionValue, row[value] as number)
+  })
+
+  return indexValues.map(indexValue => {
+    const entry: Record<string, number | string> = { [index]: String(indexValue) }
+    const cellsForIndex = cells.get(indexValue)
+    columns.forEach(columnValue => {
+      const cell = cellsForIndex?.get(columnValue)
+      entry[String(columnValue)] = cell === undefined ? 0 : format ? format(cell) : cell
+    })
+    return entry
+  })
+}
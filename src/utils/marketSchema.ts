@@ -0,0 +1,102 @@
+import type { ShovelMarketData } from './dataGenerator'
+import { applySchema, isNumber, isYear, parseNumber, type ColumnMapping, type FieldSchema, type SchemaValidationReport } from './importSchema'
+import { marketDefinition } from './marketDefinition'
+
+// recordId is assigned on import and value mirrors marketValueUsd
+export type MarketField = Exclude<keyof ShovelMarketData, 'recordId' | 'value'>
+
+export interface MarketSchemaResult {
+  data: ShovelMarketData[]
+  report: SchemaValidationReport<MarketField>
+  // Rows dropped because their year could not be parsed
+  skippedRows: number
+}
+
+const { geography, segments } = marketDefinition
+
+// Segment columns are labelled as the market definition names them
+export const marketSchema: FieldSchema<MarketField>[] = [
+  { key: 'year', label: 'Year', aliases: ['Fiscal Year', 'Period'], required: true, validate: isYear },
+  { key: 'region', label: geography.label, aliases: ['Geography', 'Market Region'], required: true },
+  { key: 'country', label: geography.childLabel ?? 'Country', aliases: ['State', 'Country / State', 'Market'], required: false },
+  { key: 'productCategory', label: segments.productCategory.label, aliases: ['Category', 'Product Segment', 'Segment'], required: true },
+  { key: 'subProductCategory', label: segments.productCategory.childLabel ?? 'Sub-Product Category', aliases: ['Subcategory', 'Sub Category', 'Product Subcategory', 'Product Type Detail'], required: false },
+  { key: 'productType', label: 'Product Type', aliases: ['Product'], required: false },
+  { key: 'bladeMaterial', label: segments.bladeMaterial.label, aliases: ['Material', 'Product Form'], required: false },
+  { key: 'handleLength', label: segments.handleLength.label, aliases: ['Price Range', 'Price Band'], required: false },
+  { key: 'application', label: segments.application.label, aliases: ['Use Case', 'Age Group'], required: false },
+  { key: 'endUser', label: segments.endUser.label, aliases: ['End-User', 'Customer Type', 'Profession'], required: false },
+  { key: 'distributionChannelType', label: segments.distributionChannelType.label, aliases: ['Sales Channel', 'Channel Type', 'Channel'], required: false },
+  { key: 'distributionChannel', label: 'Distribution Channel', aliases: ['Sub Channel', 'Retailer', 'Outlet'], required: false },
+  { key: 'brand', label: 'Brand', aliases: ['Brand Name'], required: false },
+  { key: 'company', label: 'Company', aliases: ['Manufacturer', 'Vendor', 'Company Name'], required: false },
+  { key: 'price', label: 'Price', aliases: ['Unit Price', 'ASP', 'Average Selling Price'], required: false, validate: isNumber },
+  { key: 'volumeUnits', label: 'Volume (Units)', aliases: ['Volume', 'Units', 'Unit Volume'], required: false, validate: isNumber },
+  { key: 'qty', label: 'Quantity', aliases: ['Qty'], required: false, validate: isNumber },
+  { key: 'revenue', label: 'Revenue', aliases: ['Sales', 'Net Sales'], required: false, validate: isNumber },
+  { key: 'marketValueUsd', label: 'Market Value (USD)', aliases: ['Market Value', 'Value', 'Market Size', 'Market Size (USD)'], required: true, validate: isNumber },
+  { key: 'marketSharePct', label: 'Market Share (%)', aliases: ['Market Share', 'Share'], required: false, validate: isNumber },
+  { key: 'cagr', label: 'CAGR (%)', aliases: ['CAGR'], required: false, validate: isNumber },
+  { key: 'yoyGrowth', label: 'YoY Growth (%)', aliases: ['YoY Growth', 'YoY', 'Growth'], required: false, validate: isNumber },
+]
+
+const toNumber = (value: string): number => {
+  const parsed = parseNumber(value)
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+/**
+ * Map raw rows onto `ShovelMarketData`. Numeric cells are parsed leniently
+ * and fields the dashboard derives from others (country, product type,
+ * quantity, revenue) are filled in when their column is not mapped.
+ */
+export function applyMarketSchema(
+  headers: string[],
+  rows: string[][],
+  mapping?: ColumnMapping<MarketField>
+): MarketSchemaResult {
+  const { records, report } = applySchema(headers, rows, marketSchema, mapping)
+  let skippedRows = 0
+
+  const data: ShovelMarketData[] = []
+  records.forEach(record => {
+    const year = parseNumber(record.year)
+    if (!Number.isInteger(year)) {
+      skippedRows++
+      return
+    }
+
+    const marketValueUsd = toNumber(record.marketValueUsd)
+    const volumeUnits = toNumber(record.volumeUnits)
+    data.push({
+      recordId: data.length + 1,
+      year,
+      region: record.region,
+      country: record.country || record.region,
+      productCategory: record.productCategory,
+      subProductCategory: record.subProductCategory,
+      productType: record.productType || (record.subProductCategory
+        ? `${record.productCategory} - ${record.subProductCategory}`
+        : record.productCategory),
+      bladeMaterial: record.bladeMaterial,
+      handleLength: record.handleLength,
+      application: record.application,
+      endUser: record.endUser,
+      distributionChannelType: record.distributionChannelType,
+      distributionChannel: record.distributionChannel,
+      brand: record.brand,
+      company: record.company,
+      price: toNumber(record.price),
+      volumeUnits,
+      qty: record.qty ? toNumber(record.qty) : volumeUnits,
+      revenue: record.revenue ? toNumber(record.revenue) : marketValueUsd,
+      marketValueUsd,
+      value: marketValueUsd,
+      marketSharePct: toNumber(record.marketSharePct),
+      cagr: toNumber(record.cagr),
+      yoyGrowth: toNumber(record.yoyGrowth),
+    })
+  })
+
+  return { data, report, skippedRows }
+}
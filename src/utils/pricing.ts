@@ -0,0 +1,232 @@
+import { bitmapAnd, forEachRow, selectIn, type Bitmap, type ColumnarStore } from './columnarStore'
+import { marketDefinition } from './marketDefinition'
+import { query } from './marketQuery'
+
+export type PricingDimension = 'productCategory' | 'bladeMaterial' | 'region' | 'application'
+
+export const pricingDimensions: Record<PricingDimension, string> = {
+  productCategory: marketDefinition.segments.productCategory.label,
+  bladeMaterial: marketDefinition.segments.bladeMaterial.label,
+  region: marketDefinition.geography.label,
+  application: marketDefinition.segments.application.label,
+}
+
+// Price bands, cheapest first; the generator stores them in `handleLength`
+export const PRICE_BANDS = marketDefinition.segments.handleLength.values
+
+export interface AspPoint {
+  year: number
+  // Revenue per unit, US$
+  asp: number
+  revenue: number
+  volume: number
+}
+
+export interface AspSeries {
+  segment: string
+  points: AspPoint[]
+}
+
+export interface PriceBandSummary {
+  band: string
+  asp: number
+  minPrice: number
+  maxPrice: number
+  // Percent of the selection's volume and revenue
+  volumeShare: number
+  revenueShare: number
+}
+
+export interface PriceHistogramBin {
+  from: number
+  to: number
+  // Units sold at prices in the bin, per band
+  units: Record<string, number>
+}
+
+export interface PriceVolumePoint {
+  name: string
+  category: string
+  asp: number
+  volume: number
+}
+
+export interface ElasticityEstimate {
+  category: string
+  // Slope of log volume on log price
+  elasticity: number
+  rSquared: number
+  observations: number
+}
+
+export type ElasticityClass = 'Elastic' | 'Inelastic' | 'Upward-sloping'
+
+export function classifyElasticity(elasticity: number): ElasticityClass {
+  if (elasticity > 0) return 'Upward-sloping'
+  return elasticity < -1 ? 'Elastic' : 'Inelastic'
+}
+
+const HISTOGRAM_BINS = 20
+
+// Cells need at least this many units to enter the scatter or the regression
+const MIN_CELL_VOLUME = 1
+
+/**
+ * Average selling price (revenue over units) of each segment by year,
+ * largest revenue first.
+ */
+export function computeAspBySegment(store: ColumnarStore, selection: Bitmap, dimension: PricingDimension): AspSeries[] {
+  const rows = query(store, {
+    where: selection,
+    groupBy: [dimension, 'year'],
+    measures: ['sum(revenue)', 'sum(volumeUnits)'],
+  })
+
+  const bySegment = new Map<string, AspPoint[]>()
+  rows.forEach(row => {
+    const segment = String(row[dimension])
+    const volume = row['sum(volumeUnits)']
+    if (!segment || volume <= 0) return
+    if (!bySegment.has(segment)) bySegment.set(segment, [])
+    bySegment.get(segment)!.push({
+      year: Number(row.year),
+      asp: row['sum(revenue)'] / volume,
+      revenue: row['sum(revenue)'],
+      volume,
+    })
+  })
+
+  const totalRevenue = (points: AspPoint[]) => points.reduce((sum, point) => sum + point.revenue, 0)
+  return Array.from(bySegment.entries())
+    .map(([segment, points]) => ({ segment, points: points.sort((a, b) => a.year - b.year) }))
+    .sort((a, b) => totalRevenue(b.points) - totalRevenue(a.points))
+}
+
+/**
+ * ASP, price range and share of each price band, and a histogram of unit
+ * prices weighted by units sold, on bins shared by all bands.
+ */
+export function computePriceBands(
+  store: ColumnarStore,
+  selection: Bitmap,
+  year: number
+): { bands: PriceBandSummary[]; histogram: PriceHistogramBin[] } {
+  const yearSelection = bitmapAnd(selection, selectIn(store, 'year', [year]))
+  const { codes, dictionary } = store.dimensions.handleLength
+  const { price, volumeUnits, revenue } = store.measures
+
+  const stats = new Map<string, { revenue: number; volume: number; min: number; max: number }>()
+  let maxPrice = 0
+  forEachRow(yearSelection, row => {
+    const band = String(dictionary[codes[row]])
+    let entry = stats.get(band)
+    if (!entry) {
+      entry = { revenue: 0, volume: 0, min: Infinity, max: -Infinity }
+      stats.set(band, entry)
+    }
+    entry.revenue += revenue[row]
+    entry.volume += volumeUnits[row]
+    entry.min = Math.min(entry.min, price[row])
+    entry.max = Math.max(entry.max, price[row])
+    maxPrice = Math.max(maxPrice, price[row])
+  })
+
+  const totalVolume = Array.from(stats.values()).reduce((sum, entry) => sum + entry.volume, 0)
+  const totalRevenue = Array.from(stats.values()).reduce((sum, entry) => sum + entry.revenue, 0)
+  const bandOrder = (band: string) => PRICE_BANDS.includes(band) ? PRICE_BANDS.indexOf(band) : PRICE_BANDS.length
+  const bands = Array.from(stats.entries())
+    .sort(([a], [b]) => bandOrder(a) - bandOrder(b) || a.localeCompare(b))
+    .map(([band, entry]) => ({
+      band,
+      asp: entry.volume > 0 ? entry.revenue / entry.volume : 0,
+      minPrice: entry.min,
+      maxPrice: entry.max,
+      volumeShare: totalVolume > 0 ? (entry.volume / totalVolume) * 100 : 0,
+      revenueShare: totalRevenue > 0 ? (entry.revenue / totalRevenue) * 100 : 0,
+    }))
+
+  if (bands.length === 0) return { bands, histogram: [] }
+
+  const binWidth = maxPrice / HISTOGRAM_BINS || 1
+  const histogram: PriceHistogramBin[] = Array.from({ length: HISTOGRAM_BINS }, (_, bin) => ({
+    from: bin * binWidth,
+    to: (bin + 1) * binWidth,
+    units: Object.fromEntries(bands.map(({ band }) => [band, 0])),
+  }))
+  forEachRow(yearSelection, row => {
+    const bin = Math.min(HISTOGRAM_BINS - 1, Math.floor(price[row] / binWidth))
+    histogram[bin].units[String(dictionary[codes[row]])] += volumeUnits[row]
+  })
+
+  return { bands, histogram }
+}
+
+/**
+ * One point per sub-category and region: its ASP against the units sold in
+ * the year, for the price-vs-volume scatter.
+ */
+export function computePriceVolumePoints(store: ColumnarStore, selection: Bitmap, year: number): PriceVolumePoint[] {
+  return query(store, {
+    where: selection,
+    filters: { year: [year] },
+    groupBy: ['productCategory', 'subProductCategory', 'region'],
+    measures: ['sum(revenue)', 'sum(volumeUnits)'],
+  })
+    .filter(row => row['sum(volumeUnits)'] >= MIN_CELL_VOLUME)
+    .map(row => ({
+      name: `${row.subProductCategory} (${row.region})`,
+      category: String(row.productCategory),
+      asp: row['sum(revenue)'] / row['sum(volumeUnits)'],
+      volume: row['sum(volumeUnits)'],
+    }))
+}
+
+/**
+ * Implied price elasticity of each product category: the slope of a log-log
+ * regression of units on ASP across the category's sub-category, state,
+ * material and price band cells in one year. Cross-sectional, so it shows
+ * how volume and price move together in the data, not a causal response.
+ */
+export function estimateElasticities(store: ColumnarStore, selection: Bitmap, year: number): ElasticityEstimate[] {
+  const rows = query(store, {
+    where: selection,
+    filters: { year: [year] },
+    groupBy: ['productCategory', 'subProductCategory', 'country', 'bladeMaterial', 'handleLength'],
+    measures: ['sum(revenue)', 'sum(volumeUnits)'],
+  })
+
+  const byCategory = new Map<string, Array<{ x: number; y: number }>>()
+  rows.forEach(row => {
+    const volume = row['sum(volumeUnits)']
+    const revenue = row['sum(revenue)']
+    if (volume < MIN_CELL_VOLUME || revenue <= 0) return
+    const category = String(row.productCategory)
+    if (!byCategory.has(category)) byCategory.set(category, [])
+    byCategory.get(category)!.push({ x: Math.log(revenue / volume), y: Math.log(volume) })
+  })
+
+  const estimates: ElasticityEstimate[] = []
+  byCategory.forEach((points, category) => {
+    const n = points.length
+    if (n < 3) return
+    const meanX = points.reduce((sum, point) => sum + point.x, 0) / n
+    const meanY = points.reduce((sum, point) => sum + point.y, 0) / n
+    let sxx = 0
+    let sxy = 0
+    let syy = 0
+    points.forEach(({ x, y }) => {
+      sxx += (x - meanX) * (x - meanX)
+      sxy += (x - meanX) * (y - meanY)
+      syy += (y - meanY) * (y - meanY)
+    })
+    if (sxx === 0) return
+    estimates.push({
+      category,
+      elasticity: sxy / sxx,
+      rSquared: syy > 0 ? (sxy * sxy) / (sxx * syy) : 0,
+      observations: n,
+    })
+  })
+
+  return estimates.sort((a, b) => a.elasticity - b.elasticity)
+}
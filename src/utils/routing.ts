@@ -0,0 +1,139 @@
+// Client-side routes; vercel.json rewrites every path to index.html
+
+export type PageId = 'Home' | 'MarketAnalysis' | 'CustomerIntelligence' | 'DataImport' | 'Contact'
+
+export const pagePaths: Record<PageId, string> = {
+  Home: '/',
+  MarketAnalysis: '/market-analysis',
+  CustomerIntelligence: '/customer-intelligence',
+  DataImport: '/import-data',
+  Contact: '/contact',
+}
+
+export const MARKET_ANALYSIS_TABS = [
+  'standard',
+  'incremental',
+  'attractiveness',
+  'yoy',
+  'forecast',
+  'sensitivity',
+  'competitive',
+  'pricing',
+] as const
+
+export type MarketAnalysisTab = typeof MARKET_ANALYSIS_TABS[number]
+
+export interface Route {
+  page: PageId
+  // Path segment after the page's own, e.g. "yoy" in /market-analysis/yoy
+  section: string | null
+  query: URLSearchParams
+}
+
+export const isPageId = (page: string): page is PageId => page in pagePaths
+
+// The route a URL points at; unknown paths fall back to Home
+export function parseLocation(location: Pick<Location, 'pathname' | 'search'> = window.location): Route {
+  const [first = '', second = null] = location.pathname.split('/').filter(Boolean)
+  const page = (Object.keys(pagePaths) as PageId[]).find(id => pagePaths[id] === `/${first}`) ?? 'Home'
+  return { page, section: page === 'Home' ? null : second, query: new URLSearchParams(location.search) }
+}
+
+// The standard tab lives at the page's own path
+export const marketAnalysisPath = (tab: MarketAnalysisTab) =>
+  tab === 'standard' ? pagePaths.MarketAnalysis : `${pagePaths.MarketAnalysis}/${tab}`
+
+export const toMarketAnalysisTab = (section: string | null): MarketAnalysisTab =>
+  MARKET_ANALYSIS_TABS.find(tab => tab === section) ?? 'standard'
+
+/**
+ * Points the address bar at `path` and `query`. A new path gets its own
+ * history entry, so back and forward step between pages and tabs; a query
+ * change on the same path replaces the entry rather than stacking one per
+ * filter click, unless `push` asks for a new one.
+ */
+export function updateLocation(path: string, query: URLSearchParams = new URLSearchParams(), push = false) {
+  const search = query.toString()
+  const url = search ? `${path}?${search}` : path
+  if (url === `${window.location.pathname}${window.location.search}`) return
+  if (push || path !== window.location.pathname) {
+    window.history.pushState(null, '', url)
+  } else {
+    window.history.replaceState(null, '', url)
+  }
+}
+
+// Opens a URL from within the app; popstate listeners pick it up as they do back and forward
+export function navigateTo(path: string, query?: URLSearchParams) {
+  updateLocation(path, query, true)
+  window.dispatchEvent(new PopStateEvent('popstate'))
+}
+
+type QueryValue = string | number | boolean | string[] | number[]
+
+const paramName = (prefix: string, key: string) => prefix ? `${prefix}.${key}` : key
+
+/**
+ * Adds every field of `state` that differs from `defaults` to the query
+ * string, under `prefix`. Lists repeat their parameter once per value.
+ */
+export function writeQuery<T extends Record<string, QueryValue>>(query: URLSearchParams, prefix: string, state: T, defaults: T) {
+  Object.keys(defaults).forEach(key => {
+    const value = state[key]
+    if (JSON.stringify(value) === JSON.stringify(defaults[key])) return
+    const name = paramName(prefix, key)
+    if (Array.isArray(value)) {
+      value.forEach(item => query.append(name, String(item)))
+    } else {
+      query.set(name, String(value))
+    }
+  })
+}
+
+export interface ReadQueryOptions<T> {
+  // Lists default to empty, so the ones holding numbers are named here
+  numberLists?: (keyof T)[]
+  // Values a fixed-choice field may take
+  allowed?: Partial<Record<keyof T, readonly (string | number)[]>>
+}
+
+/**
+ * Reads the fields `writeQuery` wrote back over `defaults`, typed like the
+ * defaults. Values that don't parse, or aren't among a field's `allowed`
+ * values, keep their default.
+ */
+export function readQuery<T extends Record<string, QueryValue>>(
+  query: URLSearchParams,
+  prefix: string,
+  defaults: T,
+  { numberLists = [], allowed = {} }: ReadQueryOptions<T> = {}
+): T {
+  const state: Record<string, QueryValue> = { ...defaults }
+  Object.keys(defaults).forEach(key => {
+    const name = paramName(prefix, key)
+    const fallback = defaults[key]
+    if (Array.isArray(fallback)) {
+      if (!query.has(name)) return
+      const values = query.getAll(name).filter(Boolean)
+      state[key] = numberLists.includes(key) || typeof fallback[0] === 'number'
+        ? values.map(Number).filter(Number.isFinite)
+        : values
+      return
+    }
+    const raw = query.get(name)
+    if (raw === null) return
+    let value: string | number | boolean
+    if (typeof fallback === 'number') {
+      value = Number(raw)
+      if (!Number.isFinite(value)) return
+    } else if (typeof fallback === 'boolean') {
+      value = raw === 'true'
+    } else {
+      value = raw
+    }
+    const choices = allowed[key]
+    if (choices && !choices.includes(value as string | number)) return
+    state[key] = value
+  })
+  return state as T
+}
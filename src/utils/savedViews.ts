@@ -0,0 +1,106 @@
+import { normalizeView, type AnalysisView } from './analysisView'
+
+export interface SavedView {
+  id: string
+  name: string
+  // ISO timestamp of the last save
+  savedAt: string
+  view: AnalysisView
+}
+
+const DATABASE_NAME = 'marketAnalysis'
+const DATABASE_VERSION = 1
+const STORE_NAME = 'savedViews'
+
+// Marks files written by exportSavedViews
+const EXPORT_FORMAT = 'market-analysis-saved-views'
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+let database: Promise<IDBDatabase> | null = null
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Let a later call retry, e.g. once storage is allowed again
+    database.catch(() => {
+      database = null
+    })
+  }
+  return database
+}
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase()
+  return promisify(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)))
+}
+
+const isSavedView = (value: unknown): value is SavedView => {
+  const saved = value as SavedView
+  return typeof saved?.id === 'string'
+    && typeof saved.name === 'string'
+    && typeof saved.savedAt === 'string'
+    && typeof saved.view === 'object'
+}
+
+// Saved views by name
+export async function loadSavedViews(): Promise<SavedView[]> {
+  const stored = await withStore('readonly', store => store.getAll())
+  return stored
+    .filter(isSavedView)
+    .map(saved => ({ ...saved, view: normalizeView(saved.view) }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// Adds a view, or replaces the one with the same id
+export async function putSavedView(saved: SavedView): Promise<void> {
+  await withStore('readwrite', store => store.put(saved))
+}
+
+export async function deleteSavedView(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id))
+}
+
+export const createSavedView = (name: string, view: AnalysisView): SavedView => ({
+  id: `view-${Date.now()}`,
+  name: name.trim() || 'Untitled view',
+  savedAt: new Date().toISOString(),
+  view,
+})
+
+export function exportSavedViews(views: SavedView[]): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: 1, views }, null, 2)
+}
+
+/**
+ * Views from an exported file. Files holding a bare array of views are
+ * accepted too; each view is normalized so older or hand-edited files load.
+ */
+export function parseSavedViews(text: string): SavedView[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON.')
+  }
+  const file = parsed as { format?: unknown; views?: unknown }
+  const views = Array.isArray(parsed) ? parsed : file?.format === EXPORT_FORMAT ? file.views : null
+  if (!Array.isArray(views)) {
+    throw new Error('The file does not contain saved views.')
+  }
+  const valid = views.filter(isSavedView)
+  if (valid.length === 0) {
+    throw new Error('The file does not contain any valid saved views.')
+  }
+  return valid.map(saved => ({ ...saved, view: normalizeView(saved.view) }))
+}
@@ -0,0 +1,199 @@
+import type { Bitmap, ColumnarStore } from './columnarStore'
+import { forecastSeries, LAST_ACTUAL_YEAR, type ForecastOptions } from './forecasting'
+import { query } from './marketQuery'
+
+export type ScenarioDimension = 'region' | 'productCategory'
+
+export const scenarioDimensions: Record<ScenarioDimension, string> = {
+  region: 'Region',
+  productCategory: 'Product Category',
+}
+
+export interface SegmentAdjustment {
+  dimension: ScenarioDimension
+  segment: string
+  // Percentage points a year added to the segment's volume growth
+  growthDelta: number
+  // Percentage points a year added to the segment's price growth
+  priceInflation: number
+  // Percentage points of market share moved into the segment each forecast
+  // year, taken from the other segments in proportion to their size
+  mixShift: number
+}
+
+export interface Scenario {
+  id: string
+  name: string
+  // Market-wide adjustments, in percentage points a year
+  growthDelta: number
+  priceInflation: number
+  adjustments: SegmentAdjustment[]
+}
+
+export const DEFAULT_SCENARIOS: Scenario[] = [
+  { id: 'base', name: 'Base', growthDelta: 0, priceInflation: 0, adjustments: [] },
+  { id: 'optimistic', name: 'Optimistic', growthDelta: 1.5, priceInflation: 0.5, adjustments: [] },
+  { id: 'pessimistic', name: 'Pessimistic', growthDelta: -2, priceInflation: -0.5, adjustments: [] },
+]
+
+// Market value and volume of one year, region and product category
+export interface ScenarioCell {
+  year: number
+  region: string
+  productCategory: string
+  value: number
+  volume: number
+}
+
+// The Forecast tab's model and years, which scenarios start from
+export interface BaselineOptions extends Pick<ForecastOptions, 'model' | 'endYear'> {
+  lastActualYear: number
+}
+
+const STORAGE_KEY = 'marketAnalysis.scenarios'
+
+const isScenario = (value: unknown): value is Scenario => {
+  const scenario = value as Scenario
+  return typeof scenario?.id === 'string'
+    && typeof scenario.name === 'string'
+    && typeof scenario.growthDelta === 'number'
+    && typeof scenario.priceInflation === 'number'
+    && Array.isArray(scenario.adjustments)
+}
+
+// Saved scenarios, or the defaults when nothing valid is stored
+export function loadScenarios(): Scenario[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null')
+    if (Array.isArray(stored) && stored.length > 0 && stored.every(isScenario)) {
+      return stored
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  return DEFAULT_SCENARIOS
+}
+
+export function saveScenarios(scenarios: Scenario[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios))
+  } catch {
+    // Storage can be full or disabled; scenarios still work for this session
+  }
+}
+
+/**
+ * Baseline cells for a selection: the data's own values up to
+ * `lastActualYear`, then the forecast of the selection's total value and
+ * volume, split across regions and product categories in their last actual
+ * year's proportions. Scenarios adjust the forecast years.
+ */
+export function baselineCells(
+  store: ColumnarStore,
+  selection: Bitmap,
+  { model, endYear, lastActualYear }: BaselineOptions
+): ScenarioCell[] {
+  const actuals: ScenarioCell[] = query(store, {
+    where: selection,
+    filters: { year: year => Number(year) <= lastActualYear },
+    groupBy: ['year', 'region', 'productCategory'],
+    measures: ['sum(marketValueUsd)', 'sum(volumeUnits)'],
+  }).map(row => ({
+    year: Number(row.year),
+    region: String(row.region),
+    productCategory: String(row.productCategory),
+    value: row['sum(marketValueUsd)'],
+    volume: row['sum(volumeUnits)'],
+  }))
+
+  const lastCells = actuals.filter(cell => cell.year === lastActualYear)
+  if (lastCells.length === 0) return actuals
+
+  // Only the point forecast is used, so any confidence level will do
+  const project = (measure: 'value' | 'volume') => {
+    const history = Array.from(scenarioTotals(actuals, measure), ([year, value]) => ({ year, value }))
+    return forecastSeries(history, { model, endYear, confidence: 0.95 })?.forecast ?? []
+  }
+  const valueForecast = project('value')
+  const volumeForecast = new Map(project('volume').map(point => [point.year, point.value]))
+  const lastValue = lastCells.reduce((sum, cell) => sum + cell.value, 0)
+  const lastVolume = lastCells.reduce((sum, cell) => sum + cell.volume, 0)
+
+  const forecast = valueForecast.flatMap(point => lastCells.map(cell => ({
+    ...cell,
+    year: point.year,
+    value: lastValue > 0 ? point.value * cell.value / lastValue : 0,
+    volume: lastVolume > 0 ? (volumeForecast.get(point.year) ?? 0) * cell.volume / lastVolume : 0,
+  })))
+  return [...actuals, ...forecast]
+}
+
+const growthFactor = (ratePct: number, years: number) => Math.pow(Math.max(0, 1 + ratePct / 100), years)
+
+/**
+ * Apply a scenario to the forecast years of the baseline. Growth and price
+ * adjustments compound from `lastActualYear`; mix shifts then move share
+ * between segments without changing the year's total. Actual years are
+ * returned unchanged.
+ */
+export function applyScenario(
+  cells: ScenarioCell[],
+  scenario: Scenario,
+  lastActualYear = LAST_ACTUAL_YEAR
+): ScenarioCell[] {
+  const matches = (cell: ScenarioCell, adjustment: SegmentAdjustment) => cell[adjustment.dimension] === adjustment.segment
+
+  const adjusted = cells.map(cell => {
+    const years = cell.year - lastActualYear
+    if (years <= 0) return cell
+
+    const applicable = scenario.adjustments.filter(adjustment => matches(cell, adjustment))
+    const growth = scenario.growthDelta + applicable.reduce((sum, adjustment) => sum + adjustment.growthDelta, 0)
+    const inflation = scenario.priceInflation + applicable.reduce((sum, adjustment) => sum + adjustment.priceInflation, 0)
+    const volumeFactor = growthFactor(growth, years)
+    return {
+      ...cell,
+      volume: cell.volume * volumeFactor,
+      value: cell.value * volumeFactor * growthFactor(inflation, years),
+    }
+  })
+
+  const mixShifts = scenario.adjustments.filter(adjustment => adjustment.mixShift !== 0)
+  if (mixShifts.length === 0) return adjusted
+
+  const byYear = new Map<number, ScenarioCell[]>()
+  adjusted.forEach(cell => {
+    if (cell.year <= lastActualYear) return
+    if (!byYear.has(cell.year)) byYear.set(cell.year, [])
+    byYear.get(cell.year)!.push(cell)
+  })
+
+  byYear.forEach((yearCells, year) => {
+    mixShifts.forEach(adjustment => {
+      const total = yearCells.reduce((sum, cell) => sum + cell.value, 0)
+      const inside = yearCells.reduce((sum, cell) => sum + (matches(cell, adjustment) ? cell.value : 0), 0)
+      if (total <= 0 || inside <= 0 || inside >= total) return
+
+      const share = inside / total
+      const target = Math.min(1, Math.max(0, share + (adjustment.mixShift * (year - lastActualYear)) / 100))
+      const insideFactor = target / share
+      const outsideFactor = (1 - target) / (1 - share)
+      yearCells.forEach(cell => {
+        const factor = matches(cell, adjustment) ? insideFactor : outsideFactor
+        cell.value *= factor
+        cell.volume *= factor
+      })
+    })
+  })
+
+  return adjusted
+}
+
+// Yearly totals of the value or volume of scenario cells
+export function scenarioTotals(cells: ScenarioCell[], measure: 'value' | 'volume'): Map<number, number> {
+  const totals = new Map<number, number>()
+  cells.forEach(cell => {
+    totals.set(cell.year, (totals.get(cell.year) || 0) + cell[measure])
+  })
+  return totals
+}
@@ -0,0 +1,142 @@
+import {
+  bitmapAnd,
+  bitmapOr,
+  createBitmap,
+  distinctValues,
+  selectAll,
+  selectIn,
+  selectWhere,
+  type Bitmap,
+  type ColumnarStore,
+  type DimensionKey,
+  type DimensionValue,
+} from './columnarStore'
+import { HIERARCHY_SEPARATOR, deepestSelections, hierarchyLevels } from './hierarchyRegistry'
+import { marketDefinition } from './marketDefinition'
+
+/**
+ * How a filter's selected values pick rows:
+ * - exact: the column holds one of the values
+ * - hierarchical: each value names a node, on its own ("Texas") or as a
+ *   path from the top level ("Valve Solutions - Gate Valves"), and every
+ *   row under it matches
+ * - prefix: the column holds a value, or a value followed by the hierarchy
+ *   separator ("Valve Solutions" matches "Valve Solutions - Gate Valves")
+ * Hierarchical and prefix selections skip a value whose descendant is also
+ * selected, so picking a child narrows its parent.
+ */
+export type MatchSemantics = 'exact' | 'hierarchical' | 'prefix'
+
+export type DimensionId =
+  | 'year'
+  | 'region'
+  | 'state'
+  | 'geography'
+  | 'product'
+  | 'productCategory'
+  | 'subProductCategory'
+  | 'productType'
+  | 'pipeMaterial'
+  | 'priceBand'
+  | 'application'
+  | 'endUser'
+  | 'salesChannel'
+  | 'onlineChannel'
+  | 'brand'
+  | 'company'
+
+// A business dimension and the dataset column it lives in
+export interface SemanticDimension {
+  id: DimensionId
+  label: string
+  // Column the dimension is read and charted from
+  column: DimensionKey
+  match: MatchSemantics
+  // Columns of each level, top first; hierarchical dimensions only
+  levels?: DimensionKey[]
+}
+
+const { geography, segments } = marketDefinition
+
+const exact = (id: DimensionId, label: string, column: DimensionKey): SemanticDimension =>
+  ({ id, label, column, match: 'exact' })
+
+const hierarchical = (id: DimensionId, label: string, levels: DimensionKey[]): SemanticDimension =>
+  ({ id, label, column: levels[0], match: 'hierarchical', levels })
+
+// Several columns are named for an older market; the labels say what they hold now
+export const dimensions: Record<DimensionId, SemanticDimension> = {
+  year: exact('year', 'Year', 'year'),
+  region: exact('region', geography.label, 'region'),
+  state: exact('state', geography.childLabel ?? 'State', 'country'),
+  geography: hierarchical('geography', 'Geography', hierarchyLevels.geography),
+  product: hierarchical('product', segments.productCategory.label, hierarchyLevels.product),
+  productCategory: exact('productCategory', segments.productCategory.label, 'productCategory'),
+  subProductCategory: exact('subProductCategory', segments.productCategory.childLabel ?? 'Sub-Product Category', 'subProductCategory'),
+  // "Category - Subcategory" paths
+  productType: { id: 'productType', label: 'Product Type', column: 'productType', match: 'prefix' },
+  pipeMaterial: exact('pipeMaterial', segments.bladeMaterial.label, 'bladeMaterial'),
+  priceBand: exact('priceBand', segments.handleLength.label, 'handleLength'),
+  application: exact('application', segments.application.label, 'application'),
+  endUser: hierarchical('endUser', segments.endUser.label, hierarchyLevels.endUser),
+  salesChannel: hierarchical('salesChannel', segments.distributionChannelType.label, hierarchyLevels.channel),
+  onlineChannel: exact('onlineChannel', 'Online Channel', 'distributionChannel'),
+  brand: exact('brand', 'Brand', 'brand'),
+  company: exact('company', 'Company', 'company'),
+}
+
+const selectPath = (store: ColumnarStore, levels: DimensionKey[], path: string): Bitmap => {
+  const names = path.split(HIERARCHY_SEPARATOR)
+  // A lone name may sit on any level
+  if (names.length === 1) {
+    return levels.reduce((matches, level) => bitmapOr(matches, selectIn(store, level, names)), createBitmap(store.rowCount))
+  }
+  return names.slice(0, levels.length).reduce(
+    (matches, name, depth) => bitmapAnd(matches, selectIn(store, levels[depth], [name])),
+    selectAll(store)
+  )
+}
+
+/**
+ * Rows matching a dimension's selected values, by its match semantics. An
+ * empty selection matches every row, like an unset filter.
+ */
+export function selectDimension(store: ColumnarStore, id: DimensionId, selected: DimensionValue[]): Bitmap {
+  const dimension = dimensions[id]
+  if (selected.length === 0) return selectAll(store)
+
+  switch (dimension.match) {
+    case 'exact':
+      return selectIn(store, dimension.column, selected)
+    case 'hierarchical': {
+      const levels = dimension.levels ?? [dimension.column]
+      return deepestSelections(selected.map(String)).reduce(
+        (matches, path) => bitmapOr(matches, selectPath(store, levels, path)),
+        createBitmap(store.rowCount)
+      )
+    }
+    case 'prefix': {
+      const prefixes = deepestSelections(selected.map(String))
+      return selectWhere(store, dimension.column, value =>
+        prefixes.some(prefix => value === prefix || String(value).startsWith(`${prefix}${HIERARCHY_SEPARATOR}`)))
+    }
+  }
+}
+
+// Rows matching every dimension filter, intersected with `where` when given
+export function selectDimensions(
+  store: ColumnarStore,
+  filters: Partial<Record<DimensionId, DimensionValue[]>>,
+  where?: Bitmap
+): Bitmap {
+  return (Object.keys(filters) as DimensionId[]).reduce((selection, id) => {
+    const selected = filters[id]
+    return selected && selected.length > 0 ? bitmapAnd(selection, selectDimension(store, id, selected)) : selection
+  }, where ?? selectAll(store))
+}
+
+// Values of a dimension's column among the rows, limited to the selected values when any
+export function dimensionSegments(store: ColumnarStore, id: DimensionId, selection: Bitmap, selected: DimensionValue[] = []): string[] {
+  const within = selected.length > 0 ? bitmapAnd(selection, selectDimension(store, id, selected)) : selection
+  return (distinctValues(store, dimensions[id].column, within) as string[]).filter(Boolean).sort()
+}
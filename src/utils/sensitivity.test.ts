@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { simulate, type Driver, type SensitivityModel } from './sensitivity'
+
+const driver = (group: Driver['group'], level: string): Driver => ({ group, level, multiplier: 1 })
+
+// Two cells that differ only in product category; every other driver touches both
+const model: SensitivityModel = {
+  year: 2030,
+  drivers: [
+    driver('productCategory', 'Valves'),
+    driver('bladeMaterial', 'Steel'),
+    driver('application', 'Water'),
+    driver('region', 'West'),
+    driver('brand', 'Acme'),
+    driver('productCategory', 'Pipes'),
+  ],
+  values: new Float64Array([30, 10]),
+  driverIndex: new Int32Array([
+    0, 1, 2, 3, 4,
+    5, 1, 2, 3, 4,
+  ]),
+}
+
+// P10 and P90 of the triangular distribution on [0.8, 1.2]
+const P10 = 0.8 + 0.2 * Math.sqrt(0.2)
+const P90 = 1.2 - 0.2 * Math.sqrt(0.2)
+
+describe('simulate', () => {
+  it('returns the base value everywhere without uncertainty', () => {
+    const result = simulate(model, { iterations: 100, uncertainty: 0 })
+    expect(result.baseValue).toBe(40)
+    expect(result.mean).toBeCloseTo(40)
+    expect([result.p10, result.p50, result.p90]).toEqual([40, 40, 40])
+    result.tornado.forEach(bar => {
+      expect(bar.low).toBeCloseTo(40)
+      expect(bar.high).toBeCloseTo(40)
+    })
+  })
+
+  it('is reproducible for a seed', () => {
+    const options = { iterations: 500, uncertainty: 0.2 }
+    expect(simulate(model, { ...options, seed: 7 })).toEqual(simulate(model, { ...options, seed: 7 }))
+    expect(simulate(model, { ...options, seed: 7 }).p50).not.toBe(simulate(model, { ...options, seed: 8 }).p50)
+  })
+
+  it('orders percentiles and fills the histogram with every iteration', () => {
+    const result = simulate(model, { iterations: 2000, uncertainty: 0.2 })
+    expect(result.p10).toBeLessThan(result.p50)
+    expect(result.p50).toBeLessThan(result.p90)
+    expect(result.histogram).toHaveLength(20)
+    expect(result.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(2000)
+    // Independent multipliers with mean 1 leave the expected value at base
+    expect(result.mean).toBeCloseTo(40, 0)
+  })
+
+  it('swings each driver by its share of the market, largest first', () => {
+    const { tornado } = simulate(model, { iterations: 10, uncertainty: 0.2 })
+    expect(tornado.map(bar => bar.driver.level)).toEqual(['Steel', 'Water', 'West', 'Acme', 'Valves', 'Pipes'])
+
+    const shared = tornado[0]
+    expect(shared.low).toBeCloseTo(40 * P10)
+    expect(shared.high).toBeCloseTo(40 * P90)
+
+    const pipes = tornado[tornado.length - 1]
+    expect(pipes.low).toBeCloseTo(40 + (P10 - 1) * 10)
+    expect(pipes.high).toBeCloseTo(40 + (P90 - 1) * 10)
+  })
+})
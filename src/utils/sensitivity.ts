@@ -0,0 +1,207 @@
+import type { Bitmap, ColumnarStore } from './columnarStore'
+import {
+  applicationMultipliers,
+  bladeMaterialMultipliers,
+  brandPremiumMap,
+  productCategoryMultipliers,
+  regionMultipliers,
+} from './dataGenerator'
+import { marketDefinition } from './marketDefinition'
+import { query } from './marketQuery'
+
+export type DriverGroup = 'productCategory' | 'bladeMaterial' | 'application' | 'region' | 'brand'
+
+export const driverGroupLabels: Record<DriverGroup, string> = {
+  productCategory: marketDefinition.segments.productCategory.label,
+  bladeMaterial: marketDefinition.segments.bladeMaterial.label,
+  application: marketDefinition.segments.application.label,
+  region: marketDefinition.geography.label,
+  brand: 'Brand Premium',
+}
+
+const DRIVER_GROUPS = Object.keys(driverGroupLabels) as DriverGroup[]
+
+const mapValues = <T>(table: Record<string, T>, read: (entry: T) => number): Record<string, number> =>
+  Object.fromEntries(Object.entries(table).map(([key, entry]) => [key, read(entry)]))
+
+// Each driver's effect on market value (price x volume) in the generator
+const valueMultipliers: Record<DriverGroup, Record<string, number>> = {
+  productCategory: mapValues(productCategoryMultipliers, m => m.price * m.volume),
+  bladeMaterial: mapValues(bladeMaterialMultipliers, m => m.price * m.volume),
+  application: mapValues(applicationMultipliers, m => m.price * m.volume),
+  region: mapValues(regionMultipliers, m => m.volume),
+  brand: brandPremiumMap,
+}
+
+export interface Driver {
+  group: DriverGroup
+  level: string
+  // Generator multiplier on market value; null for levels it does not model
+  multiplier: number | null
+}
+
+/**
+ * Market value of one year split into cells, one per combination of driver
+ * levels. Value is proportional to every driver's multiplier, so scaling a
+ * driver by x scales the cells it touches by x.
+ */
+export interface SensitivityModel {
+  year: number
+  drivers: Driver[]
+  // US$ Mn per cell
+  values: Float64Array
+  // Index into `drivers` of each cell's level in each group, cell-major
+  driverIndex: Int32Array
+}
+
+export interface SensitivityOptions {
+  iterations: number
+  // Half-width of each driver's triangular distribution, e.g. 0.2 for ±20%
+  uncertainty: number
+  seed?: number
+}
+
+export interface TornadoBar {
+  driver: Driver
+  // Market value with the driver at its P10 and P90, all others at base
+  low: number
+  high: number
+}
+
+export interface SensitivityResult {
+  year: number
+  iterations: number
+  baseValue: number
+  mean: number
+  p10: number
+  p50: number
+  p90: number
+  histogram: Array<{ from: number; to: number; count: number }>
+  // Largest swing first
+  tornado: TornadoBar[]
+}
+
+const HISTOGRAM_BINS = 20
+
+export function buildSensitivityModel(store: ColumnarStore, selection: Bitmap, year: number): SensitivityModel | null {
+  const rows = query(store, {
+    where: selection,
+    filters: { year: [year] },
+    groupBy: DRIVER_GROUPS,
+    measures: ['sum(marketValueUsd)'],
+  })
+  if (rows.length === 0) return null
+
+  const drivers: Driver[] = []
+  const indexByKey = new Map<string, number>()
+  const driverFor = (group: DriverGroup, level: string) => {
+    const key = `${group}\u0000${level}`
+    if (!indexByKey.has(key)) {
+      indexByKey.set(key, drivers.length)
+      drivers.push({ group, level, multiplier: valueMultipliers[group][level] ?? null })
+    }
+    return indexByKey.get(key)!
+  }
+
+  const values = new Float64Array(rows.length)
+  const driverIndex = new Int32Array(rows.length * DRIVER_GROUPS.length)
+  rows.forEach((row, cell) => {
+    values[cell] = row['sum(marketValueUsd)'] / 1000
+    DRIVER_GROUPS.forEach((group, g) => {
+      driverIndex[cell * DRIVER_GROUPS.length + g] = driverFor(group, String(row[group]))
+    })
+  })
+
+  return { year, drivers, values, driverIndex }
+}
+
+// Seeded uniform generator (mulberry32) so reruns are reproducible
+const createRandom = (seed: number) => () => {
+  seed |= 0
+  seed = (seed + 0x6d2b79f5) | 0
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+// Inverse CDF of the symmetric triangular distribution on [1 - s, 1 + s]
+const triangularQuantile = (p: number, spread: number) => p < 0.5
+  ? 1 - spread + spread * Math.sqrt(2 * p)
+  : 1 + spread - spread * Math.sqrt(2 * (1 - p))
+
+const quantile = (sorted: Float64Array, p: number) => {
+  const position = p * (sorted.length - 1)
+  const lower = Math.floor(position)
+  const upper = Math.min(sorted.length - 1, lower + 1)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+/**
+ * Monte Carlo over the drivers: every driver level gets an independent
+ * triangular multiplier around 1 and the year's market value is recomputed.
+ * The tornado swings one driver at a time between its P10 and P90.
+ */
+export function simulate(model: SensitivityModel, { iterations, uncertainty, seed = 42 }: SensitivityOptions): SensitivityResult {
+  const { values, driverIndex, drivers } = model
+  const groups = DRIVER_GROUPS.length
+  const random = createRandom(seed)
+
+  const baseValue = values.reduce((sum, value) => sum + value, 0)
+  const driverValue = new Float64Array(drivers.length)
+  for (let cell = 0; cell < values.length; cell++) {
+    for (let g = 0; g < groups; g++) {
+      driverValue[driverIndex[cell * groups + g]] += values[cell]
+    }
+  }
+
+  const totals = new Float64Array(iterations)
+  const factors = new Float64Array(drivers.length)
+  for (let i = 0; i < iterations; i++) {
+    for (let d = 0; d < drivers.length; d++) {
+      factors[d] = triangularQuantile(random(), uncertainty)
+    }
+    let total = 0
+    for (let cell = 0; cell < values.length; cell++) {
+      let value = values[cell]
+      for (let g = 0; g < groups; g++) {
+        value *= factors[driverIndex[cell * groups + g]]
+      }
+      total += value
+    }
+    totals[i] = total
+  }
+  totals.sort()
+
+  const min = totals[0]
+  const binWidth = (totals[totals.length - 1] - min) / HISTOGRAM_BINS || 1
+  const histogram = Array.from({ length: HISTOGRAM_BINS }, (_, bin) => ({
+    from: min + bin * binWidth,
+    to: min + (bin + 1) * binWidth,
+    count: 0,
+  }))
+  totals.forEach(total => {
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor((total - min) / binWidth))].count++
+  })
+
+  const lowFactor = triangularQuantile(0.1, uncertainty)
+  const highFactor = triangularQuantile(0.9, uncertainty)
+  const tornado = drivers
+    .map((driver, d) => ({
+      driver,
+      low: baseValue + (lowFactor - 1) * driverValue[d],
+      high: baseValue + (highFactor - 1) * driverValue[d],
+    }))
+    .sort((a, b) => (b.high - b.low) - (a.high - a.low))
+
+  return {
+    year: model.year,
+    iterations,
+    baseValue,
+    mean: totals.reduce((sum, total) => sum + total, 0) / iterations,
+    p10: quantile(totals, 0.1),
+    p50: quantile(totals, 0.5),
+    p90: quantile(totals, 0.9),
+    histogram,
+    tornado,
+  }
+}
@@ -0,0 +1,38 @@
+import { simulate, type SensitivityModel, type SensitivityOptions, type SensitivityResult } from './sensitivity'
+import type { SensitivityWorkerRequest, SensitivityWorkerResponse } from '../workers/sensitivityWorker'
+
+const simulateInWorker = (model: SensitivityModel, options: SensitivityOptions): Promise<SensitivityResult> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/sensitivityWorker.ts', import.meta.url), { type: 'module' })
+
+    worker.onmessage = (event: MessageEvent<SensitivityWorkerResponse>) => {
+      worker.terminate()
+      const message = event.data
+      if (message.type === 'done') {
+        resolve(message.result)
+      } else {
+        reject(new Error(message.message))
+      }
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message || 'Sensitivity worker failed'))
+    }
+
+    const request: SensitivityWorkerRequest = { type: 'simulate', model, options }
+    worker.postMessage(request)
+  })
+
+/**
+ * Run the Monte Carlo simulation off the main thread, falling back to the
+ * main thread where workers are unavailable or fail to start.
+ */
+export function runSensitivityAnalysis(model: SensitivityModel, options: SensitivityOptions): Promise<SensitivityResult> {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve().then(() => simulate(model, options))
+  }
+  return simulateInWorker(model, options).catch((error) => {
+    console.error('Sensitivity worker failed, simulating on the main thread:', error)
+    return simulate(model, options)
+  })
+}
@@ -0,0 +1,415 @@
+// Simplified outlines of the 48 contiguous U.S. states, bundled so the map
+// works offline. Rings are [longitude, latitude] pairs; neighbouring states
+// share vertices along their common borders.
+
+export type LonLat = [number, number]
+
+export interface StateShape {
+  name: string
+  abbr: string
+  rings: LonLat[][]
+}
+
+export const US_STATES: StateShape[] = [
+  {
+    name: 'Washington',
+    abbr: 'WA',
+    rings: [[
+      [-122.75, 49.0], [-117.04, 49.0], [-117.04, 46.42], [-116.92, 46.0], [-119.0, 46.0], [-120.9, 45.65],
+      [-122.3, 45.55], [-123.0, 46.1], [-124.05, 46.27], [-124.2, 47.3], [-124.73, 48.38], [-123.2, 48.2],
+    ]],
+  },
+  {
+    name: 'Oregon',
+    abbr: 'OR',
+    rings: [[
+      [-124.05, 46.27], [-123.0, 46.1], [-122.3, 45.55], [-120.9, 45.65], [-119.0, 46.0], [-116.92, 46.0],
+      [-116.46, 45.6], [-116.9, 44.4], [-117.03, 43.8], [-117.03, 42.0], [-124.21, 42.0], [-124.55, 42.8],
+      [-124.1, 44.5], [-123.95, 45.5],
+    ]],
+  },
+  {
+    name: 'California',
+    abbr: 'CA',
+    rings: [[
+      [-124.21, 42.0], [-120.0, 42.0], [-120.0, 39.0], [-114.63, 35.0], [-114.13, 34.3], [-114.72, 32.72],
+      [-117.12, 32.53], [-118.5, 34.0], [-120.6, 34.55], [-121.9, 36.6], [-122.5, 37.7], [-123.7, 38.9],
+      [-123.8, 40.0], [-124.4, 40.4],
+    ]],
+  },
+  {
+    name: 'Nevada',
+    abbr: 'NV',
+    rings: [[
+      [-120.0, 42.0], [-114.04, 42.0], [-114.04, 37.0], [-114.04, 36.2], [-114.63, 35.0], [-120.0, 39.0],
+    ]],
+  },
+  {
+    name: 'Idaho',
+    abbr: 'ID',
+    rings: [[
+      [-117.04, 49.0], [-116.05, 49.0], [-116.05, 47.98], [-115.7, 47.45], [-114.35, 46.65], [-114.55, 45.55],
+      [-113.45, 44.85], [-112.8, 44.4], [-111.05, 44.5], [-111.05, 42.0], [-114.04, 42.0], [-117.03, 42.0],
+      [-117.03, 43.8], [-116.9, 44.4], [-116.46, 45.6], [-116.92, 46.0], [-117.04, 46.42],
+    ]],
+  },
+  {
+    name: 'Montana',
+    abbr: 'MT',
+    rings: [[
+      [-116.05, 49.0], [-104.05, 49.0], [-104.05, 45.0], [-111.05, 45.0], [-111.05, 44.5], [-112.8, 44.4],
+      [-113.45, 44.85], [-114.55, 45.55], [-114.35, 46.65], [-115.7, 47.45], [-116.05, 47.98],
+    ]],
+  },
+  {
+    name: 'Wyoming',
+    abbr: 'WY',
+    rings: [[[-111.05, 45.0], [-104.05, 45.0], [-104.05, 43.0], [-104.05, 41.0], [-111.05, 41.0], [-111.05, 42.0], [-111.05, 44.5]]],
+  },
+  {
+    name: 'Utah',
+    abbr: 'UT',
+    rings: [[[-114.04, 42.0], [-111.05, 42.0], [-111.05, 41.0], [-109.05, 41.0], [-109.05, 37.0], [-114.04, 37.0]]],
+  },
+  {
+    name: 'Arizona',
+    abbr: 'AZ',
+    rings: [[
+      [-114.04, 37.0], [-109.05, 37.0], [-109.05, 31.33], [-111.07, 31.33], [-114.81, 32.49], [-114.72, 32.72],
+      [-114.13, 34.3], [-114.63, 35.0], [-114.04, 36.2],
+    ]],
+  },
+  {
+    name: 'Colorado',
+    abbr: 'CO',
+    rings: [[[-109.05, 41.0], [-104.05, 41.0], [-102.05, 41.0], [-102.05, 40.0], [-102.05, 37.0], [-103.0, 37.0], [-109.05, 37.0]]],
+  },
+  {
+    name: 'New Mexico',
+    abbr: 'NM',
+    rings: [[
+      [-109.05, 37.0], [-103.0, 37.0], [-103.0, 36.5], [-103.0, 32.0], [-106.62, 32.0], [-106.53, 31.78],
+      [-108.2, 31.78], [-108.2, 31.33], [-109.05, 31.33],
+    ]],
+  },
+  {
+    name: 'North Dakota',
+    abbr: 'ND',
+    rings: [[[-104.05, 49.0], [-97.23, 49.0], [-96.56, 45.94], [-104.05, 45.94]]],
+  },
+  {
+    name: 'South Dakota',
+    abbr: 'SD',
+    rings: [[
+      [-104.05, 45.94], [-96.56, 45.94], [-96.45, 45.3], [-96.45, 43.5], [-96.6, 42.5], [-98.5, 43.0], [-104.05, 43.0],
+    ]],
+  },
+  {
+    name: 'Nebraska',
+    abbr: 'NE',
+    rings: [[
+      [-104.05, 43.0], [-98.5, 43.0], [-96.6, 42.5], [-96.05, 41.55], [-95.77, 40.58], [-95.3, 40.0],
+      [-102.05, 40.0], [-102.05, 41.0], [-104.05, 41.0],
+    ]],
+  },
+  {
+    name: 'Kansas',
+    abbr: 'KS',
+    rings: [[[-102.05, 40.0], [-95.3, 40.0], [-94.62, 39.1], [-94.62, 37.0], [-102.05, 37.0]]],
+  },
+  {
+    name: 'Oklahoma',
+    abbr: 'OK',
+    rings: [[
+      [-103.0, 37.0], [-102.05, 37.0], [-94.62, 37.0], [-94.62, 36.5], [-94.43, 35.4], [-94.48, 33.64],
+      [-96.0, 33.8], [-97.5, 33.9], [-99.5, 34.4], [-100.0, 34.56], [-100.0, 36.5], [-103.0, 36.5],
+    ]],
+  },
+  {
+    name: 'Texas',
+    abbr: 'TX',
+    rings: [[
+      [-103.0, 36.5], [-100.0, 36.5], [-100.0, 34.56], [-99.5, 34.4], [-97.5, 33.9], [-96.0, 33.8],
+      [-94.48, 33.64], [-94.04, 33.55], [-94.04, 33.0], [-94.04, 32.0], [-93.7, 31.0], [-93.84, 29.7],
+      [-94.7, 29.35], [-96.5, 28.3], [-97.4, 27.3], [-97.15, 25.95], [-99.1, 26.4], [-99.5, 27.5],
+      [-101.4, 29.77], [-103.1, 29.0], [-104.5, 29.6], [-106.53, 31.78], [-106.62, 32.0], [-103.0, 32.0],
+    ]],
+  },
+  {
+    name: 'Minnesota',
+    abbr: 'MN',
+    rings: [[
+      [-97.23, 49.0], [-95.15, 49.0], [-95.15, 49.38], [-94.8, 49.3], [-93.0, 48.6], [-90.0, 48.1],
+      [-89.5, 48.0], [-92.1, 46.75], [-92.3, 46.1], [-92.9, 45.6], [-92.75, 45.0], [-91.8, 44.4],
+      [-91.22, 43.5], [-96.45, 43.5], [-96.45, 45.3], [-96.56, 45.94],
+    ]],
+  },
+  {
+    name: 'Iowa',
+    abbr: 'IA',
+    rings: [[
+      [-96.45, 43.5], [-91.22, 43.5], [-90.64, 42.5], [-90.15, 41.8], [-91.0, 41.15], [-91.42, 40.38],
+      [-95.77, 40.58], [-96.05, 41.55], [-96.6, 42.5],
+    ]],
+  },
+  {
+    name: 'Missouri',
+    abbr: 'MO',
+    rings: [[
+      [-95.77, 40.58], [-91.42, 40.38], [-90.95, 39.4], [-90.18, 38.8], [-89.52, 37.3], [-89.1, 36.95],
+      [-89.5, 36.5], [-89.7, 36.0], [-90.37, 36.0], [-90.15, 36.5], [-94.62, 36.5], [-94.62, 37.0],
+      [-94.62, 39.1], [-95.3, 40.0],
+    ]],
+  },
+  {
+    name: 'Arkansas',
+    abbr: 'AR',
+    rings: [[
+      [-94.62, 36.5], [-90.15, 36.5], [-90.37, 36.0], [-89.7, 36.0], [-90.3, 35.0], [-91.05, 33.8],
+      [-91.17, 33.0], [-94.04, 33.0], [-94.04, 33.55], [-94.48, 33.64], [-94.43, 35.4],
+    ]],
+  },
+  {
+    name: 'Louisiana',
+    abbr: 'LA',
+    rings: [[
+      [-94.04, 33.0], [-91.17, 33.0], [-91.65, 31.0], [-89.73, 31.0], [-89.6, 30.18], [-89.0, 29.2],
+      [-90.2, 29.1], [-91.3, 29.3], [-92.3, 29.55], [-93.84, 29.7], [-93.7, 31.0], [-94.04, 32.0],
+    ]],
+  },
+  {
+    name: 'Wisconsin',
+    abbr: 'WI',
+    rings: [[
+      [-90.64, 42.5], [-91.22, 43.5], [-91.8, 44.4], [-92.75, 45.0], [-92.9, 45.6], [-92.3, 46.1],
+      [-92.1, 46.75], [-90.4, 46.57], [-88.1, 45.9], [-87.6, 45.1], [-87.0, 45.3], [-87.9, 43.0], [-87.8, 42.5],
+    ]],
+  },
+  {
+    name: 'Illinois',
+    abbr: 'IL',
+    rings: [[
+      [-90.64, 42.5], [-87.8, 42.5], [-87.53, 41.7], [-87.53, 39.35], [-87.6, 38.7], [-88.05, 37.8],
+      [-88.1, 37.5], [-89.1, 36.95], [-89.52, 37.3], [-90.18, 38.8], [-90.95, 39.4], [-91.42, 40.38],
+      [-91.0, 41.15], [-90.15, 41.8],
+    ]],
+  },
+  {
+    name: 'Michigan',
+    abbr: 'MI',
+    rings: [
+      [
+        [-86.8, 41.76], [-84.8, 41.7], [-83.45, 41.73], [-82.4, 43.0], [-82.6, 44.0], [-83.4, 43.9],
+        [-83.3, 44.8], [-84.7, 45.8], [-85.4, 45.2], [-86.2, 44.6], [-86.45, 43.5], [-86.2, 42.6],
+      ],
+      [
+        [-90.4, 46.57], [-88.1, 45.9], [-87.6, 45.1], [-86.6, 45.9], [-85.0, 46.0], [-84.1, 46.3],
+        [-84.6, 46.5], [-85.5, 46.7], [-86.9, 46.45], [-87.7, 46.9], [-88.5, 47.3], [-89.6, 46.8],
+      ],
+    ],
+  },
+  {
+    name: 'Indiana',
+    abbr: 'IN',
+    rings: [[
+      [-87.53, 41.7], [-86.8, 41.76], [-84.8, 41.7], [-84.82, 39.1], [-85.9, 38.2], [-86.7, 37.9],
+      [-87.6, 37.95], [-88.05, 37.8], [-87.6, 38.7], [-87.53, 39.35],
+    ]],
+  },
+  {
+    name: 'Ohio',
+    abbr: 'OH',
+    rings: [[
+      [-84.8, 41.7], [-83.45, 41.73], [-82.7, 41.45], [-81.6, 41.5], [-80.52, 41.98], [-80.52, 40.64],
+      [-80.6, 40.0], [-80.9, 39.6], [-81.7, 39.2], [-82.6, 38.4], [-83.0, 38.7], [-84.3, 39.05], [-84.82, 39.1],
+    ]],
+  },
+  {
+    name: 'Kentucky',
+    abbr: 'KY',
+    rings: [[
+      [-89.5, 36.5], [-89.1, 36.95], [-88.1, 37.5], [-88.05, 37.8], [-87.6, 37.95], [-86.7, 37.9],
+      [-85.9, 38.2], [-84.82, 39.1], [-84.3, 39.05], [-83.0, 38.7], [-82.6, 38.4], [-82.6, 38.15],
+      [-81.97, 37.54], [-82.9, 37.0], [-83.68, 36.6], [-88.07, 36.68], [-88.05, 36.5],
+    ]],
+  },
+  {
+    name: 'Tennessee',
+    abbr: 'TN',
+    rings: [[
+      [-90.3, 35.0], [-89.7, 36.0], [-89.5, 36.5], [-88.05, 36.5], [-88.07, 36.68], [-83.68, 36.6],
+      [-81.68, 36.59], [-83.1, 35.75], [-84.32, 35.0], [-85.6, 35.0], [-88.2, 35.0],
+    ]],
+  },
+  {
+    name: 'Mississippi',
+    abbr: 'MS',
+    rings: [[
+      [-90.3, 35.0], [-88.2, 35.0], [-88.47, 31.9], [-88.4, 30.4], [-89.6, 30.18], [-89.73, 31.0],
+      [-91.65, 31.0], [-91.17, 33.0], [-91.05, 33.8],
+    ]],
+  },
+  {
+    name: 'Alabama',
+    abbr: 'AL',
+    rings: [[
+      [-88.2, 35.0], [-85.6, 35.0], [-85.18, 32.87], [-85.0, 32.5], [-85.1, 31.8], [-85.0, 31.0],
+      [-87.6, 31.0], [-87.5, 30.3], [-88.0, 30.7], [-88.4, 30.4], [-88.47, 31.9],
+    ]],
+  },
+  {
+    name: 'Georgia',
+    abbr: 'GA',
+    rings: [[
+      [-85.6, 35.0], [-84.32, 35.0], [-83.1, 35.0], [-82.95, 34.5], [-82.2, 33.65], [-81.5, 33.0],
+      [-80.9, 32.05], [-81.45, 30.7], [-82.2, 30.57], [-84.86, 30.7], [-85.0, 31.0], [-85.1, 31.8],
+      [-85.0, 32.5], [-85.18, 32.87],
+    ]],
+  },
+  {
+    name: 'Florida',
+    abbr: 'FL',
+    rings: [[
+      [-87.6, 31.0], [-85.0, 31.0], [-84.86, 30.7], [-82.2, 30.57], [-81.45, 30.7], [-81.3, 29.9],
+      [-80.6, 28.5], [-80.0, 26.8], [-80.1, 25.8], [-80.4, 25.2], [-81.1, 25.1], [-81.8, 26.1],
+      [-82.1, 26.9], [-82.65, 27.8], [-82.8, 28.9], [-83.7, 29.9], [-84.4, 30.0], [-85.4, 29.7],
+      [-86.5, 30.4], [-87.5, 30.3],
+    ]],
+  },
+  {
+    name: 'South Carolina',
+    abbr: 'SC',
+    rings: [[
+      [-83.1, 35.0], [-82.4, 35.2], [-80.9, 35.1], [-80.8, 34.8], [-79.7, 34.8], [-78.55, 33.86],
+      [-79.2, 33.2], [-80.4, 32.5], [-80.9, 32.05], [-81.5, 33.0], [-82.2, 33.65], [-82.95, 34.5],
+    ]],
+  },
+  {
+    name: 'North Carolina',
+    abbr: 'NC',
+    rings: [[
+      [-75.95, 36.55], [-81.68, 36.59], [-83.1, 35.75], [-84.32, 35.0], [-83.1, 35.0], [-82.4, 35.2],
+      [-80.9, 35.1], [-80.8, 34.8], [-79.7, 34.8], [-78.55, 33.86], [-77.9, 34.0], [-76.5, 34.7],
+      [-75.5, 35.2], [-75.5, 35.8],
+    ]],
+  },
+  {
+    name: 'Virginia',
+    abbr: 'VA',
+    rings: [[
+      [-77.72, 39.32], [-77.05, 38.8], [-77.0, 38.4], [-76.3, 38.0], [-76.3, 37.0], [-75.95, 36.55],
+      [-81.68, 36.59], [-83.68, 36.6], [-82.9, 37.0], [-81.97, 37.54], [-81.2, 37.25], [-80.3, 37.5],
+      [-80.0, 37.9], [-79.0, 38.6], [-78.4, 38.9],
+    ]],
+  },
+  {
+    name: 'West Virginia',
+    abbr: 'WV',
+    rings: [[
+      [-80.52, 40.64], [-80.52, 39.72], [-79.48, 39.72], [-79.48, 39.2], [-78.35, 39.45], [-77.72, 39.32],
+      [-78.4, 38.9], [-79.0, 38.6], [-80.0, 37.9], [-80.3, 37.5], [-81.2, 37.25], [-81.97, 37.54],
+      [-82.6, 38.15], [-82.6, 38.4], [-81.7, 39.2], [-80.9, 39.6], [-80.6, 40.0],
+    ]],
+  },
+  {
+    name: 'Maryland',
+    abbr: 'MD',
+    rings: [[
+      [-79.48, 39.72], [-75.79, 39.72], [-75.7, 38.45], [-75.05, 38.45], [-75.25, 38.03], [-75.9, 37.95],
+      [-76.3, 38.0], [-77.0, 38.4], [-77.05, 38.8], [-77.72, 39.32], [-78.35, 39.45], [-79.48, 39.2],
+    ]],
+  },
+  {
+    name: 'Delaware',
+    abbr: 'DE',
+    rings: [[[-75.79, 39.72], [-75.4, 39.8], [-75.55, 39.6], [-75.05, 38.8], [-75.05, 38.45], [-75.7, 38.45]]],
+  },
+  {
+    name: 'Pennsylvania',
+    abbr: 'PA',
+    rings: [[
+      [-80.52, 41.98], [-79.76, 42.27], [-79.76, 42.0], [-75.36, 42.0], [-74.7, 41.36], [-75.13, 40.98],
+      [-74.72, 40.15], [-75.4, 39.8], [-75.79, 39.72], [-79.48, 39.72], [-80.52, 39.72], [-80.52, 40.64],
+    ]],
+  },
+  {
+    name: 'New Jersey',
+    abbr: 'NJ',
+    rings: [[
+      [-74.7, 41.36], [-73.9, 41.0], [-74.0, 40.7], [-74.25, 40.45], [-74.0, 40.1], [-74.4, 39.4],
+      [-74.95, 38.93], [-75.55, 39.6], [-75.4, 39.8], [-74.72, 40.15], [-75.13, 40.98],
+    ]],
+  },
+  {
+    name: 'New York',
+    abbr: 'NY',
+    rings: [
+      [
+        [-79.76, 42.0], [-79.76, 42.27], [-79.0, 43.3], [-76.3, 43.5], [-76.2, 44.2], [-74.7, 45.0],
+        [-73.35, 45.0], [-73.25, 42.75], [-73.5, 42.05], [-73.49, 41.1], [-73.66, 41.0], [-74.0, 40.7],
+        [-73.9, 41.0], [-74.7, 41.36], [-75.36, 42.0],
+      ],
+      [[-73.95, 40.58], [-73.75, 40.85], [-72.5, 41.1], [-71.85, 41.07], [-72.9, 40.73]],
+    ],
+  },
+  {
+    name: 'Connecticut',
+    abbr: 'CT',
+    rings: [[[-73.5, 42.05], [-71.8, 42.02], [-71.86, 41.32], [-72.9, 41.25], [-73.66, 41.0], [-73.49, 41.1]]],
+  },
+  {
+    name: 'Rhode Island',
+    abbr: 'RI',
+    rings: [[[-71.8, 42.02], [-71.38, 42.02], [-71.12, 41.5], [-71.4, 41.45], [-71.86, 41.32]]],
+  },
+  {
+    name: 'Massachusetts',
+    abbr: 'MA',
+    rings: [[
+      [-73.5, 42.05], [-73.25, 42.75], [-72.46, 42.73], [-71.3, 42.7], [-70.82, 42.87], [-70.6, 42.65],
+      [-71.0, 42.3], [-70.6, 41.95], [-70.0, 42.05], [-69.95, 41.67], [-70.65, 41.55], [-71.12, 41.5],
+      [-71.38, 42.02], [-71.8, 42.02],
+    ]],
+  },
+  {
+    name: 'Vermont',
+    abbr: 'VT',
+    rings: [[[-73.35, 45.0], [-71.5, 45.01], [-71.6, 44.5], [-72.0, 44.3], [-72.4, 43.3], [-72.46, 42.73], [-73.25, 42.75]]],
+  },
+  {
+    name: 'New Hampshire',
+    abbr: 'NH',
+    rings: [[
+      [-71.5, 45.01], [-71.08, 45.3], [-70.98, 43.8], [-70.7, 43.07], [-70.82, 42.87], [-71.3, 42.7],
+      [-72.46, 42.73], [-72.4, 43.3], [-72.0, 44.3], [-71.6, 44.5],
+    ]],
+  },
+  {
+    name: 'Maine',
+    abbr: 'ME',
+    rings: [[
+      [-71.08, 45.3], [-70.98, 43.8], [-70.7, 43.07], [-70.2, 43.6], [-69.0, 44.1], [-67.8, 44.5],
+      [-66.95, 44.8], [-67.8, 45.7], [-67.8, 47.07], [-68.2, 47.35], [-69.2, 47.45], [-70.0, 46.7], [-70.3, 45.9],
+    ]],
+  },
+]
+
+// Albers equal-area conic with the standard U.S. parallels
+const PARALLELS: [number, number] = [29.5, 45.5]
+const ORIGIN: LonLat = [-96, 23]
+
+const radians = (degrees: number) => (degrees * Math.PI) / 180
+const n = (Math.sin(radians(PARALLELS[0])) + Math.sin(radians(PARALLELS[1]))) / 2
+const c = Math.cos(radians(PARALLELS[0])) ** 2 + 2 * n * Math.sin(radians(PARALLELS[0]))
+const rho = (latitude: number) => Math.sqrt(c - 2 * n * Math.sin(radians(latitude))) / n
+const rho0 = rho(ORIGIN[1])
+
+/**
+ * Project a point to plane coordinates, in Earth radii. y grows southward so
+ * the result can be used as SVG coordinates directly.
+ */
+export function projectAlbers([longitude, latitude]: LonLat): [number, number] {
+  const theta = n * radians(longitude - ORIGIN[0])
+  const r = rho(latitude)
+  return [r * Math.sin(theta), r * Math.cos(theta) - rho0]
+}
@@ -0,0 +1,145 @@
+import type { CustomerIntelligenceData } from './csvParser'
+
+export interface VolumeEstimate {
+  min: number | null
+  max: number | null
+  midpoint: number | null
+  isRange: boolean
+  unit: string
+  productMix: string[]
+  raw: string
+}
+
+export interface VolumeRollup {
+  key: string
+  accounts: number
+  parsedAccounts: number
+  min: number
+  max: number
+  midpoint: number
+}
+
+export type VolumeRollupDimension = 'region' | 'industrySector'
+
+// Matches "6,000" / "10,000" / "7385" as individual number tokens. Thousands
+// separators let us split "6,00010,000" (an en-dash lost in the CSV export)
+// back into "6,000" and "10,000".
+const NUMBER_TOKEN = /\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g
+
+const toNumber = (token: string): number => Number(token.replace(/,/g, ''))
+
+const normalizeUnit = (text: string): string => {
+  const unit = text
+    .replace(/\(.*$/, '')
+    .replace(/[.;]+$/, '')
+    .trim()
+  if (!unit || /^(units?|pcs|pieces)\b/i.test(unit)) {
+    return 'units'
+  }
+  return unit
+}
+
+const parseProductMix = (text: string): string[] => {
+  const match = text.match(/\(([^)]*)\)/)
+  if (!match) return []
+  return match[1]
+    .replace(/^\s*mix of\s*/i, '')
+    .split(/,|\/|\band\b/)
+    .map(item => item.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Parse an "Estimated Volume Requirement (Annual)" value such as
+ * "6,00010,000 hand/garden shovels (mix of round-point, trenching, square)."
+ * or "7385 units/year" into a numeric range, unit and product mix.
+ */
+export function parseVolumeRequirement(raw: string): VolumeEstimate {
+  const value = (raw || '').trim()
+  const empty: VolumeEstimate = { min: null, max: null, midpoint: null, isRange: false, unit: '', productMix: [], raw: value }
+  if (!value) return empty
+
+  // Only numbers before the product mix describe the volume
+  const head = value.replace(/\(.*$/, '')
+  const tokens: Array<{ text: string; end: number }> = []
+  let match: RegExpExecArray | null
+  NUMBER_TOKEN.lastIndex = 0
+  while ((match = NUMBER_TOKEN.exec(head)) !== null) {
+    tokens.push({ text: match[0], end: match.index + match[0].length })
+    if (tokens.length === 2) break
+  }
+  if (tokens.length === 0) return empty
+
+  const first = toNumber(tokens[0].text)
+  let min = first
+  let max = first
+  let unitStart = tokens[0].end
+
+  // A second number counts as the upper bound when only a range separator
+  // (or nothing at all, after the encoding loss) sits between the two
+  if (tokens.length === 2) {
+    const between = head.slice(tokens[0].end, tokens[1].end - tokens[1].text.length)
+    if (/^\s*(?:[-–—~]|to)?\s*$/i.test(between)) {
+      const second = toNumber(tokens[1].text)
+      min = Math.min(first, second)
+      max = Math.max(first, second)
+      unitStart = tokens[1].end
+    }
+  }
+
+  return {
+    min,
+    max,
+    midpoint: (min + max) / 2,
+    isRange: min !== max,
+    unit: normalizeUnit(value.slice(unitStart)),
+    productMix: parseProductMix(value),
+    raw: value,
+  }
+}
+
+/**
+ * Roll the parsed annual volume of every account up by region or industry
+ * sector, giving a bottom-up total addressable volume per group.
+ */
+export function rollupAddressableVolume(
+  data: CustomerIntelligenceData[],
+  dimension: VolumeRollupDimension
+): VolumeRollup[] {
+  const groups = new Map<string, VolumeRollup>()
+
+  data.forEach(row => {
+    const key = row[dimension] || 'Unspecified'
+    if (!groups.has(key)) {
+      groups.set(key, { key, accounts: 0, parsedAccounts: 0, min: 0, max: 0, midpoint: 0 })
+    }
+    const group = groups.get(key)!
+    group.accounts += 1
+
+    const estimate = parseVolumeRequirement(row.estimatedVolumeRequirement)
+    if (estimate.midpoint !== null) {
+      group.parsedAccounts += 1
+      group.min += estimate.min || 0
+      group.max += estimate.max || 0
+      group.midpoint += estimate.midpoint
+    }
+  })
+
+  return Array.from(groups.values()).sort((a, b) => b.midpoint - a.midpoint)
+}
+
+/**
+ * Total addressable volume across all accounts.
+ */
+export function getTotalAddressableVolume(data: CustomerIntelligenceData[]): Omit<VolumeRollup, 'key'> {
+  return rollupAddressableVolume(data, 'region').reduce(
+    (total, group) => ({
+      accounts: total.accounts + group.accounts,
+      parsedAccounts: total.parsedAccounts + group.parsedAccounts,
+      min: total.min + group.min,
+      max: total.max + group.max,
+      midpoint: total.midpoint + group.midpoint,
+    }),
+    { accounts: 0, parsedAccounts: 0, min: 0, max: 0, midpoint: 0 }
+  )
+}
@@ -0,0 +1,28 @@
+import { generateComprehensiveData } from '../utils/dataGenerator'
+import { buildColumnarStore, getTransferables, type ColumnarStore } from '../utils/columnarStore'
+
+export type DataWorkerRequest = { type: 'generate' }
+
+export type DataWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'indexing' }
+  | { type: 'done'; store: ColumnarStore }
+  | { type: 'error'; message: string }
+
+const post = (message: DataWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer })
+
+self.onmessage = (event: MessageEvent<DataWorkerRequest>) => {
+  if (event.data.type !== 'generate') return
+
+  try {
+    const data = generateComprehensiveData(progress => post({ type: 'progress', progress }))
+    post({ type: 'indexing' })
+
+    // Only the typed-array columns cross to the main thread, and they are
+    // transferred rather than copied
+    const store = buildColumnarStore(data)
+    post({ type: 'done', store }, getTransferables(store))
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -0,0 +1,19 @@
+import { simulate, type SensitivityModel, type SensitivityOptions, type SensitivityResult } from '../utils/sensitivity'
+
+export type SensitivityWorkerRequest = { type: 'simulate'; model: SensitivityModel; options: SensitivityOptions }
+
+export type SensitivityWorkerResponse =
+  | { type: 'done'; result: SensitivityResult }
+  | { type: 'error'; message: string }
+
+const post = (message: SensitivityWorkerResponse) => self.postMessage(message)
+
+self.onmessage = (event: MessageEvent<SensitivityWorkerRequest>) => {
+  if (event.data.type !== 'simulate') return
+
+  try {
+    post({ type: 'done', result: simulate(event.data.model, event.data.options) })
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}